@@ -1,15 +1,15 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
 
 import fs from 'fs';
-import minimatch from 'minimatch';
 import { gzip } from 'node-gzip';
 import { program } from '@caporal/core';
-import { Logger, NodeIO, PropertyType, VertexLayout, vec2 } from '@gltf-transform/core';
+import { Animation, Logger, Mesh, Node, NodeIO, PropertyType, ResourceMode, Scene, VertexLayout, vec2 } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
-import { CenterOptions, InstanceOptions, PartitionOptions, PruneOptions, QUANTIZE_DEFAULTS, ResampleOptions, SequenceOptions, TEXTURE_RESIZE_DEFAULTS, TextureResizeFilter, UnweldOptions, WeldOptions, center, dedup, instance, metalRough, partition, prune, quantize, resample, sequence, tangents, textureResize, unweld, weld } from '@gltf-transform/functions';
+import { CenterOptions, InstanceOptions, LODOptions, LOD_DEFAULTS, PartitionOptions, PruneOptions, QUANTIZE_DEFAULTS, ResampleOptions, SIMPLIFY_DEFAULTS, SequenceOptions, SimplifyOptions, TEXTURE_RESIZE_DEFAULTS, TextureResizeFilter, UnweldOptions, WeldOptions, center, dedup, instance, lod, metalRough, partition, prune, quantize, resample, sequence, simplify, tangents, textureResize, unweld, weld } from '@gltf-transform/functions';
+import { DiffFormat, diff } from './diff';
 import { InspectFormat, inspect } from './inspect';
-import { DRACO_DEFAULTS, DracoCLIOptions, ETC1S_DEFAULTS, Filter, Mode, UASTC_DEFAULTS, draco, ktxfix, merge, toktx, unlit } from './transforms';
-import { Session, formatBytes } from './util';
+import { DRACO_DEFAULTS, DracoCLIOptions, ETC1S_DEFAULTS, Filter, MESHOPT_DEFAULTS, MeshoptCLIOptions, Mode, UASTC_DEFAULTS, draco, ktxfix, merge, meshopt, toktx, unlit } from './transforms';
+import { Session, formatBytes, parsePattern } from './util';
 import { ValidateOptions, validate } from './validate';
 
 let io: NodeIO;
@@ -17,24 +17,31 @@ let io: NodeIO;
 // Use require() so microbundle doesn't compile these.
 const draco3d = require('draco3dgltf');
 const mikktspace = require('mikktspace');
+const { MeshoptDecoder, MeshoptEncoder } = require('meshoptimizer');
 
 const programReady = new Promise<void>((resolve) => {
 	Promise.all([
 		draco3d.createDecoderModule(),
-		draco3d.createEncoderModule()
+		draco3d.createEncoderModule(),
+		MeshoptDecoder.ready,
+		MeshoptEncoder.ready,
 	]).then(([decoder, encoder]) => {
 		io = new NodeIO()
 			.registerExtensions(ALL_EXTENSIONS)
 			.registerDependencies({
 				'draco3d.decoder': decoder,
 				'draco3d.encoder': encoder,
+				'meshopt.decoder': MeshoptDecoder,
+				'meshopt.encoder': MeshoptEncoder,
 			});
 		resolve();
 	});
 });
 
-const INPUT_DESC = 'Path to read glTF 2.0 (.glb, .gltf) model';
-const OUTPUT_DESC = 'Path to write output';
+const INPUT_DESC = 'Path to read glTF 2.0 (.glb, .gltf, or .zip containing .gltf), Wavefront'
+	+ ' (.obj), STL (.stl), or PLY (.ply) model';
+const OUTPUT_DESC = 'Path to write output (.glb, .gltf, .zip containing .gltf, .obj, .stl, or'
+	+ ' .ply)';
 
 program
 	.version(require('../package.json').version)
@@ -105,6 +112,38 @@ Example:
 		);
 	});
 
+// DIFF
+program
+	.command('diff', 'Compare the contents of two models')
+	.help(`
+Compare the contents of two models, printing a table of the scenes, nodes,
+meshes, materials, textures, accessors, and animations added, removed, or
+modified in the second model, with per-field changes. Properties are matched
+by name, then by content, and then by structure, so renamed properties are
+reported as modified rather than removed and added.
+
+Use --format=json for machine-readable output, or --format=md to post readable
+diffs in pull requests.
+
+Example:
+
+  ▸ gltf-transform diff before.glb after.glb --format md
+	`.trim())
+	.argument('<a>', 'Path to read the original glTF 2.0 (.glb, .gltf) model')
+	.argument('<b>', 'Path to read the modified glTF 2.0 (.glb, .gltf) model')
+	.option('--format <format>', 'Output format', {
+		validator: [DiffFormat.PRETTY, DiffFormat.JSON, DiffFormat.MD],
+		default: DiffFormat.PRETTY
+	})
+	.action(({args, options, logger}) => {
+		io.setLogger(logger as unknown as Logger);
+		diff(
+			io.read(args.a as string),
+			io.read(args.b as string),
+			options.format as DiffFormat
+		);
+	});
+
 program.command('', '\n\n📦 PACKAGE ──────────────────────────────────────────');
 
 // COPY
@@ -128,10 +167,30 @@ certain aspects of data layout may change slightly with this process:
 - Vertex attributes within a mesh are interleaved.
 - Accessors are organized into buffer views according to usage.
 - Draco compression is removed to avoid a lossy decompress/compress round trip.
+
+With --embed, buffers and images are embedded in a .gltf output file as base64
+Data URIs, producing a single file. Otherwise, resources embedded as Data URIs
+in the input are written to external files alongside .gltf output.
+
+Output to .obj, .stl, or .ply exports the default scene for tools without glTF
+support, with node transforms baked into vertex data. OBJ output includes an
+.mtl material library and textures, written alongside the .obj file.
 `.trim())
 	.argument('<input>', INPUT_DESC)
 	.argument('<output>', OUTPUT_DESC)
-	.action(({args, logger}) => Session.create(io, logger, args.input, args.output).transform());
+	.option('--embed', 'Embed resources in .gltf output as Data URIs', {
+		validator: program.BOOLEAN,
+		default: false,
+	})
+	.action(async ({args, options, logger}) => {
+		io.setResourceMode(options.embed ? ResourceMode.EMBEDDED : ResourceMode.EXTERNAL);
+		try {
+			await Session.create(io, logger, args.input, args.output).transform();
+		} finally {
+			// Restores the default, as other commands share the same I/O instance.
+			io.setResourceMode(ResourceMode.EXTERNAL);
+		}
+	});
 
 // MERGE
 program
@@ -318,6 +377,61 @@ https://github.com/KhronosGroup/glTF/tree/master/extensions/2.0/Vendor/EXT_mesh_
 			.transform(instance({...options} as InstanceOptions))
 	);
 
+// EXTRACT
+program
+	.command('extract', 'Extract scenes, nodes, meshes, or animations into a new model')
+	.help(`
+Extract scenes, nodes, meshes, or animations matching the given patterns into a
+new model, along with everything they depend on: child nodes, materials,
+textures, accessors, skins, and extension properties. Patterns are
+case-insensitive globs, matched against property names. Useful for pulling
+individual props out of large kitbash files.
+
+If no scene is extracted, extracted nodes and meshes are added to a new scene.
+
+Example:
+
+  ▸ gltf-transform extract kitbash.glb chair.glb --nodes "Chair*"
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--scenes <pattern>', 'Pattern for scene names (case-insensitive glob)', {
+		validator: program.STRING,
+		default: '',
+	})
+	.option('--nodes <pattern>', 'Pattern for node names (case-insensitive glob)', {
+		validator: program.STRING,
+		default: '',
+	})
+	.option('--meshes <pattern>', 'Pattern for mesh names (case-insensitive glob)', {
+		validator: program.STRING,
+		default: '',
+	})
+	.option('--animations <pattern>', 'Pattern for animation names (case-insensitive glob)', {
+		validator: program.STRING,
+		default: '',
+	})
+	.action(({args, options, logger}) => {
+		io.setLogger(logger as unknown as Logger);
+		const doc = io.read(args.input as string).setLogger(logger as unknown as Logger);
+		const patterns: [PropertyType, string][] = [
+			[PropertyType.SCENE, options.scenes as string],
+			[PropertyType.NODE, options.nodes as string],
+			[PropertyType.MESH, options.meshes as string],
+			[PropertyType.ANIMATION, options.animations as string],
+		];
+		const selection: (Scene | Node | Mesh | Animation)[] = [];
+		for (const [type, name] of patterns) {
+			if (!name) continue;
+			selection.push(...doc.getRoot().select<Scene | Node | Mesh | Animation>({type, name}));
+		}
+		if (!selection.length) {
+			throw new Error('No scenes, nodes, meshes, or animations matched the given patterns.');
+		}
+		logger.info(`Extracting ${selection.length} properties.`);
+		io.write(args.output as string, doc.extract(selection));
+	});
+
 program.command('', '\n\n🕋 GEOMETRY ─────────────────────────────────────────');
 
 // DRACO
@@ -384,6 +498,31 @@ given --decodeSpeed.`.trim())
 			.transform(weld({tolerance: 0}), draco(options as unknown as DracoCLIOptions))
 	);
 
+// MESHOPT
+program
+	.command('meshopt', 'Compress geometry and animation with meshoptimizer')
+	.help(`
+Compress geometry, morph targets, and animation with the meshoptimizer library.
+Vertex attributes are quantized first, and the EXT_meshopt_compression
+extension is required to read the result. Decoding is very fast, and the
+compressed data is designed for further lossless compression — apply gzip or
+brotli to the output for the full reduction in size.
+
+Two compression levels are available: 'medium' and 'high'. The medium level
+compresses quantized data without further loss of precision. The high level
+also stores normals, tangents, and animated rotation, translation, and scale
+with lossy filters, for smaller files.`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--level <level>', 'Compression level.', {
+		validator: ['medium', 'high'],
+		default: MESHOPT_DEFAULTS.level,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(quantize(), meshopt(options as unknown as MeshoptCLIOptions))
+	);
+
 // QUANTIZE
 program
 	.command('quantize', 'Quantize mesh vertex attributes')
@@ -403,8 +542,8 @@ bit depths used by this command are generally between 8 and 16 bits.
 Bit depths for indices and JOINTS_* are determined automatically.
 
 Requires KHR_mesh_quantization support.`.trim())
-	.argument('<input>', 'Path to read glTF 2.0 (.glb, .gltf) input')
-	.argument('<output>', 'Path to write output')
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
 	.option('--quantize-position <bits>', 'Precision for POSITION attributes.', {
 		validator: program.NUMBER,
 		default: QUANTIZE_DEFAULTS.quantizePosition,
@@ -478,6 +617,73 @@ paricular software application.
 			.transform(unweld(options as unknown as UnweldOptions))
 	);
 
+// SIMPLIFY
+program
+	.command('simplify', 'Simplify mesh, reducing number of triangles')
+	.help(`
+Simplify mesh, reducing number of triangles. Vertices are collapsed in order of
+least visual impact, measured by quadric error metrics, until the target ratio
+of triangles remains or the error limit is reached. Seams in UVs, normals, and
+vertex colors are preserved.
+
+Geometry is welded before simplification, as only indexed triangles can be
+simplified. The --error limit is given as a fraction of each mesh's size.
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--ratio <ratio>', 'Target ratio (0–1) of triangles to keep', {
+		validator: program.NUMBER,
+		default: SIMPLIFY_DEFAULTS.ratio,
+	})
+	.option('--error <error>', 'Limit on error, as a fraction of mesh size', {
+		validator: program.NUMBER,
+		default: SIMPLIFY_DEFAULTS.error,
+	})
+	.option('--lock-border', 'Whether to lock vertices on open borders', {
+		validator: program.BOOLEAN,
+		default: SIMPLIFY_DEFAULTS.lockBorder,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(weld(), simplify(options as unknown as SimplifyOptions))
+	);
+
+// LOD
+program
+	.command('lod', 'Generate levels of detail with MSFT_lod')
+	.help(`
+Generate levels of detail (LODs) for each mesh, with the MSFT_lod extension.
+Each level is simplified from the level before it, and PNG and JPEG textures
+are downscaled. Levels of detail are stored as nodes outside of the scene, with
+screen coverage hints. Viewers without support for MSFT_lod display the
+original meshes.
+
+Geometry is welded before simplification, as only indexed triangles can be
+simplified.
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--levels <levels>', 'Number of levels of detail to generate', {
+		validator: program.NUMBER,
+		default: LOD_DEFAULTS.levels,
+	})
+	.option('--ratio <ratio>', 'Ratio (0–1) of triangles to keep at each level', {
+		validator: program.NUMBER,
+		default: LOD_DEFAULTS.ratio,
+	})
+	.option('--error <error>', 'Limit on error at each level, as a fraction of mesh size', {
+		validator: program.NUMBER,
+		default: LOD_DEFAULTS.error,
+	})
+	.option('--texture-scale <scale>', 'Scale (0–1) of texture size at each level', {
+		validator: program.NUMBER,
+		default: LOD_DEFAULTS.textureScale,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(weld(), lod(options as unknown as LODOptions))
+	);
+
 // TANGENTS
 program
 	.command('tangents', 'Generate MikkTSpace vertex tangents')
@@ -564,10 +770,13 @@ to reduce ringing artifacts in some cases.
 
 Limits --width and --height are applied as maximum dimensions for each texture,
 preserving original aspect ratio. Texture dimensions are never increased.
+
+Textures are selected with --pattern, as a case-insensitive glob, or as a JSON
+selector, e.g. '{"type": "Texture", "parent": {"name": "Glass*"}}'.
 `.trim())
 	.argument('<input>', INPUT_DESC)
 	.argument('<output>', OUTPUT_DESC)
-	.option('--pattern <pattern>', 'Pattern (regex) to match textures, by name or URI.', {
+	.option('--pattern <pattern>', 'Glob matching texture names or URIs, or JSON selector', {
 		validator: program.STRING,
 	})
 	.option('--filter', 'Resampling filter', {
@@ -583,9 +792,7 @@ preserving original aspect ratio. Texture dimensions are never increased.
 		required: true
 	})
 	.action(async ({args, options, logger}) => {
-		const pattern = options.pattern
-			? minimatch.makeRe(String(options.pattern), {nocase: true})
-			: null;
+		const pattern = options.pattern ? parsePattern(String(options.pattern)) : null;
 		return await Session.create(io, logger, args.input, args.output)
 			.transform(textureResize({
 				size: [options.width, options.height] as vec2,
@@ -866,6 +1073,9 @@ sequence function generates a new animation, playing back each mesh matching
 the given pattern, at a specific framerate. Displaying a sequence of textures
 is also supported, but note that texture memory usage may be quite high and
 so this workflow is not a replacement for video playback.
+
+Nodes are selected with --pattern, as a case-insensitive glob, or as a JSON
+selector, e.g. '{"type": "Node", "parent": {"name": "Frames"}}'.
 	`.trim())
 
 	.argument('<input>', INPUT_DESC)
@@ -874,7 +1084,7 @@ so this workflow is not a replacement for video playback.
 		validator: program.STRING,
 		default: '',
 	})
-	.option('--pattern <pattern>', 'Pattern for node names (case-insensitive glob)', {
+	.option('--pattern <pattern>', 'Glob matching node names, or JSON selector', {
 		validator: program.STRING,
 		required: true,
 	})
@@ -887,7 +1097,7 @@ so this workflow is not a replacement for video playback.
 		default: true,
 	})
 	.action(({args, options, logger}) => {
-		const pattern = minimatch.makeRe(String(options.pattern), {nocase: true});
+		const pattern = parsePattern(String(options.pattern));
 		return Session.create(io, logger, args.input, args.output)
 			.transform(sequence({...options, pattern} as SequenceOptions));
 	});
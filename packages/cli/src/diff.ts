@@ -0,0 +1,78 @@
+import CLITable from 'cli-table3';
+import mdTable from 'markdown-table';
+import { Document } from '@gltf-transform/core';
+import { DiffPropertyReport, DiffReport, DiffValue, diff as diffDocs, isDiffEmpty } from '@gltf-transform/functions';
+import { formatHeader } from './util';
+
+export enum DiffFormat {
+	PRETTY = 'pretty',
+	JSON = 'json',
+	MD = 'md'
+}
+
+const HEAD = ['change', 'name', 'field', 'before', 'after'];
+
+export function diff (a: Document, b: Document, format: DiffFormat): void {
+	const report = diffDocs(a, b);
+
+	if (format === DiffFormat.JSON) {
+		console.log(JSON.stringify(report, null, 2));
+		return;
+	}
+
+	if (isDiffEmpty(report)) {
+		console.log('No differences found.');
+		return;
+	}
+
+	for (const type of Object.keys(report) as (keyof DiffReport)[]) {
+		reportSection(type, format, report[type]);
+	}
+}
+
+function reportSection(type: string, format: DiffFormat, section: DiffPropertyReport): void {
+	const rows: string[][] = [];
+	for (const {name, index} of section.removed) {
+		rows.push(['removed', formatName(name, index), '', '', '']);
+	}
+	for (const {name, index} of section.added) {
+		rows.push(['added', formatName(name, index), '', '', '']);
+	}
+	for (const {name, indexB, changes} of section.modified) {
+		for (const {field, before, after} of changes) {
+			rows.push([
+				'modified',
+				formatName(name, indexB),
+				field,
+				formatValue(before),
+				formatValue(after),
+			]);
+		}
+	}
+
+	if (!rows.length) return;
+
+	if (format === DiffFormat.MD) {
+		console.log(`### ${type}\n`);
+		console.log(mdTable([HEAD, ...rows.map((row) => row.map(escapeMarkdown))]) + '\n');
+	} else {
+		console.log(formatHeader(type));
+		const table = new CLITable({head: HEAD});
+		table.push(...rows);
+		console.log(table.toString() + '\n');
+	}
+}
+
+function formatName(name: string, index: number): string {
+	return name ? `${name} (#${index})` : `#${index}`;
+}
+
+function formatValue(value: DiffValue): string {
+	if (value === null) return '';
+	if (Array.isArray(value)) return value.join(', ');
+	return String(value);
+}
+
+function escapeMarkdown(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
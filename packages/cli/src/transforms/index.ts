@@ -1,5 +1,6 @@
 export * from './draco';
 export * from './ktxfix';
 export * from './merge';
+export * from './meshopt';
 export * from './toktx';
 export * from './unlit';
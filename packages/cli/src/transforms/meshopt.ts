@@ -0,0 +1,23 @@
+import { Document, Transform } from '@gltf-transform/core';
+import { MeshoptCompression } from '@gltf-transform/extensions';
+
+export interface MeshoptCLIOptions {
+	level?: 'medium' | 'high';
+}
+
+export const MESHOPT_DEFAULTS: MeshoptCLIOptions = {
+	level: 'high',
+};
+
+export const meshopt = (_options: MeshoptCLIOptions): Transform => {
+	const options = {...MESHOPT_DEFAULTS, ..._options} as Required<MeshoptCLIOptions>;
+	return (doc: Document): void => {
+		doc.createExtension(MeshoptCompression)
+			.setRequired(true)
+			.setEncoderOptions({
+				method: options.level === 'medium'
+					? MeshoptCompression.EncoderMethod.QUANTIZE
+					: MeshoptCompression.EncoderMethod.FILTER,
+			});
+	};
+};
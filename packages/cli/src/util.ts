@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
 const { spawnSync: _spawnSync } = require('child_process');
 
+import minimatch from 'minimatch';
 import { sync as _commandExistsSync } from 'command-exists';
-import { Document, FileUtils, Logger, NodeIO, Texture, TextureLink, Transform } from '@gltf-transform/core';
+import { Document, FileUtils, Logger, NodeIO, Selector, Texture, TextureLink, Transform } from '@gltf-transform/core';
 
 // Mock for tests.
 
@@ -58,6 +59,22 @@ export function getTextureSlots (doc: Document, texture: Texture): string[] {
 	return Array.from(new Set(slots));
 }
 
+/**
+ * Parses a `--pattern` option, given as a case-insensitive glob (e.g. "Wheel_*"), or as a JSON
+ * {@link Selector} (e.g. '{"type": "Node", "ancestor": {"name": "Vehicle*"}}').
+ */
+export function parsePattern (pattern: string): RegExp | Selector {
+	if (!pattern.trim().startsWith('{')) return minimatch.makeRe(pattern, {nocase: true});
+
+	let selector: unknown;
+	try {
+		selector = JSON.parse(pattern);
+	} catch (e) {
+		throw new Error(`Invalid selector "${pattern}": ${e.message}`);
+	}
+	return selector as Selector;
+}
+
 /** Returns bit mask of all texture channels used by the given texture. */
 export function getTextureChannels (doc: Document, texture: Texture): number {
 	let mask = 0x0000;
@@ -82,9 +99,10 @@ export class Session {
 	}
 
 	public async transform (...transforms: Transform[]): Promise<void> {
-		const doc = this._input
-			? this._io.read(this._input).setLogger(this._logger)
-			: new Document().setLogger(this._logger);
+		const {document: doc, byteLength: inputBytes} = this._input
+			? await this._io.readAsync(this._input)
+			: {document: new Document(), byteLength: 0};
+		doc.setLogger(this._logger);
 
 		const dracoExtension = doc.getRoot().listExtensionsUsed()
 			.find((extension) => extension.extensionName === 'KHR_draco_mesh_compression');
@@ -95,21 +113,20 @@ export class Session {
 
 		await doc.transform(...transforms);
 
-		this._io.write(this._output, doc);
+		const {byteLength: outputBytes} = await this._io.writeAsync(this._output, doc);
 
-		const {lastReadBytes, lastWriteBytes} = this._io;
 		if (!this._input) {
 			const output = FileUtils.basename(this._output)
 				+ '.' + FileUtils.extension(this._output);
-			this._logger.info(`${output} (${formatBytes(lastWriteBytes)})`);
+			this._logger.info(`${output} (${formatBytes(outputBytes)})`);
 		} else {
 			const input = FileUtils.basename(this._input)
 				+ '.' + FileUtils.extension(this._input);
 			const output = FileUtils.basename(this._output)
 				+ '.' + FileUtils.extension(this._output);
 			this._logger.info(
-				`${input} (${formatBytes(lastReadBytes)})`
-				+ ` → ${output} (${formatBytes(lastWriteBytes)})`
+				`${input} (${formatBytes(inputBytes)})`
+				+ ` → ${output} (${formatBytes(outputBytes)})`
 			);
 		}
 	}
@@ -1,8 +1,9 @@
 import fs from 'fs';
 import path from 'path';
+import zlib from 'zlib';
 import CLITable from 'cli-table3';
 import validator from 'gltf-validator';
-import { Logger } from '@gltf-transform/core';
+import { BufferUtils, Logger, ZipUtils } from '@gltf-transform/core';
 import { formatHeader } from './util';
 
 export interface ValidateOptions {
@@ -19,17 +20,16 @@ interface ValidatorMessage {
 }
 
 export function validate(input: string, options: ValidateOptions, logger: Logger): void {
-	const buffer = fs.readFileSync(input);
-	return validator.validateBytes(new Uint8Array(buffer), {
+	const {data, readResource} = input.match(/\.zip$/i)
+		? readZip(input)
+		: readFile(input);
+	return validator.validateBytes(new Uint8Array(data), {
 			maxIssues: options.limit,
 			ignoredIssues: options.ignore,
 			externalResourceFunction: (uri: string) =>
-			new Promise((resolve, reject) => {
-				uri = path.resolve(path.dirname(input), decodeURIComponent(uri));
-				fs.readFile(uri, (err, data) => {
-					if (err) logger.warn(`Unable to validate "${uri}": ${err.toString()}.`);
-					err ? reject(err.toString()) : resolve(data);
-				});
+			readResource(decodeURIComponent(uri)).catch((err) => {
+				logger.warn(`Unable to validate "${uri}": ${err.toString()}.`);
+				throw err.toString();
 			})
 		}).then((report: ValidatorReport) => {
 			printIssueSection('error', 0, report, logger);
@@ -39,6 +39,37 @@ export function validate(input: string, options: ValidateOptions, logger: Logger
 		});
 }
 
+interface ValidatorInput {
+	data: Uint8Array;
+	readResource: (uri: string) => Promise<Uint8Array>;
+}
+
+function readFile(input: string): ValidatorInput {
+	return {
+		data: fs.readFileSync(input),
+		readResource: (uri: string) => fs.promises.readFile(path.resolve(path.dirname(input), uri)),
+	};
+}
+
+/** Reads the .gltf or .glb entry of a .zip archive, resolving resources within the archive. */
+function readZip(input: string): ValidatorInput {
+	const zip = BufferUtils.trim(fs.readFileSync(input));
+	const files = ZipUtils.unzip(zip, (data) => zlib.inflateRawSync(data));
+	const entries = Object.keys(files)
+		.filter((entry) => entry.match(/\.(gltf|glb)$/i) && !entry.startsWith('__MACOSX/'));
+	if (entries.length !== 1) {
+		throw new Error(`Expected one .gltf or .glb file in archive, found ${entries.length}.`);
+	}
+	return {
+		data: new Uint8Array(files[entries[0]]),
+		readResource: async (uri: string) => {
+			const entry = path.posix.join(path.posix.dirname(entries[0]), uri);
+			if (!(entry in files)) throw new Error(`Missing resource "${uri}" in archive.`);
+			return new Uint8Array(files[entry]);
+		},
+	};
+}
+
 function printIssueSection(
 		header: string,
 		severity: number,
@@ -33,6 +33,59 @@ test('@gltf-transform/cli::copy', async (t) => {
 		});
 });
 
+test('@gltf-transform/cli::copy --embed', async (t) => {
+	await programReady;
+	const io = new NodeIO();
+	const input = tmp.tmpNameSync({postfix: '.glb'});
+	const output = tmp.tmpNameSync({postfix: '.gltf'});
+
+	const doc = new Document();
+	doc.createAccessor()
+		.setArray(new Uint8Array([1, 2, 3]))
+		.setBuffer(doc.createBuffer());
+	io.write(input, doc);
+
+	return program
+		.exec(['copy', input, output], {embed: true})
+		.then(() => {
+			const json = JSON.parse(fs.readFileSync(output, 'utf8'));
+			t.match(json.buffers[0].uri, /^data:application\/octet-stream;base64,/, 'embedded');
+			t.deepEqual(
+				io.read(output).getRoot().listAccessors()[0].getArray(),
+				new Uint8Array([1, 2, 3]),
+				'roundtrip accessor'
+			);
+		})
+		.then(() => program.exec(['dedup', input, output], {silent: true}))
+		.then(() => {
+			const json = JSON.parse(fs.readFileSync(output, 'utf8'));
+			t.notOk(json.buffers[0].uri.startsWith('data:'), 'later commands write external');
+		});
+});
+
+test('@gltf-transform/cli::copy | zip', async (t) => {
+	await programReady;
+	const io = new NodeIO();
+	const input = tmp.tmpNameSync({postfix: '.zip'});
+	const output = tmp.tmpNameSync({postfix: '.zip'});
+
+	const doc = new Document();
+	doc.createAccessor()
+		.setArray(new Uint8Array([1, 2, 3]))
+		.setBuffer(doc.createBuffer());
+	io.write(input, doc);
+
+	return program
+		.exec(['copy', input, output])
+		.then(() => {
+			t.deepEqual(
+				io.read(output).getRoot().listAccessors()[0].getArray(),
+				new Uint8Array([1, 2, 3]),
+				'roundtrip zip'
+			);
+		});
+});
+
 test('@gltf-transform/cli::validate', async (_t) => {
 	await programReady;
 	const io = new NodeIO();
@@ -66,6 +119,81 @@ test('@gltf-transform/cli::inspect', async (_t) => {
 		.exec(['inspect', input], {silent: true});
 });
 
+test('@gltf-transform/cli::diff', async (t) => {
+	await programReady;
+	const io = new NodeIO();
+	const inputA = tmp.tmpNameSync({postfix: '.glb'});
+	const inputB = tmp.tmpNameSync({postfix: '.glb'});
+
+	const doc = new Document();
+	doc.createBuffer();
+	doc.createAccessor().setArray(new Uint8Array([1, 2, 3]));
+	doc.createMaterial('MyMaterial').setBaseColorFactor([1, 0, 0, 1]);
+	io.write(inputA, doc);
+
+	doc.getRoot().listMaterials()[0].setBaseColorFactor([0, 1, 0, 1]);
+	doc.createNode('MyNode');
+	io.write(inputB, doc);
+
+	// Diffs are printed to stdout, and captured here.
+	const execDiff = async (format: string): Promise<string> => {
+		const lines: string[] = [];
+		const log = console.log;
+		console.log = (...args: unknown[]) => lines.push(args.join(' '));
+		try {
+			await program.exec(['diff', inputA, inputB], {format, silent: true});
+		} finally {
+			console.log = log;
+		}
+		return lines.join('\n');
+	};
+
+	const report = JSON.parse(await execDiff('json'));
+	t.deepEqual(report.nodes.added, [{name: 'MyNode', index: 0}], 'added node');
+	t.deepEqual(report.materials.modified, [{
+		name: 'MyMaterial',
+		indexA: 0,
+		indexB: 0,
+		changes: [{field: 'baseColorFactor', before: [1, 0, 0, 1], after: [0, 1, 0, 1]}],
+	}], 'modified material');
+	t.deepEqual(report.accessors, {added: [], removed: [], modified: []}, 'unchanged accessor');
+
+	const md = await execDiff('md');
+	t.ok(md.includes('### nodes'), 'md nodes section');
+	t.ok(
+		md.includes('| modified | MyMaterial (#0) | baseColorFactor | 1, 0, 0, 1 | 0, 1, 0, 1 |'),
+		'md material row'
+	);
+	t.notOk(md.includes('### accessors'), 'md omits unchanged sections');
+});
+
+test('@gltf-transform/cli::extract', async (t) => {
+	await programReady;
+	const io = new NodeIO();
+	const input = tmp.tmpNameSync({postfix: '.glb'});
+	const output = tmp.tmpNameSync({postfix: '.glb'});
+
+	const doc = new Document();
+	doc.createBuffer();
+	const material = doc.createMaterial('Wood');
+	const mesh = doc.createMesh('ChairMesh')
+		.addPrimitive(doc.createPrimitive()
+			.setAttribute('POSITION', doc.createAccessor().setArray(new Float32Array(9)))
+			.setMaterial(material));
+	doc.createScene()
+		.addChild(doc.createNode('Chair').setMesh(mesh))
+		.addChild(doc.createNode('Table'));
+	io.write(input, doc);
+
+	return program
+		.exec(['extract', input, output], {nodes: 'chair', silent: true})
+		.then(() => {
+			const root = io.read(output).getRoot();
+			t.deepEqual(root.listNodes().map((n) => n.getName()), ['Chair'], 'extracts node');
+			t.deepEqual(root.listMaterials().map((m) => m.getName()), ['Wood'], 'extracts deps');
+		});
+});
+
 test('@gltf-transform/cli::merge', async (t) => {
 	await programReady;
 	const io = new NodeIO();
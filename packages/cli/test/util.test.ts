@@ -1,5 +1,5 @@
 import test from 'tape';
-import { formatBytes, formatHeader, formatParagraph } from '../';
+import { formatBytes, formatHeader, formatParagraph, parsePattern } from '../';
 
 const HEADER = `
  HELLO
@@ -20,3 +20,17 @@ test('@gltf-transform/cli::util', t => {
 	t.equals(formatParagraph(TEXT), PARAGRAPH, 'formatParagraph');
 	t.end();
 });
+
+test('@gltf-transform/cli::util | parsePattern', t => {
+	const glob = parsePattern('wheel_*') as RegExp;
+	t.ok(glob instanceof RegExp, 'glob');
+	t.ok(glob.test('Wheel_FL'), 'glob is case-insensitive');
+	t.notOk(glob.test('Body'), 'glob excludes');
+	t.deepEquals(
+		parsePattern('{"type": "Node", "ancestor": {"name": "Vehicle*"}}'),
+		{type: 'Node', ancestor: {name: 'Vehicle*'}},
+		'selector'
+	);
+	t.throws(() => parsePattern('{"type": '), /Invalid selector/, 'invalid selector');
+	t.end();
+});
@@ -117,6 +117,53 @@ export enum VertexLayout {
 	SEPARATE = 'separate',
 }
 
+/** Storage method for buffers and images, when writing a glTF (JSON) file. */
+export enum ResourceMode {
+	/**
+	 * Writes buffers and images as external files, alongside the .gltf file. Resources embedded
+	 * as Data URIs in the original file are also written as external files.
+	 */
+	EXTERNAL = 'external',
+
+	/**
+	 * Embeds buffers and images in the .gltf file, as base64-encoded Data URIs. Produces a single
+	 * file, at the cost of roughly 33% larger resources and slower parsing.
+	 */
+	EMBEDDED = 'embedded',
+}
+
+/** Naming method for external buffers and images, when writing a glTF (JSON) file. */
+export enum ResourceNaming {
+	/**
+	 * Names resources after the output file, with an index where there are several of a kind,
+	 * e.g. 'scene_1.bin'. Resources with existing URIs keep them.
+	 */
+	INDEX = 'index',
+
+	/**
+	 * Names resources after the output file and a 64-bit hash (truncated SHA-256) of their
+	 * content, e.g. 'scene-3f9a1c08d27e6b45.png'. Names change only when content changes,
+	 * regardless of the order in which resources are written, and resources with identical
+	 * content share a file. Existing URIs are replaced.
+	 */
+	HASH = 'hash',
+}
+
+/** Sparse storage method for accessors, when writing. See {@link Accessor.getSparse}. */
+export enum SparseMode {
+	/**
+	 * Writes sparse storage for accessors marked sparse, and for morph target and animation
+	 * accessors when sparse storage is smaller than dense storage.
+	 */
+	AUTO = 'auto',
+
+	/** Writes dense storage for all accessors, including those marked sparse. */
+	DENSE = 'dense',
+
+	/** Writes sparse storage for all accessors, other than indices and extension data. */
+	SPARSE = 'sparse',
+}
+
 /** Texture channels. */
 export enum TextureChannel {
 	R = 0x1000,
@@ -3,9 +3,24 @@
 export { Document, Transform } from './document';
 export { JSONDocument } from './json-document';
 export { Extension } from './extension';
-export { Accessor, Animation, AnimationChannel, AnimationSampler, Buffer, Camera, ExtensionProperty, Property, Material, Mesh, Node, Primitive, PrimitiveTarget, Root, Scene, Skin, Texture, TextureInfo, TextureLink, AttributeLink, IndexLink, COPY_IDENTITY } from './properties';
-export { Graph, GraphChild, GraphChildList, Link } from './graph/';
-export { PlatformIO, NodeIO, WebIO, ReaderContext, WriterContext } from './io/';
-export { BufferUtils, ColorUtils, FileUtils, ImageUtils, ImageUtilsFormat, Logger, MathUtils, bounds, uuid } from './utils/';
-export { TypedArray, TypedArrayConstructor, PropertyType, Format, TextureChannel, VertexLayout, vec2, vec3, vec4, mat3, mat4, bbox, GLB_BUFFER, VERSION } from './constants';
+export { PassthroughExtension } from './passthrough-extension';
+export { Accessor, Animation, AnimationChannel, AnimationSampler, Buffer, Camera, ExtensionProperty, Property, Material, Mesh, Node, PassthroughProperty, Primitive, PrimitiveTarget, Root, Scene, Selector, Skin, Texture, TextureInfo, TextureLink, AttributeLink, IndexLink, COPY_IDENTITY } from './properties';
+export {
+	Graph,
+	GraphAttribute,
+	GraphAttributeEvent,
+	GraphChild,
+	GraphChildList,
+	GraphEvent,
+	GraphEventListener,
+	GraphEventMap,
+	GraphHistory,
+	GraphLinkEvent,
+	GraphNodeEvent,
+	Link,
+} from './graph/';
+export { ValidationIssue, ValidationOptions, ValidationReport, ValidationSeverity, validate } from './validator';
+export { PlatformIO, NodeIO, NodeIOReadResult, NodeIOWriteResult, WebIO, WebIOFiles, ResourceResolver, ReaderContext, WriterContext, BufferViewLayout, LayoutPolicy, IOError, IOErrorCode, ReadError, WriteError, OBJWriterOptions, writeOBJ } from './io/';
+export { BufferUtils, ColorUtils, FileUtils, ImageUtils, ImageUtilsFormat, Logger, MathUtils, ZipInflate, ZipInflateAsync, ZipUtils, bounds, sha256, uuid } from './utils/';
+export { TypedArray, TypedArrayConstructor, PropertyType, Format, TextureChannel, VertexLayout, ResourceMode, ResourceNaming, SparseMode, vec2, vec3, vec4, mat3, mat4, bbox, GLB_BUFFER, VERSION } from './constants';
 export { GLTF } from './types/gltf';
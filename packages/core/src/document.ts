@@ -1,5 +1,6 @@
 import { PropertyType } from './constants';
 import { Extension } from './extension';
+import { GraphHistory } from './graph';
 import { Accessor, Animation, AnimationChannel, AnimationSampler, Buffer, Camera, ExtensionProperty, Material, Mesh, Node, Primitive, PrimitiveTarget, Property, PropertyGraph, Root, Scene, Skin, Texture } from './properties';
 import { Logger } from './utils';
 
@@ -71,6 +72,24 @@ export class Document {
 		return this._graph;
 	}
 
+	/**
+	 * Returns the {@link GraphHistory} of changes to this document, which supports transactions
+	 * and undo/redo. When enabled, each call to {@link transform} is recorded as one transaction.
+	 *
+	 * Usage:
+	 *
+	 * ```ts
+	 * doc.getHistory().setEnabled(true);
+	 *
+	 * await doc.transform(dedup(), prune());
+	 *
+	 * doc.getHistory().undo();
+	 * ```
+	 */
+	public getHistory(): GraphHistory {
+		return this._graph.getHistory();
+	}
+
 	/** Returns the {@link Logger} instance used for any operations performed on this document. */
 	public getLogger(): Logger {
 		return this._logger;
@@ -100,17 +119,11 @@ export class Document {
 	/** Merges the content of another Document into this one, without affecting the original. */
 	public merge(other: Document): this {
 		// 1. Attach extensions.
-		const thisExtensions: {[key: string]: Extension} = {};
-		for (const otherExtension of other.getRoot().listExtensionsUsed()) {
-			const thisExtension = this.createExtension(
-				otherExtension.constructor as new (doc: Document) => Extension
-			);
-			if (otherExtension.isRequired()) thisExtension.setRequired(true);
-			thisExtensions[thisExtension.extensionName] = thisExtension;
-		}
+		const thisExtensions = this._attachExtensions(other);
 
 		// 2. Preconfigure the Root and merge history.
 		const visited = new Set<Property>();
+		const created: Property[] = [];
 		const propertyMap = new Map<Property, Property>();
 		visited.add(other._root);
 		propertyMap.set(other._root, this._root);
@@ -134,6 +147,7 @@ export class Document {
 					otherProp = thisProp instanceof ExtensionProperty
 						? new PropertyClass(this._graph, thisExtensions[thisProp.extensionName])
 						: new PropertyClass(this._graph);
+					created.push(otherProp);
 				}
 
 				propertyMap.set(thisProp as Property, otherProp);
@@ -144,22 +158,127 @@ export class Document {
 		// 4. Assemble the links between Properties.
 		const resolve = (p: Property): Property => {
 			const resolved = propertyMap.get(p);
-			if (!resolved) throw new Error('Could resolve property.');
+			if (!resolved) throw new Error('Could not resolve property.');
 			return resolved;
 		};
 		for (const otherProp of visited) {
 			const thisProp = propertyMap.get(otherProp);
-			if (!thisProp) throw new Error('Could resolve property.');
+			if (!thisProp) throw new Error('Could not resolve property.');
 			thisProp.copy(otherProp, resolve);
 		}
+		for (const prop of created) this._graph.emitCreate(prop);
 
 		return this;
 	}
 
+	/**
+	 * Extracts the given properties into a new Document, copying everything they depend on:
+	 * child nodes, meshes, materials, textures, accessors, buffers, skins, animation targets, and
+	 * extension properties. The original Document is not affected. Extracting properties from a
+	 * Document is the inverse of {@link merge}.
+	 *
+	 * If no {@link Scene} is extracted, the new Document has a single default scene containing
+	 * the extracted nodes that have no extracted parent, and a new node for each extracted mesh
+	 * not instantiated by an extracted node. Extracted nodes keep their local transforms.
+	 *
+	 * Usage:
+	 *
+	 * ```ts
+	 * const chair = doc.getRoot().listNodes().find((node) => node.getName() === 'Chair');
+	 * const chairDoc = doc.extract([chair]);
+	 * ```
+	 */
+	public extract(properties: (Scene | Node | Mesh | Animation)[]): Document {
+		const target = new Document().setLogger(this._logger);
+
+		// 1. Attach extensions.
+		const targetExtensions = target._attachExtensions(this);
+
+		// 2. Find all dependencies of the given properties.
+		const dependencies = new Set<Property>();
+		const queue: Property[] = [...properties];
+		while (queue.length > 0) {
+			const prop = queue.pop()!;
+			if (prop === this._root || dependencies.has(prop)) continue;
+			dependencies.add(prop);
+			for (const child of this._graph.listChildren(prop)) queue.push(child);
+		}
+
+		// 3. Create stub classes for every dependency.
+		const created: Property[] = [];
+		const propertyMap = new Map<Property, Property>();
+		for (const prop of dependencies) {
+			if (prop.propertyType === PropertyType.TEXTURE_INFO) {
+				// TextureInfo lifecycle is bound to a Material or ExtensionProperty. See merge().
+				propertyMap.set(prop, prop);
+				continue;
+			}
+			const PropertyClass = prop.constructor as
+				new(g: PropertyGraph, e?: Extension) => Property;
+			const targetProp = prop instanceof ExtensionProperty
+				? new PropertyClass(target._graph, targetExtensions[prop.extensionName])
+				: new PropertyClass(target._graph);
+			propertyMap.set(prop, targetProp);
+			created.push(targetProp);
+		}
+
+		// 4. Assemble the links between Properties, and attach them to the Root in their
+		// original order.
+		const resolve = (p: Property): Property => {
+			const resolved = propertyMap.get(p);
+			if (!resolved) throw new Error('Could not resolve property.');
+			return resolved;
+		};
+		for (const prop of dependencies) {
+			resolve(prop).copy(prop, resolve);
+		}
+		for (const prop of created) target._graph.emitCreate(prop);
+		for (const prop of this._graph.listChildren(this._root)) {
+			if (dependencies.has(prop)) target._root._addChildOfRoot(resolve(prop));
+		}
+
+		// 5. Assign a default scene.
+		const defaultScene = this._root.getDefaultScene();
+		const scenes = target._root.listScenes();
+		if (defaultScene && dependencies.has(defaultScene)) {
+			target._root.setDefaultScene(resolve(defaultScene) as Scene);
+		} else if (scenes.length > 0) {
+			target._root.setDefaultScene(scenes[0]);
+		} else {
+			const scene = target.createScene();
+			for (const node of target._root.listNodes()) {
+				if (!(node.getParent() instanceof Node)) scene.addChild(node);
+			}
+			for (const mesh of target._root.listMeshes()) {
+				if (mesh.listParents().some((parent) => parent instanceof Node)) continue;
+				scene.addChild(target.createNode(mesh.getName()).setMesh(mesh));
+			}
+			target._root.setDefaultScene(scene);
+		}
+
+		return target;
+	}
+
+	/** @internal Attaches extensions used by another Document to this one. */
+	private _attachExtensions(other: Document): {[key: string]: Extension} {
+		const thisExtensions: {[key: string]: Extension} = {};
+		for (const otherExtension of other.getRoot().listExtensionsUsed()) {
+			const thisExtension = this.createExtension(
+				otherExtension.constructor as new (doc: Document) => Extension
+			);
+			if (otherExtension.isRequired()) thisExtension.setRequired(true);
+			thisExtensions[thisExtension.extensionName] = thisExtension;
+		}
+		return thisExtensions;
+	}
+
 	/**
 	 * Applies a series of modifications to this document. Each transformation is asynchronous,
 	 * takes the {@link Document} as input, and returns nothing. Transforms are applied in the
-	 * order given, which may affect the final result.
+	 * order given, which may affect the final result. If the document's {@link GraphHistory} is
+	 * enabled, the transforms are recorded as a single transaction, and may be reverted together
+	 * with {@link GraphHistory.undo}. If any transform throws an error, the transaction is rolled
+	 * back.
 	 *
 	 * Usage:
 	 *
@@ -173,9 +292,25 @@ export class Document {
 	 * @param transforms List of synchronous transformation functions to apply.
 	 */
 	public async transform(...transforms: Transform[]): Promise<this> {
-		for (const transform of transforms) {
-			await transform(this);
+		const history = this.getHistory();
+
+		if (!history.isEnabled()) {
+			for (const transform of transforms) {
+				await transform(this);
+			}
+			return this;
+		}
+
+		history.begin();
+		try {
+			for (const transform of transforms) {
+				await transform(this);
+			}
+		} catch (e) {
+			history.rollback();
+			throw e;
 		}
+		history.commit();
 		return this;
 	}
 
@@ -200,35 +335,35 @@ export class Document {
 
 	/** Creates a new {@link Scene} attached to this document's {@link Root}. */
 	createScene(name = ''): Scene {
-		const scene = new Scene(this._graph, name);
+		const scene = this._graph.emitCreate(new Scene(this._graph, name));
 		this._root._addScene(scene);
 		return scene;
 	}
 
 	/** Creates a new {@link Node} attached to this document's {@link Root}. */
 	createNode(name = ''): Node {
-		const node = new Node(this._graph, name);
+		const node = this._graph.emitCreate(new Node(this._graph, name));
 		this._root._addNode(node);
 		return node;
 	}
 
 	/** Creates a new {@link Camera} attached to this document's {@link Root}. */
 	createCamera(name = ''): Camera {
-		const camera = new Camera(this._graph, name);
+		const camera = this._graph.emitCreate(new Camera(this._graph, name));
 		this._root._addCamera(camera);
 		return camera;
 	}
 
 	/** Creates a new {@link Skin} attached to this document's {@link Root}. */
 	createSkin(name = ''): Skin {
-		const skin = new Skin(this._graph, name);
+		const skin = this._graph.emitCreate(new Skin(this._graph, name));
 		this._root._addSkin(skin);
 		return skin;
 	}
 
 	/** Creates a new {@link Mesh} attached to this document's {@link Root}. */
 	createMesh(name = ''): Mesh {
-		const mesh = new Mesh(this._graph, name);
+		const mesh = this._graph.emitCreate(new Mesh(this._graph, name));
 		this._root._addMesh(mesh);
 		return mesh;
 	}
@@ -238,7 +373,7 @@ export class Document {
 	 * for use and export; they are not otherwise associated with a {@link Root}.
 	 */
 	createPrimitive(): Primitive {
-		return new Primitive(this._graph);
+		return this._graph.emitCreate(new Primitive(this._graph));
 	}
 
 	/**
@@ -246,26 +381,26 @@ export class Document {
 	 * {@link Primitive} for use and export; they are not otherwise associated with a {@link Root}.
 	 */
 	createPrimitiveTarget(name = ''): PrimitiveTarget {
-		return new PrimitiveTarget(this._graph, name);
+		return this._graph.emitCreate(new PrimitiveTarget(this._graph, name));
 	}
 
 	/** Creates a new {@link Material} attached to this document's {@link Root}. */
 	createMaterial(name = ''): Material {
-		const material = new Material(this._graph, name);
+		const material = this._graph.emitCreate(new Material(this._graph, name));
 		this._root._addMaterial(material);
 		return material;
 	}
 
 	/** Creates a new {@link Texture} attached to this document's {@link Root}. */
 	createTexture(name = ''): Texture {
-		const texture = new Texture(this._graph, name);
+		const texture = this._graph.emitCreate(new Texture(this._graph, name));
 		this._root._addTexture(texture);
 		return texture;
 	}
 
 	/** Creates a new {@link Animation} attached to this document's {@link Root}. */
 	createAnimation(name = ''): Animation {
-		const animation = new Animation(this._graph, name);
+		const animation = this._graph.emitCreate(new Animation(this._graph, name));
 		this._root._addAnimation(animation);
 		return animation;
 	}
@@ -275,7 +410,7 @@ export class Document {
 	 * for use and export; they are not otherwise associated with a {@link Root}.
 	 */
 	createAnimationChannel(name = ''): AnimationChannel {
-		return new AnimationChannel(this._graph, name);
+		return this._graph.emitCreate(new AnimationChannel(this._graph, name));
 	}
 
 	/**
@@ -283,7 +418,7 @@ export class Document {
 	 * for use and export; they are not otherwise associated with a {@link Root}.
 	 */
 	createAnimationSampler(name = ''): AnimationSampler {
-		return new AnimationSampler(this._graph, name);
+		return this._graph.emitCreate(new AnimationSampler(this._graph, name));
 	}
 
 	/** Creates a new {@link Accessor} attached to this document's {@link Root}. */
@@ -291,14 +426,15 @@ export class Document {
 		if (!buffer) {
 			buffer = this.getRoot().listBuffers()[0];
 		}
-		const accessor = new Accessor(this._graph, name).setBuffer(buffer);
+		const accessor = this._graph.emitCreate(new Accessor(this._graph, name))
+			.setBuffer(buffer);
 		this._root._addAccessor(accessor);
 		return accessor;
 	}
 
 	/** Creates a new {@link Buffer} attached to this document's {@link Root}. */
 	createBuffer(name = ''): Buffer {
-		const buffer = new Buffer(this._graph, name);
+		const buffer = this._graph.emitCreate(new Buffer(this._graph, name));
 		this._root._addBuffer(buffer);
 		return buffer;
 	}
@@ -2,6 +2,7 @@ import { PropertyType } from './constants';
 import { Document } from './document';
 import { ReaderContext, WriterContext } from './io';
 import { ExtensionProperty, ExtensionPropertyParent } from './properties';
+import { GLTF } from './types/gltf';
 
 /**
  * # Extension
@@ -17,6 +18,28 @@ import { ExtensionProperty, ExtensionPropertyParent } from './properties';
  * {@link ExtensionProperty} instances, which are attached to properties throughout the Document
  * as prescribed by the extension itself.
  *
+ * Custom extensions must construct {@link ExtensionProperty} instances in factory methods that
+ * pass each new property to {@link Graph.emitCreate}, as the extensions of
+ * `@gltf-transform/extensions` do. Properties constructed with `new` alone never emit a 'create'
+ * event, and are missed by listeners registered with {@link Graph.on}.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * class GizmoExtension extends Extension {
+ * 	public readonly extensionName = 'ACME_gizmo';
+ * 	public static readonly EXTENSION_NAME = 'ACME_gizmo';
+ *
+ * 	public createGizmo(): Gizmo {
+ * 		// Emits a 'create' event once the property is fully constructed.
+ * 		return this.doc.getGraph().emitCreate(new Gizmo(this.doc.getGraph(), this));
+ * 	}
+ *
+ * 	public read(context: ReaderContext): this { ... }
+ * 	public write(context: WriterContext): this { ... }
+ * }
+ * ```
+ *
  * For more information on available extensions and their usage, see [Extensions](/extensions).
  *
  * Reference:
@@ -80,7 +103,12 @@ export abstract class Extension implements ExtensionPropertyParent {
 	 * to require a client to completely fail when an extension isn't known.
 	 */
 	public setRequired(required: boolean): this {
+		const prevRequired = this.required;
 		this.required = required;
+		this.doc.getHistory().record({
+			undo: () => this.required = prevRequired,
+			redo: () => this.required = required,
+		});
 		return this;
 	}
 
@@ -91,12 +119,20 @@ export abstract class Extension implements ExtensionPropertyParent {
 	/** @hidden */
 	public addExtensionProperty(property: ExtensionProperty): this {
 		this.properties.add(property);
+		this.doc.getHistory().record({
+			undo: () => this.properties.delete(property),
+			redo: () => this.properties.add(property),
+		});
 		return this;
 	}
 
 	/** @hidden */
 	public removeExtensionProperty(property: ExtensionProperty): this {
 		this.properties.delete(property);
+		this.doc.getHistory().record({
+			undo: () => this.properties.add(property),
+			redo: () => this.properties.delete(property),
+		});
 		return this;
 	}
 
@@ -104,6 +140,25 @@ export abstract class Extension implements ExtensionPropertyParent {
 	 * I/O implementation.
 	 */
 
+	/**
+	 * Returns true if the extension allows the buffer to have no data and no URI, as for
+	 * fallback buffers of compressed buffer views. Called on registered extensions before
+	 * reading, when buffers are loaded. *Most extensions don't need to implement this.*
+	 */
+	public static isBufferDataOptional(_bufferDef: GLTF.IBuffer): boolean {
+		return false;
+	}
+
+	/**
+	 * Returns the range of buffer data storing the buffer view, if the extension stores it in a
+	 * range other than the buffer view's own, or null. Called on registered extensions before
+	 * reading, when buffer views are read ahead of the {@link Document}, as with
+	 * {@link NodeIO.setStreaming}. *Most extensions don't need to implement this.*
+	 */
+	public static getBufferViewStorage(_bufferViewDef: GLTF.IBufferView): GLTF.IBufferView | null {
+		return null;
+	}
+
 	/** Installs dependencies required by the extension. */
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	public install(key: string, dependency: unknown): this {
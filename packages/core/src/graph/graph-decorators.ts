@@ -8,17 +8,49 @@
 
 const DECORATOR_PREFIX = '__';
 
+/**
+ * Assigns a decorated field, recording the change in the graph's history. Initial values,
+ * assigned by field initializers, are not recorded. If an attribute name is given, a 'change'
+ * event is dispatched for the assignment, including assignments replayed by undo/redo.
+ */
+function assign(node: any, key: string, value: unknown, attribute: string | null): void {
+	if (!Object.prototype.hasOwnProperty.call(node, key)) {
+		node[key] = value;
+		return;
+	}
+
+	const prevValue = node[key];
+	if (prevValue === value) return;
+
+	node[key] = value;
+	node.graph.getHistory().record({
+		undo: () => assign(node, key, prevValue, attribute),
+		redo: () => assign(node, key, value, attribute),
+	});
+
+	if (attribute) {
+		node.graph.dispatchEvent({
+			type: 'change',
+			target: node,
+			attribute,
+			value,
+			previousValue: prevValue
+		});
+	}
+}
+
 /**
  * @hidden
  * @category Graph
  */
 export function GraphChild (target: any, propertyKey: string): void {
+	const key = DECORATOR_PREFIX + propertyKey;
 	Object.defineProperty(target, propertyKey, {
 		get: function () {
-			return this[DECORATOR_PREFIX + propertyKey];
+			return this[key];
 		},
 		set: function (value) {
-			const link = this[DECORATOR_PREFIX + propertyKey];
+			const link = this[key];
 
 			if (link && !Array.isArray(link)) {
 				// console.log('[GraphChild] Disposing link: ' + propertyKey, link, value);
@@ -30,12 +62,12 @@ export function GraphChild (target: any, propertyKey: string): void {
 				// method handles the events for arrays of Links.
 				value.onDispose(() => {
 					// console.log('[GraphChild] Unassigning link: ' + propertyKey, link);
-					this[DECORATOR_PREFIX + propertyKey] = null;
+					assign(this, key, null, null);
 				});
 			}
 
 			// if (value) console.log('[GraphChild] Assigning link: ' + propertyKey, value);
-			this[DECORATOR_PREFIX + propertyKey] = value;
+			assign(this, key, value, null);
 		},
 		enumerable: true
 	});
@@ -46,3 +78,25 @@ export function GraphChild (target: any, propertyKey: string): void {
  * @category Graph
  */
 export function GraphChildList (target: any, propertyKey: string): void {}
+
+/**
+ * Marks a field holding a value (not a {@link Link}) as an attribute of a {@link GraphNode}, such
+ * that assignments are recorded by the graph's {@link GraphHistory}. Decorated field names must
+ * not begin with an underscore, which would be mangled in production builds.
+ *
+ * @hidden
+ * @category Graph
+ */
+export function GraphAttribute (target: any, propertyKey: string): void {
+	const key = DECORATOR_PREFIX + propertyKey;
+	Object.defineProperty(target, propertyKey, {
+		get: function () {
+			return this[key];
+		},
+		set: function (value) {
+			// Arrays are copied, so later edits to the caller's array cannot bypass history.
+			assign(this, key, Array.isArray(value) ? value.slice() : value, propertyKey);
+		},
+		enumerable: true
+	});
+}
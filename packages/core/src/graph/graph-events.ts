@@ -0,0 +1,71 @@
+import { Link } from './graph-links';
+import { GraphNode } from './graph-node';
+
+/**
+ * Event dispatched when a {@link GraphNode} is created, disposed, or cloned. Creation events are
+ * dispatched by factory methods, like {@link Document.createNode}, after construction completes.
+ * When {@link GraphHistory} restores a disposed node, a creation event is dispatched again.
+ *
+ * @hidden
+ * @category Graph
+ */
+export interface GraphNodeEvent<T extends GraphNode = GraphNode> {
+	type: 'create' | 'dispose' | 'clone';
+	target: T;
+}
+
+/**
+ * Event dispatched when an attribute of a {@link GraphNode} — a field decorated with
+ * {@link GraphAttribute}, like a {@link Node}'s translation — is assigned a new value.
+ *
+ * @hidden
+ * @category Graph
+ */
+export interface GraphAttributeEvent<T extends GraphNode = GraphNode> {
+	type: 'change';
+	target: T;
+	/** Name of the attribute, e.g. 'translation' or 'baseColorFactor'. */
+	attribute: string;
+	value: unknown;
+	previousValue: unknown;
+}
+
+/**
+ * Event dispatched when a {@link Link} is added to or removed from the {@link Graph}. The target
+ * is the link's parent (owner) node, and {@link Link.getName} identifies the slot or list that
+ * changed, e.g. 'baseColorTexture' or 'child'.
+ *
+ * @hidden
+ * @category Graph
+ */
+export interface GraphLinkEvent<T extends GraphNode = GraphNode> {
+	type: 'link' | 'unlink';
+	target: T;
+	link: Link<T, T>;
+}
+
+/**
+ * Events dispatched by a {@link Graph} and its nodes, by type.
+ *
+ * @hidden
+ * @category Graph
+ */
+export interface GraphEventMap<T extends GraphNode = GraphNode> {
+	create: GraphNodeEvent<T>;
+	dispose: GraphNodeEvent<T>;
+	clone: GraphNodeEvent<T>;
+	change: GraphAttributeEvent<T>;
+	link: GraphLinkEvent<T>;
+	unlink: GraphLinkEvent<T>;
+}
+
+/**
+ * Any event dispatched by a {@link Graph} and its nodes.
+ *
+ * @hidden
+ * @category Graph
+ */
+export type GraphEvent<T extends GraphNode = GraphNode> = GraphEventMap<T>[keyof GraphEventMap<T>];
+
+/** @hidden */
+export type GraphEventListener<E> = (event: E) => void;
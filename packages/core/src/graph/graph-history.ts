@@ -0,0 +1,239 @@
+/**
+ * Reversible record of a single change to a {@link Graph}. Operations are recorded by the graph,
+ * its nodes, and their decorated fields while a transaction is open.
+ *
+ * @hidden
+ * @category Graph
+ */
+export interface GraphOperation {
+	/** Reverts the change. */
+	undo(): void;
+	/** Re-applies the change, after it has been reverted. */
+	redo(): void;
+}
+
+/**
+ * # GraphHistory
+ *
+ * *Transactions and undo/redo stacks for changes to a {@link Graph}.*
+ *
+ * While a transaction is open, changes to the graph — links created or disposed, properties
+ * disposed, and attributes assigned through setters like {@link Node.setTranslation} — are
+ * recorded. A transaction may be committed, adding it to the undo stack, or rolled back,
+ * reverting its changes immediately. Nested transactions are merged into their parent when
+ * committed.
+ *
+ * Usage:
+ *
+ * ```ts
+ * const history = doc.getHistory();
+ *
+ * history.begin();
+ * node.setTranslation([0, 5, 0]);
+ * mesh.dispose();
+ * history.commit();
+ *
+ * history.undo(); // → mesh restored, translation reverted.
+ * history.redo(); // → mesh disposed, translation re-applied.
+ * ```
+ *
+ * When the history is enabled with {@link setEnabled}, each call to {@link Document.transform}
+ * is recorded as a single transaction:
+ *
+ * ```ts
+ * doc.getHistory().setEnabled(true);
+ *
+ * await doc.transform(dedup(), prune());
+ *
+ * doc.getHistory().undo(); // → reverts both transforms.
+ * ```
+ *
+ * Changes made outside of a transaction are not recorded, and clear the redo stack. Getters
+ * for array and object attributes, like {@link Node.getTranslation} and
+ * {@link Property.getExtras}, return copies. Typed arrays are the exception: writing directly
+ * into `accessor.getArray()` is not recorded, so use {@link Accessor.setElement} when changes
+ * must be reversible.
+ *
+ * @category Graph
+ */
+export class GraphHistory {
+	private _enabled = false;
+	private _limit = 100;
+	private _replaying = false;
+
+	private _transactions: GraphOperation[][] = [];
+	private _undoStack: GraphOperation[][] = [];
+	private _redoStack: GraphOperation[][] = [];
+	private _modified: WeakSet<ArrayBuffer | ArrayBufferView> = new WeakSet();
+
+	/**
+	 * Whether {@link Document.transform} records each call as a transaction. Transactions may be
+	 * opened manually with {@link begin} regardless of this setting.
+	 */
+	public isEnabled(): boolean { return this._enabled; }
+
+	/**
+	 * Sets whether {@link Document.transform} records each call as a transaction. Transactions may
+	 * be opened manually with {@link begin} regardless of this setting.
+	 */
+	public setEnabled(enabled: boolean): this {
+		this._enabled = enabled;
+		return this;
+	}
+
+	/** Maximum number of committed transactions kept in the undo stack. Default is 100. */
+	public getLimit(): number { return this._limit; }
+
+	/** Maximum number of committed transactions kept in the undo stack. Default is 100. */
+	public setLimit(limit: number): this {
+		this._limit = limit;
+		this._trim();
+		return this;
+	}
+
+	/** Whether changes to the graph are currently being recorded. */
+	public isRecording(): boolean {
+		return this._transactions.length > 0 && !this._replaying;
+	}
+
+	/** Whether changes are currently being reverted or re-applied by the history. */
+	public isReplaying(): boolean { return this._replaying; }
+
+	/**********************************************************************************************
+	 * Transactions.
+	 */
+
+	/** Opens a transaction. Transactions opened within another transaction are nested. */
+	public begin(): this {
+		if (this._replaying) throw new Error('Cannot begin transaction during undo/redo.');
+		if (this._transactions.length === 0) this._modified = new WeakSet();
+		this._transactions.push([]);
+		return this;
+	}
+
+	/**
+	 * Closes the current transaction. Outermost transactions are added to the undo stack, and
+	 * nested transactions are merged into their parent.
+	 */
+	public commit(): this {
+		const operations = this._transactions.pop();
+		if (!operations) throw new Error('No transaction to commit.');
+
+		if (this._transactions.length > 0) {
+			const parent = this._transactions[this._transactions.length - 1];
+			for (const operation of operations) parent.push(operation);
+		} else if (operations.length > 0) {
+			this._undoStack.push(operations);
+			this._redoStack.length = 0;
+			this._trim();
+		}
+
+		return this;
+	}
+
+	/** Closes the current transaction, reverting all changes made since it was opened. */
+	public rollback(): this {
+		const operations = this._transactions.pop();
+		if (!operations) throw new Error('No transaction to roll back.');
+		this._replay(operations, true);
+		// Objects modified in place must be recorded again, if modified later.
+		this._modified = new WeakSet();
+		return this;
+	}
+
+	/**********************************************************************************************
+	 * Undo/redo.
+	 */
+
+	/** Whether a committed transaction is available to undo. */
+	public canUndo(): boolean { return this._undoStack.length > 0; }
+
+	/** Whether an undone transaction is available to redo. */
+	public canRedo(): boolean { return this._redoStack.length > 0; }
+
+	/** Reverts the most recently committed transaction, if any. */
+	public undo(): this {
+		this._assertIdle('undo');
+		const operations = this._undoStack.pop();
+		if (!operations) return this;
+		this._replay(operations, true);
+		this._redoStack.push(operations);
+		return this;
+	}
+
+	/** Re-applies the most recently undone transaction, if any. */
+	public redo(): this {
+		this._assertIdle('redo');
+		const operations = this._redoStack.pop();
+		if (!operations) return this;
+		this._replay(operations, false);
+		this._undoStack.push(operations);
+		return this;
+	}
+
+	/** Discards the undo and redo stacks. Open transactions are unaffected. */
+	public clear(): this {
+		this._undoStack.length = 0;
+		this._redoStack.length = 0;
+		return this;
+	}
+
+	/**********************************************************************************************
+	 * Recording.
+	 */
+
+	/**
+	 * Records an operation in the current transaction. Changes made outside of a transaction
+	 * invalidate the redo stack.
+	 *
+	 * @hidden
+	 */
+	public record(operation: GraphOperation): this {
+		if (this._replaying) return this;
+		if (this._transactions.length === 0) {
+			this._redoStack.length = 0;
+			return this;
+		}
+		this._transactions[this._transactions.length - 1].push(operation);
+		return this;
+	}
+
+	/**
+	 * Marks a buffer or typed array as modified in place during the current transaction. Returns
+	 * true the first time a given array is marked, such that callers may record its prior state
+	 * once.
+	 *
+	 * @hidden
+	 */
+	public markModified(target: ArrayBuffer | ArrayBufferView): boolean {
+		if (!this.isRecording() || this._modified.has(target)) return false;
+		this._modified.add(target);
+		return true;
+	}
+
+	/** @internal */
+	private _replay(operations: GraphOperation[], undo: boolean): void {
+		this._replaying = true;
+		try {
+			if (undo) {
+				for (let i = operations.length - 1; i >= 0; i--) operations[i].undo();
+			} else {
+				for (let i = 0; i < operations.length; i++) operations[i].redo();
+			}
+		} finally {
+			this._replaying = false;
+		}
+	}
+
+	/** @internal */
+	private _assertIdle(action: string): void {
+		if (this._transactions.length > 0) {
+			throw new Error(`Cannot ${action} while a transaction is open.`);
+		}
+	}
+
+	/** @internal */
+	private _trim(): void {
+		while (this._undoStack.length > this._limit) this._undoStack.shift();
+	}
+}
@@ -13,6 +13,7 @@ import { GraphNode } from './graph-node';
  */
 export class Link<Parent extends GraphNode, Child extends GraphNode> {
 	private _disposed = false;
+	private _retainListeners = false;
 	private readonly _listeners: (() => void)[] = [];
 	constructor(
 		private readonly _name: string,
@@ -47,8 +48,31 @@ export class Link<Parent extends GraphNode, Child extends GraphNode> {
 	dispose(): void {
 		if (this._disposed) return;
 		this._disposed = true;
+		this._retainListeners = false;
 		this._listeners.forEach((fn) => fn());
-		this._listeners.length = 0;
+		if (!this._retainListeners) this._listeners.length = 0;
+	}
+
+	/**
+	 * Keeps listeners registered through the current call to {@link dispose}, so they are invoked
+	 * again if the link is restored by {@link GraphHistory} and disposed later.
+	 *
+	 * @internal Only {@link Graph} implementations may safely call this method directly.
+	 */
+	_retainOnDispose(): this {
+		this._retainListeners = true;
+		return this;
+	}
+
+	/**
+	 * Marks the link as disposed or intact, without invoking listeners.
+	 *
+	 * @internal Only {@link Graph} implementations may safely call this method directly, when
+	 * 	replaying changes from {@link GraphHistory}.
+	 */
+	_setDisposed(disposed: boolean): this {
+		this._disposed = disposed;
+		return this;
 	}
 
 	/** Registers a listener to be invoked if this link is destroyed. */
@@ -1,4 +1,5 @@
 import { Graph } from './graph';
+import { GraphEvent, GraphEventListener, GraphEventMap } from './graph-events';
 import { Link } from './graph-links';
 
 /**
@@ -9,10 +10,56 @@ import { Link } from './graph-links';
  */
 export abstract class GraphNode {
 	private _disposed = false;
+	private _listeners: {[type: string]: GraphEventListener<GraphEvent>[]} = {};
 	constructor(protected readonly graph: Graph<GraphNode>) {
 		this.graph = graph;
 	}
 
+	/**
+	 * Registers a listener for events of the given type, dispatched for this node. See
+	 * {@link GraphEventMap} for available event types. Listeners for all nodes may be registered
+	 * on the {@link Graph}.
+	 */
+	public on<K extends keyof GraphEventMap<this>>(
+			type: K, fn: GraphEventListener<GraphEventMap<this>[K]>): this {
+		this._listeners[type] = this._listeners[type] || [];
+		this._listeners[type].push(fn as unknown as GraphEventListener<GraphEvent>);
+		return this;
+	}
+
+	/** Removes a listener previously registered with {@link on}. */
+	public off<K extends keyof GraphEventMap<this>>(
+			type: K, fn: GraphEventListener<GraphEventMap<this>[K]>): this {
+		const listeners = this._listeners[type] || [];
+		const index = listeners.indexOf(fn as unknown as GraphEventListener<GraphEvent>);
+		if (index !== -1) listeners.splice(index, 1);
+		return this;
+	}
+
+	/**
+	 * Returns true if any listeners for the given event type are registered on this node.
+	 *
+	 * @hidden
+	 */
+	public hasListeners(type: string): boolean {
+		const listeners = this._listeners[type];
+		return !!listeners && listeners.length > 0;
+	}
+
+	/**
+	 * Dispatches an event to listeners registered on this node. Events are dispatched through
+	 * {@link Graph.dispatchEvent}, which calls this method.
+	 *
+	 * @hidden
+	 */
+	public dispatchEvent(event: GraphEvent): this {
+		const listeners = this._listeners[event.type];
+		if (listeners) {
+			for (const fn of listeners.slice()) fn(event);
+		}
+		return this;
+	}
+
 	/**
 	 * Returns true if links between this and the given node are allowed. Validates only that the
 	 * objects are both {@link GraphNode} instances and on the same graph, not that they are
@@ -36,6 +83,17 @@ export abstract class GraphNode {
 		this.graph.disconnectChildren(this);
 		this.graph.disconnectParents(this);
 		this._disposed = true;
+		this.graph.getHistory().record({
+			undo: () => this._setDisposed(false),
+			redo: () => this._setDisposed(true),
+		});
+		this.graph.emit('dispose', this);
+	}
+
+	/** @internal */
+	private _setDisposed(disposed: boolean): void {
+		this._disposed = disposed;
+		this.graph.emit(disposed ? 'dispose' : 'create', this);
 	}
 
 	/**
@@ -71,11 +129,21 @@ export abstract class GraphNode {
 	protected addGraphChild(
 			links: Link<GraphNode, GraphNode>[],
 			link: Link<GraphNode, GraphNode>): this {
+		const history = this.graph.getHistory();
+		const index = links.length;
 		links.push(link);
+		history.record({
+			undo: () => links.splice(index, 1),
+			redo: () => links.splice(index, 0, link),
+		});
 		link.onDispose(() => {
-			const remaining = links.filter((l) => l !== link);
-			links.length = 0;
-			for (const link of remaining) links.push(link);
+			const index = links.indexOf(link);
+			if (index === -1) return;
+			links.splice(index, 1);
+			history.record({
+				undo: () => links.splice(index, 0, link),
+				redo: () => links.splice(index, 1),
+			});
 		});
 		return this;
 	}
@@ -1,3 +1,5 @@
+import { GraphEvent, GraphEventListener, GraphEventMap, GraphNodeEvent } from './graph-events';
+import { GraphHistory } from './graph-history';
 import { Link } from './graph-links';
 import { GraphNode } from './graph-node';
 
@@ -15,19 +17,77 @@ export class Graph<T extends GraphNode> {
 	private _parentRefs: Map<T, Set<Link<T, T>>> = new Map();
 	private _childRefs: Map<T, Set<Link<T, T>>> = new Map();
 
-	private _listeners: {[event: string]: ((target: unknown) => void)[]} = {};
+	private _listeners: {[type: string]: GraphEventListener<GraphEvent>[]} = {};
 
-	public on(type: string, fn: (target: unknown) => void): this {
+	private _history: GraphHistory = new GraphHistory();
+
+	/** Returns the {@link GraphHistory} recording changes to this graph. */
+	public getHistory(): GraphHistory {
+		return this._history;
+	}
+
+	/**
+	 * Registers a listener for events of the given type, dispatched for any node in the graph.
+	 * See {@link GraphEventMap} for available event types.
+	 */
+	public on<K extends keyof GraphEventMap<T>>(
+			type: K, fn: GraphEventListener<GraphEventMap<T>[K]>): this {
 		this._listeners[type] = this._listeners[type] || [];
-		this._listeners[type].push(fn);
+		this._listeners[type].push(fn as unknown as GraphEventListener<GraphEvent>);
+		return this;
+	}
+
+	/** Removes a listener previously registered with {@link on}. */
+	public off<K extends keyof GraphEventMap<T>>(
+			type: K, fn: GraphEventListener<GraphEventMap<T>[K]>): this {
+		const listeners = this._listeners[type] || [];
+		const index = listeners.indexOf(fn as unknown as GraphEventListener<GraphEvent>);
+		if (index !== -1) listeners.splice(index, 1);
 		return this;
 	}
 
+	/**
+	 * Returns true if any listeners for the given event type are registered on the graph, or on
+	 * the given target node.
+	 */
+	public hasListeners(type: string, target?: T): boolean {
+		const listeners = this._listeners[type];
+		if (listeners && listeners.length > 0) return true;
+		return !!target && target.hasListeners(type);
+	}
+
+	/**
+	 * Dispatches a {@link GraphNodeEvent} of the given type, e.g. 'create' or 'dispose', for the
+	 * target node. Other events are dispatched with {@link dispatchEvent}.
+	 */
 	public emit(type: string, target: T): this {
-		for (const fn of this._listeners[type] || []) fn(target);
+		return this.dispatchEvent({type, target} as GraphNodeEvent<T>);
+	}
+
+	/**
+	 * Dispatches an event to listeners registered on the graph, and then to listeners registered
+	 * on the event's target node.
+	 */
+	public dispatchEvent(event: GraphEvent<T>): this {
+		const listeners = this._listeners[event.type];
+		if (listeners) {
+			for (const fn of listeners.slice()) fn(event as GraphEvent);
+		}
+		event.target.dispatchEvent(event as GraphEvent);
 		return this;
 	}
 
+	/**
+	 * Dispatches a 'create' event for a newly-constructed node, and returns the node. Factory
+	 * methods call this once the constructor has returned, so that listeners receive a node
+	 * with its subclass fields initialized. Nodes constructed without a factory method emit no
+	 * 'create' event, so factory methods of custom extensions must call this as well.
+	 */
+	public emitCreate<N extends T>(node: N): N {
+		this.emit('create', node);
+		return node;
+	}
+
 	/** Returns a list of all parent->child links on this graph. */
 	public getLinks(): Link<T, T>[] {
 		return Array.from(this._links);
@@ -73,15 +133,26 @@ export class Graph<T extends GraphNode> {
 		Array.from(links)
 			.filter((link) => link.getChild() === prevChild)
 			.forEach((link) => {
-				this._childRefs.get(prevChild)!.delete(link);
-
-				link.setChild(nextChild);
-				if (!this._childRefs.has(nextChild)) this._childRefs.set(nextChild, new Set());
-				this._childRefs.get(nextChild)!.add(link);
+				this._setChild(link, nextChild);
+				this._history.record({
+					undo: () => this._setChild(link, prevChild),
+					redo: () => this._setChild(link, nextChild),
+				});
 			});
 		return this;
 	}
 
+	/** @internal */
+	private _setChild(link: Link<T, T>, child: T): void {
+		this.dispatchEvent({type: 'unlink', target: link.getParent(), link});
+		this._childRefs.get(link.getChild())!.delete(link);
+
+		link.setChild(child);
+		if (!this._childRefs.has(child)) this._childRefs.set(child, new Set());
+		this._childRefs.get(child)!.add(link);
+		this.dispatchEvent({type: 'link', target: link.getParent(), link});
+	}
+
 	/**
 	* Creates a link between two {@link GraphNode} instances. Link is returned
 	* for the caller to store.
@@ -101,6 +172,47 @@ export class Graph<T extends GraphNode> {
 	}
 
 	protected registerLink(link: Link<T, T>): Link<T, T> {
+		this._attach(link);
+		link.onDispose(() => this.unlink(link));
+		this._history.record({
+			undo: () => this._detach(link),
+			redo: () => this._attach(link),
+		});
+		return link;
+	}
+
+	/**
+	* Removes the link from the graph. This method should only be invoked by
+	* the onDispose() listener created in {@link link()}. The public method
+	* of removing a link is {@link link.dispose()}.
+	* @param link
+	*/
+	private unlink(link: Link<T, T>): this {
+		this._detach(link);
+		if (this._history.isRecording()) link._retainOnDispose();
+		this._history.record({
+			undo: () => this._attach(link),
+			redo: () => this._detach(link),
+		});
+		return this;
+	}
+
+	/** @internal Adds a link to the graph, restoring it if previously disposed. */
+	private _attach(link: Link<T, T>): void {
+		this._addRefs(link);
+		link._setDisposed(false);
+		this.dispatchEvent({type: 'link', target: link.getParent(), link});
+	}
+
+	/** @internal Removes a link from the graph, marking it disposed. */
+	private _detach(link: Link<T, T>): void {
+		this._removeRefs(link);
+		link._setDisposed(true);
+		this.dispatchEvent({type: 'unlink', target: link.getParent(), link});
+	}
+
+	/** @internal */
+	private _addRefs(link: Link<T, T>): Link<T, T> {
 		this._links.add(link);
 
 		const parent = link.getParent();
@@ -111,20 +223,14 @@ export class Graph<T extends GraphNode> {
 		if (!this._childRefs.has(child)) this._childRefs.set(child, new Set());
 		this._childRefs.get(child)!.add(link);
 
-		link.onDispose(() => this.unlink(link));
 		return link;
 	}
 
-	/**
-	* Removes the link from the graph. This method should only be invoked by
-	* the onDispose() listener created in {@link link()}. The public method
-	* of removing a link is {@link link.dispose()}.
-	* @param link
-	*/
-	private unlink(link: Link<T, T>): this {
+	/** @internal */
+	private _removeRefs(link: Link<T, T>): Link<T, T> {
 		this._links.delete(link);
 		this._parentRefs.get(link.getParent())!.delete(link);
 		this._childRefs.get(link.getChild())!.delete(link);
-		return this;
+		return link;
 	}
 }
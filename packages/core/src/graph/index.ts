@@ -1,4 +1,13 @@
 export { Graph } from './graph';
-export { GraphChild, GraphChildList } from './graph-decorators';
+export { GraphAttribute, GraphChild, GraphChildList } from './graph-decorators';
+export {
+	GraphAttributeEvent,
+	GraphEvent,
+	GraphEventListener,
+	GraphEventMap,
+	GraphLinkEvent,
+	GraphNodeEvent,
+} from './graph-events';
+export { GraphHistory, GraphOperation } from './graph-history';
 export { Link } from './graph-links';
 export { GraphNode } from './graph-node';
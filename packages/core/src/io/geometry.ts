@@ -0,0 +1,275 @@
+import { normalFromMat4 } from 'gl-matrix/mat3';
+import { determinant } from 'gl-matrix/mat4';
+import { normalize, transformMat3, transformMat4 } from 'gl-matrix/vec3';
+import { GLB_BUFFER, mat3, vec3, vec4 } from '../constants';
+import { Document } from '../document';
+import { JSONDocument } from '../json-document';
+import { Accessor, Material, Primitive } from '../properties';
+import { GLTF } from '../types/gltf';
+import { BufferUtils, Logger } from '../utils';
+
+/**
+ * Helpers shared by converters between glTF and mesh-only formats, like OBJ, STL, and PLY. On
+ * import, meshes are written to a glTF JSON document with a single, GLB-style buffer. On export,
+ * a scene is flattened into primitives in world space.
+ */
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+/** Primitive modes supported by {@link listWorldPrimitives}. */
+const SUPPORTED_MODES = new Set<GLTF.MeshPrimitiveMode>([
+	Primitive.Mode.POINTS,
+	Primitive.Mode.TRIANGLES,
+	Primitive.Mode.TRIANGLE_STRIP,
+	Primitive.Mode.TRIANGLE_FAN,
+]);
+
+/** @internal Vertex attribute for {@link createGeometryJSON}. */
+export interface GeometryAttribute {
+	array: Float32Array | Uint8Array | Uint16Array;
+	type: GLTF.AccessorType;
+	normalized?: boolean;
+}
+
+/** @internal Primitive for {@link createGeometryJSON}. */
+export interface GeometryPrimitive {
+	attributes: {[semantic: string]: GeometryAttribute};
+	indices?: Uint16Array | Uint32Array;
+	mode?: GLTF.MeshPrimitiveMode;
+	material?: number;
+}
+
+/** @internal Mesh for {@link createGeometryJSON}. */
+export interface GeometryMesh {
+	name?: string;
+	primitives: GeometryPrimitive[];
+}
+
+/** @internal Primitive flattened into world space by {@link listWorldPrimitives}. */
+export interface WorldPrimitive {
+	name: string;
+	mode: GLTF.MeshPrimitiveMode;
+	position: Float32Array;
+	normal: Float32Array | null;
+	texcoord: Float32Array | null;
+	color: Float32Array | null;
+	/** Vertex indices. For triangles, three per face, with counter-clockwise winding. */
+	indices: Uint32Array;
+	material: Material | null;
+}
+
+/**
+ * @internal Creates a glTF 2.0 {@link JSONDocument} containing the given meshes, each with a node
+ * in the default scene. Vertex data is stored in a buffer without a URI, as in a GLB file.
+ */
+export function createGeometryJSON(meshes: GeometryMesh[]): JSONDocument {
+	const json: GLTF.IGLTF = {asset: {version: '2.0'}};
+	const accessorDefs: GLTF.IAccessor[] = [];
+	const bufferViewDefs: GLTF.IBufferView[] = [];
+	const buffers: ArrayBuffer[] = [];
+	let byteLength = 0;
+
+	const createAccessor = (
+			array: Float32Array | Uint8Array | Uint16Array | Uint32Array,
+			type: GLTF.AccessorType,
+			target: number,
+			normalized = false): number => {
+		const data = BufferUtils.pad(array.slice().buffer);
+		const bufferViewDef = {buffer: 0, byteOffset: byteLength, byteLength: array.byteLength};
+		bufferViewDefs.push({...bufferViewDef, target});
+		const accessorDef: GLTF.IAccessor = {
+			bufferView: bufferViewDefs.length - 1,
+			componentType: getComponentType(array),
+			count: array.length / Accessor.getElementSize(type),
+			type,
+		};
+		if (normalized) accessorDef.normalized = true;
+		accessorDefs.push(accessorDef);
+		buffers.push(data);
+		byteLength += data.byteLength;
+		return accessorDefs.length - 1;
+	};
+
+	const meshDefs: GLTF.IMesh[] = [];
+	const nodeDefs: GLTF.INode[] = [];
+	for (const mesh of meshes) {
+		const meshDef: GLTF.IMesh = {primitives: []};
+		for (const prim of mesh.primitives) {
+			const primDef: GLTF.IMeshPrimitive = {attributes: {}};
+			for (const semantic in prim.attributes) {
+				const {array, type, normalized} = prim.attributes[semantic];
+				const accessor = createAccessor(array, type, ARRAY_BUFFER, normalized);
+				primDef.attributes[semantic] = accessor;
+			}
+			if (prim.indices) {
+				primDef.indices = createAccessor(prim.indices, 'SCALAR', ELEMENT_ARRAY_BUFFER);
+			}
+			if (prim.mode !== undefined && prim.mode !== Primitive.Mode.TRIANGLES) {
+				primDef.mode = prim.mode;
+			}
+			if (prim.material !== undefined) primDef.material = prim.material;
+			meshDef.primitives.push(primDef);
+		}
+		const nodeDef: GLTF.INode = {mesh: meshDefs.length};
+		if (mesh.name) meshDef.name = nodeDef.name = mesh.name;
+		meshDefs.push(meshDef);
+		nodeDefs.push(nodeDef);
+	}
+
+	const resources: {[uri: string]: ArrayBuffer} = {};
+	if (byteLength) {
+		json.accessors = accessorDefs;
+		json.bufferViews = bufferViewDefs;
+		json.buffers = [{byteLength}];
+		resources[GLB_BUFFER] = BufferUtils.concat(buffers);
+	}
+	if (meshDefs.length) {
+		json.meshes = meshDefs;
+		json.nodes = nodeDefs;
+		json.scenes = [{nodes: nodeDefs.map((_, index) => index)}];
+		json.scene = 0;
+	}
+
+	return {json, resources};
+}
+
+/** @internal Returns an index array of the smallest sufficient type. */
+export function createIndices(indices: number[] | Uint32Array, vertexCount: number)
+		: Uint16Array | Uint32Array {
+	return vertexCount > 65535 ? new Uint32Array(indices) : new Uint16Array(indices);
+}
+
+/**
+ * @internal Flattens the default scene of a {@link Document} (or its first scene, if no default is
+ * set) into primitives in world space. Positions and normals are transformed by the world matrix
+ * of each node, and winding order is reversed for mirrored nodes. Triangle strips and fans are
+ * converted to `TRIANGLES`. Lines, and primitives without positions, are skipped with a warning.
+ */
+export function listWorldPrimitives(doc: Document, logger: Logger): WorldPrimitive[] {
+	const root = doc.getRoot();
+	const scene = root.getDefaultScene() || root.listScenes()[0];
+	const result: WorldPrimitive[] = [];
+	if (!scene) return result;
+
+	let skipped = 0;
+	for (const child of scene.listChildren()) {
+		child.traverse((node) => {
+			const mesh = node.getMesh();
+			if (!mesh) return;
+
+			const matrix = node.getWorldMatrix();
+			const normalMatrix = normalFromMat4([] as unknown as mat3, matrix);
+			const isMirrored = determinant(matrix) < 0;
+
+			for (const prim of mesh.listPrimitives()) {
+				const position = prim.getAttribute('POSITION');
+				if (!position || !SUPPORTED_MODES.has(prim.getMode())) {
+					skipped++;
+					continue;
+				}
+
+				const count = position.getCount();
+				const el = [0, 0, 0] as vec3;
+				const positionArray = new Float32Array(count * 3);
+				for (let i = 0; i < count; i++) {
+					position.getElement(i, el);
+					transformMat4(el, el, matrix);
+					positionArray.set(el, i * 3);
+				}
+
+				const normal = prim.getAttribute('NORMAL');
+				let normalArray: Float32Array | null = null;
+				if (normal) {
+					normalArray = new Float32Array(count * 3);
+					for (let i = 0; i < count; i++) {
+						normal.getElement(i, el);
+						normalize(el, transformMat3(el, el, normalMatrix));
+						normalArray.set(el, i * 3);
+					}
+				}
+
+				const texcoord = prim.getAttribute('TEXCOORD_0');
+				const texcoordArray = texcoord ? readArray(texcoord, 2) : null;
+
+				const color = prim.getAttribute('COLOR_0');
+				const colorArray = color ? readArray(color, 4, 1) : null;
+
+				const indices = prim.getIndices();
+				let indicesArray = indices
+					? new Uint32Array(indices.getArray()!)
+					: new Uint32Array(count).map((_, index) => index);
+				let mode = prim.getMode();
+				const {TRIANGLES, TRIANGLE_STRIP, TRIANGLE_FAN} = Primitive.Mode;
+				if (mode === TRIANGLE_STRIP || mode === TRIANGLE_FAN) {
+					indicesArray = triangulate(indicesArray, mode);
+					mode = TRIANGLES;
+				}
+				if (mode === TRIANGLES && isMirrored) {
+					for (let i = 0; i + 2 < indicesArray.length; i += 3) {
+						const tmp = indicesArray[i + 1];
+						indicesArray[i + 1] = indicesArray[i + 2];
+						indicesArray[i + 2] = tmp;
+					}
+				}
+
+				result.push({
+					name: node.getName() || mesh.getName(),
+					mode,
+					position: positionArray,
+					normal: normalArray,
+					texcoord: texcoordArray,
+					color: colorArray,
+					indices: indicesArray,
+					material: prim.getMaterial(),
+				});
+			}
+		});
+	}
+
+	if (skipped) {
+		logger.warn(
+			`Skipped ${skipped} primitive(s) without positions, or in LINES, LINE_LOOP, or`
+			+ ' LINE_STRIP mode.'
+		);
+	}
+
+	return result;
+}
+
+/** Converts triangle strip or fan indices to triangle list indices. */
+function triangulate(indices: Uint32Array, mode: GLTF.MeshPrimitiveMode): Uint32Array {
+	const triangleCount = Math.max(indices.length - 2, 0);
+	const result = new Uint32Array(triangleCount * 3);
+	for (let i = 0; i < triangleCount; i++) {
+		if (mode === Primitive.Mode.TRIANGLE_FAN) {
+			result.set([indices[0], indices[i + 1], indices[i + 2]], i * 3);
+		} else if (i % 2 === 0) {
+			result.set([indices[i], indices[i + 1], indices[i + 2]], i * 3);
+		} else {
+			// Odd triangles of a strip are reversed, to keep a consistent winding order.
+			result.set([indices[i + 1], indices[i], indices[i + 2]], i * 3);
+		}
+	}
+	return result;
+}
+
+/** Reads accessor elements into a float array, padding elements to the given size. */
+function readArray(accessor: Accessor, elementSize: number, fill = 0): Float32Array {
+	const count = accessor.getCount();
+	const el = [fill, fill, fill, fill] as vec4;
+	const array = new Float32Array(count * elementSize);
+	for (let i = 0; i < count; i++) {
+		accessor.getElement(i, el);
+		for (let j = 0; j < elementSize; j++) array[i * elementSize + j] = el[j];
+	}
+	return array;
+}
+
+function getComponentType(array: Float32Array | Uint8Array | Uint16Array | Uint32Array)
+		: GLTF.AccessorComponentType {
+	if (array instanceof Float32Array) return Accessor.ComponentType.FLOAT;
+	if (array instanceof Uint8Array) return Accessor.ComponentType.UNSIGNED_BYTE;
+	if (array instanceof Uint16Array) return Accessor.ComponentType.UNSIGNED_SHORT;
+	return Accessor.ComponentType.UNSIGNED_INT;
+}
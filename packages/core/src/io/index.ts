@@ -1,7 +1,9 @@
-export { NodeIO } from './node-io';
-export { PlatformIO } from './platform-io';
-export { WebIO } from './web-io';
+export { IOError, IOErrorCode, ReadError, WriteError } from './io-error';
+export { NodeIO, NodeIOReadResult, NodeIOWriteResult } from './node-io';
+export { OBJWriterOptions, writeOBJ } from './obj';
+export { PlatformIO, ResourceResolver } from './platform-io';
+export { WebIO, WebIOFiles } from './web-io';
 export { ReaderOptions } from './reader';
-export { WriterOptions } from './writer';
+export { BufferViewLayout, LayoutPolicy, WriterOptions } from './writer';
 export { ReaderContext } from './reader-context';
 export { WriterContext } from './writer-context';
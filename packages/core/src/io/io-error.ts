@@ -0,0 +1,116 @@
+/**
+ * Stable codes identifying problems in reading or writing glTF assets. Where possible, codes
+ * match those of the official [glTF-Validator](https://github.com/KhronosGroup/glTF-Validator).
+ *
+ * @category I/O
+ */
+export enum IOErrorCode {
+	/** File does not begin with the GLB magic bytes, and is not a glTF asset. */
+	GLB_INVALID_MAGIC = 'GLB_INVALID_MAGIC',
+	/** GLB container version is not supported. */
+	GLB_INVALID_VERSION = 'GLB_INVALID_VERSION',
+	/** GLB container does not begin with a JSON chunk. */
+	GLB_UNEXPECTED_FIRST_CHUNK = 'GLB_UNEXPECTED_FIRST_CHUNK',
+	/** GLB container has a chunk other than BIN following the JSON chunk. */
+	GLB_UNEXPECTED_CHUNK = 'GLB_UNEXPECTED_CHUNK',
+	/** GLB container has more than one buffer. */
+	GLB_MULTIPLE_BUFFERS = 'GLB_MULTIPLE_BUFFERS',
+	/** glTF 1.0 binary container (KHR_binary_glTF) has a content format other than JSON. */
+	GLB_UNSUPPORTED_CONTENT_FORMAT = 'GLB_UNSUPPORTED_CONTENT_FORMAT',
+	/** glTF asset version is not supported. */
+	UNKNOWN_ASSET_MAJOR_VERSION = 'UNKNOWN_ASSET_MAJOR_VERSION',
+	/** Extension required by the asset is not registered with the I/O instance. */
+	MISSING_REQUIRED_EXTENSION = 'MISSING_REQUIRED_EXTENSION',
+	/**
+	 * Archive is malformed or unsupported, or an archive or set of files does not contain exactly
+	 * one .gltf or .glb file.
+	 */
+	INVALID_ARCHIVE = 'INVALID_ARCHIVE',
+	/** Buffer or image data is not available. */
+	MISSING_RESOURCE = 'MISSING_RESOURCE',
+	/** Index refers to a definition that does not exist. */
+	UNRESOLVED_REFERENCE = 'UNRESOLVED_REFERENCE',
+	/** Accessor component type is not a valid glTF component type. */
+	INVALID_COMPONENT_TYPE = 'INVALID_COMPONENT_TYPE',
+	/** Accessor data extends beyond the end of its buffer view. */
+	ACCESSOR_TOO_LONG = 'ACCESSOR_TOO_LONG',
+	/** Accessor is used in ways that require different buffer views. */
+	ACCESSOR_USAGE_CONFLICT = 'ACCESSOR_USAGE_CONFLICT',
+	/** Buffer view layout chosen by a {@link LayoutPolicy} cannot be written. */
+	INVALID_LAYOUT = 'INVALID_LAYOUT',
+	/** PLY file does not begin with a valid header. */
+	PLY_INVALID_HEADER = 'PLY_INVALID_HEADER',
+	/** PLY file has a property of a type that is not supported. */
+	PLY_UNKNOWN_PROPERTY_TYPE = 'PLY_UNKNOWN_PROPERTY_TYPE',
+}
+
+/**
+ * # IOError
+ *
+ * *Error reading or writing a glTF asset.*
+ *
+ * Errors carry a stable {@link IOErrorCode} and a [JSON
+ * Pointer](https://datatracker.ietf.org/doc/html/rfc6901) to the offending element of the glTF
+ * JSON, allowing applications to handle them without parsing error messages:
+ *
+ * ```ts
+ * try {
+ * 	const doc = io.read('model.glb');
+ * } catch (e) {
+ * 	if (e instanceof ReadError && e.code === IOErrorCode.MISSING_RESOURCE) {
+ * 		console.error(`Missing file at ${e.pointer}.`); // → "Missing file at /images/2/uri."
+ * 	}
+ * }
+ * ```
+ *
+ * See {@link ReadError} and {@link WriteError}.
+ *
+ * @category I/O
+ */
+export class IOError extends Error {
+	/** Stable code identifying the problem. */
+	public readonly code: IOErrorCode;
+	/**
+	 * JSON Pointer to the offending element of the glTF JSON, e.g. '/accessors/12/componentType'.
+	 * Empty for problems affecting the file as a whole.
+	 */
+	public readonly pointer: string;
+	/**
+	 * Whether reading can continue, dropping the offending element. Recoverable problems are
+	 * reported as warnings, rather than thrown, when reading in lenient mode. See
+	 * {@link PlatformIO.setLenient}.
+	 */
+	public readonly recoverable: boolean;
+
+	constructor(code: IOErrorCode, message: string, pointer = '', recoverable = false) {
+		super(message);
+		// Restores the prototype chain, for 'instanceof' checks when compiled to ES5.
+		Object.setPrototypeOf(this, new.target.prototype);
+		this.name = 'IOError';
+		this.code = code;
+		this.pointer = pointer;
+		this.recoverable = recoverable;
+	}
+}
+
+/**
+ * # ReadError
+ *
+ * *Error reading a glTF asset.* See {@link IOError}.
+ *
+ * @category I/O
+ */
+export class ReadError extends IOError {
+	public name = 'ReadError';
+}
+
+/**
+ * # WriteError
+ *
+ * *Error writing a glTF asset.* See {@link IOError}.
+ *
+ * @category I/O
+ */
+export class WriteError extends IOError {
+	public name = 'WriteError';
+}
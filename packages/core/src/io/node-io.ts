@@ -1,12 +1,35 @@
-import { Format } from '../constants';
+import { Format, GLB_BUFFER } from '../constants';
 import { Document } from '../document';
 import { JSONDocument } from '../json-document';
 import { GLTF } from '../types/gltf';
-import { BufferUtils, FileUtils } from '../utils/';
+import { BufferUtils, FileUtils, ZipUtils } from '../utils/';
 import { PlatformIO } from './platform-io';
-import { GLTFReader } from './reader';
+import { IOErrorCode, ReadError } from './io-error';
+import { listMaterialLibraries, readOBJ, writeOBJ } from './obj';
+import { readPLY, writePLY } from './ply';
+import { readSTL, writeSTL } from './stl';
+import { ResourceRangeReader } from './reader';
 import { GLTFWriter } from './writer';
 
+/** Result of {@link NodeIO.readAsync}. */
+export interface NodeIOReadResult {
+	/** Document read from the given path. */
+	document: Document;
+	/** Number of bytes read, including external resources. */
+	byteLength: number;
+}
+
+/** Result of {@link NodeIO.writeAsync}. */
+export interface NodeIOWriteResult {
+	/** Number of bytes written, including external resources. */
+	byteLength: number;
+}
+
+/** Running count of bytes read by a single asynchronous call. */
+interface ByteCounter {
+	byteLength: number;
+}
+
 /**
  * # NodeIO
  *
@@ -34,18 +57,36 @@ import { GLTFWriter } from './writer';
  * io.writeBinary(doc);        // → ArrayBuffer
  * ```
  *
+ * Paths ending in `.zip` are read from, or written to, a .zip archive containing a .gltf file
+ * and its external resources. Paths ending in `.obj`, `.stl`, or `.ply` are read from, or written
+ * to, Wavefront OBJ, STL, or PLY files. OBJ files are read and written with MTL material libraries
+ * and textures, in the same directory. These formats are written from the default scene, flattened
+ * into world space. See {@link writeOBJ}.
+ *
+ * Asynchronous methods, {@link readAsync} and {@link writeAsync}, read and write files without
+ * blocking the event loop, loading external buffers and images in parallel:
+ *
+ * ```typescript
+ * const {document, byteLength} = await io.readAsync('model.gltf');
+ * await io.writeAsync('model.glb', document); // → {byteLength: number}
+ * ```
+ *
+ * Each call resolves with its own byte count, including external resources, such that calls on a
+ * single instance may overlap.
+ *
+ * Large .glb files may be read lazily, reading binary data only when accessed, or streamed,
+ * reading and writing binary data one buffer view at a time. See {@link setLazy} and
+ * {@link setStreaming}.
+ *
  * @category I/O
  */
 export class NodeIO extends PlatformIO {
 
 	private _fs;
 	private _path;
-
-	/** @hidden */
-	public lastReadBytes = 0;
-
-	/** @hidden */
-	public lastWriteBytes = 0;
+	private _zlib;
+	private _lazy = false;
+	private _streaming = false;
 
 	/** Constructs a new NodeIO service. Instances are reusable. */
 	constructor() {
@@ -53,34 +94,110 @@ export class NodeIO extends PlatformIO {
 		// Excluded from browser builds with 'package.browser' field.
 		this._fs = require('fs');
 		this._path = require('path');
+		this._zlib = require('zlib');
 	}
 
 	/**********************************************************************************************
 	 * Public.
 	 */
 
+	/**
+	 * Sets whether .glb files are read lazily. When enabled, {@link read} and {@link readAsync}
+	 * parse only the JSON chunk of a .glb file, and accessor and image data in its binary chunk
+	 * are read from the file on first access, with {@link Accessor.getArray} or
+	 * {@link Texture.getImage}. Data not accessed before writing is read from the file then,
+	 * written unchanged, and released once written. The file must not be modified while the
+	 * document is in use. Defaults to false.
+	 */
+	public setLazy(lazy: boolean): this {
+		this._lazy = lazy;
+		return this;
+	}
+
+	/**
+	 * Sets whether .glb files are streamed. When enabled, the binary chunk of a .glb file is
+	 * read from the file one accessor or image at a time, and written to the file one buffer view
+	 * at a time, never holding the full chunk in a single ArrayBuffer. Suited to assets
+	 * approaching the 2 GB limit on ArrayBuffer size. With {@link setLazy}, reading is lazy
+	 * instead. Defaults to false.
+	 */
+	public setStreaming(streaming: boolean): this {
+		this._streaming = streaming;
+		return this;
+	}
+
 	/** Loads a local path and returns a {@link Document} instance. */
 	public read (uri: string): Document {
-		const jsonDoc = this.readAsJSON(uri);
-		return GLTFReader.read(jsonDoc, {
-			extensions: this._extensions,
-			dependencies: this._dependencies,
-			logger: this._logger
+		const lazyResources: {[uri: string]: ResourceRangeReader} = {};
+		const isGLB = !!uri.match(/\.glb$/);
+		const file = new FileRangeReader(this._fs, this._path.resolve(uri));
+		// Ranges read before returning share one file descriptor. Lazy reads open their own.
+		return file.session(() => {
+			const jsonDoc = isGLB && (this._lazy || this._streaming)
+				? this._readGLBLazy(file, lazyResources)
+				: this.readAsJSON(uri);
+			const doc = this._readDocument(jsonDoc, lazyResources);
+			if (isGLB && this._streaming && !this._lazy) readLazyData(doc);
+			return doc;
 		});
 	}
 
 	/** Loads a local path and returns a {@link JSONDocument} struct, without parsing. */
 	public readAsJSON (uri: string): JSONDocument {
+		if (uri.match(/\.zip$/i)) return this._readZip(uri);
+		if (uri.match(/\.obj$/i)) return this._readOBJ(uri);
+		if (uri.match(/\.(stl|ply)$/i)) return this._readGeometry(uri);
 		const isGLB = !!(uri.match(/\.glb$/) || uri.match(/^data:application\/octet-stream;/));
 		return isGLB ? this._readGLB(uri) : this._readGLTF(uri);
 	}
 
 	/** Writes a {@link Document} instance to a local path. */
 	public write (uri: string, doc: Document): void {
+		if (uri.match(/\.zip$/i)) return this._writeZip(uri, doc);
+		if (uri.match(/\.obj$/i)) return this._writeOBJ(uri, doc);
+		if (uri.match(/\.(stl|ply)$/i)) return this._writeGeometry(uri, doc);
 		const isGLB = !!uri.match(/\.glb$/);
+		if (isGLB && this._streaming) return this._writeGLBStreamed(uri, doc);
 		isGLB ? this._writeGLB(uri, doc) : this._writeGLTF(uri, doc);
 	}
 
+	/**
+	 * Loads a local path and resolves to a {@link Document} instance, with the number of bytes
+	 * read, without blocking. External buffers and images are read in parallel.
+	 */
+	public async readAsync (uri: string): Promise<NodeIOReadResult> {
+		const lazyResources: {[uri: string]: ResourceRangeReader} = {};
+		const counter: ByteCounter = {byteLength: 0};
+		const isGLB = !!uri.match(/\.glb$/);
+		const isStreamed = isGLB && this._streaming && !this._lazy;
+		const jsonDoc = isGLB && (this._lazy || this._streaming)
+			? await this._readGLBLazyAsync(uri, lazyResources, counter, isStreamed)
+			: await this._readAsJSONAsync(uri, counter);
+		const doc = this._readDocument(jsonDoc, lazyResources);
+		if (isStreamed) {
+			readLazyData(doc);
+			// Releases buffer views read in advance, now copied to accessors and textures.
+			delete lazyResources[GLB_BUFFER];
+		}
+		return {document: doc, byteLength: counter.byteLength};
+	}
+
+	/**
+	 * Loads a local path and returns a {@link JSONDocument} struct, without parsing or blocking.
+	 * External buffers and images are read in parallel.
+	 */
+	public async readAsJSONAsync (uri: string): Promise<JSONDocument> {
+		return this._readAsJSONAsync(uri, {byteLength: 0});
+	}
+
+	/**
+	 * Writes a {@link Document} instance to a local path, without blocking. External buffers and
+	 * images are written in parallel. Resolves to the number of bytes written.
+	 */
+	public async writeAsync (uri: string, doc: Document): Promise<NodeIOWriteResult> {
+		return {byteLength: await this._writeAsync(uri, doc)};
+	}
+
 	/**********************************************************************************************
 	 * Protected.
 	 */
@@ -90,59 +207,287 @@ export class NodeIO extends PlatformIO {
 		const images = jsonDoc.json.images || [];
 		const buffers = jsonDoc.json.buffers || [];
 		[...images, ...buffers].forEach((resource: GLTF.IBuffer|GLTF.IImage) => {
-			if (resource.uri) {
-				const absURI = this._path.resolve(dir, resource.uri);
-				jsonDoc.resources[resource.uri] = BufferUtils.trim(this._fs.readFileSync(absURI));
-				this.lastReadBytes += jsonDoc.resources[resource.uri].byteLength;
+			const uri = resource.uri;
+			if (!uri || uri in jsonDoc.resources) return;
+			const absURI = this._path.resolve(dir, uri);
+			try {
+				jsonDoc.resources[uri] = BufferUtils.trim(this._fs.readFileSync(absURI));
+			} catch (e) {
+				if (e.code !== 'ENOENT') throw e;
+				return this._reportMissingResource(jsonDoc, uri);
 			}
 		});
 	}
 
+	/** @internal */
+	protected async _readResourcesExternalAsync(
+			jsonDoc: JSONDocument,
+			dir: string,
+			counter: ByteCounter): Promise<void> {
+		const images = jsonDoc.json.images || [];
+		const buffers = jsonDoc.json.buffers || [];
+		const pending = [...images, ...buffers]
+			.map(async (resource: GLTF.IBuffer|GLTF.IImage): Promise<void> => {
+				const uri = resource.uri;
+				if (!uri || uri in jsonDoc.resources) return;
+				const absURI = this._path.resolve(dir, uri);
+				try {
+					const data = await this._fs.promises.readFile(absURI);
+					jsonDoc.resources[uri] = BufferUtils.trim(data);
+				} catch (e) {
+					if (e.code !== 'ENOENT') throw e;
+					return this._reportMissingResource(jsonDoc, uri);
+				}
+				counter.byteLength += jsonDoc.resources[uri].byteLength;
+			});
+		await Promise.all(pending);
+	}
+
 	/**********************************************************************************************
 	 * Private.
 	 */
 
+	/** @internal */
+	private async _readAsJSONAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		if (uri.match(/\.zip$/i)) return this._readZipAsync(uri, counter);
+		if (uri.match(/\.obj$/i)) return this._readOBJAsync(uri, counter);
+		if (uri.match(/\.(stl|ply)$/i)) return this._readGeometryAsync(uri, counter);
+		const isGLB = !!(uri.match(/\.glb$/) || uri.match(/^data:application\/octet-stream;/));
+		return isGLB ? this._readGLBAsync(uri, counter) : this._readGLTFAsync(uri, counter);
+	}
+
+	/** @internal Writes a {@link Document} to a local path, returning the byte length written. */
+	private async _writeAsync (uri: string, doc: Document): Promise<number> {
+		if (uri.match(/\.zip$/i)) return this._writeZipAsync(uri, doc);
+		if (uri.match(/\.obj$/i)) return this._writeOBJAsync(uri, doc);
+		if (uri.match(/\.(stl|ply)$/i)) return this._writeGeometryAsync(uri, doc);
+		const isGLB = !!uri.match(/\.glb$/);
+		if (isGLB && this._streaming) return this._writeGLBStreamedAsync(uri, doc);
+		return isGLB ? this._writeGLBAsync(uri, doc) : this._writeGLTFAsync(uri, doc);
+	}
+
 	/** @internal */
 	private _readGLB (uri: string): JSONDocument {
 		const buffer: Buffer = this._fs.readFileSync(uri);
 		const arrayBuffer = BufferUtils.trim(buffer);
-		this.lastReadBytes = arrayBuffer.byteLength;
 		const jsonDoc = this._binaryToJSON(arrayBuffer);
-		this._readResourcesExternal(jsonDoc, this._path.dirname(uri));
 		this._readResourcesInternal(jsonDoc, true);
+		this._resolveResources(jsonDoc, uri);
+		this._readResourcesExternal(jsonDoc, this._path.dirname(uri));
 		return jsonDoc;
 	}
 
 	/** @internal */
 	private _readGLTF (uri: string): JSONDocument {
-		this.lastReadBytes = 0;
 		const jsonContent = this._fs.readFileSync(uri, 'utf8');
-		this.lastReadBytes += jsonContent.length;
 		const jsonDoc = {json: JSON.parse(jsonContent), resources: {}} as JSONDocument;
+		this._readResourcesInternal(jsonDoc, false);
+		this._resolveResources(jsonDoc, uri);
 		this._readResourcesExternal(jsonDoc, this._path.dirname(uri));
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private async _readGLBAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		const buffer: Buffer = await this._fs.promises.readFile(uri);
+		const arrayBuffer = BufferUtils.trim(buffer);
+		counter.byteLength = arrayBuffer.byteLength;
+		const jsonDoc = this._binaryToJSON(arrayBuffer);
+		this._readResourcesInternal(jsonDoc, true);
+		await this._resolveResourcesAsync(jsonDoc, uri);
+		await this._readResourcesExternalAsync(jsonDoc, this._path.dirname(uri), counter);
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private async _readGLTFAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		const jsonContent = await this._fs.promises.readFile(uri, 'utf8');
+		counter.byteLength = jsonContent.length;
+		const jsonDoc = {json: JSON.parse(jsonContent), resources: {}} as JSONDocument;
 		this._readResourcesInternal(jsonDoc, false);
+		await this._resolveResourcesAsync(jsonDoc, uri);
+		await this._readResourcesExternalAsync(jsonDoc, this._path.dirname(uri), counter);
+		return jsonDoc;
+	}
+
+	/**
+	 * Reads the JSON chunk of a .glb file, registering a lazy reader for its binary chunk.
+	 * @internal
+	 */
+	private _readGLBLazy (
+			file: FileRangeReader,
+			lazyResources: {[uri: string]: ResourceRangeReader}): JSONDocument {
+		const uri = file.path;
+		const fileByteLength: number = this._fs.statSync(uri).size;
+		const header = file.read(0, GLB_HEADER_LENGTH);
+		if (isLegacyGLB(header)) return this._readGLB(uri);
+		const jsonByteLength = readGLBHeader(header);
+		const chunks = file.read(
+			GLB_HEADER_LENGTH,
+			getChunksByteLength(fileByteLength, jsonByteLength)
+		);
+		const jsonDoc = this._createLazyGLB(file, chunks, jsonByteLength, lazyResources);
+		this._readResourcesInternal(jsonDoc, true);
+		this._resolveResources(jsonDoc, uri);
+		this._readResourcesExternal(jsonDoc, this._path.dirname(uri));
+		return jsonDoc;
+	}
+
+	/**
+	 * Reads the JSON chunk of a .glb file, registering a lazy reader for its binary chunk. If
+	 * 'preload' is set, buffer views of the binary chunk are read in advance, so that accessor
+	 * and image data can be read later without blocking.
+	 * @internal
+	 */
+	private async _readGLBLazyAsync (
+			uri: string,
+			lazyResources: {[uri: string]: ResourceRangeReader},
+			counter: ByteCounter,
+			preload = false): Promise<JSONDocument> {
+		const path = this._path.resolve(uri);
+		const fileByteLength: number = (await this._fs.promises.stat(path)).size;
+		const handle = await this._fs.promises.open(path, 'r');
+		let jsonDoc: JSONDocument;
+		try {
+			const header = await readFileRangeAsync(handle, path, 0, GLB_HEADER_LENGTH);
+			if (isLegacyGLB(header)) return this._readGLBAsync(uri, counter);
+			const jsonByteLength = readGLBHeader(header);
+			const chunks = await readFileRangeAsync(
+				handle,
+				path,
+				GLB_HEADER_LENGTH,
+				getChunksByteLength(fileByteLength, jsonByteLength)
+			);
+			// Data not preloaded is read lazily, opening the file for each read.
+			const file = new FileRangeReader(this._fs, path);
+			jsonDoc = this._createLazyGLB(file, chunks, jsonByteLength, lazyResources);
+			counter.byteLength = GLB_HEADER_LENGTH + chunks.byteLength;
+			if (preload && lazyResources[GLB_BUFFER]) {
+				lazyResources[GLB_BUFFER] = await this._readBufferViewsAsync(
+					handle,
+					path,
+					jsonDoc,
+					GLB_HEADER_LENGTH + jsonByteLength + 8,
+					lazyResources[GLB_BUFFER]
+				);
+			}
+		} finally {
+			await handle.close();
+		}
+		this._readResourcesInternal(jsonDoc, true);
+		await this._resolveResourcesAsync(jsonDoc, uri);
+		await this._readResourcesExternalAsync(jsonDoc, this._path.dirname(uri), counter);
+		return jsonDoc;
+	}
+
+	/**
+	 * Creates a {@link JSONDocument} for a .glb file read lazily. Extensions reading the binary
+	 * chunk directly from the resource map read it in full, on first access.
+	 * @internal
+	 */
+	private _createLazyGLB (
+			file: FileRangeReader,
+			chunks: ArrayBuffer,
+			jsonByteLength: number,
+			lazyResources: {[uri: string]: ResourceRangeReader}): JSONDocument {
+		const {json, bin} = readGLBChunks(chunks, jsonByteLength);
+		const jsonDoc: JSONDocument = {json, resources: {}};
+		if (!bin) return jsonDoc;
+
+		const readRange: ResourceRangeReader = (byteOffset, byteLength) => {
+			return file.read(bin.byteOffset + byteOffset, byteLength);
+		};
+		let binBuffer: ArrayBuffer | null = null;
+		lazyResources[GLB_BUFFER] = readRange;
+		Object.defineProperty(jsonDoc.resources, GLB_BUFFER, {
+			get: () => binBuffer || (binBuffer = readRange(0, bin.byteLength)),
+			enumerable: true,
+			configurable: true,
+		});
 		return jsonDoc;
 	}
 
+	/**
+	 * Reads buffer views of a .glb file's binary chunk in order, returning a reader for ranges
+	 * within them. Ranges not contained by a single buffer view are read with the fallback.
+	 * @internal
+	 */
+	private async _readBufferViewsAsync (
+			handle: FileHandle,
+			path: string,
+			jsonDoc: JSONDocument,
+			binByteOffset: number,
+			fallback: ResourceRangeReader): Promise<ResourceRangeReader> {
+		const buffers = jsonDoc.json.buffers || [];
+		const views = (jsonDoc.json.bufferViews || [])
+			// Extensions may store buffer view data in another range, e.g. when compressed.
+			.map((bufferViewDef) => {
+				for (const extension of this._extensions) {
+					const storageDef = extension.getBufferViewStorage(bufferViewDef);
+					if (storageDef) return storageDef;
+				}
+				return bufferViewDef;
+			})
+			.filter((bufferViewDef) => !buffers[bufferViewDef.buffer].uri)
+			.map((bufferViewDef) => ({
+				byteOffset: bufferViewDef.byteOffset || 0,
+				byteLength: bufferViewDef.byteLength,
+				data: new ArrayBuffer(0),
+				used: false,
+			}))
+			.sort((a, b) => a.byteOffset - b.byteOffset);
+
+		for (const view of views) {
+			const position = binByteOffset + view.byteOffset;
+			view.data = await readFileRangeAsync(handle, path, position, view.byteLength);
+		}
+
+		return (byteOffset: number, byteLength: number): ArrayBuffer => {
+			// Binary search for the last buffer view starting at or before the range.
+			let lo = 0;
+			let hi = views.length - 1;
+			while (lo < hi) {
+				const mid = Math.ceil((lo + hi) / 2);
+				if (views[mid].byteOffset <= byteOffset) lo = mid; else hi = mid - 1;
+			}
+			const view = views[lo];
+			if (!view || view.byteOffset > byteOffset
+					|| byteOffset + byteLength > view.byteOffset + view.byteLength) {
+				return fallback(byteOffset, byteLength);
+			}
+
+			// The first read of an entire buffer view takes its data without copying.
+			const start = byteOffset - view.byteOffset;
+			if (!view.used && start === 0 && byteLength === view.byteLength) {
+				view.used = true;
+				return view.data;
+			}
+			return view.data.slice(start, start + byteLength);
+		};
+	}
+
 	/** @internal */
 	private _writeGLTF (uri: string, doc: Document): void {
-		this.lastWriteBytes = 0;
-		const {json, resources} = GLTFWriter.write(doc, {
+		const jsonDoc = GLTFWriter.write(doc, {
 			format: Format.GLTF,
 			logger: this._logger,
 			dependencies: this._dependencies,
 			vertexLayout: this._vertexLayout,
+			layoutPolicy: this._layoutPolicy,
+			resourceMode: this._resourceMode,
+			resourceNaming: this._resourceNaming,
+			sparseMode: this._sparseMode,
 			basename: FileUtils.basename(uri),
 		});
+		this._storeResources(jsonDoc, uri);
+		const {json, resources} = jsonDoc;
 		const {_fs: fs, _path: path} = this;
 		const dir = path.dirname(uri);
 		const jsonContent = JSON.stringify(json, null, 2);
-		this.lastWriteBytes += jsonContent.length;
 		fs.writeFileSync(uri, jsonContent);
 		Object.keys(resources).forEach((resourceName) => {
 			const resource = Buffer.from(resources[resourceName]);
 			fs.writeFileSync(path.join(dir, resourceName), resource);
-			this.lastWriteBytes += resource.byteLength;
 		});
 	}
 
@@ -150,6 +495,364 @@ export class NodeIO extends PlatformIO {
 	private _writeGLB (uri: string, doc: Document): void {
 		const buffer = Buffer.from(this.writeBinary(doc));
 		this._fs.writeFileSync(uri, buffer);
-		this.lastWriteBytes = buffer.byteLength;
 	}
+
+	/** @internal */
+	private async _writeGLTFAsync (uri: string, doc: Document): Promise<number> {
+		const jsonDoc = GLTFWriter.write(doc, {
+			format: Format.GLTF,
+			logger: this._logger,
+			dependencies: this._dependencies,
+			vertexLayout: this._vertexLayout,
+			layoutPolicy: this._layoutPolicy,
+			resourceMode: this._resourceMode,
+			resourceNaming: this._resourceNaming,
+			sparseMode: this._sparseMode,
+			basename: FileUtils.basename(uri),
+		});
+		await this._storeResourcesAsync(jsonDoc, uri);
+		const {json, resources} = jsonDoc;
+		const {_fs: fs, _path: path} = this;
+		const dir = path.dirname(uri);
+		const jsonContent = JSON.stringify(json, null, 2);
+		let byteLength = jsonContent.length;
+		await Promise.all([
+			fs.promises.writeFile(uri, jsonContent),
+			...Object.keys(resources).map(async (resourceName) => {
+				const resource = Buffer.from(resources[resourceName]);
+				await fs.promises.writeFile(path.join(dir, resourceName), resource);
+				byteLength += resource.byteLength;
+			}),
+		]);
+		return byteLength;
+	}
+
+	/** @internal Writes a .glb file one part at a time. See {@link setStreaming}. */
+	private _writeGLBStreamed (uri: string, doc: Document): void {
+		const parts = this._writeGLBParts(doc);
+		const fd = this._fs.openSync(uri, 'w');
+		try {
+			for (const part of parts) this._fs.writeFileSync(fd, new Uint8Array(part));
+		} finally {
+			this._fs.closeSync(fd);
+		}
+	}
+
+	/** @internal */
+	private async _writeGLBAsync (uri: string, doc: Document): Promise<number> {
+		const binChunks: ArrayBuffer[] = [];
+		const jsonDoc = this._writeGLBJSON(doc, binChunks);
+		await this._storeResourcesAsync(jsonDoc, uri);
+		const buffer = Buffer.from(BufferUtils.concat(this._packGLB(jsonDoc.json, binChunks)));
+		await this._fs.promises.writeFile(uri, buffer);
+		return buffer.byteLength;
+	}
+
+	/** @internal Writes a .glb file one part at a time, without blocking. */
+	private async _writeGLBStreamedAsync (uri: string, doc: Document): Promise<number> {
+		const parts = this._writeGLBParts(doc);
+		const file = await this._fs.promises.open(uri, 'w');
+		let byteLength = 0;
+		try {
+			for (const part of parts) {
+				await file.writeFile(new Uint8Array(part));
+				byteLength += part.byteLength;
+			}
+		} finally {
+			await file.close();
+		}
+		return byteLength;
+	}
+
+	/** @internal */
+	private _readOBJ (uri: string): JSONDocument {
+		const dir = this._path.dirname(uri);
+		const obj = this._fs.readFileSync(uri, 'utf8');
+		const mtls: {[uri: string]: string} = {};
+		for (const mtlURI of listMaterialLibraries(obj)) {
+			const absURI = this._path.resolve(dir, mtlURI);
+			if (!this._fs.existsSync(absURI)) continue;
+			mtls[mtlURI] = this._fs.readFileSync(absURI, 'utf8');
+		}
+		const jsonDoc = readOBJ(obj, mtls, this._logger);
+		this._readResourcesInternal(jsonDoc, true);
+		this._resolveResources(jsonDoc, uri);
+		this._readResourcesExternal(jsonDoc, dir);
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private async _readOBJAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		const dir = this._path.dirname(uri);
+		const obj = await this._fs.promises.readFile(uri, 'utf8');
+		counter.byteLength = obj.length;
+		const mtls: {[uri: string]: string} = {};
+		await Promise.all(listMaterialLibraries(obj).map(async (mtlURI) => {
+			try {
+				const absURI = this._path.resolve(dir, mtlURI);
+				mtls[mtlURI] = await this._fs.promises.readFile(absURI, 'utf8');
+			} catch (e) {
+				if (e.code !== 'ENOENT') throw e;
+				return;
+			}
+			counter.byteLength += mtls[mtlURI].length;
+		}));
+		const jsonDoc = readOBJ(obj, mtls, this._logger);
+		this._readResourcesInternal(jsonDoc, true);
+		await this._resolveResourcesAsync(jsonDoc, uri);
+		await this._readResourcesExternalAsync(jsonDoc, dir, counter);
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private _writeOBJ (uri: string, doc: Document): void {
+		const files = writeOBJ(doc, {basename: FileUtils.basename(uri), logger: this._logger});
+		const dir = this._path.dirname(uri);
+		for (const fileURI in files) {
+			this._fs.writeFileSync(this._path.join(dir, fileURI), Buffer.from(files[fileURI]));
+		}
+	}
+
+	/** @internal */
+	private async _writeOBJAsync (uri: string, doc: Document): Promise<number> {
+		const files = writeOBJ(doc, {basename: FileUtils.basename(uri), logger: this._logger});
+		const dir = this._path.dirname(uri);
+		let byteLength = 0;
+		await Promise.all(Object.keys(files).map(async (fileURI) => {
+			const data = Buffer.from(files[fileURI]);
+			await this._fs.promises.writeFile(this._path.join(dir, fileURI), data);
+			byteLength += files[fileURI].byteLength;
+		}));
+		return byteLength;
+	}
+
+	/** @internal */
+	private _readGeometry (uri: string): JSONDocument {
+		const data = BufferUtils.trim(this._fs.readFileSync(uri));
+		const jsonDoc = uri.match(/\.stl$/i)
+			? readSTL(data, this._logger)
+			: readPLY(data, this._logger);
+		this._readResourcesInternal(jsonDoc, true);
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private async _readGeometryAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		const data = BufferUtils.trim(await this._fs.promises.readFile(uri));
+		counter.byteLength = data.byteLength;
+		const jsonDoc = uri.match(/\.stl$/i)
+			? readSTL(data, this._logger)
+			: readPLY(data, this._logger);
+		this._readResourcesInternal(jsonDoc, true);
+		return jsonDoc;
+	}
+
+	/** @internal */
+	private _writeGeometry (uri: string, doc: Document): void {
+		const data = uri.match(/\.stl$/i)
+			? writeSTL(doc, this._logger)
+			: writePLY(doc, this._logger);
+		this._fs.writeFileSync(uri, Buffer.from(data));
+	}
+
+	/** @internal */
+	private async _writeGeometryAsync (uri: string, doc: Document): Promise<number> {
+		const data = uri.match(/\.stl$/i)
+			? writeSTL(doc, this._logger)
+			: writePLY(doc, this._logger);
+		await this._fs.promises.writeFile(uri, Buffer.from(data));
+		return data.byteLength;
+	}
+
+	/** @internal */
+	private _readZip (uri: string): JSONDocument {
+		const zip = BufferUtils.trim(this._fs.readFileSync(uri));
+		return this._readArchive(
+			ZipUtils.unzip(zip, (data) => this._zlib.inflateRawSync(data))
+		);
+	}
+
+	/** @internal */
+	private async _readZipAsync (uri: string, counter: ByteCounter): Promise<JSONDocument> {
+		const zip = BufferUtils.trim(await this._fs.promises.readFile(uri));
+		counter.byteLength = zip.byteLength;
+		const inflate = (data: Uint8Array) => new Promise<Uint8Array>((resolve, reject) => {
+			this._zlib.inflateRaw(data, (err: Error | null, result: Buffer) => {
+				err ? reject(err) : resolve(result);
+			});
+		});
+		return this._readArchive(await ZipUtils.unzipAsync(zip, inflate));
+	}
+
+	/** @internal */
+	private _writeZip (uri: string, doc: Document): void {
+		const zip = Buffer.from(this._createZip(uri, doc));
+		this._fs.writeFileSync(uri, zip);
+	}
+
+	/** @internal */
+	private async _writeZipAsync (uri: string, doc: Document): Promise<number> {
+		const zip = Buffer.from(this._createZip(uri, doc));
+		await this._fs.promises.writeFile(uri, zip);
+		return zip.byteLength;
+	}
+
+	/** @internal Packages a .gltf file named after the archive, and its resources, as a .zip. */
+	private _createZip (uri: string, doc: Document): ArrayBuffer {
+		const basename = FileUtils.basename(uri);
+		const {json, resources} = GLTFWriter.write(doc, {
+			format: Format.GLTF,
+			logger: this._logger,
+			dependencies: this._dependencies,
+			vertexLayout: this._vertexLayout,
+			layoutPolicy: this._layoutPolicy,
+			resourceMode: this._resourceMode,
+			resourceNaming: this._resourceNaming,
+			sparseMode: this._sparseMode,
+			basename,
+		});
+		return ZipUtils.zip({
+			[`${basename}.gltf`]: BufferUtils.encodeText(JSON.stringify(json, null, 2)),
+			...resources,
+		});
+	}
+}
+
+/**************************************************************************************************
+ * GLB layout, for lazy reading.
+ */
+
+/** Byte length of the GLB header and the JSON chunk header. */
+const GLB_HEADER_LENGTH = 20;
+
+interface GLBChunks {
+	json: GLTF.IGLTF;
+	bin: {byteOffset: number, byteLength: number} | null;
+}
+
+/** Whether the header belongs to a binary glTF 1.0 file, which cannot be read lazily. */
+function isLegacyGLB(header: ArrayBuffer): boolean {
+	return new DataView(header).getUint32(4, true) === 1;
+}
+
+/** Verifies the GLB header and returns the byte length of the JSON chunk. */
+function readGLBHeader(header: ArrayBuffer): number {
+	const view = new DataView(header);
+	const version = view.getUint32(4, true);
+	if (view.getUint32(0, true) !== 0x46546C67) {
+		throw new ReadError(IOErrorCode.GLB_INVALID_MAGIC, 'Invalid glTF asset.');
+	} else if (version !== 2) {
+		throw new ReadError(
+			IOErrorCode.GLB_INVALID_VERSION,
+			`Unsupported glTF binary version, "${version}".`
+		);
+	} else if (view.getUint32(16, true) !== 0x4E4F534A) {
+		throw new ReadError(
+			IOErrorCode.GLB_UNEXPECTED_FIRST_CHUNK,
+			'Missing required GLB JSON chunk.'
+		);
+	}
+	return view.getUint32(12, true);
+}
+
+/** Returns the byte length of the JSON chunk, and the BIN chunk header if present. */
+function getChunksByteLength(fileByteLength: number, jsonByteLength: number): number {
+	const hasBIN = fileByteLength > GLB_HEADER_LENGTH + jsonByteLength;
+	return jsonByteLength + (hasBIN ? 8 : 0);
+}
+
+/** Parses the JSON chunk, and locates the BIN chunk within the file. */
+function readGLBChunks(chunks: ArrayBuffer, jsonByteLength: number): GLBChunks {
+	const json = JSON.parse(BufferUtils.decodeText(chunks.slice(0, jsonByteLength)));
+	if (chunks.byteLength === jsonByteLength) return {json, bin: null};
+
+	const view = new DataView(chunks, jsonByteLength, 8);
+	if (view.getUint32(4, true) !== 0x004E4942) {
+		throw new ReadError(IOErrorCode.GLB_UNEXPECTED_CHUNK, 'Expected GLB BIN in second chunk.');
+	}
+	const byteOffset = GLB_HEADER_LENGTH + jsonByteLength + 8;
+	return {json, bin: {byteOffset, byteLength: view.getUint32(0, true)}};
+}
+
+/**************************************************************************************************
+ * File ranges, for lazy reading.
+ */
+
+type FileHandle = import('fs').promises.FileHandle;
+
+/**
+ * Reads byte ranges of a local file. Within a {@link session}, reads share one file descriptor;
+ * outside a session, the file is opened and closed for each read.
+ */
+class FileRangeReader {
+	private fd: number | null = null;
+	private active = false;
+
+	constructor (private readonly fs: typeof import('fs'), public readonly path: string) {}
+
+	/** Calls the function with the file held open, closing the file when it returns or throws. */
+	public session<T>(fn: () => T): T {
+		this.active = true;
+		try {
+			return fn();
+		} finally {
+			this.active = false;
+			this.close();
+		}
+	}
+
+	public read(position: number, byteLength: number): ArrayBuffer {
+		if (this.fd === null) this.fd = this.fs.openSync(this.path, 'r');
+		try {
+			const array = new Uint8Array(byteLength);
+			const fd = this.fd;
+			let offset = 0;
+			while (offset < byteLength) {
+				const length = byteLength - offset;
+				const bytesRead = this.fs.readSync(fd, array, offset, length, position + offset);
+				if (bytesRead === 0) throw createEndOfFileError(this.path, position, byteLength);
+				offset += bytesRead;
+			}
+			return array.buffer;
+		} finally {
+			if (!this.active) this.close();
+		}
+	}
+
+	private close(): void {
+		if (this.fd === null) return;
+		this.fs.closeSync(this.fd);
+		this.fd = null;
+	}
+}
+
+/** Reads a byte range of a file opened for reading, without blocking. */
+async function readFileRangeAsync(
+		handle: FileHandle,
+		path: string,
+		position: number,
+		byteLength: number): Promise<ArrayBuffer> {
+	const array = new Uint8Array(byteLength);
+	let offset = 0;
+	while (offset < byteLength) {
+		const length = byteLength - offset;
+		const {bytesRead} = await handle.read(array, offset, length, position + offset);
+		if (bytesRead === 0) throw createEndOfFileError(path, position, byteLength);
+		offset += bytesRead;
+	}
+	return array.buffer;
+}
+
+function createEndOfFileError(path: string, position: number, byteLength: number): ReadError {
+	return new ReadError(
+		IOErrorCode.MISSING_RESOURCE,
+		`Unexpected end of file "${path}", reading ${byteLength} bytes at byte ${position}.`
+	);
+}
+
+/** Reads accessor and image data of a {@link Document} read lazily. */
+function readLazyData(doc: Document): void {
+	const root = doc.getRoot();
+	root.listAccessors().forEach((accessor) => accessor.getArray());
+	root.listTextures().forEach((texture) => texture.getImage());
 }
@@ -0,0 +1,605 @@
+import { Document } from '../document';
+import { JSONDocument } from '../json-document';
+import { Material, Primitive, Texture } from '../properties';
+import { GLTF } from '../types/gltf';
+import { BufferUtils, FileUtils, ImageUtils, Logger } from '../utils';
+import { GeometryAttribute, createGeometryJSON, createIndices, listWorldPrimitives } from './geometry';
+
+/**
+ * Converts between glTF 2.0 and Wavefront OBJ files, with their MTL material libraries. On import,
+ * each object or group becomes a mesh, with a primitive for each material used. Vertex data is
+ * de-indexed and re-indexed, as glTF shares one index across all attributes of a vertex. Materials
+ * are approximated with the metal/rough PBR model. Textures are referenced by URI, and loaded by
+ * the I/O service like those of any other glTF file. On export, a scene is flattened into world
+ * space, and written as one object per mesh instance.
+ */
+
+const OBJ_GENERATOR = 'Exported by glTF-Transform.';
+
+/** Options for {@link writeOBJ}. */
+export interface OBJWriterOptions {
+	/** Base name of the .obj and .mtl files, and of textures without URIs. Default: 'model'. */
+	basename?: string;
+	/** Logger for anything that cannot be exported. */
+	logger?: Logger;
+}
+
+/** Material parsed from an MTL file. */
+interface MTLMaterial {
+	name: string;
+	diffuse?: number[];
+	specular?: number[];
+	emissive?: number[];
+	shininess?: number;
+	alpha?: number;
+	diffuseMap?: MTLTexture;
+	emissiveMap?: MTLTexture;
+	bumpMap?: MTLTexture;
+}
+
+/** Texture map parsed from an MTL file, with its URI relative to the OBJ file. */
+interface MTLTexture {
+	uri: string;
+	scale: number;
+}
+
+/** Triangles of a primitive, with vertex attributes indexed together. */
+interface OBJPrimitive {
+	material: string | null;
+	vertexMap: Map<string, number>;
+	position: number[];
+	texcoord: number[];
+	normal: number[];
+	color: number[];
+	hasTexcoord: boolean;
+	hasNormal: boolean;
+	indices: number[];
+}
+
+interface OBJMesh {
+	name: string;
+	primitives: OBJPrimitive[];
+}
+
+/** Number of arguments taken by MTL texture map options. See {@link parseTexture}. */
+const TEXTURE_OPTION_ARGS: {[option: string]: number} = {
+	'-blendu': 1, '-blendv': 1, '-boost': 1, '-bm': 1, '-cc': 1, '-clamp': 1, '-imfchan': 1,
+	'-texres': 1, '-mm': 2, '-o': 3, '-s': 3, '-t': 3,
+};
+
+/** OBJ statements with no effect on the converted asset. */
+const IGNORED_STATEMENTS = new Set(['s', 'mg', 'lod', 'shadow_obj', 'trace_obj', 'bevel',
+	'c_interp', 'd_interp', 'usemap', 'maplib']);
+
+/** MTL statements with no glTF equivalent, ignored without warning. */
+const IGNORED_MTL_STATEMENTS = new Set(['Ka', 'map_Ka', 'Ni', 'illum', 'Tf', 'sharpness']);
+
+/** Lists URIs of the MTL material libraries referenced by an OBJ file. */
+export function listMaterialLibraries(obj: string): string[] {
+	const uris: string[] = [];
+	for (const line of splitLines(obj)) {
+		const [keyword, rest] = splitStatement(line);
+		if (keyword === 'mtllib') uris.push(...rest.split(/\s+/).filter(Boolean));
+	}
+	return uris;
+}
+
+/**
+ * Converts an OBJ file, and its MTL material libraries, to a glTF 2.0 {@link JSONDocument}.
+ * Vertex data is stored in a buffer without a URI, as in a GLB file.
+ *
+ * @param obj Contents of the OBJ file.
+ * @param mtls Contents of the MTL files found, keyed by URI relative to the OBJ file.
+ * @param logger Logger for anything that cannot be converted.
+ */
+export function readOBJ(obj: string, mtls: {[uri: string]: string}, logger: Logger): JSONDocument {
+	const materials = new Map<string, MTLMaterial>();
+	for (const uri of listMaterialLibraries(obj)) {
+		if (uri in mtls) {
+			readMTL(mtls[uri], dirname(uri), materials, logger);
+		} else {
+			logger.warn(`OBJ: Missing material library "${uri}".`);
+		}
+	}
+
+	const meshes = parseOBJ(obj, logger);
+
+	// Materials, created as used.
+	const imageDefs: GLTF.IImage[] = [];
+	const textureDefs: GLTF.ITexture[] = [];
+	const materialDefs: GLTF.IMaterial[] = [];
+	const textureIndices = new Map<string, number>();
+	const materialIndices = new Map<string, number>();
+	const getTexture = (texture: MTLTexture): number => {
+		if (!textureIndices.has(texture.uri)) {
+			const extension = FileUtils.extension(texture.uri).toLowerCase();
+			const mimeType = ImageUtils.extensionToMimeType(extension);
+			imageDefs.push({uri: texture.uri, mimeType});
+			textureDefs.push({source: imageDefs.length - 1});
+			textureIndices.set(texture.uri, textureDefs.length - 1);
+		}
+		return textureIndices.get(texture.uri)!;
+	};
+	const getMaterial = (name: string): number => {
+		if (!materialIndices.has(name)) {
+			if (!materials.has(name)) logger.warn(`OBJ: Missing material "${name}".`);
+			const material = materials.get(name) || {name};
+			materialDefs.push(createMaterialDef(material, getTexture));
+			materialIndices.set(name, materialDefs.length - 1);
+		}
+		return materialIndices.get(name)!;
+	};
+
+	const jsonDoc = createGeometryJSON(meshes.map((mesh) => ({
+		name: mesh.name,
+		primitives: mesh.primitives.map((prim) => {
+			const attributes: {[semantic: string]: GeometryAttribute} = {
+				POSITION: {array: new Float32Array(prim.position), type: 'VEC3'},
+			};
+			if (prim.hasNormal) {
+				attributes.NORMAL = {array: new Float32Array(prim.normal), type: 'VEC3'};
+			}
+			if (prim.hasTexcoord) {
+				attributes.TEXCOORD_0 = {array: new Float32Array(prim.texcoord), type: 'VEC2'};
+			}
+			if (prim.color.length) {
+				attributes.COLOR_0 = {array: new Float32Array(prim.color), type: 'VEC3'};
+			}
+			return {
+				attributes,
+				indices: createIndices(prim.indices, prim.position.length / 3),
+				material: prim.material !== null ? getMaterial(prim.material) : undefined,
+			};
+		}),
+	})));
+
+	if (materialDefs.length) jsonDoc.json.materials = materialDefs;
+	if (textureDefs.length) jsonDoc.json.textures = textureDefs;
+	if (imageDefs.length) jsonDoc.json.images = imageDefs;
+	return jsonDoc;
+}
+
+/**
+ * Exports the default scene of a {@link Document} (or its first scene, if no default is set) to a
+ * Wavefront OBJ file, with an MTL material library and textures. Returns the contents of each
+ * file, keyed by URI relative to the OBJ file.
+ *
+ * Vertex positions and normals are baked into world space, using the world matrix of each node.
+ * Triangle strips and fans are triangulated, points are written as point elements, and lines are
+ * skipped. Base color, emissive, and normal textures are written with each material. Other
+ * material properties are approximated.
+ *
+ * Example:
+ *
+ * ```ts
+ * const files = writeOBJ(doc, {basename: 'scene'});
+ * // → {'scene.obj': ArrayBuffer, 'scene.mtl': ArrayBuffer, 'scene.png': ArrayBuffer}
+ * ```
+ *
+ * To write files directly, use {@link NodeIO} with a path ending in `.obj`.
+ *
+ * @category I/O
+ */
+export function writeOBJ(doc: Document, options: OBJWriterOptions = {})
+		: {[uri: string]: ArrayBuffer} {
+	const basename = options.basename || 'model';
+	const logger = options.logger || doc.getLogger();
+	const prims = listWorldPrimitives(doc, logger);
+
+	// Textures, named after their URIs or the basename, and written once each.
+	const files: {[uri: string]: ArrayBuffer} = {};
+	const textureURIs = new Map<Texture, string>();
+	const usedURIs = new Set([`${basename}.obj`, `${basename}.mtl`]);
+	const getTextureURI = (texture: Texture): string | null => {
+		if (textureURIs.has(texture)) return textureURIs.get(texture)!;
+		const image = texture.getImage();
+		if (!image) return null;
+		const extension = texture.getURI()
+			? FileUtils.extension(texture.getURI())
+			: ImageUtils.mimeTypeToExtension(texture.getMimeType());
+		const name = texture.getURI() ? FileUtils.basename(texture.getURI()) : basename;
+		const uri = createUniqueName(name, extension, usedURIs);
+		files[uri] = image;
+		textureURIs.set(texture, uri);
+		return uri;
+	};
+
+	// Materials, named uniquely.
+	const materialNames = new Map<Material | null, string>();
+	const usedNames = new Set<string>();
+	const mtl: string[] = [`# ${OBJ_GENERATOR}`];
+	const getMaterialName = (material: Material | null): string => {
+		if (materialNames.has(material)) return materialNames.get(material)!;
+		const name = createUniqueName((material && material.getName()) || 'default', '', usedNames);
+		mtl.push('', `newmtl ${name}`, ...createMTLStatements(material, getTextureURI));
+		materialNames.set(material, name);
+		return name;
+	};
+
+	const obj: string[] = [`# ${OBJ_GENERATOR}`, `mtllib ${basename}.mtl`];
+	let positionCount = 0;
+	let texcoordCount = 0;
+	let normalCount = 0;
+	let objectCount = 0;
+	let objectName: string | null = null;
+	for (const prim of prims) {
+		if (prim.name !== objectName || !prim.name) {
+			objectName = prim.name;
+			obj.push(`o ${prim.name || `object_${++objectCount}`}`);
+		}
+
+		const {position, texcoord, normal, color} = prim;
+		for (let i = 0; i < position.length / 3; i++) {
+			const values = [position[i * 3], position[i * 3 + 1], position[i * 3 + 2]];
+			if (color) values.push(color[i * 4], color[i * 4 + 1], color[i * 4 + 2]);
+			obj.push(`v ${formatValues(values)}`);
+		}
+		for (let i = 0; texcoord && i < texcoord.length / 2; i++) {
+			obj.push(`vt ${formatValues([texcoord[i * 2], 1 - texcoord[i * 2 + 1]])}`);
+		}
+		for (let i = 0; normal && i < normal.length / 3; i++) {
+			obj.push(`vn ${formatValues(normal.subarray(i * 3, i * 3 + 3))}`);
+		}
+
+		obj.push(`usemtl ${getMaterialName(prim.material)}`);
+		const corner = (index: number): string => {
+			const v = positionCount + index + 1;
+			const vt = texcoord ? texcoordCount + index + 1 : '';
+			const vn = normal ? normalCount + index + 1 : '';
+			return normal ? `${v}/${vt}/${vn}` : texcoord ? `${v}/${vt}` : `${v}`;
+		};
+		const {indices} = prim;
+		if (prim.mode === Primitive.Mode.POINTS) {
+			for (let i = 0; i < indices.length; i++) obj.push(`p ${corner(indices[i])}`);
+		} else {
+			for (let i = 0; i < indices.length; i += 3) {
+				const face = [indices[i], indices[i + 1], indices[i + 2]].map(corner);
+				obj.push(`f ${face.join(' ')}`);
+			}
+		}
+
+		positionCount += position.length / 3;
+		texcoordCount += texcoord ? texcoord.length / 2 : 0;
+		normalCount += normal ? normal.length / 3 : 0;
+	}
+
+	files[`${basename}.obj`] = BufferUtils.encodeText(obj.join('\n') + '\n');
+	files[`${basename}.mtl`] = BufferUtils.encodeText(mtl.join('\n') + '\n');
+	return files;
+}
+
+/** Parses OBJ statements into meshes and primitives. */
+function parseOBJ(obj: string, logger: Logger): OBJMesh[] {
+	const positions: number[] = [];
+	const colors: number[] = [];
+	const texcoords: number[] = [];
+	const normals: number[] = [];
+	let hasColors = false;
+
+	const meshes: OBJMesh[] = [];
+	const unsupported = new Set<string>();
+	let mesh: OBJMesh | null = null;
+	let prim: OBJPrimitive | null = null;
+	let material: string | null = null;
+
+	const getPrimitive = (): OBJPrimitive => {
+		if (prim && prim.material === material) return prim;
+		if (!mesh) meshes.push(mesh = {name: '', primitives: []});
+		prim = mesh.primitives.find((p) => p.material === material) || null;
+		if (prim) return prim;
+		prim = {
+			material,
+			vertexMap: new Map(),
+			position: [],
+			texcoord: [],
+			normal: [],
+			color: [],
+			hasTexcoord: false,
+			hasNormal: false,
+			indices: [],
+		};
+		mesh.primitives.push(prim);
+		return prim;
+	};
+
+	// Returns the index of a face corner's vertex, adding it to the primitive if new.
+	const addVertex = (prim: OBJPrimitive, corner: string): number => {
+		const [v, vt = -1, vn = -1] = corner.split('/').map((value, i) => {
+			if (!value) return -1;
+			const count = [positions.length / 3, texcoords.length / 2, normals.length / 3][i];
+			const index = parseInt(value);
+			return index < 0 ? count + index : index - 1;
+		});
+
+		// Relative (negative) indices are resolved before comparing vertices.
+		const key = `${v}/${vt}/${vn}`;
+		const vertex = prim.vertexMap.get(key);
+		if (vertex !== undefined) return vertex;
+
+		prim.position.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+		prim.color.push(colors[v * 3], colors[v * 3 + 1], colors[v * 3 + 2]);
+		if (vt >= 0) {
+			// OBJ texture coordinates have their origin at the bottom left, glTF at the top left.
+			prim.texcoord.push(texcoords[vt * 2], 1 - texcoords[vt * 2 + 1]);
+			prim.hasTexcoord = true;
+		} else {
+			prim.texcoord.push(0, 0);
+		}
+		if (vn >= 0) {
+			prim.normal.push(normals[vn * 3], normals[vn * 3 + 1], normals[vn * 3 + 2]);
+			prim.hasNormal = true;
+		} else {
+			prim.normal.push(0, 0, 0);
+		}
+
+		prim.vertexMap.set(key, prim.vertexMap.size);
+		return prim.vertexMap.size - 1;
+	};
+
+	for (const line of splitLines(obj)) {
+		const [keyword, rest] = splitStatement(line);
+		const values = rest.split(/\s+/).filter(Boolean);
+
+		switch (keyword) {
+			case '':
+				break;
+			case 'v':
+				positions.push(...values.slice(0, 3).map(Number));
+				if (values.length >= 6) {
+					// Vertex colors, a common extension of the format.
+					colors.length = positions.length - 3;
+					colors.push(...values.slice(3, 6).map(Number));
+					hasColors = true;
+				}
+				break;
+			case 'vt':
+				texcoords.push(Number(values[0]), Number(values[1] || 0));
+				break;
+			case 'vn':
+				normals.push(...values.slice(0, 3).map(Number));
+				break;
+			case 'f': {
+				const prim = getPrimitive();
+				const corners = values.map((corner) => addVertex(prim, corner));
+				for (let i = 1; i < corners.length - 1; i++) {
+					prim.indices.push(corners[0], corners[i], corners[i + 1]);
+				}
+				break;
+			}
+			case 'o':
+			case 'g':
+				meshes.push(mesh = {name: rest, primitives: []});
+				prim = null;
+				break;
+			case 'usemtl':
+				material = rest;
+				break;
+			case 'mtllib':
+				break;
+			default:
+				if (!IGNORED_STATEMENTS.has(keyword)) unsupported.add(keyword);
+		}
+	}
+
+	for (const keyword of Array.from(unsupported)) {
+		logger.warn(`OBJ: Unsupported statement "${keyword}" was ignored.`);
+	}
+
+	// Vertices without colors default to white, if any vertex has a color.
+	for (const mesh of meshes) {
+		for (const prim of mesh.primitives) {
+			prim.color = hasColors
+				? prim.color.map((value) => value === undefined ? 1 : value)
+				: [];
+		}
+	}
+
+	return meshes
+		.map((mesh) => ({...mesh, primitives: mesh.primitives.filter((p) => p.indices.length)}))
+		.filter((mesh) => mesh.primitives.length);
+}
+
+/** Parses MTL statements, adding materials to the given map. */
+function readMTL(
+		mtl: string,
+		dir: string,
+		materials: Map<string, MTLMaterial>,
+		logger: Logger): void {
+	let material: MTLMaterial | null = null;
+	const unsupported = new Set<string>();
+
+	for (const line of splitLines(mtl)) {
+		const [keyword, rest] = splitStatement(line);
+		if (keyword === 'newmtl') {
+			material = {name: rest};
+			materials.set(rest, material);
+			continue;
+		}
+		if (!keyword || !material) continue;
+
+		const values = rest.split(/\s+/).map(Number);
+		switch (keyword) {
+			case 'Kd':
+				material.diffuse = values.slice(0, 3);
+				break;
+			case 'Ks':
+				material.specular = values.slice(0, 3);
+				break;
+			case 'Ke':
+				material.emissive = values.slice(0, 3);
+				break;
+			case 'Ns':
+				material.shininess = values[0];
+				break;
+			case 'd':
+				material.alpha = values[0];
+				break;
+			case 'Tr':
+				material.alpha = 1 - values[0];
+				break;
+			case 'map_Kd':
+				material.diffuseMap = parseTexture(rest, dir);
+				break;
+			case 'map_Ke':
+				material.emissiveMap = parseTexture(rest, dir);
+				break;
+			case 'bump':
+			case 'map_bump':
+			case 'map_Bump':
+			case 'norm':
+				material.bumpMap = parseTexture(rest, dir);
+				break;
+			default:
+				if (!IGNORED_MTL_STATEMENTS.has(keyword)) unsupported.add(keyword);
+		}
+	}
+
+	for (const keyword of Array.from(unsupported)) {
+		logger.warn(`OBJ: Unsupported material statement "${keyword}" was ignored.`);
+	}
+}
+
+/**
+ * Parses an MTL texture map statement, e.g. 'map_Kd -s 2 2 1 textures/wood.png'. Options are
+ * skipped, other than bump scale (-bm), and the URI is made relative to the OBJ file.
+ */
+function parseTexture(statement: string, dir: string): MTLTexture {
+	const tokens = statement.split(/\s+/);
+	let scale = 1;
+	let i = 0;
+	while (i < tokens.length - 1 && tokens[i] in TEXTURE_OPTION_ARGS) {
+		const option = tokens[i++];
+		if (option === '-bm') scale = Number(tokens[i]);
+		// Options -o, -s, and -t take one to three numbers.
+		let args = TEXTURE_OPTION_ARGS[option];
+		while (args-- > 0 && i < tokens.length - 1) {
+			if (option.match(/^-[ost]$/) && isNaN(Number(tokens[i]))) break;
+			i++;
+		}
+	}
+	const uri = tokens.slice(i).join(' ').replace(/\\/g, '/');
+	return {uri: joinURI(dir, uri), scale};
+}
+
+/** Creates a metal/rough material definition, approximating an MTL material. */
+function createMaterialDef(
+		material: MTLMaterial,
+		getTexture: (texture: MTLTexture) => number): GLTF.IMaterial {
+	const {diffuse = [1, 1, 1], specular, shininess = 0, alpha = 1} = material;
+
+	// Blinn-Phong specular exponent to roughness. Without specular reflection, fully rough.
+	const hasSpecular = !specular || specular.some((value) => value > 0);
+	const roughness = hasSpecular ? Math.sqrt(2 / (Math.max(shininess, 0) + 2)) : 1;
+
+	const materialDef: GLTF.IMaterial = {
+		name: material.name,
+		pbrMetallicRoughness: {
+			baseColorFactor: [diffuse[0], diffuse[1], diffuse[2], alpha],
+			metallicFactor: 0,
+			roughnessFactor: roughness,
+		},
+	};
+
+	if (alpha < 1) materialDef.alphaMode = 'BLEND';
+	if (material.diffuseMap) {
+		materialDef.pbrMetallicRoughness!.baseColorTexture = {
+			index: getTexture(material.diffuseMap),
+		};
+	}
+	if (material.emissive || material.emissiveMap) {
+		materialDef.emissiveFactor = material.emissive || [1, 1, 1];
+	}
+	if (material.emissiveMap) {
+		materialDef.emissiveTexture = {index: getTexture(material.emissiveMap)};
+	}
+	if (material.bumpMap) {
+		materialDef.normalTexture = {index: getTexture(material.bumpMap)};
+		if (material.bumpMap.scale !== 1) materialDef.normalTexture.scale = material.bumpMap.scale;
+	}
+	return materialDef;
+}
+
+/** Creates MTL statements approximating a metal/rough material. See {@link createMaterialDef}. */
+function createMTLStatements(
+		material: Material | null,
+		getTextureURI: (texture: Texture) => string | null): string[] {
+	if (!material) return ['Kd 1 1 1', 'Ns 0'];
+
+	const [r, g, b, a] = material.getBaseColorFactor();
+	const roughness = Math.max(material.getRoughnessFactor(), 0.01);
+	const statements = [
+		`Kd ${formatValues([r, g, b])}`,
+		// Inverse of the roughness approximation used when reading.
+		`Ns ${formatValues([2 / (roughness * roughness) - 2])}`,
+	];
+	if (a < 1 && material.getAlphaMode() !== 'OPAQUE') statements.push(`d ${formatValues([a])}`);
+
+	const emissive = material.getEmissiveFactor();
+	if (emissive.some((value) => value > 0)) statements.push(`Ke ${formatValues(emissive)}`);
+
+	const baseColorTexture = material.getBaseColorTexture();
+	const baseColorURI = baseColorTexture && getTextureURI(baseColorTexture);
+	if (baseColorURI) statements.push(`map_Kd ${baseColorURI}`);
+
+	const emissiveTexture = material.getEmissiveTexture();
+	const emissiveURI = emissiveTexture && getTextureURI(emissiveTexture);
+	if (emissiveURI) statements.push(`map_Ke ${emissiveURI}`);
+
+	const normalTexture = material.getNormalTexture();
+	const normalURI = normalTexture && getTextureURI(normalTexture);
+	if (normalURI) {
+		const scale = material.getNormalScale();
+		statements.push(scale !== 1
+			? `map_Bump -bm ${formatValues([scale])} ${normalURI}`
+			: `map_Bump ${normalURI}`);
+	}
+
+	return statements;
+}
+
+/** Returns a name not yet used, adding a numeric suffix if needed, and marks it as used. */
+function createUniqueName(name: string, extension: string, used: Set<string>): string {
+	const suffix = extension ? `.${extension}` : '';
+	let result = `${name}${suffix}`;
+	for (let i = 1; used.has(result); i++) result = `${name}_${i}${suffix}`;
+	used.add(result);
+	return result;
+}
+
+/** Formats numbers for OBJ and MTL files, trimming float32 precision noise. */
+function formatValues(values: ArrayLike<number>): string {
+	return Array.from(values).map((value) => String(Number(value.toFixed(6)))).join(' ');
+}
+
+/** Splits a file into lines, without comments, joining lines continued with '\'. */
+function splitLines(text: string): string[] {
+	return text
+		.replace(/\\\r?\n/g, ' ')
+		.split(/\r?\n/)
+		.map((line) => line.replace(/#.*/, '').trim());
+}
+
+/** Directory of a relative URI, e.g. 'materials/wood.mtl' → 'materials'. */
+function dirname(uri: string): string {
+	return uri.replace(/\\/g, '/').split('/').slice(0, -1).join('/');
+}
+
+/** Joins relative URIs, e.g. 'materials' + '../wood.png' → 'wood.png'. */
+function joinURI(dir: string, uri: string): string {
+	if (uri.match(/^(\/|[a-z]+:)/i)) return uri;
+	const parts: string[] = [];
+	for (const part of `${dir}/${uri}`.split('/')) {
+		if (part === '..' && parts.length && parts[parts.length - 1] !== '..') {
+			parts.pop();
+		} else if (part && part !== '.') {
+			parts.push(part);
+		}
+	}
+	return parts.join('/');
+}
+
+/** Splits a statement into its keyword and the remainder of the line. */
+function splitStatement(line: string): [string, string] {
+	const match = line.match(/^(\S+)\s*(.*)$/);
+	return match ? [match[1], match[2]] : ['', ''];
+}
@@ -1,17 +1,66 @@
-import { Format, GLB_BUFFER, VertexLayout } from '../constants';
+import { Format, GLB_BUFFER, ResourceMode, ResourceNaming, SparseMode, VertexLayout } from '../constants';
 import { Document } from '../document';
 import { Extension } from '../extension';
 import { JSONDocument } from '../json-document';
 import { GLTF } from '../types/gltf';
 import { BufferUtils, FileUtils, Logger, uuid } from '../utils/';
-import { GLTFReader } from './reader';
-import { GLTFWriter, WriterOptions } from './writer';
+import { IOErrorCode, ReadError } from './io-error';
+import { GLTFReader, ResourceRangeReader } from './reader';
+import { isLegacyJSON, readLegacyBinary, upgradeJSON } from './upgrade';
+import { GLTFWriter, LayoutPolicy, WriterOptions } from './writer';
 
 enum ChunkType {
 	JSON = 0x4E4F534A,
 	BIN = 0x004E4942
 }
 
+/**
+ * Loads and stores external resources — buffers and images — of a glTF file, replacing the
+ * default behavior of an I/O service for some or all resources. Resolvers allow assets to be
+ * kept in custom storage, such as in-memory maps, archives, or content-addressed stores.
+ *
+ * Usage:
+ *
+ * ```typescript
+ * const store = new Map<string, ArrayBuffer>();
+ *
+ * io.setResourceResolver({
+ * 	read: (uri) => store.get(uri) || null,
+ * 	write: (uri, data) => {
+ * 		const key = hash(data);
+ * 		store.set(key, data);
+ * 		return key;
+ * 	},
+ * });
+ * ```
+ *
+ * Synchronous methods, like {@link NodeIO.read}, require a resolver returning values directly.
+ * Asynchronous methods, like {@link NodeIO.readAsync} and {@link WebIO.read}, also accept a
+ * resolver returning Promises.
+ *
+ * @category I/O
+ */
+export interface ResourceResolver {
+	/**
+	 * Returns the contents of the resource with the given URI, or null if the resource should be
+	 * loaded by the I/O service's default method.
+	 * @param uri URI of the resource, as given in the glTF file.
+	 * @param base URI of the glTF file being read.
+	 */
+	read?: (uri: string, base: string) => ArrayBuffer | null | Promise<ArrayBuffer | null>;
+
+	/**
+	 * Stores the resource with the given URI, returning the URI by which the glTF file should
+	 * reference it, or null if the resource should be written by the I/O service's default
+	 * method.
+	 * @param uri URI chosen for the resource by the writer.
+	 * @param data Contents of the resource.
+	 * @param base URI of the glTF file being written.
+	 */
+	write?: (uri: string, data: ArrayBuffer, base: string)
+		=> string | null | Promise<string | null>;
+}
+
 /**
  * # PlatformIO
  *
@@ -31,6 +80,18 @@ export abstract class PlatformIO {
 	protected _extensions: typeof Extension[] = [];
 	protected _dependencies: {[key: string]: unknown} = {};
 	protected _vertexLayout = VertexLayout.INTERLEAVED;
+	protected _layoutPolicy: LayoutPolicy | null = null;
+	protected _resourceMode = ResourceMode.EXTERNAL;
+	protected _resourceNaming = ResourceNaming.INDEX;
+	protected _sparseMode = SparseMode.AUTO;
+	protected _resolver: ResourceResolver | null = null;
+	protected _extensionPassthrough = false;
+	protected _lenient = false;
+
+	/**
+	 * Recoverable problems found by the last read, in lenient mode. See {@link setLenient}.
+	 */
+	public lastReadWarnings: ReadError[] = [];
 
 	/** Sets the {@link Logger} used by this I/O instance. Defaults to Logger.DEFAULT_INSTANCE. */
 	public setLogger(logger: Logger): this {
@@ -62,19 +123,100 @@ export abstract class PlatformIO {
 		return this;
 	}
 
+	/**
+	 * Sets a {@link LayoutPolicy}, choosing how the vertex attributes of each primitive are
+	 * grouped into buffer views when writing, with their byte stride, alignment, and buffer.
+	 * Attributes not included by the policy are written according to {@link setVertexLayout}.
+	 */
+	public setLayoutPolicy(policy: LayoutPolicy | null): this {
+		this._layoutPolicy = policy;
+		return this;
+	}
+
+	/**
+	 * Sets whether buffers and images are written as external files or embedded as Data URIs,
+	 * when writing a glTF (JSON) file. Has no effect on GLB output. Defaults to
+	 * ResourceMode.EXTERNAL.
+	 */
+	public setResourceMode(mode: ResourceMode): this {
+		this._resourceMode = mode;
+		return this;
+	}
+
+	/**
+	 * Sets how external buffers and images are named, when writing a glTF (JSON) file. Defaults
+	 * to ResourceNaming.INDEX. With ResourceNaming.HASH, names are derived from content, as
+	 * suited to long-term caching and deduplication of files.
+	 */
+	public setResourceNaming(naming: ResourceNaming): this {
+		this._resourceNaming = naming;
+		return this;
+	}
+
+	/**
+	 * Sets whether accessors are written with sparse or dense storage. Defaults to
+	 * SparseMode.AUTO, writing sparse storage for accessors marked sparse, and for morph target
+	 * and animation accessors when smaller.
+	 */
+	public setSparseMode(mode: SparseMode): this {
+		this._sparseMode = mode;
+		return this;
+	}
+
+	/**
+	 * Sets a {@link ResourceResolver}, loading and storing external buffers and images of glTF
+	 * files in custom storage. Resources not handled by the resolver use the default method.
+	 */
+	public setResourceResolver(resolver: ResourceResolver | null): this {
+		this._resolver = resolver;
+		return this;
+	}
+
+	/**
+	 * Sets whether optional extensions without a registered implementation are preserved. When
+	 * enabled, their data is read as {@link PassthroughProperty} instances, attached to the
+	 * properties defining them, and written back unchanged. Otherwise, the data is discarded
+	 * with a warning. Defaults to false.
+	 */
+	public setExtensionPassthrough(passthrough: boolean): this {
+		this._extensionPassthrough = passthrough;
+		return this;
+	}
+
+	/**
+	 * Sets whether recoverable problems found when reading a file are reported as warnings,
+	 * rather than thrown as a {@link ReadError}. Recoverable problems include references to
+	 * missing definitions and missing images; the offending elements are dropped, and reading
+	 * continues. Warnings are logged, and available as {@link lastReadWarnings} after reading.
+	 * Defaults to false.
+	 */
+	public setLenient(lenient: boolean): this {
+		this._lenient = lenient;
+		return this;
+	}
+
 	/**********************************************************************************************
 	 * Common.
 	 */
 
 	/** @internal */
 	protected _readResourcesInternal(jsonDoc: JSONDocument, isGLB: boolean): void {
+		// Upgrade glTF 1.0 assets before resolving resources, which glTF 1.0 keys by ID.
+		if (isLegacyJSON(jsonDoc.json)) jsonDoc.json = upgradeJSON(jsonDoc, this._logger).json;
+
 		const images = jsonDoc.json.images || [];
 		const buffers = jsonDoc.json.buffers || [];
 		[...images, ...buffers].forEach((resource: GLTF.IBuffer|GLTF.IImage, index: number) => {
+			// Images without data are reported when the Document is read.
 			if (!resource.uri) {
 				const isGLBBuffer = isGLB && index === images.length;
-				if ((resource as GLTF.IImage)['bufferView'] === undefined && !isGLBBuffer) {
-					throw new Error('Missing resource URI.');
+				const isOptional = this._isBufferDataOptional(resource as GLTF.IBuffer);
+				if (index >= images.length && !isGLBBuffer && !isOptional) {
+					throw new ReadError(
+						IOErrorCode.MISSING_RESOURCE,
+						'Missing resource URI.',
+						`/buffers/${index - images.length}`
+					);
 				}
 				return;
 			}
@@ -90,6 +232,109 @@ export abstract class PlatformIO {
 		});
 	}
 
+	/**
+	 * @internal Returns true if a registered extension allows the buffer to have no data. See
+	 * {@link Extension.isBufferDataOptional}.
+	 */
+	protected _isBufferDataOptional(bufferDef: GLTF.IBuffer): boolean {
+		return this._extensions.some((extension) => extension.isBufferDataOptional(bufferDef));
+	}
+
+	/**
+	 * @internal Reports an external resource that could not be found. Missing buffers are thrown
+	 * as a {@link ReadError}. Missing images are reported when the Document is read, allowing
+	 * them to be skipped in lenient mode.
+	 */
+	protected _reportMissingResource(jsonDoc: JSONDocument, uri: string): void {
+		const pointer = getResourcePointer(jsonDoc, uri);
+		if (pointer.indexOf('/images/') === 0) return;
+		throw new ReadError(IOErrorCode.MISSING_RESOURCE, `Missing resource "${uri}".`, pointer);
+	}
+
+	/** @internal Loads external resources with the {@link ResourceResolver}, if any. */
+	protected _resolveResources(jsonDoc: JSONDocument, base: string): void {
+		const resolver = this._resolver;
+		if (!resolver || !resolver.read) return;
+		for (const uri of listUnresolvedURIs(jsonDoc)) {
+			const data = assertSync(resolver.read(uri, base));
+			if (data) jsonDoc.resources[uri] = data;
+		}
+	}
+
+	/** @internal Loads external resources with the {@link ResourceResolver}, if any. */
+	protected async _resolveResourcesAsync(jsonDoc: JSONDocument, base: string): Promise<void> {
+		const resolver = this._resolver;
+		if (!resolver || !resolver.read) return;
+		await Promise.all(listUnresolvedURIs(jsonDoc).map(async (uri) => {
+			const data = await resolver.read!(uri, base);
+			if (data) jsonDoc.resources[uri] = data;
+		}));
+	}
+
+	/**
+	 * @internal Stores external resources with the {@link ResourceResolver}, if any. Stored
+	 * resources are removed from the resource map, and references to them are updated.
+	 */
+	protected _storeResources(jsonDoc: JSONDocument, base: string): void {
+		const resolver = this._resolver;
+		if (!resolver || !resolver.write) return;
+		for (const uri of Object.keys(jsonDoc.resources)) {
+			if (uri === GLB_BUFFER) continue;
+			const storedURI = assertSync(resolver.write(uri, jsonDoc.resources[uri], base));
+			if (storedURI !== null) renameResource(jsonDoc, uri, storedURI);
+		}
+	}
+
+	/**
+	 * @internal Stores external resources with the {@link ResourceResolver}, if any. Stored
+	 * resources are removed from the resource map, and references to them are updated.
+	 */
+	protected async _storeResourcesAsync(jsonDoc: JSONDocument, base: string): Promise<void> {
+		const resolver = this._resolver;
+		if (!resolver || !resolver.write) return;
+		const uris = Object.keys(jsonDoc.resources).filter((uri) => uri !== GLB_BUFFER);
+		const storedURIs = await Promise.all(
+			uris.map((uri) => resolver.write!(uri, jsonDoc.resources[uri], base))
+		);
+		for (let i = 0; i < uris.length; i++) {
+			if (storedURIs[i] !== null) renameResource(jsonDoc, uris[i], storedURIs[i]!);
+		}
+	}
+
+	/**
+	 * @internal Converts the contents of an archive, such as a .zip file, to a
+	 * {@link JSONDocument}. The archive must contain one .gltf or .glb file, and any external
+	 * resources it references, at paths relative to that file.
+	 */
+	protected _readArchive(files: Record<string, ArrayBuffer>): JSONDocument {
+		const paths = Object.keys(files)
+			.filter((path) => /\.(gltf|glb)$/i.test(path) && !/(^|\/)__MACOSX\//.test(path));
+		if (paths.length !== 1) {
+			throw new ReadError(
+				IOErrorCode.INVALID_ARCHIVE,
+				`Expected one .gltf or .glb file in archive, found ${paths.length}.`
+			);
+		}
+
+		const path = paths[0];
+		const isGLB = /\.glb$/i.test(path);
+		const jsonDoc: JSONDocument = isGLB
+			? this._binaryToJSON(files[path])
+			: {json: JSON.parse(BufferUtils.decodeText(files[path])), resources: {}};
+		this._readResourcesInternal(jsonDoc, isGLB);
+
+		const dir = path.substr(0, path.lastIndexOf('/') + 1);
+		for (const uri of listUnresolvedURIs(jsonDoc)) {
+			const resourcePath = normalizePath(dir + decodeURI(uri));
+			if (resourcePath in files) {
+				jsonDoc.resources[uri] = files[resourcePath];
+			} else {
+				this._reportMissingResource(jsonDoc, uri);
+			}
+		}
+		return jsonDoc;
+	}
+
 	/**********************************************************************************************
 	 * JSON.
 	 */
@@ -97,22 +342,35 @@ export abstract class PlatformIO {
 	/** Converts glTF-formatted JSON and a resource map to a {@link Document}. */
 	public readJSON (jsonDoc: JSONDocument): Document {
 		this._readResourcesInternal(jsonDoc, GLB_BUFFER in jsonDoc.resources);
+		return this._readDocument(jsonDoc);
+	}
+
+	/** @internal Converts a {@link JSONDocument}, with resources loaded, to a {@link Document}. */
+	protected _readDocument(
+			jsonDoc: JSONDocument,
+			lazyResources: {[uri: string]: ResourceRangeReader} = {}): Document {
+		const warnings: ReadError[] = this.lastReadWarnings = [];
 		return GLTFReader.read(jsonDoc, {
 			extensions: this._extensions,
 			dependencies: this._dependencies,
-			logger: this._logger
+			logger: this._logger,
+			lazyResources,
+			extensionPassthrough: this._extensionPassthrough,
+			lenient: this._lenient,
+			onWarning: (warning) => warnings.push(warning),
 		});
 	}
 
 	/** Converts a {@link Document} to glTF-formatted JSON and a resource map. */
 	public writeJSON (doc: Document, _options: Partial<WriterOptions> = {}): JSONDocument {
-		if (_options.format === Format.GLB && doc.getRoot().listBuffers().length > 1) {
-			throw new Error('GLB must have 0–1 buffers.');
-		}
 		return GLTFWriter.write(doc, {
 			format: _options.format || Format.GLTF,
 			logger: _options.logger || this._logger,
 			vertexLayout: _options.vertexLayout || this._vertexLayout,
+			layoutPolicy: _options.layoutPolicy || this._layoutPolicy,
+			resourceMode: _options.resourceMode || this._resourceMode,
+			resourceNaming: _options.resourceNaming || this._resourceNaming,
+			sparseMode: _options.sparseMode || this._sparseMode,
 			dependencies: {...this._dependencies, ..._options.dependencies},
 			basename: _options.basename || ''
 		} as Required<WriterOptions>);
@@ -128,11 +386,21 @@ export abstract class PlatformIO {
 		const json = jsonDoc.json;
 
 		// Check for external references, which can't be resolved by this method.
-		if (json.buffers && json.buffers.length > 1) {
-			throw new Error('Cannot resolve external buffers with binaryToJSON().');
-		} else if (json.images
-				&& json.images.find((imageDef) => imageDef.bufferView === undefined)) {
-			throw new Error('Cannot resolve external images with binaryToJSON().');
+		const images = json.images || [];
+		const externalImage = images.findIndex((imageDef) => imageDef.bufferView === undefined);
+		const buffers = json.buffers || [];
+		if (buffers.slice(1).some((bufferDef) => !this._isBufferDataOptional(bufferDef))) {
+			throw new ReadError(
+				IOErrorCode.MISSING_RESOURCE,
+				'Cannot resolve external buffers with binaryToJSON().',
+				'/buffers/1'
+			);
+		} else if (externalImage >= 0) {
+			throw new ReadError(
+				IOErrorCode.MISSING_RESOURCE,
+				'Cannot resolve external images with binaryToJSON().',
+				`/images/${externalImage}`
+			);
 		}
 
 		return jsonDoc;
@@ -143,16 +411,24 @@ export abstract class PlatformIO {
 		// Decode and verify GLB header.
 		const header = new Uint32Array(glb, 0, 3);
 		if (header[0] !== 0x46546C67) {
-			throw new Error('Invalid glTF asset.');
+			throw new ReadError(IOErrorCode.GLB_INVALID_MAGIC, 'Invalid glTF asset.');
+		} else if (header[1] === 1) {
+			return readLegacyBinary(glb, this._logger);
 		} else if (header[1] !== 2) {
-			throw new Error(`Unsupported glTF binary version, "${header[1]}".`);
+			throw new ReadError(
+				IOErrorCode.GLB_INVALID_VERSION,
+				`Unsupported glTF binary version, "${header[1]}".`
+			);
 		}
 
 		// Decode JSON chunk.
 
 		const jsonChunkHeader = new Uint32Array(glb, 12, 2);
 		if (jsonChunkHeader[1] !== ChunkType.JSON) {
-			throw new Error('Missing required GLB JSON chunk.');
+			throw new ReadError(
+				IOErrorCode.GLB_UNEXPECTED_FIRST_CHUNK,
+				'Missing required GLB JSON chunk.'
+			);
 		}
 
 		const jsonByteOffset = 20;
@@ -171,7 +447,10 @@ export abstract class PlatformIO {
 
 		const binChunkHeader = new Uint32Array(glb, binByteOffset, 2);
 		if (binChunkHeader[1] !== ChunkType.BIN) {
-			throw new Error('Expected GLB BIN in second chunk.');
+			throw new ReadError(
+				IOErrorCode.GLB_UNEXPECTED_CHUNK,
+				'Expected GLB BIN in second chunk.'
+			);
 		}
 
 		const binByteLength = binChunkHeader[0];
@@ -191,32 +470,111 @@ export abstract class PlatformIO {
 
 	/** Converts a {@link Document} to a GLB-formatted ArrayBuffer. */
 	public writeBinary(doc: Document): ArrayBuffer {
-		const {json, resources} = this.writeJSON(doc, {
+		return BufferUtils.concat(this._writeGLBParts(doc));
+	}
+
+	/**
+	 * @internal Converts a {@link Document} to the parts of a GLB file, in order. Buffer views in
+	 * the binary chunk are not concatenated, and may be written to a file one at a time.
+	 */
+	protected _writeGLBParts(doc: Document): ArrayBuffer[] {
+		const binChunks: ArrayBuffer[] = [];
+		const jsonDoc = this._writeGLBJSON(doc, binChunks);
+		this._storeResources(jsonDoc, '');
+		return this._packGLB(jsonDoc.json, binChunks);
+	}
+
+	/**
+	 * @internal Converts a {@link Document} to the JSON of a GLB file, appending the data of its
+	 * binary chunk to 'binChunks'. See {@link _packGLB}.
+	 */
+	protected _writeGLBJSON(doc: Document, binChunks: ArrayBuffer[]): JSONDocument {
+		return GLTFWriter.write(doc, {
 			format: Format.GLB,
 			basename: '',
 			logger: this._logger,
 			dependencies: this._dependencies,
 			vertexLayout: this._vertexLayout,
-		});
+			layoutPolicy: this._layoutPolicy,
+			resourceMode: this._resourceMode,
+			resourceNaming: this._resourceNaming,
+			sparseMode: this._sparseMode,
+		}, binChunks);
+	}
 
+	/** @internal Returns the parts of a GLB file, in order, given its JSON and binary chunk. */
+	protected _packGLB(json: GLTF.IGLTF, binChunks: ArrayBuffer[]): ArrayBuffer[] {
 		const header = new Uint32Array([0x46546C67, 2, 12]);
 
 		const jsonText = JSON.stringify(json);
 		const jsonChunkData = BufferUtils.pad( BufferUtils.encodeText(jsonText), 0x20 );
 		const jsonChunkHeader = new Uint32Array([jsonChunkData.byteLength, 0x4E4F534A]).buffer;
-		const jsonChunk = BufferUtils.concat([jsonChunkHeader, jsonChunkData]);
-		header[header.length - 1] += jsonChunk.byteLength;
+		header[header.length - 1] += jsonChunkHeader.byteLength + jsonChunkData.byteLength;
 
-		const binBuffer = Object.values(resources)[0];
-		if (!binBuffer || !binBuffer.byteLength) {
-			return BufferUtils.concat([header.buffer, jsonChunk]);
+		const binByteLength = binChunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+		if (!binByteLength) {
+			return [header.buffer, jsonChunkHeader, jsonChunkData];
 		}
 
-		const binChunkData = BufferUtils.pad(binBuffer, 0x00);
-		const binChunkHeader = new Uint32Array([binChunkData.byteLength, 0x004E4942]).buffer;
-		const binChunk = BufferUtils.concat([binChunkHeader, binChunkData]);
-		header[header.length - 1] += binChunk.byteLength;
+		const binPadding = new ArrayBuffer(BufferUtils.padNumber(binByteLength) - binByteLength);
+		const binChunkByteLength = binByteLength + binPadding.byteLength;
+		const binChunkHeader = new Uint32Array([binChunkByteLength, 0x004E4942]).buffer;
+		header[header.length - 1] += binChunkHeader.byteLength + binChunkByteLength;
 
-		return BufferUtils.concat([header.buffer, jsonChunk, binChunk]);
+		return [
+			header.buffer, jsonChunkHeader, jsonChunkData, binChunkHeader, ...binChunks, binPadding
+		];
+	}
+}
+
+/** Lists URIs of external resources not yet present in the resource map. */
+function listUnresolvedURIs(jsonDoc: JSONDocument): string[] {
+	const images = jsonDoc.json.images || [];
+	const buffers = jsonDoc.json.buffers || [];
+	const uris = new Set<string>();
+	for (const resource of [...images, ...buffers] as (GLTF.IBuffer|GLTF.IImage)[]) {
+		if (resource.uri && !(resource.uri in jsonDoc.resources)) uris.add(resource.uri);
+	}
+	return Array.from(uris);
+}
+
+/** Returns a JSON Pointer to the first image or buffer with the given URI. */
+function getResourcePointer(jsonDoc: JSONDocument, uri: string): string {
+	const images = jsonDoc.json.images || [];
+	const buffers = jsonDoc.json.buffers || [];
+	const imageIndex = images.findIndex((imageDef) => imageDef.uri === uri);
+	if (imageIndex >= 0) return `/images/${imageIndex}/uri`;
+	const bufferIndex = buffers.findIndex((bufferDef) => bufferDef.uri === uri);
+	return bufferIndex >= 0 ? `/buffers/${bufferIndex}/uri` : '';
+}
+
+/** Removes a stored resource from the resource map, updating references to its new URI. */
+function renameResource(jsonDoc: JSONDocument, uri: string, storedURI: string): void {
+	const images = jsonDoc.json.images || [];
+	const buffers = jsonDoc.json.buffers || [];
+	for (const resource of [...images, ...buffers] as (GLTF.IBuffer|GLTF.IImage)[]) {
+		if (resource.uri === uri) resource.uri = storedURI;
+	}
+	delete jsonDoc.resources[uri];
+}
+
+function assertSync<T>(value: T | Promise<T>): T {
+	if (value && typeof (value as Promise<T>).then === 'function') {
+		throw new Error('Asynchronous ResourceResolver requires an asynchronous I/O method.');
+	}
+	return value as T;
+}
+
+/** Resolves '.' and '..' segments of a relative path, e.g. "a/./b/../c.png" -> "a/c.png". */
+function normalizePath(path: string): string {
+	const stack: string[] = [];
+	for (const part of path.split('/')) {
+		if (part === '.' || part === '') continue;
+		if (part === '..') {
+			stack.pop();
+		} else {
+			stack.push(part);
+		}
 	}
+	return stack.join('/');
 }
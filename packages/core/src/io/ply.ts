@@ -0,0 +1,319 @@
+import { Document } from '../document';
+import { JSONDocument } from '../json-document';
+import { Primitive } from '../properties';
+import { BufferUtils, Logger } from '../utils';
+import { GeometryAttribute, createGeometryJSON, createIndices, listWorldPrimitives } from './geometry';
+import { IOErrorCode, ReadError } from './io-error';
+
+/**
+ * Converts between glTF 2.0 and PLY (Polygon File Format) files, in ASCII or binary encodings.
+ * Vertex positions, normals, texture coordinates, and colors are supported. Files without faces,
+ * as are common for scans, are imported as point clouds.
+ */
+
+type PLYFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+const PLY_FORMATS: PLYFormat[] = ['ascii', 'binary_little_endian', 'binary_big_endian'];
+
+interface PLYProperty {
+	name: string;
+	type: string;
+	/** For list properties, type of the item count. */
+	countType?: string;
+}
+
+interface PLYElement {
+	name: string;
+	count: number;
+	properties: PLYProperty[];
+}
+
+/** Byte lengths of PLY property types, including both legacy and sized names. */
+const TYPE_LENGTHS: {[type: string]: number} = {
+	char: 1, uchar: 1, short: 2, ushort: 2, int: 4, uint: 4, float: 4, double: 8,
+	int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+/** Maximum values of unsigned integer types, by which colors are normalized. */
+const TYPE_MAX: {[type: string]: number} = {
+	uchar: 255, uint8: 255, ushort: 65535, uint16: 65535,
+};
+
+const POSITION_NAMES = ['x', 'y', 'z'];
+const NORMAL_NAMES = ['nx', 'ny', 'nz'];
+const COLOR_NAMES = ['red', 'green', 'blue', 'alpha'];
+const TEXCOORD_NAMES = [['s', 't'], ['u', 'v'], ['texture_u', 'texture_v']];
+
+/**
+ * Converts a PLY file to a glTF 2.0 {@link JSONDocument}, with a single mesh. Polygons are
+ * triangulated. Files without faces are converted to a point cloud, in `POINTS` mode.
+ */
+export function readPLY(data: ArrayBuffer, logger: Logger): JSONDocument {
+	const {format, elements, headerLength} = readHeader(data);
+	const reader = format === 'ascii'
+		? createASCIIReader(BufferUtils.decodeText(data.slice(headerLength)))
+		: createBinaryReader(new DataView(data, headerLength), format === 'binary_little_endian');
+
+	const vertexElement = elements.find((element) => element.name === 'vertex');
+	if (!vertexElement) {
+		logger.warn('PLY: No vertices found.');
+		return createGeometryJSON([]);
+	}
+
+	// Vertex attributes, by property index.
+	const propertyNames = vertexElement.properties.map((property) => property.name);
+	const findProperties = (names: string[]) => names.map((name) => propertyNames.indexOf(name));
+	const positionIndices = findProperties(POSITION_NAMES);
+	const normalIndices = findProperties(NORMAL_NAMES);
+	const colorIndices = findProperties(COLOR_NAMES);
+	const texcoordIndices = TEXCOORD_NAMES
+		.map(findProperties)
+		.find((indices) => indices.every((index) => index >= 0));
+	const hasNormal = normalIndices.every((index) => index >= 0);
+	const hasColor = colorIndices.slice(0, 3).every((index) => index >= 0);
+	const colorMax = hasColor ? TYPE_MAX[vertexElement.properties[colorIndices[0]].type] || 1 : 1;
+
+	const vertexCount = vertexElement.count;
+	const position = new Float32Array(vertexCount * 3);
+	const normal = new Float32Array(hasNormal ? vertexCount * 3 : 0);
+	const texcoord = new Float32Array(texcoordIndices ? vertexCount * 2 : 0);
+	const color = new Float32Array(hasColor ? vertexCount * 4 : 0);
+	const indices: number[] = [];
+	const values: number[] = [];
+
+	for (const element of elements) {
+		for (let i = 0; i < element.count; i++) {
+			if (element === vertexElement) {
+				for (let j = 0; j < element.properties.length; j++) {
+					values[j] = reader.read(element.properties[j].type);
+				}
+				for (let j = 0; j < 3; j++) {
+					position[i * 3 + j] = values[positionIndices[j]] || 0;
+					if (hasNormal) normal[i * 3 + j] = values[normalIndices[j]];
+				}
+				if (texcoordIndices) {
+					texcoord[i * 2] = values[texcoordIndices[0]];
+					texcoord[i * 2 + 1] = 1 - values[texcoordIndices[1]];
+				}
+				if (hasColor) {
+					for (let j = 0; j < 4; j++) {
+						color[i * 4 + j] = colorIndices[j] >= 0
+							? values[colorIndices[j]] / colorMax
+							: 1;
+					}
+				}
+			} else if (element.name === 'face') {
+				for (const property of element.properties) {
+					if (!property.countType) {
+						reader.read(property.type);
+						continue;
+					}
+					const corners: number[] = [];
+					const count = reader.read(property.countType);
+					for (let j = 0; j < count; j++) corners.push(reader.read(property.type));
+					if (property.name !== 'vertex_indices' && property.name !== 'vertex_index') {
+						continue;
+					}
+					for (let j = 1; j < corners.length - 1; j++) {
+						indices.push(corners[0], corners[j], corners[j + 1]);
+					}
+				}
+			} else {
+				// Other elements, like edges or materials, are skipped.
+				for (const property of element.properties) {
+					const count = property.countType ? reader.read(property.countType) : 1;
+					for (let j = 0; j < count; j++) reader.read(property.type);
+				}
+			}
+		}
+	}
+
+	const attributes: {[semantic: string]: GeometryAttribute} = {
+		POSITION: {array: position, type: 'VEC3'},
+	};
+	if (hasNormal) attributes.NORMAL = {array: normal, type: 'VEC3'};
+	if (texcoordIndices) attributes.TEXCOORD_0 = {array: texcoord, type: 'VEC2'};
+	if (hasColor) attributes.COLOR_0 = {array: color, type: 'VEC4'};
+
+	return createGeometryJSON([{
+		primitives: [indices.length
+			? {attributes, indices: createIndices(indices, vertexCount)}
+			: {attributes, mode: Primitive.Mode.POINTS}],
+	}]);
+}
+
+/**
+ * Converts the default scene of a {@link Document} to a binary PLY file. Triangles and points are
+ * transformed to world space, and all other primitives are skipped. Normals are written if present
+ * on every primitive, and colors if present on any primitive.
+ */
+export function writePLY(doc: Document, logger: Logger): ArrayBuffer {
+	const prims = listWorldPrimitives(doc, logger);
+	const hasNormal = prims.length > 0 && prims.every((prim) => prim.normal);
+	const hasColor = prims.some((prim) => prim.color);
+
+	let vertexCount = 0;
+	let faceCount = 0;
+	for (const prim of prims) {
+		vertexCount += prim.position.length / 3;
+		if (prim.mode === Primitive.Mode.TRIANGLES) faceCount += prim.indices.length / 3;
+	}
+
+	const header = [
+		'ply',
+		'format binary_little_endian 1.0',
+		'comment Exported by glTF-Transform.',
+		`element vertex ${vertexCount}`,
+	];
+	for (const name of POSITION_NAMES) header.push(`property float ${name}`);
+	if (hasNormal) for (const name of NORMAL_NAMES) header.push(`property float ${name}`);
+	if (hasColor) for (const name of COLOR_NAMES) header.push(`property uchar ${name}`);
+	if (faceCount) {
+		header.push(`element face ${faceCount}`, 'property list uchar uint vertex_indices');
+	}
+	header.push('end_header', '');
+
+	const headerBuffer = BufferUtils.encodeText(header.join('\n'));
+	const vertexLength = 12 + (hasNormal ? 12 : 0) + (hasColor ? 4 : 0);
+	const body = new ArrayBuffer(vertexCount * vertexLength + faceCount * 13);
+	const view = new DataView(body);
+
+	let byteOffset = 0;
+	for (const prim of prims) {
+		const count = prim.position.length / 3;
+		for (let i = 0; i < count; i++) {
+			for (let j = 0; j < 3; j++, byteOffset += 4) {
+				view.setFloat32(byteOffset, prim.position[i * 3 + j], true);
+			}
+			for (let j = 0; hasNormal && j < 3; j++, byteOffset += 4) {
+				view.setFloat32(byteOffset, prim.normal![i * 3 + j], true);
+			}
+			for (let j = 0; hasColor && j < 4; j++, byteOffset++) {
+				const value = prim.color ? prim.color[i * 4 + j] : 1;
+				view.setUint8(byteOffset, Math.round(Math.min(Math.max(value, 0), 1) * 255));
+			}
+		}
+	}
+
+	let vertexOffset = 0;
+	for (const prim of prims) {
+		if (prim.mode === Primitive.Mode.TRIANGLES) {
+			for (let i = 0; i < prim.indices.length; i += 3) {
+				view.setUint8(byteOffset++, 3);
+				for (let j = 0; j < 3; j++, byteOffset += 4) {
+					view.setUint32(byteOffset, vertexOffset + prim.indices[i + j], true);
+				}
+			}
+		}
+		vertexOffset += prim.position.length / 3;
+	}
+
+	return BufferUtils.concat([headerBuffer, body]);
+}
+
+function readHeader(data: ArrayBuffer)
+		: {format: PLYFormat, elements: PLYElement[], headerLength: number} {
+	const headerLength = findHeaderLength(new Uint8Array(data));
+	const text = headerLength > 0 ? BufferUtils.decodeText(data.slice(0, headerLength)) : '';
+	if (!text.match(/^ply\r?\n/)) {
+		throw new ReadError(IOErrorCode.PLY_INVALID_HEADER, 'PLY: Invalid header.');
+	}
+
+	let format: PLYFormat = 'ascii';
+	const elements: PLYElement[] = [];
+	for (const line of text.split(/\r?\n/)) {
+		const tokens = line.trim().split(/\s+/);
+		switch (tokens[0]) {
+			case 'format':
+				if (!PLY_FORMATS.includes(tokens[1] as PLYFormat)) {
+					throw new ReadError(
+						IOErrorCode.PLY_INVALID_HEADER,
+						`PLY: Unknown format "${tokens[1]}".`
+					);
+				}
+				format = tokens[1] as PLYFormat;
+				break;
+			case 'element':
+				elements.push({name: tokens[1], count: Number(tokens[2]), properties: []});
+				break;
+			case 'property':
+				if (!elements.length) break;
+				elements[elements.length - 1].properties.push(tokens[1] === 'list'
+					? {name: tokens[4], type: tokens[3], countType: tokens[2]}
+					: {name: tokens[2], type: tokens[1]});
+				break;
+		}
+	}
+
+	// Unknown types have unknown lengths, and no later values can be read, in any format.
+	for (const element of elements) {
+		for (const {type, countType} of element.properties) {
+			for (const t of countType ? [countType, type] : [type]) {
+				if (TYPE_LENGTHS[t]) continue;
+				throw new ReadError(
+					IOErrorCode.PLY_UNKNOWN_PROPERTY_TYPE,
+					`PLY: Unknown property type "${t}".`
+				);
+			}
+		}
+	}
+
+	return {format, elements, headerLength};
+}
+
+/**
+ * Returns the byte length of the header, ending with the line break after 'end_header', or -1
+ * if the header is incomplete. Headers have no length limit.
+ */
+function findHeaderLength(bytes: Uint8Array): number {
+	const end = new Uint8Array(BufferUtils.encodeText('end_header'));
+	for (let i = 0; i + end.length <= bytes.length; i++) {
+		// Search only at the start of each line.
+		if (i > 0 && bytes[i - 1] !== 0x0A) continue;
+		let match = true;
+		for (let j = 0; j < end.length && match; j++) match = bytes[i + j] === end[j];
+		if (!match || !isWhitespace(bytes[i + end.length])) continue;
+		const lineEnd = bytes.indexOf(0x0A, i + end.length);
+		return lineEnd < 0 ? -1 : lineEnd + 1;
+	}
+	return -1;
+}
+
+/** Whether the byte is an ASCII space, tab, or line break. */
+function isWhitespace(byte: number): boolean {
+	return byte === 0x20 || byte === 0x09 || byte === 0x0A || byte === 0x0D;
+}
+
+interface PLYReader {
+	read(type: string): number;
+}
+
+function createASCIIReader(text: string): PLYReader {
+	const tokens = text.split(/\s+/).filter(Boolean);
+	let index = 0;
+	return {read: () => Number(tokens[index++])};
+}
+
+function createBinaryReader(view: DataView, littleEndian: boolean): PLYReader {
+	let byteOffset = 0;
+	return {
+		read: (type: string): number => {
+			const offset = byteOffset;
+			byteOffset += TYPE_LENGTHS[type];
+			switch (type) {
+				case 'char': case 'int8': return view.getInt8(offset);
+				case 'uchar': case 'uint8': return view.getUint8(offset);
+				case 'short': case 'int16': return view.getInt16(offset, littleEndian);
+				case 'ushort': case 'uint16': return view.getUint16(offset, littleEndian);
+				case 'int': case 'int32': return view.getInt32(offset, littleEndian);
+				case 'uint': case 'uint32': return view.getUint32(offset, littleEndian);
+				case 'float': case 'float32': return view.getFloat32(offset, littleEndian);
+				case 'double': case 'float64': return view.getFloat64(offset, littleEndian);
+				default: throw new ReadError(
+					IOErrorCode.PLY_UNKNOWN_PROPERTY_TYPE,
+					`PLY: Unknown property type "${type}".`
+				);
+			}
+		},
+	};
+}
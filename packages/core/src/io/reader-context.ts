@@ -1,6 +1,10 @@
+import { GLB_BUFFER } from '../constants';
 import { JSONDocument } from '../json-document';
 import { Accessor, Animation, Buffer, Camera, Material, Mesh, Node, Scene, Skin, Texture, TextureInfo } from '../properties';
 import { GLTF } from '../types/gltf';
+import { IOErrorCode, ReadError } from './io-error';
+
+type BufferReader = (buffer: number, byteOffset: number, byteLength: number) => ArrayBuffer;
 
 /**
  * Model class providing glTF-Transform objects representing each definition in the glTF file, used
@@ -12,6 +16,11 @@ import { GLTF } from '../types/gltf';
 export class ReaderContext {
 	public buffers: Buffer[] = [];
 	public bufferViewBuffers: Buffer[] = [];
+	/**
+	 * Data of buffer views, assigned by extensions in place of the stored data, for example after
+	 * decompression. Accessors using these buffer views are read from the assigned data.
+	 */
+	public bufferViews: (ArrayBuffer | undefined)[] = [];
 	public accessors: Accessor[] = [];
 	public textures: Texture[] = [];
 	public textureInfos: Map<TextureInfo, GLTF.ITextureInfo> = new Map();
@@ -23,7 +32,23 @@ export class ReaderContext {
 	public animations: Animation[] = [];
 	public scenes: Scene[] = [];
 
-	constructor (public readonly jsonDoc: JSONDocument) {}
+	constructor (
+		public readonly jsonDoc: JSONDocument,
+		private readonly onError: (error: ReadError) => void = throwError,
+		private readonly onReadBuffer: BufferReader = readResource(jsonDoc)) {}
+
+	/** Reads a byte range of the buffer at the given index, including buffers read lazily. */
+	public readBuffer(buffer: number, byteOffset: number, byteLength: number): ArrayBuffer {
+		return this.onReadBuffer(buffer, byteOffset, byteLength);
+	}
+
+	/**
+	 * Reports a problem found in the glTF asset. Recoverable problems are reported as warnings
+	 * when reading in lenient mode, and other problems are thrown.
+	 */
+	public report(error: ReadError): void {
+		this.onError(error);
+	}
 
 	public setTextureInfo(textureInfo: TextureInfo, textureInfoDef: GLTF.ITextureInfo): void {
 		this.textureInfos.set(textureInfo, textureInfoDef);
@@ -36,7 +61,17 @@ export class ReaderContext {
 
 		if (textureDef.sampler === undefined) return;
 
-		const samplerDef = this.jsonDoc.json.samplers![textureDef.sampler];
+		const samplerDef = (this.jsonDoc.json.samplers || [])[textureDef.sampler];
+
+		if (!samplerDef) {
+			this.report(new ReadError(
+				IOErrorCode.UNRESOLVED_REFERENCE,
+				`Missing sampler, "${textureDef.sampler}".`,
+				`/textures/${textureInfoDef.index}/sampler`,
+				true
+			));
+			return;
+		}
 
 		if (samplerDef.magFilter !== undefined) {
 			textureInfo.setMagFilter(samplerDef.magFilter);
@@ -52,3 +87,15 @@ export class ReaderContext {
 		}
 	}
 }
+
+function throwError(error: ReadError): void {
+	throw error;
+}
+
+function readResource(jsonDoc: JSONDocument): BufferReader {
+	return (buffer: number, byteOffset: number, byteLength: number): ArrayBuffer => {
+		const bufferDef = jsonDoc.json.buffers![buffer];
+		const data = jsonDoc.resources[bufferDef.uri || GLB_BUFFER];
+		return data.slice(byteOffset, byteOffset + byteLength);
+	};
+}
@@ -2,9 +2,11 @@ import { GLB_BUFFER, PropertyType, TypedArray, mat4, vec3, vec4 } from '../const
 import { Document } from '../document';
 import { Extension } from '../extension';
 import { JSONDocument } from '../json-document';
+import { PassthroughExtension } from '../passthrough-extension';
 import { Accessor, AnimationSampler, Camera } from '../properties';
 import { GLTF } from '../types/gltf';
 import { FileUtils, ImageUtils, Logger, MathUtils } from '../utils';
+import { IOErrorCode, ReadError } from './io-error';
 import { ReaderContext } from './reader-context';
 
 const ComponentTypeToTypedArray = {
@@ -16,16 +18,48 @@ const ComponentTypeToTypedArray = {
 	'5126': Float32Array,
 };
 
+/** Reads a byte range of a resource, without loading the full resource. */
+export type ResourceRangeReader = (byteOffset: number, byteLength: number) => ArrayBuffer;
+
+/**
+ * Reads a byte range of a buffer view, as a new ArrayBuffer. Errors are reported for the
+ * definition at the given JSON Pointer.
+ */
+type BufferViewReader = (
+	bufferView: number,
+	byteOffset: number,
+	byteLength: number,
+	pointer: string
+) => ArrayBuffer;
+
 export interface ReaderOptions {
 	logger?: Logger;
 	extensions: (typeof Extension)[];
 	dependencies: {[key: string]: unknown};
+	/**
+	 * Resources, by URI, read lazily. Accessor and image data stored in these resources is read
+	 * on first access, rather than when the document is created.
+	 */
+	lazyResources?: {[uri: string]: ResourceRangeReader};
+	/** Whether to preserve optional extensions without a registered implementation. */
+	extensionPassthrough?: boolean;
+	/**
+	 * Whether recoverable problems, like references to missing definitions, are reported as
+	 * warnings rather than thrown. The offending elements are dropped.
+	 */
+	lenient?: boolean;
+	/** Receives recoverable problems reported as warnings, when reading in lenient mode. */
+	onWarning?: (warning: ReadError) => void;
 }
 
 const DEFAULT_OPTIONS: ReaderOptions = {
 	logger: Logger.DEFAULT_INSTANCE,
 	extensions: [],
 	dependencies: {},
+	lazyResources: {},
+	extensionPassthrough: false,
+	lenient: false,
+	onWarning: () => undefined,
 };
 
 /** @internal */
@@ -39,7 +73,67 @@ export class GLTFReader {
 
 		/* Reader context. */
 
-		const context = new ReaderContext(jsonDoc);
+		const readBuffer = (index: number, byteOffset: number, byteLength: number) => {
+			const bufferDef = json.buffers![index];
+			const uri = bufferDef.uri || GLB_BUFFER;
+			if (uri in options.lazyResources) {
+				return options.lazyResources[uri](byteOffset, byteLength);
+			} else if (!jsonDoc.resources[uri]) {
+				throw new ReadError(
+					IOErrorCode.MISSING_RESOURCE,
+					`Missing resource "${uri}".`,
+					`/buffers/${index}`
+				);
+			}
+			return jsonDoc.resources[uri].slice(byteOffset, byteOffset + byteLength);
+		};
+
+		const context = new ReaderContext(jsonDoc, (error: ReadError) => {
+			if (!options.lenient || !error.recoverable) throw error;
+			options.logger.warn(`${error.message} (${error.code} at "${error.pointer}")`);
+			options.onWarning(error);
+		}, readBuffer);
+
+		/**
+		 * Returns the item at the given index, or null if the index is unset or the item does not
+		 * exist. Missing items are reported for the reference at the given JSON Pointer.
+		 */
+		const resolve = <T>(items: T[], index: number, pointer: string, recoverable = true) => {
+			if (index === undefined) return null;
+			if (items[index] !== undefined) return items[index];
+			context.report(new ReadError(
+				IOErrorCode.UNRESOLVED_REFERENCE,
+				`Missing definition for index "${index}".`,
+				pointer,
+				recoverable
+			));
+			return null;
+		};
+
+		const readBufferView: BufferViewReader = (index, byteOffset, byteLength, pointer) => {
+			const bufferViewDef =
+				resolve(json.bufferViews || [], index, `${pointer}/bufferView`, false)!;
+			if (byteOffset + byteLength > bufferViewDef.byteLength) {
+				throw new ReadError(
+					IOErrorCode.ACCESSOR_TOO_LONG,
+					`Data extends beyond the end of buffer view "${index}".`,
+					pointer
+				);
+			}
+
+			// Data assigned by extensions, e.g. after decompression.
+			const data = context.bufferViews[index];
+			if (data) return data.slice(byteOffset, byteOffset + byteLength);
+
+			byteOffset += bufferViewDef.byteOffset || 0;
+			return readBuffer(bufferViewDef.buffer, byteOffset, byteLength);
+		};
+
+		const isLazy = (bufferView: number): boolean => {
+			if (context.bufferViews[bufferView]) return false;
+			const bufferDef = json.buffers![json.bufferViews![bufferView].buffer];
+			return (bufferDef.uri || GLB_BUFFER) in options.lazyResources;
+		};
 
 		/** Asset. */
 
@@ -55,6 +149,11 @@ export class GLTFReader {
 
 		const extensionsUsed = json.extensionsUsed || [];
 		const extensionsRequired = json.extensionsRequired || [];
+		if (options.extensionPassthrough) {
+			for (const extensionName of listUnregisteredExtensions(extensionsUsed, options)) {
+				doc.createExtension(PassthroughExtension.forName(extensionName));
+			}
+		}
 		for (const Extension of options.extensions) {
 			if (extensionsUsed.includes(Extension.EXTENSION_NAME)) {
 				const extension = doc.createExtension(
@@ -85,16 +184,29 @@ export class GLTFReader {
 		/** Buffer views. */
 
 		const bufferViewDefs = json.bufferViews || [];
-		context.bufferViewBuffers = bufferViewDefs.map((bufferViewDef) => {
-			return context.buffers[bufferViewDef.buffer];
+		context.bufferViewBuffers = bufferViewDefs.map((bufferViewDef, index) => {
+			const pointer = `/bufferViews/${index}/buffer`;
+			return resolve(context.buffers, bufferViewDef.buffer, pointer, false)!;
 		});
 
+		doc.getRoot().listExtensionsUsed()
+			.filter((extension) => extension.prereadTypes.includes(PropertyType.BUFFER))
+			.forEach((extension) => extension.preread(context, PropertyType.BUFFER));
+
 		/** Accessors. */
 
 		// Accessor .count and .componentType properties are inferred dynamically.
 		const accessorDefs = json.accessors || [];
-		context.accessors = accessorDefs.map((accessorDef) => {
-			const buffer = context.bufferViewBuffers[accessorDef.bufferView!];
+		context.accessors = accessorDefs.map((accessorDef, index) => {
+			const pointer = `/accessors/${index}`;
+			validateAccessor(accessorDef, pointer);
+
+			const bufferView = accessorDef.bufferView !== undefined
+				? accessorDef.bufferView
+				: accessorDef.sparse && accessorDef.sparse.indices.bufferView;
+			const buffer = bufferView !== undefined
+				? resolve(context.bufferViewBuffers, bufferView, `${pointer}/bufferView`, false)!
+				: undefined;
 			const accessor = doc.createAccessor(accessorDef.name, buffer).setType(accessorDef.type);
 
 			if (accessorDef.extras) accessor.setExtras(accessorDef.extras);
@@ -106,15 +218,18 @@ export class GLTFReader {
 			// KHR_draco_mesh_compression.
 			if (accessorDef.bufferView === undefined && !accessorDef.sparse) return accessor;
 
-			let array: TypedArray;
+			const read = accessorDef.sparse !== undefined
+				? () => getSparseArray(accessorDef, jsonDoc, readBufferView, pointer)
+				: () => getAccessorArray(accessorDef, jsonDoc, readBufferView, pointer);
+
+			if (accessorDef.sparse !== undefined) accessor.setSparse(true);
 
-			if (accessorDef.sparse !== undefined) {
-				array = getSparseArray(accessorDef, jsonDoc);
+			if (isLazy(bufferView!)) {
+				accessor._setLazyArray(accessorDef.count, accessorDef.componentType, read);
 			} else {
-				array = getAccessorArray(accessorDef, jsonDoc);
+				accessor.setArray(read());
 			}
 
-			accessor.setArray(array);
 			return accessor;
 		});
 
@@ -128,27 +243,46 @@ export class GLTFReader {
 		doc.getRoot().listExtensionsUsed()
 			.filter((extension) => extension.prereadTypes.includes(PropertyType.TEXTURE))
 			.forEach((extension) => extension.preread(context, PropertyType.TEXTURE));
-		context.textures = imageDefs.map((imageDef) => {
+		context.textures = imageDefs.map((imageDef, index) => {
 			const texture = doc.createTexture(imageDef.name);
+			const pointer = `/images/${index}`;
 
 			// glTF Image corresponds 1:1 with glTF-Transform Texture. See `writer.ts`.
 			if (imageDef.extras) texture.setExtras(imageDef.extras);
 
 			if (imageDef.bufferView !== undefined) {
-				const bufferViewDef = json.bufferViews![imageDef.bufferView];
-				const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
-				const bufferData = bufferDef.uri
-					? jsonDoc.resources[bufferDef.uri]
-					: jsonDoc.resources[GLB_BUFFER];
-				const byteOffset = bufferViewDef.byteOffset || 0;
-				const byteLength = bufferViewDef.byteLength;
-				const imageData = bufferData.slice(byteOffset, byteOffset + byteLength);
-				texture.setImage(imageData);
+				const bufferView = imageDef.bufferView;
+				const bufferViewDef = resolve(bufferViewDefs, bufferView, `${pointer}/bufferView`);
+				if (bufferViewDef) {
+					const byteLength = bufferViewDef.byteLength;
+					const read = () => readBufferView(bufferView, 0, byteLength, pointer);
+					if (isLazy(bufferView)) {
+						texture._setLazyImage(read);
+					} else {
+						texture.setImage(read());
+					}
+				}
 			} else if (imageDef.uri !== undefined) {
-				texture.setImage(jsonDoc.resources[imageDef.uri]);
+				if (jsonDoc.resources[imageDef.uri]) {
+					texture.setImage(jsonDoc.resources[imageDef.uri]);
+				} else {
+					context.report(new ReadError(
+						IOErrorCode.MISSING_RESOURCE,
+						`Missing resource "${imageDef.uri}".`,
+						`${pointer}/uri`,
+						true
+					));
+				}
 				if (imageDef.uri.indexOf('__') !== 0) {
 					texture.setURI(imageDef.uri);
 				}
+			} else {
+				context.report(new ReadError(
+					IOErrorCode.MISSING_RESOURCE,
+					'Missing resource URI.',
+					pointer,
+					true
+				));
 			}
 
 			if (imageDef.mimeType !== undefined) {
@@ -161,11 +295,24 @@ export class GLTFReader {
 			return texture;
 		});
 
+		/**
+		 * Returns the texture (image) of a texture info definition, or null if it does not exist.
+		 * Missing definitions are reported for the reference at the given JSON Pointer.
+		 */
+		const resolveTexture = (textureInfoDef: GLTF.ITextureInfo, pointer: string) => {
+			const textureDef = resolve(textureDefs, textureInfoDef.index, `${pointer}/index`);
+			if (!textureDef) return null;
+			const sourcePointer = `/textures/${textureInfoDef.index}/source`;
+			return resolve(context.textures, textureDef.source!, sourcePointer);
+		};
+
 		/** Materials. */
 
 		const materialDefs = json.materials || [];
-		context.materials = materialDefs.map((materialDef) => {
+		context.materials = materialDefs.map((materialDef, index) => {
 			const material = doc.createMaterial(materialDef.name);
+			const pointer = `/materials/${index}`;
+			const pbrPointer = `${pointer}/pbrMetallicRoughness`;
 
 			if (materialDef.extras) material.setExtras(materialDef.extras);
 
@@ -207,43 +354,55 @@ export class GLTFReader {
 
 			if (pbrDef.baseColorTexture !== undefined) {
 				const textureInfoDef = pbrDef.baseColorTexture;
-				const texture = context.textures[textureDefs[textureInfoDef.index].source!];
-				material.setBaseColorTexture(texture);
-				context.setTextureInfo(material.getBaseColorTextureInfo()!, textureInfoDef);
+				const texture = resolveTexture(textureInfoDef, `${pbrPointer}/baseColorTexture`);
+				if (texture) {
+					material.setBaseColorTexture(texture);
+					context.setTextureInfo(material.getBaseColorTextureInfo()!, textureInfoDef);
+				}
 			}
 
 			if (materialDef.emissiveTexture !== undefined) {
 				const textureInfoDef = materialDef.emissiveTexture;
-				const texture = context.textures[textureDefs[textureInfoDef.index].source!];
-				material.setEmissiveTexture(texture);
-				context.setTextureInfo(material.getEmissiveTextureInfo()!, textureInfoDef);
+				const texture = resolveTexture(textureInfoDef, `${pointer}/emissiveTexture`);
+				if (texture) {
+					material.setEmissiveTexture(texture);
+					context.setTextureInfo(material.getEmissiveTextureInfo()!, textureInfoDef);
+				}
 			}
 
 			if (materialDef.normalTexture !== undefined) {
 				const textureInfoDef = materialDef.normalTexture;
-				const texture = context.textures[textureDefs[textureInfoDef.index].source!];
-				material.setNormalTexture(texture);
-				context.setTextureInfo(material.getNormalTextureInfo()!, textureInfoDef);
-				if (materialDef.normalTexture.scale !== undefined) {
-					material.setNormalScale(materialDef.normalTexture.scale);
+				const texture = resolveTexture(textureInfoDef, `${pointer}/normalTexture`);
+				if (texture) {
+					material.setNormalTexture(texture);
+					context.setTextureInfo(material.getNormalTextureInfo()!, textureInfoDef);
+					if (materialDef.normalTexture.scale !== undefined) {
+						material.setNormalScale(materialDef.normalTexture.scale);
+					}
 				}
 			}
 
 			if (materialDef.occlusionTexture !== undefined) {
 				const textureInfoDef = materialDef.occlusionTexture;
-				const texture = context.textures[textureDefs[textureInfoDef.index].source!];
-				material.setOcclusionTexture(texture);
-				context.setTextureInfo(material.getOcclusionTextureInfo()!, textureInfoDef);
-				if (materialDef.occlusionTexture.strength !== undefined) {
-					material.setOcclusionStrength(materialDef.occlusionTexture.strength);
+				const texture = resolveTexture(textureInfoDef, `${pointer}/occlusionTexture`);
+				if (texture) {
+					material.setOcclusionTexture(texture);
+					context.setTextureInfo(material.getOcclusionTextureInfo()!, textureInfoDef);
+					if (materialDef.occlusionTexture.strength !== undefined) {
+						material.setOcclusionStrength(materialDef.occlusionTexture.strength);
+					}
 				}
 			}
 
 			if (pbrDef.metallicRoughnessTexture !== undefined) {
 				const textureInfoDef = pbrDef.metallicRoughnessTexture;
-				const texture = context.textures[textureDefs[textureInfoDef.index].source!];
-				material.setMetallicRoughnessTexture(texture);
-				context.setTextureInfo(material.getMetallicRoughnessTextureInfo()!, textureInfoDef);
+				const texturePointer = `${pbrPointer}/metallicRoughnessTexture`;
+				const texture = resolveTexture(textureInfoDef, texturePointer);
+				if (texture) {
+					const textureInfo = material.setMetallicRoughnessTexture(texture)
+						.getMetallicRoughnessTextureInfo()!;
+					context.setTextureInfo(textureInfo, textureInfoDef);
+				}
 			}
 
 			return material;
@@ -255,7 +414,7 @@ export class GLTFReader {
 		doc.getRoot().listExtensionsUsed()
 			.filter((extension) => extension.prereadTypes.includes(PropertyType.PRIMITIVE))
 			.forEach((extension) => extension.preread(context, PropertyType.PRIMITIVE));
-		context.meshes = meshDefs.map((meshDef) => {
+		context.meshes = meshDefs.map((meshDef, meshIndex) => {
 			const mesh = doc.createMesh(meshDef.name);
 
 			if (meshDef.extras) mesh.setExtras(meshDef.extras);
@@ -265,25 +424,40 @@ export class GLTFReader {
 			}
 
 			const primitiveDefs = meshDef.primitives || [];
-			primitiveDefs.forEach((primitiveDef) => {
+			primitiveDefs.forEach((primitiveDef, primitiveIndex) => {
+				const pointer = `/meshes/${meshIndex}/primitives/${primitiveIndex}`;
+
+				// Primitives with unresolved vertex attributes are omitted.
+				const attributes: [string, Accessor][] = [];
+				for (const [semantic, index] of Object.entries(primitiveDef.attributes || {})) {
+					const attributePointer = `${pointer}/attributes/${semantic}`;
+					const attribute = resolve(context.accessors, index, attributePointer);
+					if (!attribute) return;
+					attributes.push([semantic, attribute]);
+				}
+
 				const primitive = doc.createPrimitive();
 
 				if (primitiveDef.extras) primitive.setExtras(primitiveDef.extras);
 
 				if (primitiveDef.material !== undefined) {
-					primitive.setMaterial(context.materials[primitiveDef.material]);
+					primitive.setMaterial(
+						resolve(context.materials, primitiveDef.material, `${pointer}/material`)
+					);
 				}
 
 				if (primitiveDef.mode !== undefined) {
 					primitive.setMode(primitiveDef.mode);
 				}
 
-				for (const [semantic, index] of Object.entries(primitiveDef.attributes || {})) {
-					primitive.setAttribute(semantic, context.accessors[index]);
+				for (const [semantic, attribute] of attributes) {
+					primitive.setAttribute(semantic, attribute);
 				}
 
 				if (primitiveDef.indices !== undefined) {
-					primitive.setIndices(context.accessors[primitiveDef.indices]);
+					primitive.setIndices(
+						resolve(context.accessors, primitiveDef.indices, `${pointer}/indices`)
+					);
 				}
 
 				const targetNames: string[] =
@@ -294,7 +468,11 @@ export class GLTFReader {
 					const target = doc.createPrimitiveTarget(targetName);
 
 					for (const [semantic, accessorIndex] of Object.entries(targetDef)) {
-						target.setAttribute(semantic, context.accessors[accessorIndex]);
+						const targetPointer = `${pointer}/targets/${targetIndex}/${semantic}`;
+						target.setAttribute(
+							semantic,
+							resolve(context.accessors, accessorIndex, targetPointer)
+						);
 					}
 
 					primitive.addTarget(target);
@@ -379,22 +557,28 @@ export class GLTFReader {
 		/** Skins. */
 
 		const skinDefs = json.skins || [];
-		context.skins = skinDefs.map((skinDef) => {
+		context.skins = skinDefs.map((skinDef, skinIndex) => {
 			const skin = doc.createSkin(skinDef.name);
+			const pointer = `/skins/${skinIndex}`;
 
 			if (skinDef.extras) skin.setExtras(skinDef.extras);
 
 			if (skinDef.inverseBindMatrices !== undefined) {
-				skin.setInverseBindMatrices(context.accessors[skinDef.inverseBindMatrices]);
+				skin.setInverseBindMatrices(resolve(
+					context.accessors,
+					skinDef.inverseBindMatrices,
+					`${pointer}/inverseBindMatrices`
+				));
 			}
 
 			if (skinDef.skeleton !== undefined) {
-				skin.setSkeleton(context.nodes[skinDef.skeleton]);
+				skin.setSkeleton(resolve(context.nodes, skinDef.skeleton, `${pointer}/skeleton`));
 			}
 
-			for (const nodeIndex of skinDef.joints) {
-				skin.addJoint(context.nodes[nodeIndex]);
-			}
+			skinDef.joints.forEach((nodeIndex, jointIndex) => {
+				const joint = resolve(context.nodes, nodeIndex, `${pointer}/joints/${jointIndex}`);
+				if (joint) skin.addJoint(joint);
+			});
 
 			return skin;
 		});
@@ -403,30 +587,53 @@ export class GLTFReader {
 
 		nodeDefs.map((nodeDef, nodeIndex) => {
 			const node = context.nodes[nodeIndex];
+			const pointer = `/nodes/${nodeIndex}`;
 
 			const children = nodeDef.children || [];
-			children.forEach((childIndex) => node.addChild(context.nodes[childIndex]));
+			children.forEach((childIndex, index) => {
+				const child = resolve(context.nodes, childIndex, `${pointer}/children/${index}`);
+				if (child) node.addChild(child);
+			});
 
-			if (nodeDef.mesh !== undefined) node.setMesh(context.meshes[nodeDef.mesh]);
+			if (nodeDef.mesh !== undefined) {
+				node.setMesh(resolve(context.meshes, nodeDef.mesh, `${pointer}/mesh`));
+			}
 
-			if (nodeDef.camera !== undefined) node.setCamera(context.cameras[nodeDef.camera]);
+			if (nodeDef.camera !== undefined) {
+				node.setCamera(resolve(context.cameras, nodeDef.camera, `${pointer}/camera`));
+			}
 
-			if (nodeDef.skin !== undefined) node.setSkin(context.skins[nodeDef.skin]);
+			if (nodeDef.skin !== undefined) {
+				node.setSkin(resolve(context.skins, nodeDef.skin, `${pointer}/skin`));
+			}
 		});
 
 		/** Animations. */
 
 		const animationDefs = json.animations || [];
-		context.animations = animationDefs.map((animationDef) => {
+		context.animations = animationDefs.map((animationDef, animationIndex) => {
 			const animation = doc.createAnimation(animationDef.name);
+			const pointer = `/animations/${animationIndex}`;
 
 			if (animationDef.extras) animation.setExtras(animationDef.extras);
 
 			const samplerDefs = animationDef.samplers || [];
-			const samplers = samplerDefs.map((samplerDef) => {
+			const samplers = samplerDefs.map((samplerDef, samplerIndex) => {
+				const samplerPointer = `${pointer}/samplers/${samplerIndex}`;
+				const input =
+					resolve(context.accessors, samplerDef.input, `${samplerPointer}/input`);
+				const output =
+					resolve(context.accessors, samplerDef.output, `${samplerPointer}/output`);
+
+				// Samplers with unresolved input or output, and their channels, are omitted.
+				if ((samplerDef.input !== undefined && !input)
+						|| (samplerDef.output !== undefined && !output)) {
+					return null;
+				}
+
 				const sampler = doc.createAnimationSampler()
-					.setInput(context.accessors[samplerDef.input])
-					.setOutput(context.accessors[samplerDef.output])
+					.setInput(input)
+					.setOutput(output)
 					.setInterpolation(
 						samplerDef.interpolation || AnimationSampler.Interpolation.LINEAR
 					);
@@ -438,12 +645,23 @@ export class GLTFReader {
 			});
 
 			const channels = animationDef.channels || [];
-			channels.forEach((channelDef) => {
+			channels.forEach((channelDef, channelIndex) => {
+				const channelPointer = `${pointer}/channels/${channelIndex}`;
+				const sampler = resolve(samplers, channelDef.sampler, `${channelPointer}/sampler`);
+
+				// Channels with an unresolved sampler are omitted.
+				if (channelDef.sampler !== undefined && !sampler) return;
+
 				const channel = doc.createAnimationChannel()
-					.setSampler(samplers[channelDef.sampler])
-					.setTargetNode(context.nodes[channelDef.target.node])
+					.setSampler(sampler)
 					.setTargetPath(channelDef.target.path);
 
+				if (channelDef.target.node !== undefined) {
+					const nodePointer = `${channelPointer}/target/node`;
+					const node = resolve(context.nodes, channelDef.target.node, nodePointer);
+					channel.setTargetNode(node);
+				}
+
 				if (channelDef.extras) channel.setExtras(channelDef.extras);
 
 				animation.addChannel(channel);
@@ -455,22 +673,24 @@ export class GLTFReader {
 		/** Scenes. */
 
 		const sceneDefs = json.scenes || [];
-		context.scenes = sceneDefs.map((sceneDef) => {
+		context.scenes = sceneDefs.map((sceneDef, sceneIndex) => {
 			const scene = doc.createScene(sceneDef.name);
 
 			if (sceneDef.extras) scene.setExtras(sceneDef.extras);
 
 			const children = sceneDef.nodes || [];
 
-			children
-			.map((nodeIndex) => context.nodes[nodeIndex])
-			.forEach((node) => (scene.addChild(node)));
+			children.forEach((nodeIndex, index) => {
+				const pointer = `/scenes/${sceneIndex}/nodes/${index}`;
+				const node = resolve(context.nodes, nodeIndex, pointer);
+				if (node) scene.addChild(node);
+			});
 
 			return scene;
 		});
 
 		if (json.scene !== undefined) {
-			doc.getRoot().setDefaultScene(context.scenes[json.scene]);
+			doc.getRoot().setDefaultScene(resolve(context.scenes, json.scene, '/scene'));
 		}
 
 		/** Extensions (2/2). */
@@ -487,53 +707,95 @@ export class GLTFReader {
 		const json = jsonDoc.json;
 
 		if (json.asset.version !== '2.0') {
-			throw new Error(`Unsupported glTF version, "${json.asset.version}".`);
+			throw new ReadError(
+				IOErrorCode.UNKNOWN_ASSET_MAJOR_VERSION,
+				`Unsupported glTF version, "${json.asset.version}".`,
+				'/asset/version'
+			);
 		}
 
 		if (json.extensionsRequired) {
-			for (const extensionName of json.extensionsRequired) {
+			json.extensionsRequired.forEach((extensionName, index) => {
 				if (!options.extensions.find(
 						(extension) => extension.EXTENSION_NAME === extensionName)) {
-					throw new Error(`Missing required extension, "${extensionName}".`);
+					throw new ReadError(
+						IOErrorCode.MISSING_REQUIRED_EXTENSION,
+						`Missing required extension, "${extensionName}".`,
+						`/extensionsRequired/${index}`
+					);
 				}
-			}
+			});
 		}
 
-		if (json.extensionsUsed) {
-			for (const extensionName of json.extensionsUsed) {
-				if (!options.extensions.find(
-						(extension) => extension.EXTENSION_NAME === extensionName)) {
-					options.logger.warn(`Missing optional extension, "${extensionName}".`);
-				}
+		if (json.extensionsUsed && !options.extensionPassthrough) {
+			for (const extensionName of listUnregisteredExtensions(json.extensionsUsed, options)) {
+				options.logger.warn(`Missing optional extension, "${extensionName}".`);
 			}
 		}
 
 	}
 }
 
+/** Lists extensions without an implementation registered with the reader. */
+function listUnregisteredExtensions(
+		extensionNames: string[],
+		options: Required<ReaderOptions>): string[] {
+	return extensionNames.filter((extensionName) => !options.extensions.find(
+		(extension) => extension.EXTENSION_NAME === extensionName
+	));
+}
+
+/**
+ * Verifies that the component types of an accessor are valid, before its data is read.
+ * @internal
+ */
+function validateAccessor(accessorDef: GLTF.IAccessor, pointer: string): void {
+	const componentTypes: [number, string][] = [
+		[accessorDef.componentType, `${pointer}/componentType`],
+	];
+	if (accessorDef.sparse) {
+		const indicesDef = accessorDef.sparse.indices;
+		componentTypes.push([indicesDef.componentType, `${pointer}/sparse/indices/componentType`]);
+	}
+	for (const [componentType, componentTypePointer] of componentTypes) {
+		if (!(componentType in ComponentTypeToTypedArray)) {
+			throw new ReadError(
+				IOErrorCode.INVALID_COMPONENT_TYPE,
+				`Unexpected componentType "${componentType}".`,
+				componentTypePointer
+			);
+		}
+	}
+}
+
 /**
  * Returns the contents of an interleaved accessor, as a typed array.
  * @internal
  */
-function getInterleavedArray(accessorDef: GLTF.IAccessor, jsonDoc: JSONDocument): TypedArray {
-	const bufferViewDef = jsonDoc.json.bufferViews![accessorDef.bufferView!];
-	const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
-	const resource = bufferDef.uri
-		? jsonDoc.resources[bufferDef.uri]
-		: jsonDoc.resources[GLB_BUFFER];
+function getInterleavedArray(
+		accessorDef: GLTF.IAccessor,
+		jsonDoc: JSONDocument,
+		readBufferView: BufferViewReader,
+		pointer: string): TypedArray {
+	const bufferViewDef = (jsonDoc.json.bufferViews || [])[accessorDef.bufferView!];
 
 	const TypedArray = ComponentTypeToTypedArray[accessorDef.componentType];
 	const elementSize = Accessor.getElementSize(accessorDef.type);
 	const componentSize = TypedArray.BYTES_PER_ELEMENT;
-	const accessorByteOffset = accessorDef.byteOffset || 0;
+	const byteStride = bufferViewDef.byteStride!;
 
+	// Read only the range spanned by this accessor's elements.
+	const byteLength = accessorDef.count > 0
+		? (accessorDef.count - 1) * byteStride + elementSize * componentSize
+		: 0;
 	const array = new TypedArray(accessorDef.count * elementSize);
-	const view = new DataView(resource, bufferViewDef.byteOffset, bufferViewDef.byteLength);
-	const byteStride = bufferViewDef.byteStride!;
+	const view = new DataView(
+		readBufferView(accessorDef.bufferView!, accessorDef.byteOffset || 0, byteLength, pointer)
+	);
 
 	for (let i = 0; i < accessorDef.count; i++) {
 		for (let j = 0; j < elementSize; j++) {
-			const byteOffset = accessorByteOffset + i * byteStride + j * componentSize;
+			const byteOffset = i * byteStride + j * componentSize;
 			let value: number;
 			switch (accessorDef.componentType) {
 				case Accessor.ComponentType.FLOAT:
@@ -568,12 +830,12 @@ function getInterleavedArray(accessorDef: GLTF.IAccessor, jsonDoc: JSONDocument)
  * Returns the contents of an accessor, as a typed array.
  * @internal
  */
-function getAccessorArray(accessorDef: GLTF.IAccessor, jsonDoc: JSONDocument): TypedArray {
-	const bufferViewDef = jsonDoc.json.bufferViews![accessorDef.bufferView!];
-	const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
-	const resource = bufferDef.uri
-		? jsonDoc.resources[bufferDef.uri]
-		: jsonDoc.resources[GLB_BUFFER];
+function getAccessorArray(
+		accessorDef: GLTF.IAccessor,
+		jsonDoc: JSONDocument,
+		readBufferView: BufferViewReader,
+		pointer: string): TypedArray {
+	const bufferViewDef = (jsonDoc.json.bufferViews || [])[accessorDef.bufferView!];
 
 	const TypedArray = ComponentTypeToTypedArray[accessorDef.componentType];
 	const elementSize = Accessor.getElementSize(accessorDef.type);
@@ -581,39 +843,70 @@ function getAccessorArray(accessorDef: GLTF.IAccessor, jsonDoc: JSONDocument): T
 	const elementStride = elementSize * componentSize;
 
 	// Interleaved buffer view.
-	if (bufferViewDef.byteStride !== undefined && bufferViewDef.byteStride !==  elementStride) {
-		return getInterleavedArray(accessorDef, jsonDoc);
+	// Missing buffer views are reported by the buffer view reader.
+	if (bufferViewDef
+			&& bufferViewDef.byteStride !== undefined
+			&& bufferViewDef.byteStride !== elementStride) {
+		return getInterleavedArray(accessorDef, jsonDoc, readBufferView, pointer);
 	}
 
-	const byteOffset = (bufferViewDef.byteOffset || 0) + (accessorDef.byteOffset || 0);
+	const byteOffset = accessorDef.byteOffset || 0;
 	const byteLength = accessorDef.count * elementSize * componentSize;
 
 	// Might optimize this to avoid deep copy later, but it's useful for now and not a known
 	// bottleneck. See https://github.com/donmccurdy/glTF-Transform/issues/256.
-	return new TypedArray(resource.slice(byteOffset, byteOffset + byteLength));
+	return new TypedArray(
+		readBufferView(accessorDef.bufferView!, byteOffset, byteLength, pointer)
+	);
 }
 
 /**
  * Returns the contents of a sparse accessor, as a typed array.
  * @internal
  */
-function getSparseArray(accessorDef: GLTF.IAccessor, jsonDoc: JSONDocument): TypedArray {
+function getSparseArray(
+		accessorDef: GLTF.IAccessor,
+		jsonDoc: JSONDocument,
+		readBufferView: BufferViewReader,
+		pointer: string): TypedArray {
 	const TypedArray = ComponentTypeToTypedArray[accessorDef.componentType];
 	const elementSize = Accessor.getElementSize(accessorDef.type);
 
 	let array: TypedArray;
 	if (accessorDef.bufferView !== undefined) {
-		array = getAccessorArray(accessorDef, jsonDoc);
+		array = getAccessorArray(accessorDef, jsonDoc, readBufferView, pointer);
 	} else {
 		array = new TypedArray(accessorDef.count * elementSize);
 	}
 
 	const sparseDef = accessorDef.sparse!;
 	const count = sparseDef.count;
-	const indicesDef = {...accessorDef, ...sparseDef.indices, count, type: 'SCALAR'};
-	const valuesDef = {...accessorDef, ...sparseDef.values, count};
-	const indices = getAccessorArray(indicesDef as GLTF.IAccessor, jsonDoc);
-	const values = getAccessorArray(valuesDef, jsonDoc);
+	const indicesDef: GLTF.IAccessor = {
+		bufferView: sparseDef.indices.bufferView,
+		byteOffset: sparseDef.indices.byteOffset || 0,
+		componentType: sparseDef.indices.componentType,
+		count,
+		type: 'SCALAR',
+	};
+	const valuesDef: GLTF.IAccessor = {
+		bufferView: sparseDef.values.bufferView,
+		byteOffset: sparseDef.values.byteOffset || 0,
+		componentType: accessorDef.componentType,
+		count,
+		type: accessorDef.type,
+	};
+	const indices = getAccessorArray(
+		indicesDef,
+		jsonDoc,
+		readBufferView,
+		`${pointer}/sparse/indices`
+	);
+	const values = getAccessorArray(
+		valuesDef,
+		jsonDoc,
+		readBufferView,
+		`${pointer}/sparse/values`
+	);
 
 	// Override indices given in the sparse data.
 	for (let i = 0; i < indicesDef.count; i++) {
@@ -0,0 +1,185 @@
+import { Document } from '../document';
+import { JSONDocument } from '../json-document';
+import { Primitive } from '../properties';
+import { BufferUtils, Logger } from '../utils';
+import { GeometryMesh, createGeometryJSON, listWorldPrimitives } from './geometry';
+
+/**
+ * Converts between glTF 2.0 and STL files, in binary or ASCII encodings. STL files contain only
+ * unindexed triangles, with a normal for each face. Imported triangles are not welded.
+ */
+
+const HEADER_LENGTH = 80;
+const TRIANGLE_LENGTH = 50;
+const VEC3_PATTERN = '\\s+(\\S+)\\s+(\\S+)\\s+(\\S+)';
+
+/**
+ * Converts an STL file, in binary or ASCII encoding, to a glTF 2.0 {@link JSONDocument}. Each
+ * solid in the file becomes a mesh, with vertex positions and face normals.
+ */
+export function readSTL(data: ArrayBuffer, logger: Logger): JSONDocument {
+	return createGeometryJSON(isBinarySTL(data) ? readBinarySTL(data) : readASCIISTL(data, logger));
+}
+
+/**
+ * Converts the default scene of a {@link Document} to a binary STL file. Triangles are transformed
+ * to world space, and all other primitives are skipped.
+ */
+export function writeSTL(doc: Document, logger: Logger): ArrayBuffer {
+	const prims = listWorldPrimitives(doc, logger)
+		.filter((prim) => prim.mode === Primitive.Mode.TRIANGLES);
+	const triangleCount = prims.reduce((count, prim) => count + prim.indices.length / 3, 0);
+
+	const buffer = new ArrayBuffer(HEADER_LENGTH + 4 + triangleCount * TRIANGLE_LENGTH);
+	const view = new DataView(buffer);
+	const header = BufferUtils.encodeText('Exported by glTF-Transform.');
+	new Uint8Array(buffer).set(new Uint8Array(header));
+	view.setUint32(HEADER_LENGTH, triangleCount, true);
+
+	const a = [0, 0, 0];
+	const b = [0, 0, 0];
+	const c = [0, 0, 0];
+	const normal = [0, 0, 0];
+	let byteOffset = HEADER_LENGTH + 4;
+	for (const {position, indices} of prims) {
+		for (let i = 0; i < indices.length; i += 3) {
+			for (let j = 0; j < 3; j++) {
+				a[j] = position[indices[i] * 3 + j];
+				b[j] = position[indices[i + 1] * 3 + j];
+				c[j] = position[indices[i + 2] * 3 + j];
+			}
+			computeFaceNormal(a, b, c, normal);
+			for (const vector of [normal, a, b, c]) {
+				for (let j = 0; j < 3; j++, byteOffset += 4) {
+					view.setFloat32(byteOffset, vector[j], true);
+				}
+			}
+			byteOffset += 2; // Attribute byte count, unused.
+		}
+	}
+
+	return buffer;
+}
+
+/**
+ * Binary STL files may begin with 'solid', like ASCII files, so the expected file length is
+ * checked first.
+ */
+function isBinarySTL(data: ArrayBuffer): boolean {
+	if (data.byteLength < HEADER_LENGTH + 4) return false;
+	const triangleCount = new DataView(data).getUint32(HEADER_LENGTH, true);
+	if (data.byteLength === HEADER_LENGTH + 4 + triangleCount * TRIANGLE_LENGTH) return true;
+	const start = BufferUtils.decodeText(data.slice(0, 5));
+	return start !== 'solid';
+}
+
+function readBinarySTL(data: ArrayBuffer): GeometryMesh[] {
+	const view = new DataView(data);
+	const triangleCount = Math.min(
+		view.getUint32(HEADER_LENGTH, true),
+		Math.floor((data.byteLength - HEADER_LENGTH - 4) / TRIANGLE_LENGTH)
+	);
+
+	const position = new Float32Array(triangleCount * 9);
+	const normal = new Float32Array(triangleCount * 9);
+	const vertex = [0, 0, 0];
+	const faceNormal = [0, 0, 0];
+	for (let i = 0; i < triangleCount; i++) {
+		const byteOffset = HEADER_LENGTH + 4 + i * TRIANGLE_LENGTH;
+		for (let j = 0; j < 3; j++) {
+			faceNormal[j] = view.getFloat32(byteOffset + j * 4, true);
+		}
+		for (let v = 0; v < 3; v++) {
+			for (let j = 0; j < 3; j++) {
+				vertex[j] = view.getFloat32(byteOffset + 12 + v * 12 + j * 4, true);
+			}
+			position.set(vertex, i * 9 + v * 3);
+		}
+		setFaceNormal(position, normal, i, faceNormal);
+	}
+
+	return [createMesh('', position, normal)];
+}
+
+function readASCIISTL(data: ArrayBuffer, logger: Logger): GeometryMesh[] {
+	const meshes: GeometryMesh[] = [];
+	const text = BufferUtils.decodeText(data);
+	const solidPattern = /solid[ \t]*([^\r\n]*)([\s\S]*?)endsolid/gi;
+	const facetPattern = new RegExp(
+		`facet\\s+normal${VEC3_PATTERN}\\s+outer\\s+loop`
+			+ `\\s+vertex${VEC3_PATTERN}`.repeat(3)
+			+ '\\s+endloop\\s+endfacet',
+		'gi'
+	);
+
+	let solid: RegExpExecArray | null;
+	while ((solid = solidPattern.exec(text))) {
+		const positions: number[] = [];
+		const faceNormals: number[] = [];
+		let facet: RegExpExecArray | null;
+		while ((facet = facetPattern.exec(solid[2]))) {
+			const values = facet.slice(1).map(Number);
+			faceNormals.push(values[0], values[1], values[2]);
+			positions.push(...values.slice(3));
+		}
+
+		const position = new Float32Array(positions);
+		const normal = new Float32Array(positions.length);
+		for (let i = 0; i < faceNormals.length / 3; i++) {
+			setFaceNormal(position, normal, i, faceNormals.slice(i * 3, i * 3 + 3));
+		}
+		if (position.length) meshes.push(createMesh(solid[1].trim(), position, normal));
+	}
+
+	if (!meshes.length) logger.warn('STL: No triangles found.');
+	return meshes;
+}
+
+function createMesh(name: string, position: Float32Array, normal: Float32Array): GeometryMesh {
+	return {
+		name,
+		primitives: [{
+			attributes: {
+				POSITION: {array: position, type: 'VEC3'},
+				NORMAL: {array: normal, type: 'VEC3'},
+			},
+		}],
+	};
+}
+
+/**
+ * Assigns the face normal to each vertex of a triangle. Missing or invalid normals, which are
+ * common in STL files, are computed from the triangle.
+ */
+function setFaceNormal(
+		position: Float32Array,
+		normal: Float32Array,
+		triangle: number,
+		faceNormal: number[]): void {
+	const length = Math.hypot(faceNormal[0], faceNormal[1], faceNormal[2]);
+	let value = faceNormal;
+	if (!(length > 0.5 && length < 1.5)) {
+		const offset = triangle * 9;
+		value = computeFaceNormal(
+			Array.from(position.subarray(offset, offset + 3)),
+			Array.from(position.subarray(offset + 3, offset + 6)),
+			Array.from(position.subarray(offset + 6, offset + 9)),
+			[0, 0, 0]
+		);
+	}
+	for (let v = 0; v < 3; v++) normal.set(value, triangle * 9 + v * 3);
+}
+
+/** Computes the normal of triangle ABC, with counter-clockwise winding. */
+function computeFaceNormal(a: number[], b: number[], c: number[], target: number[]): number[] {
+	const ux = b[0] - a[0], uy = b[1] - a[1], uz = b[2] - a[2];
+	const vx = c[0] - a[0], vy = c[1] - a[1], vz = c[2] - a[2];
+	const x = uy * vz - uz * vy;
+	const y = uz * vx - ux * vz;
+	const z = ux * vy - uy * vx;
+	const length = Math.hypot(x, y, z) || 1;
+	target[0] = x / length;
+	target[1] = y / length;
+	target[2] = z / length;
+	return target;
+}
@@ -0,0 +1,602 @@
+import { GLB_BUFFER } from '../constants';
+import { JSONDocument } from '../json-document';
+import { Accessor } from '../properties';
+import { GLTF } from '../types/gltf';
+import { BufferUtils, Logger } from '../utils';
+import { IOErrorCode, ReadError } from './io-error';
+
+/**
+ * Upgrades glTF 1.0 assets, and binary assets using the KHR_binary_glTF extension, to glTF 2.0.
+ * Definitions are converted from ID-keyed dictionaries to arrays, with references rewritten as
+ * indices. Techniques, programs, and shaders have no glTF 2.0 equivalent; materials are
+ * approximated with the metal/rough PBR model, from common parameters like `diffuse` and
+ * `emission`. Anything else that cannot be mapped is dropped, with a warning.
+ */
+
+/** Dictionary of glTF 1.0 definitions, keyed by ID. */
+type Dict<T> = {[id: string]: T};
+
+type V1Value = number | number[] | string | boolean;
+
+interface V1Property {
+	name?: string;
+	extensions?: Dict<unknown>;
+	extras?: Record<string, unknown>;
+}
+
+interface V1Buffer extends V1Property {
+	uri?: string;
+	byteLength?: number;
+}
+
+interface V1BufferView extends V1Property {
+	buffer: string;
+	byteOffset?: number;
+	byteLength?: number;
+	target?: number;
+}
+
+interface V1Accessor extends V1Property {
+	bufferView?: string;
+	byteOffset?: number;
+	byteStride?: number;
+	componentType: GLTF.AccessorComponentType;
+	count: number;
+	type: GLTF.AccessorType;
+	max?: number[];
+	min?: number[];
+}
+
+interface V1Image extends V1Property {
+	uri?: string;
+}
+
+interface V1BinaryImage {
+	bufferView: string;
+	mimeType: string;
+}
+
+interface V1Sampler extends V1Property {
+	magFilter?: GLTF.TextureMagFilter;
+	minFilter?: GLTF.TextureMinFilter;
+	wrapS?: GLTF.TextureWrapMode;
+	wrapT?: GLTF.TextureWrapMode;
+}
+
+interface V1Texture extends V1Property {
+	sampler?: string;
+	source?: string;
+}
+
+interface V1Technique extends V1Property {
+	parameters?: Dict<{value?: V1Value}>;
+	states?: {enable?: number[]};
+}
+
+interface V1Material extends V1Property {
+	technique?: string;
+	values?: Dict<V1Value>;
+}
+
+interface V1CommonMaterial {
+	technique?: string;
+	doubleSided?: boolean;
+	transparent?: boolean;
+	values?: Dict<V1Value>;
+}
+
+interface V1Primitive extends V1Property {
+	attributes?: Dict<string>;
+	indices?: string;
+	material?: string;
+	mode?: GLTF.MeshPrimitiveMode;
+}
+
+interface V1Mesh extends V1Property {
+	primitives?: V1Primitive[];
+}
+
+interface V1Camera extends V1Property {
+	type: GLTF.CameraType;
+	perspective?: GLTF.ICameraPerspective;
+	orthographic?: GLTF.ICameraOrthographic;
+}
+
+interface V1Skin extends V1Property {
+	bindShapeMatrix?: number[];
+	inverseBindMatrices?: string;
+	jointNames?: string[];
+}
+
+interface V1Node extends V1Property {
+	children?: string[];
+	matrix?: number[];
+	translation?: number[];
+	rotation?: number[];
+	scale?: number[];
+	meshes?: string[];
+	camera?: string;
+	skin?: string;
+	skeletons?: string[];
+	jointName?: string;
+}
+
+interface V1Animation extends V1Property {
+	channels?: {sampler: string, target: {id: string, path: GLTF.AnimationChannelTargetPath}}[];
+	parameters?: Dict<string>;
+	samplers?: Dict<{input: string, output: string, interpolation?: string}>;
+}
+
+interface V1Scene extends V1Property {
+	nodes?: string[];
+}
+
+interface V1Root extends V1Property {
+	asset?: {version?: string, generator?: string, copyright?: string};
+	scene?: string;
+	extensionsUsed?: string[];
+	accessors?: Dict<V1Accessor>;
+	animations?: Dict<V1Animation>;
+	buffers?: Dict<V1Buffer>;
+	bufferViews?: Dict<V1BufferView>;
+	cameras?: Dict<V1Camera>;
+	images?: Dict<V1Image>;
+	materials?: Dict<V1Material>;
+	meshes?: Dict<V1Mesh>;
+	nodes?: Dict<V1Node>;
+	samplers?: Dict<V1Sampler>;
+	scenes?: Dict<V1Scene>;
+	skins?: Dict<V1Skin>;
+	techniques?: Dict<V1Technique>;
+	textures?: Dict<V1Texture>;
+}
+
+const BINARY_EXTENSION = 'KHR_binary_glTF';
+const BINARY_BUFFER = 'binary_glTF';
+const COMMON_EXTENSION = 'KHR_materials_common';
+
+const GL_BLEND = 3042;
+const GL_CULL_FACE = 2884;
+const GL_DEPTH_TEST = 2929;
+
+/** Technique used by materials without one, enabling depth testing and face culling. */
+const DEFAULT_TECHNIQUE: V1Technique = {states: {enable: [GL_CULL_FACE, GL_DEPTH_TEST]}};
+
+/** Material parameters mapped to the metal/rough PBR model. */
+const MATERIAL_PARAMETERS = ['diffuse', 'emission', 'shininess', 'transparency'];
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+/** Returns true if the glTF JSON is a glTF 1.0 asset. @internal */
+export function isLegacyJSON(json: GLTF.IGLTF): boolean {
+	return !json.asset || /^1(\.|$)/.test(String(json.asset.version));
+}
+
+/**
+ * Converts a binary glTF 1.0 asset, using the KHR_binary_glTF extension, to a glTF 2.0
+ * {@link JSONDocument}. @internal
+ */
+export function readLegacyBinary(glb: ArrayBuffer, logger: Logger): JSONDocument {
+	const header = new Uint32Array(glb, 0, 5);
+	const contentByteLength = header[3];
+	const contentFormat = header[4];
+	if (contentFormat !== 0) {
+		throw new ReadError(
+			IOErrorCode.GLB_UNSUPPORTED_CONTENT_FORMAT,
+			`Unsupported ${BINARY_EXTENSION} content format, "${contentFormat}".`
+		);
+	}
+
+	const contentByteOffset = 20;
+	const json = JSON.parse(BufferUtils.decodeText(
+		glb.slice(contentByteOffset, contentByteOffset + contentByteLength)
+	));
+	const body = glb.slice(contentByteOffset + contentByteLength, header[2]);
+	return upgradeJSON({json, resources: {[GLB_BUFFER]: body}}, logger);
+}
+
+/** Converts a glTF 1.0 {@link JSONDocument} to glTF 2.0. @internal */
+export function upgradeJSON(jsonDoc: JSONDocument, logger: Logger): JSONDocument {
+	logger.info('Upgrading glTF 1.0 asset to glTF 2.0.');
+
+	const v1 = jsonDoc.json as unknown as V1Root;
+	const json: GLTF.IGLTF = {asset: {version: '2.0'}};
+	const warnings = new Set<string>();
+
+	if (v1.asset && v1.asset.generator) json.asset.generator = v1.asset.generator;
+	if (v1.asset && v1.asset.copyright) json.asset.copyright = v1.asset.copyright;
+	if (v1.extensions) json.extensions = v1.extensions;
+	if (v1.extras) json.extras = v1.extras;
+
+	const extensionsUsed = (v1.extensionsUsed || [])
+		.filter((name) => name !== BINARY_EXTENSION && name !== COMMON_EXTENSION);
+	if (extensionsUsed.length) json.extensionsUsed = extensionsUsed;
+
+	// The KHR_binary_glTF body becomes the GLB buffer, which must be listed first.
+	const bufferIDs = listIDs(v1.buffers)
+		.sort((a, b) => Number(b === BINARY_BUFFER) - Number(a === BINARY_BUFFER));
+
+	const bufferIndices = createIndexMap(bufferIDs);
+	const bufferViewIndices = createIndexMap(listIDs(v1.bufferViews));
+	const accessorIndices = createIndexMap(listIDs(v1.accessors));
+	const imageIndices = createIndexMap(listIDs(v1.images));
+	const samplerIndices = createIndexMap(listIDs(v1.samplers));
+	const textureIndices = createIndexMap(listIDs(v1.textures));
+	const materialIndices = createIndexMap(listIDs(v1.materials));
+	const meshIndices = createIndexMap(listIDs(v1.meshes));
+	const cameraIndices = createIndexMap(listIDs(v1.cameras));
+	const nodeIndices = createIndexMap(listIDs(v1.nodes));
+
+	/** Buffers. */
+
+	json.buffers = bufferIDs.map((id) => {
+		const def = v1.buffers![id];
+		const bufferDef = copyProperty(def) as GLTF.IBuffer;
+		if (id === BINARY_BUFFER && GLB_BUFFER in jsonDoc.resources) {
+			bufferDef.byteLength = jsonDoc.resources[GLB_BUFFER].byteLength;
+		} else {
+			bufferDef.uri = def.uri;
+			bufferDef.byteLength = def.byteLength || 0;
+		}
+		return bufferDef;
+	});
+
+	/** Buffer views. */
+
+	json.bufferViews = listIDs(v1.bufferViews).map((id) => {
+		const def = v1.bufferViews![id];
+		const bufferDef = json.buffers![bufferIndices[def.buffer]];
+		const bufferViewDef = copyProperty(def) as GLTF.IBufferView;
+		bufferViewDef.buffer = bufferIndices[def.buffer];
+		bufferViewDef.byteOffset = def.byteOffset || 0;
+		bufferViewDef.byteLength = def.byteLength !== undefined
+			? def.byteLength
+			: bufferDef.byteLength - bufferViewDef.byteOffset;
+		if (def.target !== undefined) bufferViewDef.target = def.target;
+		return bufferViewDef;
+	});
+
+	/** Accessors. */
+
+	json.accessors = listIDs(v1.accessors).map((id) => {
+		const def = v1.accessors![id];
+		const accessorDef = copyProperty(def) as GLTF.IAccessor;
+		accessorDef.componentType = def.componentType;
+		accessorDef.count = def.count;
+		accessorDef.type = def.type;
+		if (def.max) accessorDef.max = def.max;
+		if (def.min) accessorDef.min = def.min;
+		if (def.bufferView === undefined) return accessorDef;
+
+		accessorDef.bufferView = bufferViewIndices[def.bufferView];
+		accessorDef.byteOffset = def.byteOffset || 0;
+
+		// Byte stride moved from accessors to buffer views in glTF 2.0.
+		const elementByteSize = Accessor.getElementSize(def.type)
+			* Accessor.getComponentSize(def.componentType);
+		if (def.byteStride && def.byteStride !== elementByteSize) {
+			const bufferViewDef = json.bufferViews![accessorDef.bufferView];
+			if (bufferViewDef.byteStride && bufferViewDef.byteStride !== def.byteStride) {
+				warnings.add(`Accessors sharing buffer view "${def.bufferView}"`
+					+ ' have different byte strides, and may be read incorrectly.');
+			}
+			bufferViewDef.byteStride = def.byteStride;
+		}
+		return accessorDef;
+	});
+
+	/** Images, samplers, and textures. */
+
+	json.images = listIDs(v1.images).map((id) => {
+		const def = v1.images![id];
+		const imageDef = copyProperty(def, [BINARY_EXTENSION]) as GLTF.IImage;
+		const binaryDef = def.extensions && def.extensions[BINARY_EXTENSION] as V1BinaryImage;
+		if (binaryDef) {
+			imageDef.bufferView = bufferViewIndices[binaryDef.bufferView];
+			imageDef.mimeType = binaryDef.mimeType;
+		} else {
+			imageDef.uri = def.uri;
+		}
+		return imageDef;
+	});
+
+	json.samplers = listIDs(v1.samplers).map((id) => {
+		const def = v1.samplers![id];
+		const samplerDef = copyProperty(def) as GLTF.ISampler;
+		if (def.magFilter !== undefined) samplerDef.magFilter = def.magFilter;
+		if (def.minFilter !== undefined) samplerDef.minFilter = def.minFilter;
+		if (def.wrapS !== undefined) samplerDef.wrapS = def.wrapS;
+		if (def.wrapT !== undefined) samplerDef.wrapT = def.wrapT;
+		return samplerDef;
+	});
+
+	json.textures = listIDs(v1.textures).map((id) => {
+		const def = v1.textures![id];
+		const textureDef = copyProperty(def) as GLTF.ITexture;
+		if (def.source !== undefined) textureDef.source = imageIndices[def.source];
+		if (def.sampler !== undefined) textureDef.sampler = samplerIndices[def.sampler];
+		return textureDef;
+	});
+
+	/** Materials. */
+
+	if (listIDs(v1.techniques).length) {
+		warnings.add('Techniques and shaders are not supported. Materials are approximated with'
+			+ ' the metal/rough PBR model.');
+	}
+
+	json.materials = listIDs(v1.materials).map((id) => {
+		const def = v1.materials![id];
+		const materialDef = copyProperty(def, [COMMON_EXTENSION]) as GLTF.IMaterial;
+		const commonDef = def.extensions && def.extensions[COMMON_EXTENSION] as V1CommonMaterial;
+
+		// Parameters are given by the material, with defaults from its technique.
+		let values: Dict<V1Value>;
+		let doubleSided: boolean;
+		let transparent: boolean;
+		if (commonDef) {
+			values = commonDef.values || {};
+			doubleSided = !!commonDef.doubleSided;
+			transparent = !!commonDef.transparent;
+			if (commonDef.technique === 'CONSTANT') {
+				warnings.add('Material technique "CONSTANT" is not supported, and was ignored.');
+			}
+		} else {
+			const techniqueDef = (def.technique !== undefined
+				&& (v1.techniques || {})[def.technique]) || DEFAULT_TECHNIQUE;
+			const enable = (techniqueDef.states && techniqueDef.states.enable) || [];
+			values = {};
+			for (const name in techniqueDef.parameters || {}) {
+				const value = techniqueDef.parameters![name].value;
+				if (value !== undefined) values[name] = value;
+			}
+			values = {...values, ...def.values};
+			doubleSided = enable.indexOf(GL_CULL_FACE) === -1;
+			transparent = enable.indexOf(GL_BLEND) !== -1;
+		}
+
+		for (const name in values) {
+			if (MATERIAL_PARAMETERS.indexOf(name) === -1) {
+				warnings.add(`Material parameter "${name}" is not supported, and was ignored.`);
+			}
+		}
+
+		const pbrDef: GLTF.IMaterialPbrMetallicRoughness = {metallicFactor: 0};
+		const {diffuse, emission, shininess, transparency} = values;
+		const baseColorFactor = [1, 1, 1, 1];
+		if (typeof diffuse === 'string') {
+			pbrDef.baseColorTexture = {index: textureIndices[diffuse]};
+		} else if (Array.isArray(diffuse)) {
+			baseColorFactor.splice(0, diffuse.length, ...diffuse);
+		}
+		if (typeof transparency === 'number') baseColorFactor[3] *= transparency;
+		if (!baseColorFactor.every((v) => v === 1)) pbrDef.baseColorFactor = baseColorFactor;
+
+		if (typeof emission === 'string') {
+			materialDef.emissiveTexture = {index: textureIndices[emission]};
+			materialDef.emissiveFactor = [1, 1, 1];
+		} else if (Array.isArray(emission)) {
+			materialDef.emissiveFactor = emission.slice(0, 3);
+		}
+
+		// Approximates Blinn-Phong shininess with roughness.
+		pbrDef.roughnessFactor = typeof shininess === 'number'
+			? Math.sqrt(2 / (Math.max(shininess, 0) + 2))
+			: 1;
+
+		materialDef.pbrMetallicRoughness = pbrDef;
+		if (transparent || baseColorFactor[3] < 1) materialDef.alphaMode = 'BLEND';
+		if (doubleSided) materialDef.doubleSided = true;
+		return materialDef;
+	});
+
+	/** Meshes. */
+
+	json.meshes = listIDs(v1.meshes).map((id) => {
+		const def = v1.meshes![id];
+		const meshDef = copyProperty(def) as GLTF.IMesh;
+		meshDef.primitives = (def.primitives || []).map((primDef) => {
+			const attributes: Dict<number> = {};
+			const attributeIDs = primDef.attributes || {};
+			for (const semantic in attributeIDs) {
+				attributes[upgradeSemantic(semantic)] = accessorIndices[attributeIDs[semantic]];
+			}
+			const upgradedPrimDef = copyProperty(primDef) as GLTF.IMeshPrimitive;
+			upgradedPrimDef.attributes = attributes;
+			if (primDef.indices !== undefined) {
+				upgradedPrimDef.indices = accessorIndices[primDef.indices];
+			}
+			if (primDef.material !== undefined) {
+				upgradedPrimDef.material = materialIndices[primDef.material];
+			}
+			if (primDef.mode !== undefined) upgradedPrimDef.mode = primDef.mode;
+			return upgradedPrimDef;
+		});
+		return meshDef;
+	});
+
+	/** Cameras. */
+
+	json.cameras = listIDs(v1.cameras).map((id) => {
+		const def = v1.cameras![id];
+		const cameraDef = copyProperty(def) as GLTF.ICamera;
+		cameraDef.type = def.type;
+		if (def.perspective) cameraDef.perspective = def.perspective;
+		if (def.orthographic) cameraDef.orthographic = def.orthographic;
+		return cameraDef;
+	});
+
+	/** Skins. */
+
+	// Joints are identified by name in glTF 1.0, and by node index in glTF 2.0.
+	const jointIndices: Dict<number> = {};
+	listIDs(v1.nodes).forEach((id, index) => {
+		const jointName = v1.nodes![id].jointName;
+		if (jointName !== undefined && !(jointName in jointIndices)) {
+			jointIndices[jointName] = index;
+		}
+	});
+
+	const skinIndices: Dict<number> = {};
+	json.skins = [];
+	for (const id of listIDs(v1.skins)) {
+		const def = v1.skins![id];
+		const jointNames = def.jointNames || [];
+		const missingJoint = jointNames.find((jointName) => !(jointName in jointIndices));
+		if (missingJoint !== undefined) {
+			warnings.add(`Skin "${id}" has a missing joint, "${missingJoint}", and was removed.`);
+			continue;
+		}
+		if (def.bindShapeMatrix && !def.bindShapeMatrix.every((v, i) => v === IDENTITY[i])) {
+			warnings.add(`Skin "${id}" has a bind shape matrix, which is not supported.`);
+		}
+
+		const skinDef = copyProperty(def) as GLTF.ISkin;
+		skinDef.joints = jointNames.map((jointName) => jointIndices[jointName]);
+		if (def.inverseBindMatrices !== undefined) {
+			skinDef.inverseBindMatrices = accessorIndices[def.inverseBindMatrices];
+		}
+		skinIndices[id] = json.skins.length;
+		json.skins.push(skinDef);
+	}
+
+	/** Nodes. */
+
+	// Meshes of nodes with more than one mesh are merged, as glTF 2.0 allows only one.
+	const mergedMeshIndices: Dict<number> = {};
+
+	json.nodes = listIDs(v1.nodes).map((id) => {
+		const def = v1.nodes![id];
+		const nodeDef = copyProperty(def) as GLTF.INode;
+		if (def.children && def.children.length) {
+			nodeDef.children = def.children.map((childID) => nodeIndices[childID]);
+		}
+		if (def.matrix && !def.matrix.every((v, i) => v === IDENTITY[i])) {
+			nodeDef.matrix = def.matrix;
+		}
+		if (def.translation) nodeDef.translation = def.translation;
+		if (def.rotation) nodeDef.rotation = def.rotation;
+		if (def.scale) nodeDef.scale = def.scale;
+		if (def.camera !== undefined) nodeDef.camera = cameraIndices[def.camera];
+
+		const meshIDs = def.meshes || [];
+		if (meshIDs.length === 1) {
+			nodeDef.mesh = meshIndices[meshIDs[0]];
+		} else if (meshIDs.length > 1) {
+			const key = meshIDs.join(',');
+			if (!(key in mergedMeshIndices)) {
+				const meshDefs = meshIDs.map((meshID) => json.meshes![meshIndices[meshID]]);
+				mergedMeshIndices[key] = json.meshes!.length;
+				json.meshes!.push({
+					name: meshDefs.map((meshDef) => meshDef.name).filter(Boolean).join(', '),
+					primitives: ([] as GLTF.IMeshPrimitive[])
+						.concat(...meshDefs.map((meshDef) => meshDef.primitives)),
+				});
+			}
+			nodeDef.mesh = mergedMeshIndices[key];
+		}
+
+		if (def.skin !== undefined && def.skin in skinIndices) {
+			nodeDef.skin = skinIndices[def.skin];
+			const skinDef = json.skins![nodeDef.skin];
+			const skeletonIDs = def.skeletons || [];
+			if (skeletonIDs.length && skinDef.skeleton === undefined) {
+				skinDef.skeleton = nodeIndices[skeletonIDs[0]];
+			}
+		}
+		return nodeDef;
+	});
+
+	/** Animations. */
+
+	json.animations = listIDs(v1.animations).map((id) => {
+		const def = v1.animations![id];
+		const parameters = def.parameters || {};
+		const animationDef = copyProperty(def) as GLTF.IAnimation;
+
+		const animSamplerIDs = listIDs(def.samplers);
+		const animSamplerIndices = createIndexMap(animSamplerIDs);
+		animationDef.samplers = animSamplerIDs.map((samplerID) => {
+			const samplerDef = def.samplers![samplerID];
+			return {
+				input: accessorIndices[parameters[samplerDef.input]],
+				output: accessorIndices[parameters[samplerDef.output]],
+				interpolation: (samplerDef.interpolation || 'LINEAR') as
+					GLTF.AnimationSamplerInterpolation,
+			};
+		});
+		animationDef.channels = (def.channels || []).map((channelDef) => ({
+			sampler: animSamplerIndices[channelDef.sampler],
+			target: {node: nodeIndices[channelDef.target.id], path: channelDef.target.path},
+		}));
+		return animationDef;
+	});
+
+	/** Scenes. */
+
+	json.scenes = listIDs(v1.scenes).map((id) => {
+		const def = v1.scenes![id];
+		const sceneDef = copyProperty(def) as GLTF.IScene;
+		sceneDef.nodes = (def.nodes || []).map((nodeID) => nodeIndices[nodeID]);
+		return sceneDef;
+	});
+
+	if (v1.scene !== undefined) json.scene = listIDs(v1.scenes).indexOf(v1.scene);
+
+	const root = json as unknown as Record<string, unknown>;
+	for (const key in root) {
+		if (Array.isArray(root[key]) && (root[key] as unknown[]).length === 0) delete root[key];
+	}
+
+	warnings.forEach((warning) => logger.warn(`glTF 1.0: ${warning}`));
+
+	return {json, resources: jsonDoc.resources};
+}
+
+/** Lists the IDs of a glTF 1.0 dictionary, in order of definition. */
+function listIDs<T>(dict: Dict<T> | undefined): string[] {
+	return Object.keys(dict || {});
+}
+
+function createIndexMap(ids: string[]): Dict<number> {
+	const indices: Dict<number> = {};
+	ids.forEach((id, index) => (indices[id] = index));
+	return indices;
+}
+
+/** Copies name, extras, and extensions of a definition, excluding the given extensions. */
+function copyProperty(def: V1Property, excludeExtensions: string[] = []): GLTF.IProperty {
+	const propertyDef: GLTF.IProperty & {name?: string} = {};
+	if (def.name) propertyDef.name = def.name;
+	if (def.extras) propertyDef.extras = def.extras;
+
+	const extensions: Dict<unknown> = {};
+	for (const name in def.extensions || {}) {
+		if (excludeExtensions.indexOf(name) === -1) extensions[name] = def.extensions![name];
+	}
+	if (Object.keys(extensions).length) propertyDef.extensions = extensions;
+	return propertyDef;
+}
+
+/**
+ * Converts glTF 1.0 attribute semantics to glTF 2.0 names, e.g. `JOINT` → `JOINTS_0`.
+ * Semantics without a glTF 2.0 equivalent become application-specific attributes.
+ */
+function upgradeSemantic(semantic: string): string {
+	const pattern = /^(POSITION|NORMAL|TANGENT|TEXCOORD|COLOR|JOINT|WEIGHT)(_\d+)?$/;
+	const match = semantic.match(pattern);
+	if (!match) return `_${semantic}`;
+
+	const [, name, set] = match;
+	switch (name) {
+		case 'POSITION':
+		case 'NORMAL':
+		case 'TANGENT':
+			return set ? `_${semantic}` : name;
+		case 'JOINT':
+		case 'WEIGHT':
+			return `${name}S${set || '_0'}`;
+		default:
+			return `${name}${set || '_0'}`;
+	}
+}
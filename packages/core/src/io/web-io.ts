@@ -1,10 +1,19 @@
+import { Format } from '../constants';
 import { Document } from '../document';
 import { JSONDocument } from '../json-document';
 import { GLTF } from '../types/gltf';
+import { BufferUtils, FileUtils, ImageUtils, ZipInflateAsync, ZipUtils } from '../utils/';
+import { IOErrorCode, ReadError } from './io-error';
 import { PlatformIO } from './platform-io';
 
 const DEFAULT_INIT: RequestInit = {};
 
+/**
+ * Set of files to be read by {@link WebIO.readFiles}, as given by a file input or drag-and-drop
+ * event, or as a map of relative paths to Blobs.
+ */
+export type WebIOFiles = FileList | File[] | Record<string, Blob>;
+
 /**
  * # WebIO
  *
@@ -24,15 +33,22 @@ const DEFAULT_INIT: RequestInit = {};
  * // Read.
  * const doc = await io.read('model.glb');  // → Document
  * const doc = io.readBinary(ArrayBuffer);  // → Document
+ * const doc = await io.read('model.zip');  // → Document
+ * const doc = await io.readFiles(event.dataTransfer.files); // → Document
  *
  * // Write.
  * const arrayBuffer = io.writeBinary(doc); // → ArrayBuffer
+ * const blob = io.writeBlob(doc);          // → Blob (.glb)
+ * const files = io.writeFiles(doc);        // → {'model.gltf': Blob, 'model.bin': Blob, ...}
+ * const zip = io.writeZip(doc);            // → Blob (.zip)
  * ```
  *
  * @category I/O
  */
 export class WebIO extends PlatformIO {
 
+	private _inflate: ZipInflateAsync | undefined;
+
 	/**
 	 * Constructs a new WebIO service. Instances are reusable.
 	 * @param _fetchConfig Configuration object for Fetch API.
@@ -45,6 +61,15 @@ export class WebIO extends PlatformIO {
 	 * Public.
 	 */
 
+	/**
+	 * Sets the function used to decompress deflated entries when reading .zip archives. If unset,
+	 * the `DecompressionStream` API is used, where available.
+	 */
+	public setZipInflate(inflate: ZipInflateAsync): this {
+		this._inflate = inflate;
+		return this;
+	}
+
 	/** Loads a URI and returns a {@link Document} instance. */
 	public read (uri: string): Promise<Document> {
 		return this.readAsJSON(uri).then((jsonDoc) => this.readJSON(jsonDoc));
@@ -52,11 +77,84 @@ export class WebIO extends PlatformIO {
 
 	/** Loads a URI and returns a {@link JSONDocument} struct, without parsing. */
 	public readAsJSON (uri: string): Promise<JSONDocument> {
+		if (new URL(uri, window.location.href).pathname.match(/\.zip$/i)) {
+			return this._readZip(uri);
+		}
 		const isGLB = uri.match(/^data:application\/octet-stream;/)
 			|| new URL(uri, window.location.href).pathname.match(/\.glb$/);
 		return isGLB ? this._readGLB(uri) : this._readGLTF(uri);
 	}
 
+	/**
+	 * Reads a {@link Document} from a set of files, such as those dropped onto a page or chosen
+	 * with a file input. The set must contain one .gltf or .glb file, and any external resources
+	 * it references. Relative URIs are resolved against the paths of other files in the set;
+	 * because dropped files carry no directory structure, a resource not found at its resolved
+	 * path is matched by filename. Alternatively, the set may contain a single .zip archive
+	 * of a .gltf or .glb file and its resources.
+	 */
+	public async readFiles (files: WebIOFiles): Promise<Document> {
+		return this.readJSON(await this.readFilesAsJSON(files));
+	}
+
+	/** Reads a {@link JSONDocument} struct from a set of files, without parsing. */
+	public async readFilesAsJSON (files: WebIOFiles): Promise<JSONDocument> {
+		const fileMap = _createFileMap(files);
+		const paths = Object.keys(fileMap).filter((path) => /\.(gltf|glb)$/i.test(path));
+		const zipPaths = Object.keys(fileMap).filter((path) => /\.zip$/i.test(path));
+		if (paths.length === 0 && zipPaths.length === 1) {
+			const zip = await fileMap[zipPaths[0]].arrayBuffer();
+			return this._readArchive(await ZipUtils.unzipAsync(zip, this._inflate));
+		}
+		if (paths.length !== 1) {
+			throw new ReadError(
+				IOErrorCode.INVALID_ARCHIVE,
+				`Expected one .gltf or .glb file, found ${paths.length}.`
+			);
+		}
+
+		const path = paths[0];
+		const isGLB = /\.glb$/i.test(path);
+		const arrayBuffer = await fileMap[path].arrayBuffer();
+		const jsonDoc: JSONDocument = isGLB
+			? this._binaryToJSON(arrayBuffer)
+			: {json: JSON.parse(BufferUtils.decodeText(arrayBuffer)), resources: {}};
+
+		this._readResourcesInternal(jsonDoc, isGLB);
+		await this._resolveResourcesAsync(jsonDoc, path);
+		await this._readResourcesFiles(jsonDoc, _dirname(path), fileMap);
+		return jsonDoc;
+	}
+
+	/** Converts a {@link Document} to a GLB-formatted Blob. */
+	public writeBlob (doc: Document): Blob {
+		return new Blob([this.writeBinary(doc)], {type: 'model/gltf-binary'});
+	}
+
+	/**
+	 * Converts a {@link Document} to a .gltf file and its external resources, returned as a map
+	 * of filenames to Blobs.
+	 * @param basename Name of the .gltf file, without extension. Default 'model'.
+	 */
+	public writeFiles (doc: Document, basename = 'model'): Record<string, Blob> {
+		const files: Record<string, Blob> = {};
+		const contents = this._writeFiles(doc, basename);
+		for (const path in contents) {
+			files[path] = new Blob([contents[path]], {type: _getMimeType(path)});
+		}
+		return files;
+	}
+
+	/**
+	 * Converts a {@link Document} to a .zip archive containing a .gltf file and its external
+	 * resources.
+	 * @param basename Name of the .gltf file, without extension. Default 'model'.
+	 */
+	public writeZip (doc: Document, basename = 'model'): Blob {
+		const zip = ZipUtils.zip(this._writeFiles(doc, basename));
+		return new Blob([zip], {type: 'application/zip'});
+	}
+
 	/**********************************************************************************************
 	 * Protected.
 	 */
@@ -68,7 +166,7 @@ export class WebIO extends PlatformIO {
 		const pendingResources: Array<Promise<void>> = [...images, ...buffers]
 			.map((resource: GLTF.IBuffer|GLTF.IImage): Promise<void> => {
 				const uri = resource.uri;
-				if (!uri) return Promise.resolve();
+				if (!uri || uri in jsonDoc.resources) return Promise.resolve();
 
 				return fetch(_resolve(dir, uri), this._fetchConfig)
 					.then((response) => response.arrayBuffer())
@@ -79,10 +177,43 @@ export class WebIO extends PlatformIO {
 		return Promise.all(pendingResources).then(() => undefined);
 	}
 
+	/** @internal */
+	private _readResourcesFiles (
+			jsonDoc: JSONDocument,
+			dir: string,
+			fileMap: Record<string, Blob>): Promise<void> {
+		const images = jsonDoc.json.images || [];
+		const buffers = jsonDoc.json.buffers || [];
+		const pendingResources: Array<Promise<void>> = [...images, ...buffers]
+			.map(async (resource: GLTF.IBuffer|GLTF.IImage): Promise<void> => {
+				const uri = resource.uri;
+				if (!uri || uri in jsonDoc.resources) return;
+
+				const file = _findFile(fileMap, _resolve(dir, decodeURI(uri)));
+				if (!file) return this._reportMissingResource(jsonDoc, uri);
+
+				jsonDoc.resources[uri] = await file.arrayBuffer();
+			});
+		return Promise.all(pendingResources).then(() => undefined);
+	}
+
 	/**********************************************************************************************
 	 * Private.
 	 */
 
+	/** @internal */
+	private _writeFiles (doc: Document, basename: string): Record<string, ArrayBuffer> {
+		const jsonDoc = this.writeJSON(doc, {format: Format.GLTF, basename});
+		this._storeResources(jsonDoc, `${basename}.gltf`);
+		const {json, resources} = jsonDoc;
+		const files: Record<string, ArrayBuffer> = {};
+		files[`${basename}.gltf`] = BufferUtils.encodeText(JSON.stringify(json, null, 2));
+		for (const uri in resources) {
+			files[uri] = resources[uri];
+		}
+		return files;
+	}
+
 	/** @internal */
 	private _readGLTF (uri: string): Promise<JSONDocument> {
 		const jsonDoc = {json: {}, resources: {}} as JSONDocument;
@@ -91,11 +222,20 @@ export class WebIO extends PlatformIO {
 			.then(async (json: GLTF.IGLTF) => {
 				jsonDoc.json = json;
 				this._readResourcesInternal(jsonDoc, false);
+				await this._resolveResourcesAsync(jsonDoc, uri);
 				await this._readResourcesExternal(jsonDoc, _dirname(uri));
 				return jsonDoc;
 			});
 	}
 
+	/** @internal */
+	private _readZip (uri: string): Promise<JSONDocument> {
+		return fetch(uri, this._fetchConfig)
+			.then((response) => response.arrayBuffer())
+			.then((zip) => ZipUtils.unzipAsync(zip, this._inflate))
+			.then((files) => this._readArchive(files));
+	}
+
 	/** @internal */
 	private _readGLB (uri: string): Promise<JSONDocument> {
 		return fetch(uri, this._fetchConfig)
@@ -103,12 +243,42 @@ export class WebIO extends PlatformIO {
 			.then(async (arrayBuffer) => {
 				const jsonDoc = this._binaryToJSON(arrayBuffer);
 				this._readResourcesInternal(jsonDoc, true);
+				await this._resolveResourcesAsync(jsonDoc, uri);
 				await this._readResourcesExternal(jsonDoc, _dirname(uri));
 				return jsonDoc;
 			});
 	}
 }
 
+function _createFileMap(files: WebIOFiles): Record<string, Blob> {
+	if (Array.isArray(files) || (typeof FileList !== 'undefined' && files instanceof FileList)) {
+		const fileMap: Record<string, Blob> = {};
+		for (const file of Array.from(files as ArrayLike<File>)) {
+			fileMap[file.name] = file;
+		}
+		return fileMap;
+	}
+	return files as Record<string, Blob>;
+}
+
+function _findFile(fileMap: Record<string, Blob>, path: string): Blob | null {
+	path = path.replace(/^\.\//, '');
+	if (fileMap[path]) return fileMap[path];
+
+	const name = path.split('/').pop()!;
+	for (const key in fileMap) {
+		if (key.split('/').pop() === name) return fileMap[key];
+	}
+	return null;
+}
+
+function _getMimeType(path: string): string {
+	const extension = FileUtils.extension(path);
+	if (extension === 'gltf') return 'model/gltf+json';
+	if (extension === 'bin') return 'application/octet-stream';
+	return ImageUtils.extensionToMimeType(extension);
+}
+
 function _dirname(path: string): string {
 	const index = path.lastIndexOf('/');
 	if (index === - 1) return './';
@@ -1,9 +1,10 @@
-import { Format } from '../constants';
+import { Format, ResourceNaming } from '../constants';
 import { Document } from '../document';
 import { JSONDocument } from '../json-document';
 import { Accessor, Buffer, Camera, Material, Mesh, Node, Property, Skin, Texture, TextureInfo } from '../properties';
 import { GLTF } from '../types/gltf';
-import { ImageUtils, Logger } from '../utils';
+import { ImageUtils, Logger, sha256 } from '../utils';
+import { IOErrorCode, WriteError } from './io-error';
 import { WriterOptions } from './writer';
 
 type PropertyDef = GLTF.IScene | GLTF.INode | GLTF.IMaterial | GLTF.ISkin | GLTF.ITexture;
@@ -16,6 +17,7 @@ type PropertyDef = GLTF.IScene | GLTF.INode | GLTF.IMaterial | GLTF.ISkin | GLTF
  */
 export class WriterContext {
 	public readonly accessorIndexMap = new Map<Accessor, number>();
+	public readonly bufferIndexMap = new Map<Buffer, number>();
 	public readonly cameraIndexMap = new Map<Camera, number>();
 	public readonly skinIndexMap = new Map<Skin, number>();
 	public readonly materialIndexMap = new Map<Material, number>();
@@ -46,8 +48,9 @@ export class WriterContext {
 		const root = doc.getRoot();
 		const numBuffers = root.listBuffers().length;
 		const numImages = root.listTextures().length;
-		this.bufferURIGenerator = new UniqueURIGenerator(numBuffers > 1, options.basename);
-		this.imageURIGenerator = new UniqueURIGenerator(numImages > 1, options.basename);
+		const {basename, resourceNaming} = options;
+		this.bufferURIGenerator = new UniqueURIGenerator(numBuffers > 1, basename, resourceNaming);
+		this.imageURIGenerator = new UniqueURIGenerator(numImages > 1, basename, resourceNaming);
 		this.logger = doc.getLogger();
 	}
 
@@ -98,8 +101,9 @@ export class WriterContext {
 		if (property.getName()) {
 			def.name = property.getName();
 		}
-		if (Object.keys(property.getExtras()).length > 0) {
-			def.extras = property.getExtras();
+		const extras = property.getExtras();
+		if (Object.keys(extras).length > 0) {
+			def.extras = extras;
 		}
 		return def;
 	}
@@ -126,7 +130,7 @@ export class WriterContext {
 			});
 		} else {
 			const extension = ImageUtils.mimeTypeToExtension(texture.getMimeType());
-			imageDef.uri = this.imageURIGenerator.createURI(texture, extension);
+			imageDef.uri = this.imageURIGenerator.createURI(texture, extension, data);
 			this.jsonDoc.resources[imageDef.uri] = data;
 		}
 	}
@@ -149,7 +153,10 @@ export class WriterContext {
 	setAccessorUsage(accessor: Accessor, usage: string): this {
 		const prevUsage = this._accessorUsageMap.get(accessor);
 		if (prevUsage && prevUsage !== usage) {
-			throw new Error(`Accessor with usage "${prevUsage}" cannot be reused as "${usage}".`);
+			throw new WriteError(
+				IOErrorCode.ACCESSOR_USAGE_CONFLICT,
+				`Accessor with usage "${prevUsage}" cannot be reused as "${usage}".`
+			);
 		}
 		this._accessorUsageMap.set(accessor, usage);
 		return this;
@@ -171,10 +178,14 @@ export class UniqueURIGenerator {
 
 	constructor (
 		private readonly multiple: boolean,
-		private readonly basename: string) {}
-
-	public createURI(object: Texture | Buffer, extension: string): string {
-		if (object.getURI()) {
+		private readonly basename: string,
+		private readonly naming = ResourceNaming.INDEX) {}
+
+	public createURI(object: Texture | Buffer, extension: string, data: ArrayBuffer): string {
+		if (this.naming === ResourceNaming.HASH) {
+			const name = hashBuffer(data);
+			return this.basename ? `${this.basename}-${name}.${extension}` : `${name}.${extension}`;
+		} else if (object.getURI() && !object.getURI().match(/^data:/)) {
 			return object.getURI();
 		} else if (!this.multiple) {
 			return `${this.basename}.${extension}`;
@@ -183,3 +194,11 @@ export class UniqueURIGenerator {
 		}
 	}
 }
+
+/** Returns a 16-character hexadecimal hash of the buffer's content, using truncated SHA-256. */
+function hashBuffer(buffer: ArrayBuffer): string {
+	const digest = sha256(new Uint8Array(buffer));
+	return Array.from(digest.subarray(0, 2))
+		.map((word) => ('00000000' + word.toString(16)).slice(-8))
+		.join('');
+}
@@ -1,10 +1,11 @@
-import { Format, GLB_BUFFER, NAME, PropertyType, VERSION, VertexLayout } from '../constants';
+import { Format, GLB_BUFFER, NAME, PropertyType, ResourceMode, ResourceNaming, SparseMode, TypedArray, TypedArrayConstructor, VERSION, VertexLayout } from '../constants';
 import { Document } from '../document';
 import { Link } from '../graph';
 import { JSONDocument } from '../json-document';
-import { Accessor, AnimationSampler, AttributeLink, Camera, IndexLink, Material, Property } from '../properties';
+import { Accessor, AnimationSampler, AttributeLink, Buffer, Camera, IndexLink, Material, Primitive, PrimitiveTarget, Property } from '../properties';
 import { GLTF } from '../types/gltf';
-import { BufferUtils, Logger, MathUtils } from '../utils';
+import { BufferUtils, FileUtils, ImageUtils, Logger, MathUtils } from '../utils';
+import { IOErrorCode, WriteError } from './io-error';
 import { WriterContext } from './writer-context';
 
 const BufferViewTarget = {
@@ -12,26 +13,116 @@ const BufferViewTarget = {
 	ELEMENT_ARRAY_BUFFER: 34963
 };
 
+/** Largest byte stride permitted for vertex buffer views, by the glTF 2.0 specification. */
+const MAX_BYTE_STRIDE = 252;
+
 const BufferViewUsage = {
 	ARRAY_BUFFER: 'ARRAY_BUFFER',
 	ELEMENT_ARRAY_BUFFER: 'ELEMENT_ARRAY_BUFFER',
+	SPARSE: 'SPARSE',
 	INVERSE_BIND_MATRICES: 'INVERSE_BIND_MATRICES',
 	OTHER: 'OTHER',
 };
 
+/**
+ * Layout of a group of vertex attributes in buffer views, as chosen by a {@link LayoutPolicy}.
+ *
+ * @category I/O
+ */
+export interface BufferViewLayout {
+	/** Semantics of the attributes included, e.g. ['POSITION']. */
+	semantics: string[];
+	/**
+	 * Whether the attributes share one interleaved buffer view, or are written to a buffer view
+	 * each. Default true.
+	 */
+	interleaved?: boolean;
+	/**
+	 * Byte stride of each buffer view. Must be a multiple of 4, no smaller than the vertex size,
+	 * and no larger than 252. Defaults to the vertex size.
+	 */
+	byteStride?: number;
+	/** Byte alignment of each buffer view within its buffer. Must be a multiple of 4. Default 4. */
+	alignment?: number;
+	/**
+	 * Buffer to which the attributes are written, which must belong to the Document being written.
+	 * Defaults to the attributes' own buffer.
+	 */
+	buffer?: Buffer;
+}
+
+/**
+ * Chooses the layout of a {@link Primitive}'s vertex attributes in buffer views, when writing.
+ * Attributes not included in any returned {@link BufferViewLayout} are written according to the
+ * I/O instance's {@link VertexLayout}. Attributes shared by several primitives are written with
+ * the layout of the first.
+ *
+ * Example, writing positions in a separate stream for depth prepasses:
+ *
+ * ```ts
+ * io.setLayoutPolicy((prim, attributes) => [
+ * 	{semantics: ['POSITION']},
+ * 	{semantics: Object.keys(attributes).filter((semantic) => semantic !== 'POSITION')},
+ * ]);
+ * ```
+ *
+ * @category I/O
+ */
+export type LayoutPolicy =
+	(primitive: Primitive, attributes: {[semantic: string]: Accessor}) => BufferViewLayout[];
+
 export interface WriterOptions {
 	format: Format;
 	logger?: Logger;
 	basename?: string;
 	vertexLayout?: VertexLayout,
+	layoutPolicy?: LayoutPolicy | null,
+	resourceMode?: ResourceMode,
+	resourceNaming?: ResourceNaming,
+	sparseMode?: SparseMode,
 	dependencies?: {[key: string]: unknown};
 }
 
 /** @internal */
 export class GLTFWriter {
-	public static write(doc: Document, options: Required<WriterOptions>): JSONDocument {
+	/**
+	 * Converts a {@link Document} to a {@link JSONDocument}.
+	 * @param doc Document to be written.
+	 * @param options Writer options.
+	 * @param binChunks (Optional) list to which the binary data of a GLB file is appended in
+	 * 	parts, in order, rather than concatenated into the resource map.
+	 */
+	public static write(
+			doc: Document,
+			options: Required<WriterOptions>,
+			binChunks?: ArrayBuffer[]): JSONDocument {
+		// Deferred data not read before writing is released afterward, rather than held in
+		// memory for the lifetime of the document. See NodeIO.setLazy.
+		const root = doc.getRoot();
+		const unread = [...root.listAccessors(), ...root.listTextures()]
+			.filter((property) => property._isLazyUnread());
+		try {
+			return GLTFWriter._write(doc, options, binChunks);
+		} finally {
+			for (const property of unread) property._releaseLazyData();
+		}
+	}
+
+	/** @internal */
+	private static _write(
+			doc: Document,
+			options: Required<WriterOptions>,
+			binChunks?: ArrayBuffer[]): JSONDocument {
 
 		const root = doc.getRoot();
+		if (options.format === Format.GLB && root.listBuffers().length > 1) {
+			throw new WriteError(
+				IOErrorCode.GLB_MULTIPLE_BUFFERS,
+				'GLB must have 0–1 buffers.',
+				'/buffers'
+			);
+		}
+
 		const asset = {...root.getAsset(), generator: `glTF-Transform ${VERSION}`};
 		const json = {asset} as GLTF.IGLTF;
 		const jsonDoc = {json, resources: {}} as JSONDocument;
@@ -109,11 +200,13 @@ export class GLTFWriter {
  		 * @param accessors Accessors to be included.
  		 * @param bufferIndex Buffer to write to.
  		 * @param bufferByteOffset Offset into the buffer, accounting for other buffer views.
+		 * @param minByteStride (Optional) byte stride, if larger than the vertex size.
 		 */
 		function interleaveAccessors(
 				accessors: Accessor[],
 				bufferIndex: number,
-				bufferByteOffset: number): BufferViewResult {
+				bufferByteOffset: number,
+				minByteStride = 0): BufferViewResult {
 			const vertexCount = accessors[0].getCount();
 			let byteStride = 0;
 
@@ -131,6 +224,8 @@ export class GLTFWriter {
 				json.accessors!.push(accessorDef);
 			}
 
+			byteStride = Math.max(byteStride, minByteStride);
+
 			// Allocate interleaved buffer view.
 			const byteLength = vertexCount * byteStride;
 			const buffer = new ArrayBuffer(byteLength);
@@ -168,7 +263,12 @@ export class GLTFWriter {
 								view.setUint32(viewByteOffset, value, true);
 								break;
 							default:
-								throw new Error('Unexpected component type: ' + componentType);
+								throw new WriteError(
+									IOErrorCode.INVALID_COMPONENT_TYPE,
+									'Unexpected component type: ' + componentType,
+									`/accessors/${context.accessorIndexMap.get(accessor)}`
+										+ '/componentType'
+								);
 						}
 					}
 					vertexByteOffset += BufferUtils.padNumber(elementSize * componentSize);
@@ -188,6 +288,62 @@ export class GLTFWriter {
 			return {byteLength, buffers: [buffer]};
 		}
 
+		/**
+		 * Pack a group of sparse accessors into a single buffer view, containing indices and
+		 * values of the non-zero elements in each accessor. Appends accessor and buffer view
+		 * definitions to the root JSON lists.
+		 *
+		 * References:
+		 * - [glTF → Sparse Accessors](https://github.com/KhronosGroup/glTF/blob/master/specification/2.0/README.md#sparse-accessors)
+		 *
+		 * @param accessors Accessors to be included.
+		 * @param bufferIndex Buffer to write to.
+		 * @param bufferByteOffset Offset into the buffer, accounting for other buffer views.
+		 */
+		function sparseAccessors(
+				accessors: Accessor[],
+				bufferIndex: number,
+				bufferByteOffset: number): BufferViewResult {
+			const buffers: ArrayBuffer[] = [];
+			const bufferViewIndex = json.bufferViews!.length;
+			let byteLength = 0;
+
+			for (const accessor of accessors) {
+				const {indices, values} = getSparseData(accessor);
+				const accessorDef = context.createAccessorDef(accessor);
+
+				accessorDef.sparse = {
+					count: indices.length,
+					indices: {
+						bufferView: bufferViewIndex,
+						byteOffset: byteLength,
+						componentType: getIndexComponentType(accessor.getCount()),
+					},
+					values: {
+						bufferView: bufferViewIndex,
+						byteOffset: byteLength + BufferUtils.padNumber(indices.byteLength),
+					},
+				};
+
+				for (const data of [indices.buffer, values.buffer]) {
+					const paddedData = BufferUtils.pad(data);
+					byteLength += paddedData.byteLength;
+					buffers.push(paddedData);
+				}
+
+				context.accessorIndexMap.set(accessor, json.accessors!.length);
+				json.accessors!.push(accessorDef);
+			}
+
+			json.bufferViews!.push({
+				buffer: bufferIndex,
+				byteOffset: bufferByteOffset,
+				byteLength: byteLength,
+			});
+
+			return {buffers, byteLength};
+		}
+
 		/* Data use pre-processing. */
 
 		const accessorLinks = new Map<Accessor, Link<Property, Accessor>[]>();
@@ -205,6 +361,40 @@ export class GLTFWriter {
 			}
 		}
 
+		// Layouts chosen by the layout policy for vertex attributes of each primitive, and the
+		// buffers to which those attributes are written, if changed.
+		const primitiveLayouts = new Map<Property, BufferViewLayout[]>();
+		const accessorBufferMap = new Map<Accessor, Buffer>();
+		if (options.layoutPolicy) {
+			const buffers = root.listBuffers();
+			root.listMeshes().forEach((mesh, meshIndex) => {
+				mesh.listPrimitives().forEach((prim, primIndex) => {
+					const attributes: {[semantic: string]: Accessor} = {};
+					for (const semantic of prim.listSemantics()) {
+						attributes[semantic] = prim.getAttribute(semantic)!;
+					}
+
+					const layouts = options.layoutPolicy!(prim, attributes);
+					const pointer = `/meshes/${meshIndex}/primitives/${primIndex}`;
+					for (const layout of layouts) {
+						validateLayout(layout, attributes, buffers, pointer);
+						if (!layout.buffer) continue;
+						for (const semantic of layout.semantics) {
+							const accessor = attributes[semantic];
+							if (accessor && accessorLinks.get(accessor)![0].getParent() === prim) {
+								accessorBufferMap.set(accessor, layout.buffer);
+							}
+						}
+					}
+					primitiveLayouts.set(prim, layouts);
+				});
+			});
+		}
+
+		const getBuffer = (accessor: Accessor): Buffer | null => {
+			return accessorBufferMap.get(accessor) || accessor.getBuffer();
+		};
+
 		json.accessors = [];
 		json.bufferViews = [];
 
@@ -251,8 +441,10 @@ export class GLTFWriter {
 			const groupByParent = context.accessorUsageGroupedByParent;
 			const accessorParents = new Map<Property, Set<Accessor>>();
 
-			const bufferAccessors = buffer.listParents()
-				.filter((property) => property instanceof Accessor) as Accessor[];
+			// Accessors are written in the order of the Root, rather than the order in which they
+			// were attached to the buffer, so that output is stable after edits.
+			const bufferAccessors = root.listAccessors()
+				.filter((accessor) => getBuffer(accessor) === buffer);
 			const bufferAccessorsSet = new Set(bufferAccessors);
 
 			// Categorize accessors by use.
@@ -260,8 +452,16 @@ export class GLTFWriter {
 				// Skip if already written by an extension.
 				if (context.accessorIndexMap.has(accessor)) continue;
 
-				// Assign usage for core accessor usage types (explicit targets and implicit usage).
+				// Assign sparse usage, where eligible and chosen by the sparse mode.
 				const accessorRefs = accessorLinks.get(accessor) || [];
+				if (!context.getAccessorUsage(accessor)
+						&& !accessorRefs.some((link) => link instanceof IndexLink)
+						&& isSparse(accessor, accessorRefs, options.sparseMode)) {
+					context.setAccessorUsage(accessor, BufferViewUsage.SPARSE);
+					continue;
+				}
+
+				// Assign usage for core accessor usage types (explicit targets and implicit usage).
 				for (const link of accessorRefs) {
 					if (context.getAccessorUsage(accessor)) break;
 
@@ -296,18 +496,54 @@ export class GLTFWriter {
 			const bufferIndex = json.buffers!.length;
 			let bufferByteLength = 0;
 
+			// Pads the buffer, aligning the next buffer view to the given number of bytes.
+			const alignBuffer = (alignment: number) => {
+				const padding = (alignment - (bufferByteLength % alignment)) % alignment;
+				if (!padding) return;
+				bufferByteLength += padding;
+				buffers.push(new ArrayBuffer(padding));
+			};
+
 			const usageGroups = context.listAccessorsByUsage();
 
 			for (const usage in usageGroups) {
 				if (groupByParent.has(usage)) {
 					// Accessors grouped by (first) parent, including vertex and instance
 					// attributes.
-					for (const parentAccessors of Array.from(accessorParents.values())) {
-						const accessors = Array.from(parentAccessors)
+					for (const [parent, parentAccessors] of Array.from(accessorParents.entries())) {
+						let accessors = Array.from(parentAccessors)
 							.filter((a) => bufferAccessorsSet.has(a))
 							.filter((a) => context.getAccessorUsage(a) === usage);
 						if (!accessors.length) continue;
 
+						// Vertex attributes with layouts chosen by the layout policy.
+						const layouts = usage === BufferViewUsage.ARRAY_BUFFER
+							? primitiveLayouts.get(parent) || []
+							: [];
+						for (const layout of layouts) {
+							const layoutAccessors = layout.semantics
+								.map((semantic) => (parent as Primitive).getAttribute(semantic))
+								.filter((a) => a && accessors.includes(a)) as Accessor[];
+							if (!layoutAccessors.length) continue;
+
+							accessors = accessors.filter((a) => !layoutAccessors.includes(a));
+							const groups = layout.interleaved === false
+								? layoutAccessors.map((a) => [a])
+								: [layoutAccessors];
+							for (const group of groups) {
+								alignBuffer(layout.alignment || 4);
+								const result = interleaveAccessors(
+									group,
+									bufferIndex,
+									bufferByteLength,
+									layout.byteStride
+								);
+								bufferByteLength += result.byteLength;
+								buffers.push(...result.buffers);
+							}
+						}
+						if (!accessors.length) continue;
+
 						if (usage !== BufferViewUsage.ARRAY_BUFFER
 								|| options.vertexLayout === VertexLayout.INTERLEAVED) {
 							// Case 1: Non-vertex data OR interleaved vertex data.
@@ -335,6 +571,14 @@ export class GLTFWriter {
 							}
 						}
 					}
+				} else if (usage === BufferViewUsage.SPARSE) {
+					// Sparse accessors, with indices and values in a single buffer view.
+					const accessors = usageGroups[usage].filter((a) => bufferAccessorsSet.has(a));
+					if (!accessors.length) continue;
+
+					const result = sparseAccessors(accessors, bufferIndex, bufferByteLength);
+					bufferByteLength += result.byteLength;
+					buffers.push(...result.buffers);
 				} else {
 					// Accessors concatenated end-to-end, including indices, IBMs, and other data.
 					const accessors = usageGroups[usage].filter((a) => bufferAccessorsSet.has(a));
@@ -385,25 +629,30 @@ export class GLTFWriter {
 				return;
 			}
 
-			// Assign buffer URI.
+			bufferDef.byteLength = bufferByteLength;
+			context.bufferIndexMap.set(buffer, json.buffers!.length);
+			json.buffers!.push(bufferDef);
+
+			// Write buffer views to buffer, and assign buffer URI.
+
+			if (options.format === Format.GLB && binChunks) {
+				for (const data of buffers) binChunks.push(data);
+				return;
+			}
 
+			const data = BufferUtils.concat(buffers);
 			let uri: string;
 			if (options.format === Format.GLB) {
 				uri = GLB_BUFFER;
 			} else {
-				uri = context.bufferURIGenerator.createURI(buffer, 'bin');
+				uri = context.bufferURIGenerator.createURI(buffer, 'bin', data);
 				bufferDef.uri = uri;
 			}
 
-			// Write buffer views to buffer.
-
-			bufferDef.byteLength = bufferByteLength;
-			jsonDoc.resources[uri] = BufferUtils.concat(buffers);
-
-			json.buffers!.push(bufferDef);
+			jsonDoc.resources[uri] = data;
 		});
 
-		if (root.listAccessors().find((a) => !a.getBuffer())) {
+		if (root.listAccessors().find((a) => !getBuffer(a))) {
 			logger.warn('Skipped writing one or more Accessors: no Buffer assigned.');
 		}
 
@@ -503,8 +752,9 @@ export class GLTFWriter {
 					primitiveDef.material = context.materialIndexMap.get(material);
 				}
 
-				if (Object.keys(primitive.getExtras()).length) {
-					primitiveDef.extras = primitive.getExtras();
+				const primitiveExtras = primitive.getExtras();
+				if (Object.keys(primitiveExtras).length) {
+					primitiveDef.extras = primitiveExtras;
 				}
 
 				const indices = primitive.getIndices();
@@ -701,6 +951,12 @@ export class GLTFWriter {
 		json.extensionsRequired = root.listExtensionsRequired().map((ext) => ext.extensionName);
 		root.listExtensionsUsed().forEach((extension) => extension.write(context));
 
+		/* Resources. */
+
+		if (options.format === Format.GLTF && options.resourceMode === ResourceMode.EMBEDDED) {
+			embedResources(jsonDoc);
+		}
+
 		//
 
 		clean(json as unknown as Record<string, unknown>);
@@ -709,6 +965,176 @@ export class GLTFWriter {
 	}
 }
 
+/**
+ * Verifies that a layout chosen by the layout policy can be written.
+ * @internal
+ */
+function validateLayout(
+		layout: BufferViewLayout,
+		attributes: {[semantic: string]: Accessor},
+		buffers: Buffer[],
+		pointer: string): void {
+	const {byteStride, alignment} = layout;
+	const sizes = layout.semantics
+		.filter((semantic) => !!attributes[semantic])
+		.map((semantic) => attributes[semantic])
+		.map((a) => BufferUtils.padNumber(a.getElementSize() * a.getComponentSize()));
+	const vertexSize = layout.interleaved === false
+		? Math.max(0, ...sizes)
+		: sizes.reduce((sum, size) => sum + size, 0);
+
+	if (byteStride !== undefined && (byteStride % 4 || byteStride < vertexSize)) {
+		throw new WriteError(
+			IOErrorCode.INVALID_LAYOUT,
+			`Byte stride ${byteStride} must be a multiple of 4, and at least ${vertexSize}.`,
+			pointer
+		);
+	} else if ((byteStride || vertexSize) > MAX_BYTE_STRIDE) {
+		throw new WriteError(
+			IOErrorCode.INVALID_LAYOUT,
+			`Byte stride ${byteStride || vertexSize} must not exceed ${MAX_BYTE_STRIDE}.`,
+			pointer
+		);
+	} else if (alignment !== undefined && (alignment <= 0 || alignment % 4)) {
+		throw new WriteError(
+			IOErrorCode.INVALID_LAYOUT,
+			`Alignment ${alignment} must be a positive multiple of 4.`,
+			pointer
+		);
+	} else if (layout.buffer && !buffers.includes(layout.buffer)) {
+		throw new WriteError(
+			IOErrorCode.INVALID_LAYOUT,
+			`Buffer "${layout.buffer.getName()}" is disposed, or not in the Document written.`,
+			pointer
+		);
+	}
+}
+
+/**
+ * Returns true if the accessor should be written with sparse storage, under the given mode. In
+ * AUTO mode, only accessors used by morph targets or animation samplers — where data is often
+ * mostly zeros — are chosen automatically; others are sparse only if marked sparse.
+ * @internal
+ */
+function isSparse(
+		accessor: Accessor,
+		accessorRefs: Link<Property, Accessor>[],
+		mode: SparseMode): boolean {
+	if (mode === SparseMode.DENSE || !accessor.getArray()) return false;
+	if (mode === SparseMode.SPARSE || accessor.getSparse()) return true;
+
+	const isAutoSparseUsage = accessorRefs.length > 0 && accessorRefs.every((link) => {
+		const parent = link.getParent();
+		return parent instanceof PrimitiveTarget || parent instanceof AnimationSampler;
+	});
+	if (!isAutoSparseUsage) return false;
+
+	const count = accessor.getCount();
+	const elementByteLength = accessor.getElementSize() * accessor.getComponentSize();
+	const indexByteLength = Accessor.getComponentSize(getIndexComponentType(count));
+	const sparseCount = Math.max(countNonZeroElements(accessor), 1);
+
+	const denseByteLength = BufferUtils.padNumber(count * elementByteLength);
+	const sparseByteLength = BufferUtils.padNumber(sparseCount * indexByteLength)
+		+ BufferUtils.padNumber(sparseCount * elementByteLength);
+	return sparseByteLength < denseByteLength;
+}
+
+/**
+ * Returns indices and values of the non-zero elements in an accessor. Because glTF requires at
+ * least one sparse element, an accessor containing only zeros writes its first element.
+ * @internal
+ */
+function getSparseData(accessor: Accessor): {indices: TypedArray, values: TypedArray} {
+	const array = accessor.getArray()!;
+	const count = accessor.getCount();
+	const elementSize = accessor.getElementSize();
+	const nonZeroCount = countNonZeroElements(accessor);
+	const sparseCount = Math.max(nonZeroCount, 1);
+
+	const IndexArray = getIndexComponentType(count) === Accessor.ComponentType.UNSIGNED_BYTE
+		? Uint8Array
+		: getIndexComponentType(count) === Accessor.ComponentType.UNSIGNED_SHORT
+			? Uint16Array
+			: Uint32Array;
+	const indices = new IndexArray(sparseCount);
+	const values = new (array.constructor as TypedArrayConstructor)(sparseCount * elementSize);
+
+	for (let i = 0, j = 0; i < count && j < sparseCount; i++) {
+		if (nonZeroCount > 0 && !isNonZeroElement(array, i, elementSize)) continue;
+		indices[j] = i;
+		for (let k = 0; k < elementSize; k++) {
+			values[j * elementSize + k] = array[i * elementSize + k];
+		}
+		j++;
+	}
+
+	return {indices, values};
+}
+
+/** @internal */
+function countNonZeroElements(accessor: Accessor): number {
+	const array = accessor.getArray()!;
+	const elementSize = accessor.getElementSize();
+	let count = 0;
+	for (let i = 0, il = accessor.getCount(); i < il; i++) {
+		if (isNonZeroElement(array, i, elementSize)) count++;
+	}
+	return count;
+}
+
+/** @internal */
+function isNonZeroElement(array: TypedArray, index: number, elementSize: number): boolean {
+	for (let k = 0; k < elementSize; k++) {
+		if (array[index * elementSize + k] !== 0) return true;
+	}
+	return false;
+}
+
+/**
+ * Returns the smallest index component type able to index the given number of elements.
+ * @internal
+ */
+function getIndexComponentType(count: number): GLTF.AccessorComponentType {
+	if (count <= 256) return Accessor.ComponentType.UNSIGNED_BYTE;
+	if (count <= 65536) return Accessor.ComponentType.UNSIGNED_SHORT;
+	return Accessor.ComponentType.UNSIGNED_INT;
+}
+
+/**
+ * Replaces external buffer and image URIs with base64-encoded Data URIs, removing the
+ * corresponding resources.
+ * @internal
+ */
+function embedResources(jsonDoc: JSONDocument): void {
+	const {json, resources} = jsonDoc;
+	const dataURIs = new Map<string, string>();
+
+	const embed = (uri: string, mimeType: string): string => {
+		if (!dataURIs.has(uri)) {
+			dataURIs.set(uri, BufferUtils.createDataURIFromBuffer(resources[uri], mimeType));
+		}
+		return dataURIs.get(uri)!;
+	};
+
+	for (const bufferDef of json.buffers || []) {
+		if (!bufferDef.uri) continue;
+		bufferDef.uri = embed(bufferDef.uri, 'application/octet-stream');
+	}
+
+	for (const imageDef of json.images || []) {
+		if (!imageDef.uri) continue;
+		imageDef.uri = embed(
+			imageDef.uri,
+			imageDef.mimeType || ImageUtils.extensionToMimeType(FileUtils.extension(imageDef.uri))
+		);
+	}
+
+	for (const uri of Array.from(dataURIs.keys())) {
+		delete resources[uri];
+	}
+}
+
 /**
  * Removes empty and null values from an object.
  * @param object
@@ -0,0 +1,359 @@
+import { GLB_BUFFER, PropertyType } from './constants';
+import { Document } from './document';
+import { Extension } from './extension';
+import { ReaderContext, WriterContext } from './io';
+import { Accessor, Animation, Buffer, Camera, Material, Mesh, Node, PassthroughProperty, Primitive, Scene, Skin, Texture, TextureInfo } from './properties';
+import { ExtensibleProperty } from './properties/extensible-property';
+import { GLTF } from './types/gltf';
+
+/** A reference to another glTF definition, detected by key within an extension's JSON. */
+interface Reference {
+	pointer: string;
+	type: 'accessor' | 'bufferView' | 'texture' | 'image';
+}
+
+const extensionCache = new Map<string, typeof PassthroughExtension>();
+
+/**
+ * # PassthroughExtension
+ *
+ * *Preserves data of an unrecognized extension, as {@link PassthroughProperty} instances.*
+ *
+ * When extension passthrough is enabled with {@link PlatformIO.setExtensionPassthrough}, each
+ * optional extension used by a file, but not registered with the I/O instance, is read with a
+ * PassthroughExtension of the same name. Data defined by the extension on the root of the glTF
+ * file is available from {@link getRootProperty}; data on other properties is available with
+ * `property.getExtension(name)`. Required extensions cannot be passed through, and must be
+ * registered.
+ *
+ * Extensions are supported on accessors, animations, buffers, cameras, materials, meshes, mesh
+ * primitives, nodes, scenes, skins, textures, and texture info objects. Extensions defined on
+ * glTF textures are attached to the {@link Texture} of the texture's image, and written to each
+ * glTF texture using that image.
+ *
+ * @category Extensions
+ */
+export class PassthroughExtension extends Extension {
+	public readonly prewriteTypes = [PropertyType.ACCESSOR];
+
+	private rootProperty: PassthroughProperty | null = null;
+
+	/**
+	 * Returns a PassthroughExtension constructor for the given extension name, for use with
+	 * {@link Document.createExtension}.
+	 */
+	public static forName(extensionName: string): typeof PassthroughExtension {
+		let ctor = extensionCache.get(extensionName);
+		if (!ctor) {
+			ctor = class extends PassthroughExtension {
+				public readonly extensionName = extensionName;
+				public static readonly EXTENSION_NAME = extensionName;
+			};
+			extensionCache.set(extensionName, ctor);
+		}
+		return ctor;
+	}
+
+	/** Creates a new {@link PassthroughProperty}, for use with this extension. */
+	public createPassthroughProperty(): PassthroughProperty {
+		return this.doc.getGraph().emitCreate(new PassthroughProperty(this.doc.getGraph(), this));
+	}
+
+	/** Returns data defined by the extension on the root of the glTF file, if any. */
+	public getRootProperty(): PassthroughProperty | null {
+		return this.rootProperty;
+	}
+
+	/** Sets data defined by the extension on the root of the glTF file. */
+	public setRootProperty(property: PassthroughProperty | null): this {
+		this.rootProperty = property;
+		return this;
+	}
+
+	/**********************************************************************************************
+	 * Read.
+	 */
+
+	public read(context: ReaderContext): this {
+		const json = context.jsonDoc.json;
+		const attach = (parent: ExtensibleProperty, def: GLTF.IProperty) => {
+			const property = this.readProperty(context, def, parent instanceof Texture);
+			if (property) parent.setExtension(this.extensionName, property);
+		};
+
+		this.rootProperty = this.readProperty(context, json, false);
+
+		(json.accessors || []).forEach((def, index) => attach(context.accessors[index], def));
+		(json.animations || []).forEach((def, index) => attach(context.animations[index], def));
+		(json.buffers || []).forEach((def, index) => attach(context.buffers[index], def));
+		(json.cameras || []).forEach((def, index) => attach(context.cameras[index], def));
+		(json.materials || []).forEach((def, index) => attach(context.materials[index], def));
+		(json.nodes || []).forEach((def, index) => attach(context.nodes[index], def));
+		(json.scenes || []).forEach((def, index) => attach(context.scenes[index], def));
+		(json.skins || []).forEach((def, index) => attach(context.skins[index], def));
+		(json.meshes || []).forEach((def, index) => {
+			const mesh = context.meshes[index];
+			attach(mesh, def);
+			const prims = mesh.listPrimitives();
+			(def.primitives || []).forEach((primDef, i) => attach(prims[i], primDef));
+		});
+		(json.textures || []).forEach((def) => {
+			// Textures defined only by an extension may omit the core 'source' property.
+			const extensionDef = (def.extensions || {})[this.extensionName] as {source?: number};
+			const source = def.source !== undefined ? def.source : (extensionDef || {}).source;
+			const texture = source !== undefined ? context.textures[source] : undefined;
+			if (texture && !texture.getExtension(this.extensionName)) attach(texture, def);
+		});
+		context.textureInfos.forEach((textureInfoDef, textureInfo) => {
+			attach(textureInfo, textureInfoDef);
+		});
+
+		return this;
+	}
+
+	/** @internal Reads the extension's definition on a property, resolving references. */
+	private readProperty(
+			context: ReaderContext,
+			def: GLTF.IProperty,
+			isTexture: boolean): PassthroughProperty | null {
+		if (!def.extensions || !def.extensions[this.extensionName]) return null;
+
+		const {json, resources} = context.jsonDoc;
+		const extensionDef = def.extensions[this.extensionName] as Record<string, unknown>;
+		const property = this.createPassthroughProperty()
+			.setJSON(JSON.parse(JSON.stringify(extensionDef)));
+
+		for (const {pointer, type} of listReferences(extensionDef, isTexture)) {
+			const value = getPointer(extensionDef, pointer);
+			if (type === 'accessor') {
+				property.setAccessor(pointer, context.accessors[value as number] || null);
+			} else if (type === 'image') {
+				property.setTexture(pointer, context.textures[value as number] || null);
+			} else if (type === 'texture') {
+				const textureInfoDef = value as GLTF.ITextureInfo;
+				const textureDef = (json.textures || [])[textureInfoDef.index];
+				if (!textureDef || textureDef.source === undefined) continue;
+				property.setTexture(pointer, context.textures[textureDef.source]);
+				context.setTextureInfo(property.getTextureInfo(pointer)!, textureInfoDef);
+			} else if (type === 'bufferView') {
+				const bufferViewDef = (json.bufferViews || [])[value as number];
+				if (!bufferViewDef) continue;
+				const bufferDef = json.buffers![bufferViewDef.buffer];
+				const bufferData = bufferDef.uri
+					? resources[bufferDef.uri]
+					: resources[GLB_BUFFER];
+				const byteOffset = bufferViewDef.byteOffset || 0;
+				const byteLength = bufferViewDef.byteLength;
+				property.setBufferView(
+					pointer,
+					bufferData.slice(byteOffset, byteOffset + byteLength)
+				);
+			}
+		}
+
+		return property;
+	}
+
+	/**********************************************************************************************
+	 * Write.
+	 */
+
+	public prewrite(context: WriterContext): this {
+		// Referenced buffer views are written to the first buffer.
+		const buffer = this.doc.getRoot().listBuffers()[0];
+		for (const property of this.listProperties()) {
+			for (const pointer of property.listReferences()) {
+				const data = property.getBufferView(pointer);
+				if (!data) continue;
+				if (!buffer) {
+					context.logger.warn(`${this.extensionName}: Skipping buffer view, no Buffer.`);
+					continue;
+				}
+				if (!context.otherBufferViews.has(buffer)) context.otherBufferViews.set(buffer, []);
+				context.otherBufferViews.get(buffer)!.push(data);
+			}
+		}
+		return this;
+	}
+
+	public write(context: WriterContext): this {
+		const json = context.jsonDoc.json;
+
+		if (this.rootProperty) {
+			json.extensions = json.extensions || {};
+			json.extensions[this.extensionName] =
+				this.writeProperty(context, this.rootProperty, false);
+		}
+
+		for (const property of this.listProperties()) {
+			if (property === this.rootProperty) continue;
+			for (const parent of property.listParents()) {
+				if (!(parent instanceof ExtensibleProperty)) continue;
+				if (parent.getExtension(this.extensionName) !== property) continue;
+				for (const def of getPropertyDefs(context, this.doc, parent)) {
+					def.extensions = def.extensions || {};
+					def.extensions[this.extensionName] =
+						this.writeProperty(context, property, parent instanceof Texture);
+				}
+			}
+		}
+
+		return this;
+	}
+
+	/** @internal Writes the extension's definition for a property, with current indices. */
+	private writeProperty(
+			context: WriterContext,
+			property: PassthroughProperty,
+			isTexture: boolean): Record<string, unknown> {
+		const extensionDef = JSON.parse(JSON.stringify(property.getJSON()));
+		const references = listReferences(extensionDef, isTexture).map(({pointer}) => pointer);
+
+		for (const pointer of new Set([...references, ...property.listReferences()])) {
+			const accessor = property.getAccessor(pointer);
+			const texture = property.getTexture(pointer);
+			const bufferView = property.getBufferView(pointer);
+			const value = getPointer(extensionDef, pointer);
+
+			let index: number | undefined;
+			if (accessor) {
+				index = context.accessorIndexMap.get(accessor);
+			} else if (bufferView) {
+				index = context.otherBufferViewsIndexMap.get(bufferView);
+			} else if (texture && value && typeof value === 'object') {
+				const textureInfo = property.getTextureInfo(pointer)!;
+				delete (value as GLTF.ITextureInfo).texCoord;
+				Object.assign(value, context.createTextureInfoDef(texture, textureInfo));
+				continue;
+			} else if (texture) {
+				index = context.imageIndexMap.get(texture);
+			}
+
+			if (index !== undefined) {
+				setPointer(extensionDef, pointer, index);
+			} else {
+				deletePointer(extensionDef, pointer);
+			}
+		}
+
+		return extensionDef;
+	}
+
+	/** @internal */
+	private listProperties(): PassthroughProperty[] {
+		return Array.from(this.properties) as PassthroughProperty[];
+	}
+}
+
+/**************************************************************************************************
+ * Utilities.
+ */
+
+/** Returns glTF definitions written for the given property. */
+function getPropertyDefs(
+		context: WriterContext,
+		doc: Document,
+		property: ExtensibleProperty): GLTF.IProperty[] {
+	const json = context.jsonDoc.json;
+	const root = doc.getRoot();
+	const defs: (GLTF.IProperty | undefined)[] = [];
+
+	if (property instanceof Accessor) {
+		defs.push(getDef(json.accessors, context.accessorIndexMap.get(property)));
+	} else if (property instanceof Animation) {
+		defs.push(getDef(json.animations, root.listAnimations().indexOf(property)));
+	} else if (property instanceof Buffer) {
+		defs.push(getDef(json.buffers, context.bufferIndexMap.get(property)));
+	} else if (property instanceof Camera) {
+		defs.push(getDef(json.cameras, context.cameraIndexMap.get(property)));
+	} else if (property instanceof Material) {
+		defs.push(getDef(json.materials, context.materialIndexMap.get(property)));
+	} else if (property instanceof Mesh) {
+		defs.push(getDef(json.meshes, context.meshIndexMap.get(property)));
+	} else if (property instanceof Node) {
+		defs.push(getDef(json.nodes, context.nodeIndexMap.get(property)));
+	} else if (property instanceof Scene) {
+		defs.push(getDef(json.scenes, root.listScenes().indexOf(property)));
+	} else if (property instanceof Skin) {
+		defs.push(getDef(json.skins, context.skinIndexMap.get(property)));
+	} else if (property instanceof Primitive) {
+		for (const mesh of property.listParents()) {
+			if (!(mesh instanceof Mesh)) continue;
+			const meshDef = getDef(json.meshes, context.meshIndexMap.get(mesh));
+			const primIndex = mesh.listPrimitives().indexOf(property);
+			if (meshDef) defs.push(getDef(meshDef.primitives, primIndex));
+		}
+	} else if (property instanceof Texture) {
+		const imageIndex = context.imageIndexMap.get(property);
+		defs.push(...(json.textures || []).filter((def) => def.source === imageIndex));
+	} else if (property instanceof TextureInfo) {
+		defs.push(context.textureInfoDefMap.get(property));
+	}
+
+	return defs.filter((def) => !!def) as GLTF.IProperty[];
+}
+
+function getDef<T>(defs: T[] | undefined, index: number | undefined): T | undefined {
+	return defs && index !== undefined && index >= 0 ? defs[index] : undefined;
+}
+
+/**
+ * Lists references to other glTF definitions within an extension's JSON, by key: `accessor`
+ * or `*Accessor`, `bufferView` or `*BufferView`, and texture info objects under `texture` or
+ * `*Texture`. Within extensions on glTF textures, `source` refers to an image.
+ */
+function listReferences(value: unknown, isTexture: boolean, pointer = ''): Reference[] {
+	const references: Reference[] = [];
+	if (!value || typeof value !== 'object') return references;
+
+	for (const key of Object.keys(value as Record<string, unknown>)) {
+		const child = (value as Record<string, unknown>)[key];
+		const childPointer = `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+		if (typeof child === 'number' && /^(accessor|.+Accessor)$/.test(key)) {
+			references.push({pointer: childPointer, type: 'accessor'});
+		} else if (typeof child === 'number' && /^(bufferView|.+BufferView)$/.test(key)) {
+			references.push({pointer: childPointer, type: 'bufferView'});
+		} else if (typeof child === 'number' && isTexture && pointer === '' && key === 'source') {
+			references.push({pointer: childPointer, type: 'image'});
+		} else if (/^(texture|.+Texture)$/.test(key) && child && typeof child === 'object'
+				&& typeof (child as Record<string, unknown>).index === 'number') {
+			references.push({pointer: childPointer, type: 'texture'});
+		} else {
+			references.push(...listReferences(child, isTexture, childPointer));
+		}
+	}
+
+	return references;
+}
+
+function parsePointer(pointer: string): string[] {
+	return pointer.split('/').slice(1).map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getPath(value: unknown, keys: string[]): unknown {
+	for (const key of keys) {
+		if (!value || typeof value !== 'object') return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+function getPointer(value: unknown, pointer: string): unknown {
+	return getPath(value, parsePointer(pointer));
+}
+
+function setPointer(value: unknown, pointer: string, index: number): void {
+	const keys = parsePointer(pointer);
+	const parent = getPath(value, keys.slice(0, -1));
+	if (parent && typeof parent === 'object') {
+		(parent as Record<string, unknown>)[keys[keys.length - 1]] = index;
+	}
+}
+
+function deletePointer(value: unknown, pointer: string): void {
+	const keys = parsePointer(pointer);
+	const parent = getPath(value, keys.slice(0, -1));
+	if (parent && typeof parent === 'object') {
+		delete (parent as Record<string, unknown>)[keys[keys.length - 1]];
+	}
+}
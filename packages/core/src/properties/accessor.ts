@@ -1,5 +1,5 @@
 import { PropertyType, TypedArray } from '../constants';
-import { GraphChild, Link } from '../graph';
+import { GraphAttribute, GraphChild, Link } from '../graph';
 import { GLTF } from '../types/gltf';
 import { MathUtils } from '../utils';
 import { Buffer } from './buffer';
@@ -126,36 +126,40 @@ export class Accessor extends ExtensibleProperty {
 	 */
 
 	/** @internal Raw data of the accessor. */
-	private _array: TypedArray | null = null;
+	@GraphAttribute private array: TypedArray | null = null;
 
 	/** @internal Type of element represented. */
-	private _type: GLTF.AccessorType = Accessor.Type.SCALAR;
+	@GraphAttribute private type: GLTF.AccessorType = Accessor.Type.SCALAR;
 
 	/** @internal Numeric type of each component in an element. */
-	private _componentType: GLTF.AccessorComponentType = Accessor.ComponentType.FLOAT;
+	@GraphAttribute private componentType: GLTF.AccessorComponentType =
+		Accessor.ComponentType.FLOAT;
 
 	/** @internal Whether data in the raw array should be considered normalized. */
-	private _normalized = false;
+	@GraphAttribute private normalized = false;
 
-	/** @internal Inbound transform to normalized representation, if applicable. */
-	private _in = MathUtils.identity;
-
-	/** @internal Outbound transform from normalized representation, if applicable. */
-	private _out = MathUtils.identity;
+	/** @internal Whether the accessor should be written with sparse storage. */
+	@GraphAttribute private sparse = false;
 
 	/** @internal The {@link Buffer} to which this accessor's data will be written. */
 	@GraphChild private buffer: Link<Accessor, Buffer> | null = null;
 
+	/** @internal Deferred raw data, read on first access. See {@link NodeIO.setLazy}. */
+	private lazy: LazyArray | null = null;
+
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._type = other._type;
-		this._componentType = other._componentType;
-		this._normalized = other._normalized;
-		this._in = other._in;
-		this._out = other._out;
+		this.type = other.type;
+		this.componentType = other.componentType;
+		this.normalized = other.normalized;
+		this.sparse = other.sparse;
 
-		if (other._array) this._array = other._array.slice();
+		if (other.array) this.array = other.array.slice();
+		if (other.lazy) {
+			const {count, read, array} = other.lazy;
+			this.lazy = {count, read, array: array ? array.slice() : null};
+		}
 
 		this.setBuffer(other.buffer ? resolve(other.buffer.getChild()) : null);
 
@@ -219,6 +223,7 @@ export class Accessor extends ExtensibleProperty {
 	 * reflect normalization: use {@link .getMinNormalized} in that case.
 	 */
 	public getMin(target: number[]): number[] {
+		const array = this.getArray()!;
 		const count = this.getCount();
 		const elementSize = this.getElementSize();
 
@@ -226,7 +231,7 @@ export class Accessor extends ExtensibleProperty {
 
 		for (let i = 0; i < count * elementSize; i += elementSize) {
 			for (let j = 0; j < elementSize; j++) {
-				const value = this._array![i + j];
+				const value = array[i + j];
 				if (Number.isFinite(value)) {
 					target[j] = Math.min(target[j], value);
 				}
@@ -256,6 +261,7 @@ export class Accessor extends ExtensibleProperty {
 	 * reflect normalization: use {@link .getMinNormalized} in that case.
 	 */
 	public getMax(target: number[]): number[] {
+		const array = this.getArray()!;
 		const count = this.getCount();
 		const elementSize = this.getElementSize();
 
@@ -263,7 +269,7 @@ export class Accessor extends ExtensibleProperty {
 
 		for (let i = 0; i < count * elementSize; i += elementSize) {
 			for (let j = 0; j < elementSize; j++) {
-				const value = this._array![i + j];
+				const value = array[i + j];
 				if (Number.isFinite(value)) {
 					target[j] = Math.max(target[j], value);
 				}
@@ -282,18 +288,19 @@ export class Accessor extends ExtensibleProperty {
 	 * will have a count of 10.
 	 */
 	public getCount(): number {
-		return this._array ? this._array.length / this.getElementSize() : 0;
+		if (!this.array && this.lazy) return this.lazy.count;
+		return this.array ? this.array.length / this.getElementSize() : 0;
 	}
 
 	/** Type of element stored in the accessor. `VEC2`, `VEC3`, etc. */
-	public getType(): GLTF.AccessorType { return this._type; }
+	public getType(): GLTF.AccessorType { return this.type; }
 
 	/**
 	 * Sets type of element stored in the accessor. `VEC2`, `VEC3`, etc. Array length must be a
 	 * multiple of the component size (`VEC2` = 2, `VEC3` = 3, ...) for the selected type.
 	 */
 	public setType(type: GLTF.AccessorType): Accessor {
-		this._type = type;
+		this.type = type;
 		return this;
 	}
 
@@ -303,7 +310,7 @@ export class Accessor extends ExtensibleProperty {
 	 * accessor type, specified with {@link setType}().
 	 */
 	public getElementSize(): number {
-		return Accessor.getElementSize(this._type);
+		return Accessor.getElementSize(this.type);
 	}
 
 	/**
@@ -311,7 +318,10 @@ export class Accessor extends ExtensibleProperty {
 	 * `componentSize` of data backed by a `float32` array is 4 bytes.
 	 */
 	public getComponentSize(): number {
-		return this._array!.BYTES_PER_ELEMENT;
+		// Lazy accessors have no array until first access, and take the component type from
+		// their source instead.
+		if (!this.array && this.lazy) return Accessor.getComponentSize(this.componentType);
+		return this.array!.BYTES_PER_ELEMENT;
 	}
 
 	/**
@@ -319,7 +329,7 @@ export class Accessor extends ExtensibleProperty {
 	 * be modified by replacing the underlying array.
 	 */
 	public getComponentType(): GLTF.AccessorComponentType {
-		return this._componentType;
+		return this.componentType;
 	}
 
 	/**********************************************************************************************
@@ -332,7 +342,7 @@ export class Accessor extends ExtensibleProperty {
 	 * This property is defined only for accessors that contain vertex attributes or animation
 	 * output data.
 	 */
-	public getNormalized(): boolean { return this._normalized; }
+	public getNormalized(): boolean { return this.normalized; }
 
 	/**
 	 * Specifies whether integer data values should be normalized (true) to [0, 1] (for unsigned
@@ -341,19 +351,38 @@ export class Accessor extends ExtensibleProperty {
 	 * output data.
 	 */
 	public setNormalized(normalized: boolean): this {
-		this._normalized = normalized;
-
-		if (normalized) {
-			this._out = (c: number): number => MathUtils.denormalize(c, this._componentType);
-			this._in = (f: number): number => MathUtils.normalize(f, this._componentType);
-		} else {
-			this._out = MathUtils.identity;
-			this._in = MathUtils.identity;
-		}
+		this.normalized = normalized;
+		return this;
+	}
+
+	/**
+	 * Whether the accessor should be written with sparse storage. Sparse storage writes only
+	 * elements that differ from zero, along with their indices, and is much smaller for data
+	 * like morph targets or animation outputs that are mostly zero. Accessors read from sparse
+	 * storage in a glTF file are marked sparse. Writing may use sparse storage for other
+	 * accessors when smaller; see {@link SparseMode}.
+	 */
+	public getSparse(): boolean { return this.sparse; }
 
+	/**
+	 * Specifies whether the accessor should be written with sparse storage. See
+	 * {@link getSparse}.
+	 */
+	public setSparse(sparse: boolean): this {
+		this.sparse = sparse;
 		return this;
 	}
 
+	/** @internal Inbound transform to normalized representation, if applicable. */
+	private _in(f: number): number {
+		return this.normalized ? MathUtils.normalize(f, this.componentType) : f;
+	}
+
+	/** @internal Outbound transform from normalized representation, if applicable. */
+	private _out(c: number): number {
+		return this.normalized ? MathUtils.denormalize(c, this.componentType) : c;
+	}
+
 	/**********************************************************************************************
 	 * Data access.
 	 */
@@ -364,7 +393,7 @@ export class Accessor extends ExtensibleProperty {
 	 */
 	public getScalar(index: number): number {
 		const elementSize = this.getElementSize();
-		return this._out(this._array![index * elementSize]);
+		return this._out(this.getArray()![index * elementSize]);
 	}
 
 	/**
@@ -372,7 +401,9 @@ export class Accessor extends ExtensibleProperty {
 	 * applicable.
 	 */
 	public setScalar(index: number, x: number): this {
-		this._array![index * this.getElementSize()] = this._in(x);
+		const notify = this._beforeWrite();
+		this.getArray()![index * this.getElementSize()] = this._in(x);
+		if (notify) this._afterWrite();
 		return this;
 	}
 
@@ -381,9 +412,10 @@ export class Accessor extends ExtensibleProperty {
 	 * if applicable.
 	 */
 	public getElement(index: number, target: number[]): number[] {
+		const array = this.getArray()!;
 		const elementSize = this.getElementSize();
 		for (let i = 0; i < elementSize; i++) {
-			target[i] = this._out(this._array![index * elementSize + i]);
+			target[i] = this._out(array[index * elementSize + i]);
 		}
 		return target;
 	}
@@ -393,13 +425,55 @@ export class Accessor extends ExtensibleProperty {
 	 * if applicable.
 	 */
 	public setElement(index: number, value: number[]): this {
+		const notify = this._beforeWrite();
+		const array = this.getArray()!;
 		const elementSize = this.getElementSize();
 		for (let i = 0; i < elementSize; i++) {
-			this._array![index * elementSize + i] = this._in(value[i]);
+			array[index * elementSize + i] = this._in(value[i]);
 		}
+		if (notify) this._afterWrite();
 		return this;
 	}
 
+	/**
+	 * Before the array is modified in place, records a copy of its prior contents in the graph's
+	 * history, once per transaction. Returns true if the write should be followed by a 'change'
+	 * event: for the first write of each transaction, or for every write outside a transaction.
+	 * @internal
+	 */
+	private _beforeWrite(): boolean {
+		const array = this.getArray();
+		const history = this.graph.getHistory();
+		if (!array) return false;
+		if (!history.isRecording()) return true;
+		if (!history.markModified(array)) return false;
+
+		const prevArray = array.slice();
+		history.record({
+			undo: () => this.array = prevArray,
+			redo: () => this.array = array,
+		});
+		return true;
+	}
+
+	/**
+	 * After the array is modified in place, dispatches a 'change' event for the 'array' attribute,
+	 * if any listeners are registered. The event's value and previous value are both the modified
+	 * array.
+	 * @internal
+	 */
+	private _afterWrite(): void {
+		if (!this.graph.hasListeners('change', this)) return;
+		const array = this.getArray();
+		this.graph.dispatchEvent({
+			type: 'change',
+			target: this,
+			attribute: 'array',
+			value: array,
+			previousValue: array,
+		});
+	}
+
 	/**********************************************************************************************
 	 * Raw data storage.
 	 */
@@ -413,20 +487,68 @@ export class Accessor extends ExtensibleProperty {
 		return this;
 	}
 
-	/** Returns the raw typed array underlying this accessor. */
-	public getArray(): TypedArray | null { return this._array; }
+	/**
+	 * Returns the raw typed array underlying this accessor. For accessors read lazily, data is
+	 * read from the source file on first access.
+	 */
+	public getArray(): TypedArray | null {
+		if (this.array || !this.lazy) return this.array;
+		return this.lazy.array || (this.lazy.array = this.lazy.read());
+	}
 
 	/** Assigns the raw typed array underlying this accessor. */
 	public setArray(array: TypedArray): this {
-		this._componentType = array ? arrayToComponentType(array) : Accessor.ComponentType.FLOAT;
-		this._array = array;
+		this.componentType = array ? arrayToComponentType(array) : Accessor.ComponentType.FLOAT;
+		this.array = array;
 		return this;
 	}
 
 	/** Returns the total bytelength of this accessor, exclusive of padding. */
 	public getByteLength(): number {
-		return this._array ? this._array.byteLength : 0;
+		if (!this.array && this.lazy) {
+			return this.lazy.count * this.getElementSize() * this.getComponentSize();
+		}
+		return this.array ? this.array.byteLength : 0;
+	}
+
+	/**
+	 * Assigns a deferred source for the raw array, read on first access. Until then, element
+	 * count and component type are given by the source. An array assigned later with
+	 * {@link setArray} takes precedence.
+	 * @internal
+	 */
+	public _setLazyArray(
+			count: number,
+			componentType: GLTF.AccessorComponentType,
+			read: () => TypedArray): this {
+		this.componentType = componentType;
+		this.lazy = {count, read, array: null};
+		return this;
 	}
+
+	/**
+	 * Whether the raw array is deferred, and has not yet been read from the source.
+	 * @internal
+	 */
+	public _isLazyUnread(): boolean {
+		return !this.array && !!this.lazy && !this.lazy.array;
+	}
+
+	/**
+	 * Releases deferred data read from the source, to be read again on next access.
+	 * @internal
+	 */
+	public _releaseLazyData(): this {
+		if (this.lazy) this.lazy.array = null;
+		return this;
+	}
+}
+
+/** @internal Deferred raw data of an accessor, and its contents once read. */
+interface LazyArray {
+	count: number;
+	read: () => TypedArray;
+	array: TypedArray | null;
 }
 
 /**************************************************************************************************
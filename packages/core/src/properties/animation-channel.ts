@@ -1,5 +1,5 @@
 import { PropertyType } from '../constants';
-import { GraphChild, Link } from '../graph';
+import { GraphAttribute, GraphChild, Link } from '../graph';
 import { GLTF } from '../types/gltf';
 import { AnimationSampler } from './animation-sampler';
 import { Node } from './node';
@@ -57,14 +57,14 @@ export class AnimationChannel extends Property {
 	 * Instance.
 	 */
 
-	private _targetPath: GLTF.AnimationChannelTargetPath | null = null;
+	@GraphAttribute private targetPath: GLTF.AnimationChannelTargetPath | null = null;
 	@GraphChild private targetNode: Link<AnimationChannel, Node> | null = null;
 	@GraphChild private sampler: Link<AnimationChannel, AnimationSampler> | null = null;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._targetPath = other._targetPath;
+		this.targetPath = other.targetPath;
 
 		this.setTargetNode(other.targetNode ? resolve(other.targetNode.getChild()) : null);
 		this.setSampler(other.sampler ? resolve(other.sampler.getChild()) : null);
@@ -81,7 +81,7 @@ export class AnimationChannel extends Property {
 	 * `translation`, `rotation`, `scale`, or `weights`.
 	 */
 	public getTargetPath(): GLTF.AnimationChannelTargetPath | null {
-		return this._targetPath;
+		return this.targetPath;
 	}
 
 	/**
@@ -89,7 +89,7 @@ export class AnimationChannel extends Property {
 	 * `translation`, `rotation`, `scale`, or `weights`.
 	 */
 	public setTargetPath(targetPath: GLTF.AnimationChannelTargetPath): this {
-		this._targetPath = targetPath;
+		this.targetPath = targetPath;
 		return this;
 	}
 
@@ -1,5 +1,5 @@
 import { PropertyType } from '../constants';
-import { GraphChild, Link } from '../graph';
+import { GraphAttribute, GraphChild, Link } from '../graph';
 import { GLTF } from '../types/gltf';
 import { Accessor } from './accessor';
 import { COPY_IDENTITY, Property } from './property';
@@ -67,7 +67,7 @@ export class AnimationSampler extends Property {
 	 * Instance.
 	 */
 
-	private _interpolation: GLTF.AnimationSamplerInterpolation
+	@GraphAttribute private interpolation: GLTF.AnimationSamplerInterpolation
 		= AnimationSampler.Interpolation.LINEAR;
 
 	@GraphChild private input: Link<AnimationSampler, Accessor> | null = null;
@@ -76,7 +76,7 @@ export class AnimationSampler extends Property {
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._interpolation = other._interpolation;
+		this.interpolation = other.interpolation;
 
 		this.setInput(other.input ? resolve(other.input.getChild()) : null);
 		this.setOutput(other.output ? resolve(other.output.getChild()) : null);
@@ -90,12 +90,12 @@ export class AnimationSampler extends Property {
 
 	/** Interpolation mode: `STEP`, `LINEAR`, or `CUBICSPLINE`. */
 	public getInterpolation(): GLTF.AnimationSamplerInterpolation {
-		return this._interpolation;
+		return this.interpolation;
 	}
 
 	/** Interpolation mode: `STEP`, `LINEAR`, or `CUBICSPLINE`. */
 	public setInterpolation(interpolation: GLTF.AnimationSamplerInterpolation): this {
-		this._interpolation = interpolation;
+		this.interpolation = interpolation;
 		return this;
 	}
 
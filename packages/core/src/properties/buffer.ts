@@ -1,4 +1,5 @@
 import { PropertyType } from '../constants';
+import { GraphAttribute } from '../graph';
 import { ExtensibleProperty } from './extensible-property';
 import { COPY_IDENTITY } from './property';
 
@@ -61,12 +62,12 @@ export class Buffer extends ExtensibleProperty {
 	public readonly propertyType = PropertyType.BUFFER;
 
 	/** @internal URI (or filename) of the buffer. */
-	private _uri = '';
+	@GraphAttribute private uri = '';
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._uri = other._uri;
+		this.uri = other.uri;
 
 		return this;
 	}
@@ -80,7 +81,7 @@ export class Buffer extends ExtensibleProperty {
 	 * Buffers commonly use the extension `.bin`, though this is not required.
 	 */
 	public getURI(): string {
-		return this._uri;
+		return this.uri;
 	}
 
 	/**
@@ -92,7 +93,7 @@ export class Buffer extends ExtensibleProperty {
 	 * Buffers commonly use the extension `.bin`, though this is not required.
 	 */
 	public setURI(uri: string): this {
-		this._uri = uri;
+		this.uri = uri;
 		return this;
 	}
 }
@@ -1,4 +1,5 @@
 import { PropertyType } from '../constants';
+import { GraphAttribute } from '../graph';
 import { GLTF } from '../types/gltf';
 import { ExtensibleProperty } from './extensible-property';
 import { COPY_IDENTITY } from './property';
@@ -51,30 +52,30 @@ export class Camera extends ExtensibleProperty {
 
 	// Common.
 
-	private _type: GLTF.CameraType = Camera.Type.PERSPECTIVE;
-	private _znear = 0.1;
-	private _zfar = 100;
+	@GraphAttribute private type: GLTF.CameraType = Camera.Type.PERSPECTIVE;
+	@GraphAttribute private znear = 0.1;
+	@GraphAttribute private zfar = 100;
 
 	// Perspective.
 
-	private _aspectRatio: number | null = null;
-	private _yfov: number = Math.PI * 2 * 50 / 360; // 50º
+	@GraphAttribute private aspectRatio: number | null = null;
+	@GraphAttribute private yfov: number = Math.PI * 2 * 50 / 360; // 50º
 
 	// Orthographic.
 
-	private _xmag = 1;
-	private _ymag = 1;
+	@GraphAttribute private xmag = 1;
+	@GraphAttribute private ymag = 1;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._type = other._type;
-		this._znear = other._znear;
-		this._zfar = other._zfar;
-		this._aspectRatio = other._aspectRatio;
-		this._yfov = other._yfov;
-		this._xmag = other._xmag;
-		this._ymag = other._ymag;
+		this.type = other.type;
+		this.znear = other.znear;
+		this.zfar = other.zfar;
+		this.aspectRatio = other.aspectRatio;
+		this.yfov = other.yfov;
+		this.xmag = other.xmag;
+		this.ymag = other.ymag;
 
 		return this;
 	}
@@ -84,20 +85,20 @@ export class Camera extends ExtensibleProperty {
 	 */
 
 	/** Specifies if the camera uses a perspective or orthographic projection. */
-	public getType(): GLTF.CameraType { return this._type; }
+	public getType(): GLTF.CameraType { return this.type; }
 
 	/** Specifies if the camera uses a perspective or orthographic projection. */
 	public setType(type: GLTF.CameraType): this {
-		this._type = type;
+		this.type = type;
 		return this;
 	}
 
 	/** Floating-point distance to the near clipping plane. */
-	public getZNear(): number { return this._znear; }
+	public getZNear(): number { return this.znear; }
 
 	/** Floating-point distance to the near clipping plane. */
 	public setZNear(znear: number): this {
-		this._znear = znear;
+		this.znear = znear;
 		return this;
 	}
 
@@ -105,14 +106,14 @@ export class Camera extends ExtensibleProperty {
 	 * Floating-point distance to the far clipping plane. When defined, zfar must be greater than
 	 * znear. If zfar is undefined, runtime must use infinite projection matrix.
 	 */
-	public getZFar(): number { return this._zfar; }
+	public getZFar(): number { return this.zfar; }
 
 	/**
 	 * Floating-point distance to the far clipping plane. When defined, zfar must be greater than
 	 * znear. If zfar is undefined, runtime must use infinite projection matrix.
 	 */
 	public setZFar(zfar: number): this {
-		this._zfar = zfar;
+		this.zfar = zfar;
 		return this;
 	}
 
@@ -124,23 +125,23 @@ export class Camera extends ExtensibleProperty {
 	 * Floating-point aspect ratio of the field of view. When undefined, the aspect ratio of the
 	 * canvas is used.
 	 */
-	public getAspectRatio(): number | null { return this._aspectRatio; }
+	public getAspectRatio(): number | null { return this.aspectRatio; }
 
 	/**
 	 * Floating-point aspect ratio of the field of view. When undefined, the aspect ratio of the
 	 * canvas is used.
 	 */
 	public setAspectRatio(aspectRatio: number | null): this {
-		this._aspectRatio = aspectRatio;
+		this.aspectRatio = aspectRatio;
 		return this;
 	}
 
 	/** Floating-point vertical field of view in radians. */
-	public getYFov(): number { return this._yfov; }
+	public getYFov(): number { return this.yfov; }
 
 	/** Floating-point vertical field of view in radians. */
 	public setYFov(yfov: number): this {
-		this._yfov = yfov;
+		this.yfov = yfov;
 		return this;
 	}
 
@@ -152,14 +153,14 @@ export class Camera extends ExtensibleProperty {
 	 * Floating-point horizontal magnification of the view, and half the view's width
 	 * in world units.
 	 */
-	public getXMag(): number { return this._xmag; }
+	public getXMag(): number { return this.xmag; }
 
 	/**
 	 * Floating-point horizontal magnification of the view, and half the view's width
 	 * in world units.
 	 */
 	public setXMag(xmag: number): this {
-		this._xmag = xmag;
+		this.xmag = xmag;
 		return this;
 	}
 
@@ -167,14 +168,14 @@ export class Camera extends ExtensibleProperty {
 	 * Floating-point vertical magnification of the view, and half the view's height
 	 * in world units.
 	 */
-	public getYMag(): number { return this._ymag; }
+	public getYMag(): number { return this.ymag; }
 
 	/**
 	 * Floating-point vertical magnification of the view, and half the view's height
 	 * in world units.
 	 */
 	public setYMag(ymag: number): this {
-		this._ymag = ymag;
+		this.ymag = ymag;
 		return this;
 	}
 }
@@ -10,11 +10,13 @@ export * from './property-graph';
 export * from './property-links';
 export * from './material';
 export * from './mesh';
+export * from './passthrough-property';
 export * from './node';
 export * from './primitive';
 export * from './primitive-target';
 export * from './root';
 export * from './scene';
+export * from './selector';
 export * from './skin';
 export * from './texture';
 export * from './texture-info';
@@ -1,5 +1,5 @@
 import { PropertyType, TextureChannel, vec3, vec4 } from '../constants';
-import { GraphChild, Link } from '../graph/index';
+import { GraphAttribute, GraphChild, Link } from '../graph/index';
 import { GLTF } from '../types/gltf';
 import { ColorUtils } from '../utils';
 import { ExtensibleProperty } from './extensible-property';
@@ -72,49 +72,53 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** @internal Mode of the material's alpha channels. (`OPAQUE`, `BLEND`, or `MASK`) */
-	private _alphaMode: GLTF.MaterialAlphaMode = Material.AlphaMode.OPAQUE;
+	@GraphAttribute private alphaMode: GLTF.MaterialAlphaMode = Material.AlphaMode.OPAQUE;
 
 	/** @internal Visibility threshold. Applied only when `.alphaMode='MASK'`. */
-	private _alphaCutoff = 0.5;
+	@GraphAttribute private alphaCutoff = 0.5;
 
 	/** @internal When true, both sides of each triangle are rendered. May decrease performance. */
-	private _doubleSided = false;
+	@GraphAttribute private doubleSided = false;
 
 	/** @internal Base color / albedo; linear multiplier. */
-	private _baseColorFactor: vec4 = [1, 1, 1, 1];
+	@GraphAttribute private baseColorFactor: vec4 = [1, 1, 1, 1];
 
 	/** @internal Emissive color; linear multiplier. */
-	private _emissiveFactor: vec3 = [0, 0, 0];
+	@GraphAttribute private emissiveFactor: vec3 = [0, 0, 0];
 
 	/** @internal Normal (surface detail) factor; linear multiplier. Affects `.normalTexture`. */
-	private _normalScale = 1;
+	@GraphAttribute private normalScale = 1;
 
 	/** @internal (Ambient) Occlusion factor; linear multiplier. Affects `.occlusionMap`. */
-	private _occlusionStrength = 1;
+	@GraphAttribute private occlusionStrength = 1;
 
 	/**
 	 * Roughness factor; linear multiplier. Affects roughness channel of
 	 * `metallicRoughnessTexture`.
 	 * @internal
 	 */
-	private _roughnessFactor = 1;
+	@GraphAttribute private roughnessFactor = 1;
 
 	/**
 	 * Metallic factor; linear multiplier. Affects metallic channel of
 	 * `metallicRoughnessTexture`.
 	 * @internal
 	 */
-	private _metallicFactor = 1;
+	@GraphAttribute private metallicFactor = 1;
 
 	/** @internal Base color / albedo texture. */
 	@GraphChild private baseColorTexture: TextureLink | null = null;
 	@GraphChild private baseColorTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('baseColorTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'baseColorTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	/** @internal Emissive texture. */
 	@GraphChild private emissiveTexture: TextureLink | null = null;
 	@GraphChild private emissiveTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('emissiveTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'emissiveTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	/**
 	 * Normal (surface detail) texture. Normal maps often suffer artifacts with JPEG compression,
@@ -123,7 +127,9 @@ export class Material extends ExtensibleProperty {
 	 */
 	@GraphChild private normalTexture: TextureLink | null = null;
 	@GraphChild private normalTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('normalTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'normalTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	/**
 	 * (Ambient) Occlusion texture. Occlusion data is stored in the `.r` channel, allowing this
@@ -132,7 +138,9 @@ export class Material extends ExtensibleProperty {
 	 */
 	@GraphChild private occlusionTexture: TextureLink | null = null;
 	@GraphChild private occlusionTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('occlusionTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'occlusionTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	/**
 	 * Metallic/roughness PBR texture. Roughness data is stored in the `.g` channel and metallic
@@ -142,20 +150,22 @@ export class Material extends ExtensibleProperty {
 	*/
 	@GraphChild private metallicRoughnessTexture: TextureLink | null = null;
 	@GraphChild private metallicRoughnessTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('metallicRoughnessTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'metallicRoughnessTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._alphaMode = other._alphaMode;
-		this._alphaCutoff = other._alphaCutoff;
-		this._doubleSided = other._doubleSided;
-		this._baseColorFactor = [...other._baseColorFactor] as vec4;
-		this._emissiveFactor = [...other._emissiveFactor] as vec3;
-		this._normalScale = other._normalScale;
-		this._occlusionStrength = other._occlusionStrength;
-		this._roughnessFactor = other._roughnessFactor;
-		this._metallicFactor = other._metallicFactor;
+		this.alphaMode = other.alphaMode;
+		this.alphaCutoff = other.alphaCutoff;
+		this.doubleSided = other.doubleSided;
+		this.baseColorFactor = [...other.baseColorFactor] as vec4;
+		this.emissiveFactor = [...other.emissiveFactor] as vec3;
+		this.normalScale = other.normalScale;
+		this.occlusionStrength = other.occlusionStrength;
+		this.roughnessFactor = other.roughnessFactor;
+		this.metallicFactor = other.metallicFactor;
 
 		this.setBaseColorTexture(
 			other.baseColorTexture ? resolve(other.baseColorTexture.getChild()) : null
@@ -207,11 +217,11 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** Returns true when both sides of triangles should be rendered. May impact performance. */
-	public getDoubleSided(): boolean { return this._doubleSided; }
+	public getDoubleSided(): boolean { return this.doubleSided; }
 
 	/** Sets whether to render both sides of triangles. May impact performance. */
 	public setDoubleSided(doubleSided: boolean): this {
-		this._doubleSided = doubleSided;
+		this.doubleSided = doubleSided;
 		return this;
 	}
 
@@ -220,11 +230,13 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** Returns material alpha, equivalent to baseColorFactor[3]. */
-	public getAlpha(): number { return this._baseColorFactor[3]; }
+	public getAlpha(): number { return this.baseColorFactor[3]; }
 
 	/** Sets material alpha, equivalent to baseColorFactor[3]. */
 	public setAlpha(alpha: number): this {
-		this._baseColorFactor[3] = alpha;
+		const baseColorFactor = [...this.baseColorFactor] as vec4;
+		baseColorFactor[3] = alpha;
+		this.baseColorFactor = baseColorFactor;
 		return this;
 	}
 
@@ -249,20 +261,20 @@ export class Material extends ExtensibleProperty {
 	 * Reference:
 	 * - [glTF → material.alphaMode](https://github.com/KhronosGroup/glTF/blob/master/specification/2.0/README.md#materialalphamode)
 	 */
-	public getAlphaMode(): GLTF.MaterialAlphaMode { return this._alphaMode; }
+	public getAlphaMode(): GLTF.MaterialAlphaMode { return this.alphaMode; }
 
 	/** Sets the mode of the material's alpha channels. See {@link getAlphaMode} for details. */
 	public setAlphaMode(alphaMode: GLTF.MaterialAlphaMode): this {
-		this._alphaMode = alphaMode;
+		this.alphaMode = alphaMode;
 		return this;
 	}
 
 	/** Returns the visibility threshold; applied only when `.alphaMode='MASK'`. */
-	public getAlphaCutoff(): number { return this._alphaCutoff; }
+	public getAlphaCutoff(): number { return this.alphaCutoff; }
 
 	/** Sets the visibility threshold; applied only when `.alphaMode='MASK'`. */
 	public setAlphaCutoff(alphaCutoff: number): this {
-		this._alphaCutoff = alphaCutoff;
+		this.alphaCutoff = alphaCutoff;
 		return this;
 	}
 
@@ -271,11 +283,11 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** Base color / albedo factor in linear space. See {@link getBaseColorTexture}. */
-	public getBaseColorFactor(): vec4 { return this._baseColorFactor; }
+	public getBaseColorFactor(): vec4 { return this.baseColorFactor.slice() as vec4; }
 
 	/** Sets the base color / albedo factor in linear space. See {@link getBaseColorTexture}. */
 	public setBaseColorFactor(baseColorFactor: vec4): this {
-		this._baseColorFactor = baseColorFactor;
+		this.baseColorFactor = baseColorFactor;
 		return this;
 	}
 
@@ -284,7 +296,7 @@ export class Material extends ExtensibleProperty {
 	 * baseColorFactor in linear space. See {@link getBaseColorTexture}.
 	 */
 	public getBaseColorHex(): number {
-		return ColorUtils.factorToHex(this._baseColorFactor);
+		return ColorUtils.factorToHex(this.baseColorFactor);
 	}
 
 	/**
@@ -292,7 +304,8 @@ export class Material extends ExtensibleProperty {
 	 * baseColorFactor in linear space. See {@link getBaseColorTexture}.
 	 */
 	public setBaseColorHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._baseColorFactor);
+		const alpha = this.baseColorFactor[3];
+		this.baseColorFactor = ColorUtils.hexToFactor(hex, [0, 0, 0, alpha] as vec4);
 		return this;
 	}
 
@@ -330,11 +343,11 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** Emissive color; linear multiplier. See {@link getEmissiveTexture}. */
-	public getEmissiveFactor(): vec3 { return this._emissiveFactor; }
+	public getEmissiveFactor(): vec3 { return this.emissiveFactor.slice() as vec3; }
 
 	/** Sets the emissive color; linear multiplier. See {@link getEmissiveTexture}. */
 	public setEmissiveFactor(emissiveFactor: vec3): this {
-		this._emissiveFactor = emissiveFactor;
+		this.emissiveFactor = emissiveFactor;
 		return this;
 	}
 
@@ -343,7 +356,7 @@ export class Material extends ExtensibleProperty {
 	 * emissiveFactor in linear space. See {@link getBaseColorTexture}.
 	 */
 	public getEmissiveHex(): number {
-		return ColorUtils.factorToHex(this._emissiveFactor);
+		return ColorUtils.factorToHex(this.emissiveFactor);
 	}
 
 	/**
@@ -351,7 +364,7 @@ export class Material extends ExtensibleProperty {
 	 * emissiveFactor in linear space. See {@link getEmissiveTexture}.
 	 */
 	public setEmissiveHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._emissiveFactor);
+		this.emissiveFactor = ColorUtils.hexToFactor(hex, [0, 0, 0] as vec3);
 		return this;
 	}
 
@@ -387,11 +400,11 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** Normal (surface detail) factor; linear multiplier. Affects `.normalTexture`. */
-	public getNormalScale(): number { return this. _normalScale; }
+	public getNormalScale(): number { return this.normalScale; }
 
 	/** Sets normal (surface detail) factor; linear multiplier. Affects `.normalTexture`. */
 	public setNormalScale(normalScale: number): this {
-		this._normalScale = normalScale;
+		this.normalScale = normalScale;
 		return this;
 	}
 
@@ -430,11 +443,11 @@ export class Material extends ExtensibleProperty {
 	 */
 
 	/** (Ambient) Occlusion factor; linear multiplier. Affects `.occlusionTexture`. */
-	public getOcclusionStrength(): number { return this._occlusionStrength; }
+	public getOcclusionStrength(): number { return this.occlusionStrength; }
 
 	/** Sets (ambient) occlusion factor; linear multiplier. Affects `.occlusionTexture`. */
 	public setOcclusionStrength(occlusionStrength: number): this {
-		this._occlusionStrength = occlusionStrength;
+		this.occlusionStrength = occlusionStrength;
 		return this;
 	}
 
@@ -476,14 +489,14 @@ export class Material extends ExtensibleProperty {
 	 * Roughness factor; linear multiplier. Affects roughness channel of
 	 * `metallicRoughnessTexture`. See {@link getMetallicRoughnessTexture}.
 	 */
-	public getRoughnessFactor(): number { return this._roughnessFactor; }
+	public getRoughnessFactor(): number { return this.roughnessFactor; }
 
 	/**
 	 * Sets roughness factor; linear multiplier. Affects roughness channel of
 	 * `metallicRoughnessTexture`. See {@link getMetallicRoughnessTexture}.
 	 */
 	public setRoughnessFactor(roughnessFactor: number): this {
-		this._roughnessFactor = roughnessFactor;
+		this.roughnessFactor = roughnessFactor;
 		return this;
 	}
 
@@ -491,14 +504,14 @@ export class Material extends ExtensibleProperty {
 	 * Metallic factor; linear multiplier. Affects roughness channel of
 	 * `metallicRoughnessTexture`. See {@link getMetallicRoughnessTexture}.
 	 */
-	public getMetallicFactor(): number { return this._metallicFactor; }
+	public getMetallicFactor(): number { return this.metallicFactor; }
 
 	/**
 	 * Sets metallic factor; linear multiplier. Affects roughness channel of
 	 * `metallicRoughnessTexture`. See {@link getMetallicRoughnessTexture}.
 	 */
 	public setMetallicFactor(metallicFactor: number): this {
-		this._metallicFactor = metallicFactor;
+		this.metallicFactor = metallicFactor;
 		return this;
 	}
 
@@ -1,5 +1,5 @@
 import { PropertyType } from '../constants';
-import { GraphChildList } from '../graph/index';
+import { GraphAttribute, GraphChildList } from '../graph/index';
 import { Link } from '../graph/index';
 import { ExtensibleProperty } from './extensible-property';
 import { Primitive } from './primitive';
@@ -41,7 +41,7 @@ import { COPY_IDENTITY } from './property';
 export class Mesh extends ExtensibleProperty {
 	public readonly propertyType = PropertyType.MESH;
 
-	private _weights: number[] = [];
+	@GraphAttribute private weights: number[] = [];
 
 	/** @internal Primitive GPU draw call list. */
 	@GraphChildList private primitives: Link<Mesh, Primitive>[] = [];
@@ -49,7 +49,7 @@ export class Mesh extends ExtensibleProperty {
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._weights = [...other._weights];
+		this.weights = [...other.weights];
 
 		this.clearGraphChildList(this.primitives);
 		other.primitives.forEach((link) => this.addPrimitive(resolve(link.getChild())));
@@ -78,7 +78,7 @@ export class Mesh extends ExtensibleProperty {
 	 * time.
 	 */
 	public getWeights(): number[] {
-		return this._weights;
+		return this.weights.slice();
 	}
 
 	/**
@@ -87,7 +87,7 @@ export class Mesh extends ExtensibleProperty {
 	 * time.
 	 */
 	public setWeights(weights: number[]): this {
-		this._weights = weights;
+		this.weights = weights;
 		return this;
 	}
 }
@@ -1,6 +1,6 @@
 import { multiply } from 'gl-matrix/mat4';
 import { PropertyType, mat4, vec3, vec4 } from '../constants';
-import { GraphChild, GraphChildList } from '../graph/graph-decorators';
+import { GraphAttribute, GraphChild, GraphChildList } from '../graph/graph-decorators';
 import { Link } from '../graph/graph-links';
 import { MathUtils } from '../utils';
 import { Camera } from './camera';
@@ -39,26 +39,26 @@ import { Skin } from './skin';
  */
 export class Node extends ExtensibleProperty {
 	public readonly propertyType = PropertyType.NODE;
-	private _translation: vec3 = [0, 0, 0];
-	private _rotation: vec4 = [0, 0, 0, 1];
-	private _scale: vec3 = [1, 1, 1];
-	private _weights: number[] = [];
-
-	/** @internal Internal reference to node's parent, omitted from {@link Graph}. */
-	public _parent: SceneNode | null = null;
+	@GraphAttribute private translation: vec3 = [0, 0, 0];
+	@GraphAttribute private rotation: vec4 = [0, 0, 0, 1];
+	@GraphAttribute private scale: vec3 = [1, 1, 1];
+	@GraphAttribute private weights: number[] = [];
 
 	@GraphChild private camera: Link<Node, Camera> | null = null;
 	@GraphChild private mesh: Link<Node, Mesh> | null = null;
 	@GraphChild private skin: Link<Node, Skin> | null = null;
 	@GraphChildList private children: Link<Node, Node>[] = [];
 
+	/** @internal Internal reference to node's parent, omitted from {@link Graph}. */
+	public _parent: SceneNode | null = null;
+
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._translation = [...other._translation] as vec3;
-		this._rotation = [...other._rotation] as vec4;
-		this._scale = [...other._scale] as vec3;
-		this._weights = [...other._weights];
+		this.translation = [...other.translation] as vec3;
+		this.rotation = [...other.rotation] as vec4;
+		this.scale = [...other.scale] as vec3;
+		this.weights = [...other.weights];
 
 		this.setCamera(other.camera ? resolve(other.camera.getChild()) : null);
 		this.setMesh(other.mesh ? resolve(other.mesh.getChild()) : null);
@@ -77,42 +77,48 @@ export class Node extends ExtensibleProperty {
 	 */
 
 	/** Returns the translation (position) of this node in local space. */
-	public getTranslation(): vec3 { return this._translation; }
+	public getTranslation(): vec3 { return this.translation.slice() as vec3; }
 
 	/** Returns the rotation (quaternion) of this node in local space. */
-	public getRotation(): vec4 { return this._rotation; }
+	public getRotation(): vec4 { return this.rotation.slice() as vec4; }
 
 	/** Returns the scale of this node in local space. */
-	public getScale(): vec3 { return this._scale; }
+	public getScale(): vec3 { return this.scale.slice() as vec3; }
 
 	/** Sets the translation (position) of this node in local space. */
 	public setTranslation(translation: vec3): this {
-		this._translation = translation;
+		this.translation = translation;
 		return this;
 	}
 
 	/** Sets the rotation (quaternion) of this node in local space. */
 	public setRotation(rotation: vec4): this {
-		this._rotation = rotation;
+		this.rotation = rotation;
 		return this;
 	}
 
 	/** Sets the scale of this node in local space. */
 	public setScale(scale: vec3): this {
-		this._scale = scale;
+		this.scale = scale;
 		return this;
 	}
 
 	/** Returns the local matrix of this node. */
 	public getMatrix(): mat4 {
 		return MathUtils.compose(
-			this._translation, this._rotation, this._scale, [] as unknown as mat4
+			this.translation, this.rotation, this.scale, [] as unknown as mat4
 		);
 	}
 
 	/** Sets the local matrix of this node. Matrix will be decomposed to TRS properties. */
 	public setMatrix(matrix: mat4): this {
-		MathUtils.decompose(matrix, this._translation, this._rotation, this._scale);
+		const translation = [0, 0, 0] as vec3;
+		const rotation = [0, 0, 0, 1] as vec4;
+		const scale = [1, 1, 1] as vec3;
+		MathUtils.decompose(matrix, translation, rotation, scale);
+		this.translation = translation;
+		this.rotation = rotation;
+		this.scale = scale;
 		return this;
 	}
 
@@ -146,7 +152,7 @@ export class Node extends ExtensibleProperty {
 		// Build ancestor chain.
 		const ancestors: Node[] = [];
 		// eslint-disable-next-line @typescript-eslint/no-this-alias
-		for (let node: SceneNode | null = this; node instanceof Node; node = node._parent) {
+		for (let node: SceneNode | null = this; node instanceof Node; node = node.getParent()) {
 			ancestors.push(node);
 		}
 
@@ -174,8 +180,8 @@ export class Node extends ExtensibleProperty {
 		this.addGraphChild(this.children, link);
 
 		// Set new parent.
-		child._parent = this;
-		link.onDispose(() => child._parent = null);
+		child._setParent(this);
+		link.onDispose(() => child._setParent(null));
 		return this;
 	}
 
@@ -197,6 +203,20 @@ export class Node extends ExtensibleProperty {
 		return this._parent;
 	}
 
+	/**
+	 * Assigns the node's parent, recording the change in the graph's history.
+	 * @internal
+	 */
+	public _setParent(parent: SceneNode | null): void {
+		const prevParent = this._parent;
+		if (prevParent === parent) return;
+		this._parent = parent;
+		this.graph.getHistory().record({
+			undo: () => this._parent = prevParent,
+			redo: () => this._parent = parent,
+		});
+	}
+
 	/**********************************************************************************************
 	 * Attachments.
 	 */
@@ -236,7 +256,7 @@ export class Node extends ExtensibleProperty {
 	 * Most engines only support 4-8 active morph targets at a time.
 	 */
 	public getWeights(): number[] {
-		return this._weights;
+		return this.weights.slice();
 	}
 
 	/**
@@ -244,7 +264,7 @@ export class Node extends ExtensibleProperty {
 	 * Most engines only support 4-8 active morph targets at a time.
 	 */
 	public setWeights(weights: number[]): this {
-		this._weights = weights;
+		this.weights = weights;
 		return this;
 	}
 
@@ -0,0 +1,212 @@
+import { PropertyType } from '../constants';
+import { GraphAttribute, GraphChildList, Link } from '../graph';
+import { Accessor } from './accessor';
+import { ExtensionProperty, ExtensionPropertyParent } from './extension-property';
+import { COPY_IDENTITY } from './property';
+import { PropertyGraph } from './property-graph';
+import { TextureLink } from './property-links';
+import { Texture } from './texture';
+import { TextureInfo } from './texture-info';
+
+/**
+ * # PassthroughProperty
+ *
+ * *Data of an unrecognized extension, preserved as opaque JSON.*
+ *
+ * When extension passthrough is enabled with {@link PlatformIO.setExtensionPassthrough},
+ * extensions not registered with the I/O instance are read as PassthroughProperty instances,
+ * attached to the properties defining them, and written back when the {@link Document} is
+ * written. Other extensions cannot interpret this data, and transforms leave it unchanged.
+ *
+ * References to accessors, buffer views, and textures within the extension's JSON are detected
+ * by key — `accessor` or `*Accessor`, `bufferView` or `*BufferView`, and texture info objects
+ * under `texture` or `*Texture` keys — and are kept as references to properties of the Document,
+ * such that they remain valid when other properties are added, removed, or merged. Each
+ * reference is addressed by a [JSON Pointer](https://datatracker.ietf.org/doc/html/rfc6901)
+ * into the extension's JSON, e.g. `/layers/0/texture`.
+ *
+ * Usage:
+ *
+ * ```ts
+ * const vendorExt = material.getExtension<PassthroughProperty>('VENDOR_materials_fabric');
+ * vendorExt.getJSON(); // → {sheenFactor: 0.5, weaveTexture: {index: 1}}
+ * vendorExt.getTexture('/weaveTexture'); // → Texture
+ * ```
+ *
+ * @category Properties
+ */
+export class PassthroughProperty extends ExtensionProperty {
+	public readonly propertyType = 'Passthrough';
+	public readonly parentTypes = [
+		PropertyType.ACCESSOR,
+		PropertyType.ANIMATION,
+		PropertyType.BUFFER,
+		PropertyType.CAMERA,
+		PropertyType.MATERIAL,
+		PropertyType.MESH,
+		PropertyType.NODE,
+		PropertyType.PRIMITIVE,
+		PropertyType.SCENE,
+		PropertyType.SKIN,
+		PropertyType.TEXTURE,
+		PropertyType.TEXTURE_INFO,
+	];
+	public readonly extensionName: string;
+
+	/** @internal JSON definition of the extension. */
+	@GraphAttribute private json: Record<string, unknown> = {};
+
+	/** @internal Contents of referenced buffer views, by JSON Pointer. */
+	@GraphAttribute private bufferViews: Record<string, ArrayBuffer> = {};
+
+	@GraphChildList private accessors: Link<this, Accessor>[] = [];
+	@GraphChildList private textures: TextureLink[] = [];
+	@GraphChildList private textureInfos: Link<this, TextureInfo>[] = [];
+
+	/** @hidden */
+	constructor(
+			graph: PropertyGraph,
+			extension: ExtensionPropertyParent & {extensionName: string}) {
+		super(graph, extension);
+		this.extensionName = extension.extensionName;
+	}
+
+	public copy(other: this, resolve = COPY_IDENTITY): this {
+		super.copy(other, resolve);
+
+		this.json = JSON.parse(JSON.stringify(other.json));
+
+		const bufferViews: Record<string, ArrayBuffer> = {};
+		for (const pointer in other.bufferViews) {
+			bufferViews[pointer] = other.bufferViews[pointer].slice(0);
+		}
+		this.bufferViews = bufferViews;
+
+		this.clearGraphChildList(this.accessors);
+		for (const link of other.accessors) {
+			this.setAccessor(link.getName(), resolve(link.getChild()));
+		}
+
+		this.clearTextures();
+		for (const link of other.textures) {
+			const pointer = link.getName();
+			this.setTexture(pointer, resolve(link.getChild()));
+			this.getTextureInfo(pointer)!.copy(resolve(other.getTextureInfo(pointer)!), resolve);
+		}
+
+		return this;
+	}
+
+	public dispose(): void {
+		this.clearTextures();
+		super.dispose();
+	}
+
+	/** @internal Removes all texture references, and their {@link TextureInfo} properties. */
+	private clearTextures(): void {
+		for (const link of this.textures.slice()) this.setTexture(link.getName(), null);
+	}
+
+	/**********************************************************************************************
+	 * JSON.
+	 */
+
+	/**
+	 * Returns the JSON definition of the extension. Values at referenced locations are replaced
+	 * with the current index of each reference when the Document is written.
+	 */
+	public getJSON(): Record<string, unknown> { return this.json; }
+
+	/** Sets the JSON definition of the extension. See {@link getJSON}. */
+	public setJSON(json: Record<string, unknown>): this {
+		this.json = json;
+		return this;
+	}
+
+	/**
+	 * Lists JSON Pointers of all references to accessors, buffer views, and textures held by
+	 * this property.
+	 */
+	public listReferences(): string[] {
+		return [
+			...this.accessors.map((link) => link.getName()),
+			...Object.keys(this.bufferViews),
+			...this.textures.map((link) => link.getName()),
+		];
+	}
+
+	/**********************************************************************************************
+	 * References.
+	 */
+
+	/** Returns the {@link Accessor} referenced at the given JSON Pointer, if any. */
+	public getAccessor(pointer: string): Accessor | null {
+		const link = this.accessors.find((link) => link.getName() === pointer);
+		return link ? link.getChild() : null;
+	}
+
+	/** Sets the {@link Accessor} referenced at the given JSON Pointer. */
+	public setAccessor(pointer: string, accessor: Accessor | null): this {
+		const prevLink = this.accessors.find((link) => link.getName() === pointer);
+		if (prevLink) prevLink.dispose();
+		if (!accessor) return this;
+		return this.addGraphChild(this.accessors, this.graph.link(pointer, this, accessor));
+	}
+
+	/** Returns the contents of the buffer view referenced at the given JSON Pointer, if any. */
+	public getBufferView(pointer: string): ArrayBuffer | null {
+		return this.bufferViews[pointer] || null;
+	}
+
+	/**
+	 * Sets the contents of the buffer view referenced at the given JSON Pointer. Buffer views are
+	 * written to the first {@link Buffer} of the Document.
+	 */
+	public setBufferView(pointer: string, data: ArrayBuffer | null): this {
+		const bufferViews = {...this.bufferViews};
+		if (data) {
+			bufferViews[pointer] = data;
+		} else {
+			delete bufferViews[pointer];
+		}
+		this.bufferViews = bufferViews;
+		return this;
+	}
+
+	/**
+	 * Returns the {@link Texture} referenced at the given JSON Pointer, if any. References to
+	 * texture info objects are written as `{index, texCoord}`, with sampler settings given by
+	 * {@link getTextureInfo}. Other references are written as the index of the texture's image.
+	 */
+	public getTexture(pointer: string): Texture | null {
+		const link = this.textures.find((link) => link.getName() === pointer);
+		return link ? link.getChild() : null;
+	}
+
+	/**
+	 * Returns settings affecting the use of the {@link Texture} referenced at the given JSON
+	 * Pointer. If no texture is referenced, {@link TextureInfo} is `null`.
+	 */
+	public getTextureInfo(pointer: string): TextureInfo | null {
+		const link = this.textureInfos.find((link) => link.getName() === pointer);
+		return link ? link.getChild() : null;
+	}
+
+	/** Sets the {@link Texture} referenced at the given JSON Pointer. */
+	public setTexture(pointer: string, texture: Texture | null): this {
+		const prevLink = this.textures.find((link) => link.getName() === pointer);
+		const prevTextureInfo = this.getTextureInfo(pointer);
+		if (prevLink) prevLink.dispose();
+		if (!texture) {
+			if (prevTextureInfo) prevTextureInfo.dispose();
+			return this;
+		}
+
+		this.addGraphChild(this.textures, this.graph.linkTexture(pointer, 0, this, texture));
+		if (!prevTextureInfo) {
+			const textureInfo = this.graph.emitCreate(new TextureInfo(this.graph));
+			this.addGraphChild(this.textureInfos, this.graph.link(pointer, this, textureInfo));
+		}
+		return this;
+	}
+}
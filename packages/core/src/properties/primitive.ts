@@ -1,5 +1,5 @@
 import { PropertyType } from '../constants';
-import { GraphChild, GraphChildList } from '../graph/index';
+import { GraphAttribute, GraphChild, GraphChildList } from '../graph/index';
 import { Link } from '../graph/index';
 import { GLTF } from '../types/gltf';
 import { Accessor } from './accessor';
@@ -80,7 +80,7 @@ export class Primitive extends ExtensibleProperty {
 	 */
 
 	/** @internal GPU draw mode. */
-	private _mode: GLTF.MeshPrimitiveMode = Primitive.Mode.TRIANGLES;
+	@GraphAttribute private mode: GLTF.MeshPrimitiveMode = Primitive.Mode.TRIANGLES;
 
 	@GraphChild private material: Link<Primitive, Material> | null = null;
 	@GraphChild private indices: Link<Primitive, Accessor> | null = null;
@@ -90,7 +90,7 @@ export class Primitive extends ExtensibleProperty {
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._mode = other._mode;
+		this.mode = other.mode;
 
 		this.setIndices(other.indices ? resolve(other.indices.getChild()) : null);
 		this.setMaterial(other.material ? resolve(other.material.getChild()) : null);
@@ -187,7 +187,7 @@ export class Primitive extends ExtensibleProperty {
 	 * Reference:
 	 * - [glTF → `primitive.mode`](https://github.com/KhronosGroup/glTF/blob/master/specification/2.0/README.md#primitivemode)
 	 */
-	public getMode(): GLTF.MeshPrimitiveMode { return this._mode; }
+	public getMode(): GLTF.MeshPrimitiveMode { return this.mode; }
 
 	/**
 	 * Sets the GPU draw mode (`TRIANGLES`, `LINES`, `POINTS`...) as a WebGL enum value.
@@ -196,7 +196,7 @@ export class Primitive extends ExtensibleProperty {
 	 * - [glTF → `primitive.mode`](https://github.com/KhronosGroup/glTF/blob/master/specification/2.0/README.md#primitivemode)
 	 */
 	public setMode(mode: GLTF.MeshPrimitiveMode): this {
-		this._mode = mode;
+		this.mode = mode;
 		return this;
 	}
 
@@ -1,4 +1,4 @@
-import { GraphNode } from '../graph';
+import { GraphAttribute, GraphNode } from '../graph';
 import { PropertyGraph } from './property-graph';
 
 export type PropertyResolver<T extends Property> = (p: T) => T;
@@ -43,13 +43,13 @@ export abstract class Property extends GraphNode {
 	/** Property type. */
 	public abstract readonly propertyType: string;
 
-	private _extras: Record<string, unknown> = {};
-	private _name = '';
+	@GraphAttribute private extras: Record<string, unknown> = {};
+	@GraphAttribute private name = '';
 
 	/** @hidden */
 	constructor(protected readonly graph: PropertyGraph, name = '') {
 		super(graph);
-		this._name = name;
+		this.name = name;
 	}
 
 	/**********************************************************************************************
@@ -61,7 +61,7 @@ export abstract class Property extends GraphNode {
 	 * encouraged, and non-unique names will be overwritten in some tools. For custom data about
 	 * a property, prefer to use Extras.
 	 */
-	public getName(): string { return this._name; }
+	public getName(): string { return this.name; }
 
 	/**
 	 * Sets the name of this property. While names are not required to be unique, this is
@@ -69,7 +69,7 @@ export abstract class Property extends GraphNode {
 	 * a property, prefer to use Extras.
 	 */
 	public setName(name: string): this {
-		this._name = name;
+		this.name = name;
 		return this;
 	}
 
@@ -78,17 +78,18 @@ export abstract class Property extends GraphNode {
 	 */
 
 	/**
-	 * Returns a reference to the Extras object, containing application-specific data for this
-	 * Property. Extras should be an Object, not a primitive value, for best portability.
+	 * Returns a copy of the Extras object, containing application-specific data for this
+	 * Property. Extras should be an Object, not a primitive value, for best portability. To
+	 * modify extras, pass the edited copy to {@link setExtras}.
 	 */
-	public getExtras(): Record<string, unknown> { return this._extras; }
+	public getExtras(): Record<string, unknown> { return JSON.parse(JSON.stringify(this.extras)); }
 
 	/**
 	 * Updates the Extras object, containing application-specific data for this Property. Extras
 	 * should be an Object, not a primitive value, for best portability.
 	 */
 	public setExtras(extras: Record<string, unknown>): this {
-		this._extras = extras;
+		this.extras = JSON.parse(JSON.stringify(extras));
 		return this;
 	}
 
@@ -102,6 +103,7 @@ export abstract class Property extends GraphNode {
 	public clone(): this {
 		const PropertyClass = this.constructor as new(g: PropertyGraph) => this;
 		const child = new PropertyClass(this.graph).copy(this, COPY_IDENTITY);
+		this.graph.emitCreate(child);
 
 		// Root needs this event to link cloned properties.
 		this.graph.emit('clone', child);
@@ -116,8 +118,8 @@ export abstract class Property extends GraphNode {
 	 * @param resolve Function to resolve each Property being transferred. Default is identity.
 	 */
 	public copy(other: this, _resolve: PropertyResolver<Property> = COPY_IDENTITY): this {
-		this._name = other._name;
-		this._extras = JSON.parse(JSON.stringify(other._extras));
+		this.name = other.name;
+		this.extras = JSON.parse(JSON.stringify(other.extras));
 		return this;
 	}
 
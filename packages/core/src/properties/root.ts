@@ -12,6 +12,7 @@ import { Node } from './node';
 import { COPY_IDENTITY, Property } from './property';
 import { PropertyGraph } from './property-graph';
 import { Scene } from './scene';
+import { Selector, matchSelector } from './selector';
 import { Skin } from './skin';
 import { Texture } from './texture';
 
@@ -73,7 +74,7 @@ export class Root extends Property {
 	/** @internal */
 	constructor (graph: PropertyGraph) {
 		super(graph);
-		graph.on('clone', (target) => this._addChildOfRoot(target));
+		graph.on('clone', (event) => this._addChildOfRoot(event.target));
 	}
 
 	public clone(): this {
@@ -158,16 +159,57 @@ export class Root extends Property {
 
 	/** @internal */
 	public _enableExtension(extension: Extension): this {
+		if (this._extensions.has(extension)) return this;
 		this._extensions.add(extension);
+		this.graph.getHistory().record({
+			undo: () => this._extensions.delete(extension),
+			redo: () => this._extensions.add(extension),
+		});
 		return this;
 	}
 
 	/** @internal */
 	public _disableExtension(extension: Extension): this {
+		if (!this._extensions.has(extension)) return this;
 		this._extensions.delete(extension);
+		this.graph.getHistory().record({
+			undo: () => this._extensions.add(extension),
+			redo: () => this._extensions.delete(extension),
+		});
 		return this;
 	}
 
+	/**********************************************************************************************
+	 * Queries.
+	 */
+
+	/**
+	 * Returns all properties in the {@link Document} matching the given {@link Selector}. Results
+	 * are unique, listed first in the order of the root's lists (accessors, animations, buffers,
+	 * ...), followed by properties not held directly by the root, like {@link Primitive} and
+	 * {@link ExtensionProperty} instances.
+	 *
+	 * Usage:
+	 *
+	 * ```ts
+	 * const wheels = root.select<Node>({type: PropertyType.NODE, name: 'Wheel*'});
+	 * const glass = root.select<Material>({type: PropertyType.MATERIAL, extras: {glass: true}});
+	 * ```
+	 */
+	public select<T extends Property = Property>(selector: Selector): T[] {
+		const results: T[] = [];
+		const visited = new Set<Property>([this]);
+		const queue: Property[] = this.graph.listChildren(this);
+		for (let i = 0; i < queue.length; i++) {
+			const property = queue[i];
+			if (visited.has(property)) continue;
+			visited.add(property);
+			if (matchSelector(this.graph, property, selector)) results.push(property as T);
+			for (const child of this.graph.listChildren(property)) queue.push(child);
+		}
+		return results;
+	}
+
 	/**********************************************************************************************
 	 * Scenes.
 	 */
@@ -46,8 +46,8 @@ export class Scene extends ExtensibleProperty {
 		this.addGraphChild(this.children, link);
 
 		// Set new parent.
-		node._parent = this;
-		link.onDispose(() => node._parent = null);
+		node._setParent(this);
+		link.onDispose(() => node._setParent(null));
 		return this;
 	}
 
@@ -0,0 +1,160 @@
+import { PropertyType } from '../constants';
+import { ExtensibleProperty } from './extensible-property';
+import type { Property } from './property';
+import type { PropertyGraph } from './property-graph';
+
+/**
+ * # Selector
+ *
+ * *Describes properties to be selected from a {@link Document}, with {@link Root.select}.*
+ *
+ * A property matches a selector if it satisfies every condition given. Relationships — parent,
+ * child, ancestor, and descendant — follow references between properties, such that a
+ * {@link Mesh} is a child of each {@link Node} instantiating it, and a {@link Texture} is a
+ * descendant of each {@link Mesh} whose materials use it. The {@link Root} is not considered
+ * a parent of other properties.
+ *
+ * Usage:
+ *
+ * ```ts
+ * // Nodes under 'Vehicle*', whose mesh uses material 'Glass'.
+ * const nodes = doc.getRoot().select<Node>({
+ * 	type: PropertyType.NODE,
+ * 	ancestor: {type: PropertyType.NODE, name: 'Vehicle*'},
+ * 	child: {type: PropertyType.MESH, descendant: {type: PropertyType.MATERIAL, name: 'Glass'}},
+ * });
+ *
+ * // Materials with clearcoat, tagged for export.
+ * const materials = doc.getRoot().select<Material>({
+ * 	type: PropertyType.MATERIAL,
+ * 	extensions: ['KHR_materials_clearcoat'],
+ * 	extras: {export: true},
+ * });
+ * ```
+ *
+ * @category Properties
+ */
+export interface Selector {
+	/** Property type or types, e.g. 'Node' or ['Mesh', 'Material']. See {@link PropertyType}. */
+	type?: string | string[];
+	/**
+	 * Name of the property, as a case-insensitive glob (e.g. 'Vehicle*' or 'Wheel_??') or a
+	 * regular expression.
+	 */
+	name?: string | RegExp;
+	/**
+	 * Extras of the property. Each key must be present, with a value equal to the given value
+	 * or, if a regular expression is given, a string value matching it.
+	 */
+	extras?: Record<string, unknown>;
+	/** Names of extensions the property must have, e.g. ['KHR_materials_clearcoat']. */
+	extensions?: string[];
+	/** Selects properties having at least one parent matching this selector. */
+	parent?: Selector;
+	/** Selects properties having at least one child matching this selector. */
+	child?: Selector;
+	/** Selects properties having at least one ancestor matching this selector. */
+	ancestor?: Selector;
+	/** Selects properties having at least one descendant matching this selector. */
+	descendant?: Selector;
+	/** Custom predicate, for conditions not covered by other options. */
+	filter?: (property: Property) => boolean;
+}
+
+/**
+ * Returns true if the given property matches the selector.
+ *
+ * @internal
+ */
+export function matchSelector(
+		graph: PropertyGraph,
+		property: Property,
+		selector: Selector): boolean {
+	if (selector.type !== undefined) {
+		const types = Array.isArray(selector.type) ? selector.type : [selector.type];
+		if (!types.includes(property.propertyType)) return false;
+	}
+
+	if (selector.name !== undefined) {
+		const pattern = typeof selector.name === 'string'
+			? globToRegExp(selector.name)
+			: selector.name;
+		if (!pattern.test(property.getName())) return false;
+	}
+
+	if (selector.extras !== undefined) {
+		const extras = property.getExtras() || {};
+		for (const key in selector.extras) {
+			if (!matchValue(extras[key], selector.extras[key])) return false;
+		}
+	}
+
+	if (selector.extensions !== undefined) {
+		if (!(property instanceof ExtensibleProperty)) return false;
+		for (const name of selector.extensions) {
+			if (!property.getExtension(name)) return false;
+		}
+	}
+
+	const match = (p: Property, s: Selector) => matchSelector(graph, p, s);
+	const parents = (p: Property) => graph.listParents(p).filter(isNotRoot);
+	const children = (p: Property) => graph.listChildren(p);
+
+	if (selector.parent && !parents(property).some((p) => match(p, selector.parent!))) {
+		return false;
+	}
+
+	if (selector.child && !children(property).some((p) => match(p, selector.child!))) {
+		return false;
+	}
+
+	if (selector.ancestor && !traverse(property, parents, (p) => match(p, selector.ancestor!))) {
+		return false;
+	}
+
+	if (selector.descendant
+			&& !traverse(property, children, (p) => match(p, selector.descendant!))) {
+		return false;
+	}
+
+	if (selector.filter && !selector.filter(property)) return false;
+
+	return true;
+}
+
+/** Returns true if any property reachable from the given property satisfies the predicate. */
+function traverse(
+		property: Property,
+		next: (p: Property) => Property[],
+		predicate: (p: Property) => boolean): boolean {
+	const visited = new Set<Property>([property]);
+	const queue = next(property);
+	for (let i = 0; i < queue.length; i++) {
+		const p = queue[i];
+		if (visited.has(p)) continue;
+		visited.add(p);
+		if (predicate(p)) return true;
+		for (const child of next(p)) queue.push(child);
+	}
+	return false;
+}
+
+function isNotRoot(property: Property): boolean {
+	return property.propertyType !== PropertyType.ROOT;
+}
+
+function matchValue(actual: unknown, expected: unknown): boolean {
+	if (expected instanceof RegExp) {
+		return typeof actual === 'string' && expected.test(actual);
+	}
+	return JSON.stringify(actual) === JSON.stringify(expected) && actual !== undefined;
+}
+
+/** Converts a glob, supporting '*' and '?' wildcards, to a case-insensitive RegExp. */
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${source}$`, 'i');
+}
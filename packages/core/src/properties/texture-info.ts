@@ -1,4 +1,5 @@
 import { PropertyType } from '../constants';
+import { GraphAttribute } from '../graph';
 import { GLTF } from '../types/gltf';
 import { ExtensibleProperty } from './extensible-property';
 import { COPY_IDENTITY } from './property';
@@ -67,22 +68,22 @@ export class TextureInfo extends ExtensibleProperty {
 	 * Instance.
 	 */
 
-	private _texCoord = 0;
+	@GraphAttribute private texCoord = 0;
 
 	// Sampler properties are also attached to TextureInfo, for simplicity.
-	private _magFilter: GLTF.TextureMagFilter | null = null;
-	private _minFilter: GLTF.TextureMinFilter | null = null;
-	private _wrapS: GLTF.TextureWrapMode = TextureInfo.WrapMode.REPEAT;
-	private _wrapT: GLTF.TextureWrapMode = TextureInfo.WrapMode.REPEAT;
+	@GraphAttribute private magFilter: GLTF.TextureMagFilter | null = null;
+	@GraphAttribute private minFilter: GLTF.TextureMinFilter | null = null;
+	@GraphAttribute private wrapS: GLTF.TextureWrapMode = TextureInfo.WrapMode.REPEAT;
+	@GraphAttribute private wrapT: GLTF.TextureWrapMode = TextureInfo.WrapMode.REPEAT;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._texCoord = other._texCoord;
-		this._magFilter = other._magFilter;
-		this._minFilter = other._minFilter;
-		this._wrapS = other._wrapS;
-		this._wrapT = other._wrapT;
+		this.texCoord = other.texCoord;
+		this.magFilter = other.magFilter;
+		this.minFilter = other.minFilter;
+		this.wrapS = other.wrapS;
+		this.wrapT = other.wrapT;
 
 		return this;
 	}
@@ -92,11 +93,11 @@ export class TextureInfo extends ExtensibleProperty {
 	*/
 
 	/** Returns the texture coordinate (UV set) index for the texture. */
-	public getTexCoord(): number { return this._texCoord; }
+	public getTexCoord(): number { return this.texCoord; }
 
 	/** Sets the texture coordinate (UV set) index for the texture. */
 	public setTexCoord(texCoord: number): this {
-		this._texCoord = texCoord;
+		this.texCoord = texCoord;
 		return this;
 	}
 
@@ -105,20 +106,20 @@ export class TextureInfo extends ExtensibleProperty {
 	*/
 
 	/** Returns the magnification filter applied to the texture. */
-	public getMagFilter(): GLTF.TextureMagFilter | null { return this._magFilter; }
+	public getMagFilter(): GLTF.TextureMagFilter | null { return this.magFilter; }
 
 	/** Sets the magnification filter applied to the texture. */
 	public setMagFilter(magFilter: GLTF.TextureMagFilter | null): this {
-		this._magFilter = magFilter;
+		this.magFilter = magFilter;
 		return this;
 	}
 
 	/** Sets the minification filter applied to the texture. */
-	public getMinFilter(): GLTF.TextureMinFilter | null { return this._minFilter; }
+	public getMinFilter(): GLTF.TextureMinFilter | null { return this.minFilter; }
 
 	/** Returns the minification filter applied to the texture. */
 	public setMinFilter(minFilter: GLTF.TextureMinFilter | null): this {
-		this._minFilter = minFilter;
+		this.minFilter = minFilter;
 		return this;
 	}
 
@@ -127,20 +128,20 @@ export class TextureInfo extends ExtensibleProperty {
 	*/
 
 	/** Returns the S (U) wrapping mode for UVs used by the texture. */
-	public getWrapS(): GLTF.TextureWrapMode { return this._wrapS; }
+	public getWrapS(): GLTF.TextureWrapMode { return this.wrapS; }
 
 	/** Sets the S (U) wrapping mode for UVs used by the texture. */
 	public setWrapS(wrapS: GLTF.TextureWrapMode): this {
-		this._wrapS = wrapS;
+		this.wrapS = wrapS;
 		return this;
 	}
 
 	/** Returns the T (V) wrapping mode for UVs used by the texture. */
-	public getWrapT(): GLTF.TextureWrapMode { return this._wrapT; }
+	public getWrapT(): GLTF.TextureWrapMode { return this.wrapT; }
 
 	/** Sets the T (V) wrapping mode for UVs used by the texture. */
 	public setWrapT(wrapT: GLTF.TextureWrapMode): this {
-		this._wrapT = wrapT;
+		this.wrapT = wrapT;
 		return this;
 	}
 }
@@ -1,4 +1,5 @@
 import { PropertyType, vec2 } from '../constants';
+import { GraphAttribute } from '../graph';
 import { FileUtils, ImageUtils } from '../utils';
 import { ExtensibleProperty } from './extensible-property';
 import { COPY_IDENTITY } from './property';
@@ -27,21 +28,28 @@ export class Texture extends ExtensibleProperty {
 	public readonly propertyType = PropertyType.TEXTURE;
 
 	/** @internal Raw image data for this texture. */
-	private _image: ArrayBuffer | null = null;
+	@GraphAttribute private image: ArrayBuffer | null = null;
 
 	/** @internal Image MIME type. Required if URI is not set. */
-	private _mimeType = '';
+	@GraphAttribute private mimeType = '';
 
 	/** @internal Image URI. Required if MIME type is not set. */
-	private _uri = '';
+	@GraphAttribute private uri = '';
+
+	/** @internal Deferred image data, read on first access. See {@link NodeIO.setLazy}. */
+	private lazy: LazyImage | null = null;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._mimeType = other._mimeType;
-		this._uri = other._uri;
+		this.mimeType = other.mimeType;
+		this.uri = other.uri;
 
-		if (other._image) this._image = other._image.slice(0);
+		if (other.image) this.image = other.image.slice(0);
+		if (other.lazy) {
+			const {read, image} = other.lazy;
+			this.lazy = {read, image: image ? image.slice(0) : null};
+		}
 
 		return this;
 	}
@@ -52,7 +60,7 @@ export class Texture extends ExtensibleProperty {
 
 	/** Returns the MIME type for this texture ('image/jpeg' or 'image/png'). */
 	public getMimeType(): string {
-		return this._mimeType || ImageUtils.extensionToMimeType(FileUtils.extension(this._uri));
+		return this.mimeType || ImageUtils.extensionToMimeType(FileUtils.extension(this.uri));
 	}
 
 	/**
@@ -60,7 +68,7 @@ export class Texture extends ExtensibleProperty {
 	 * have a URI, a MIME type is required for correct export.
 	 */
 	public setMimeType(mimeType: string): this {
-		this._mimeType = mimeType;
+		this.mimeType = mimeType;
 		return this;
 	}
 
@@ -70,7 +78,7 @@ export class Texture extends ExtensibleProperty {
 
 	/** Returns the URI (e.g. 'path/to/file.png') for this texture. */
 	public getURI(): string {
-		return this._uri;
+		return this.uri;
 	}
 
 	/**
@@ -78,8 +86,8 @@ export class Texture extends ExtensibleProperty {
 	 * type, a URI is required for correct export.
 	 */
 	public setURI(uri: string): this {
-		this._uri = uri;
-		this._mimeType = ImageUtils.extensionToMimeType(FileUtils.extension(uri));
+		this.uri = uri;
+		this.mimeType = ImageUtils.extensionToMimeType(FileUtils.extension(uri));
 		return this;
 	}
 
@@ -87,18 +95,58 @@ export class Texture extends ExtensibleProperty {
 	 * Image data.
 	 */
 
-	/** Returns the raw image data for this texture. */
-	public getImage(): ArrayBuffer | null { return this._image; }
+	/**
+	 * Returns the raw image data for this texture. For textures read lazily, data is read from
+	 * the source file on first access.
+	 */
+	public getImage(): ArrayBuffer | null {
+		if (this.image || !this.lazy) return this.image;
+		return this.lazy.image || (this.lazy.image = this.lazy.read());
+	}
 
 	/** Sets the raw image data for this texture. */
 	public setImage(image: ArrayBuffer): this {
-		this._image = image;
+		this.image = image;
 		return this;
 	}
 
 	/** Returns the size, in pixels, of this texture. */
 	public getSize(): vec2 | null {
-		if (!this._image) return null;
-		return ImageUtils.getSize(this._image, this.getMimeType());
+		const image = this.getImage();
+		if (!image) return null;
+		return ImageUtils.getSize(image, this.getMimeType());
+	}
+
+	/**
+	 * Assigns a deferred source for the image data, read on first access. Image data assigned
+	 * later with {@link setImage} takes precedence.
+	 * @internal
+	 */
+	public _setLazyImage(read: () => ArrayBuffer): this {
+		this.lazy = {read, image: null};
+		return this;
+	}
+
+	/**
+	 * Whether the image data is deferred, and has not yet been read from the source.
+	 * @internal
+	 */
+	public _isLazyUnread(): boolean {
+		return !this.image && !!this.lazy && !this.lazy.image;
+	}
+
+	/**
+	 * Releases deferred data read from the source, to be read again on next access.
+	 * @internal
+	 */
+	public _releaseLazyData(): this {
+		if (this.lazy) this.lazy.image = null;
+		return this;
 	}
 }
+
+/** @internal Deferred image data of a texture, and its contents once read. */
+interface LazyImage {
+	read: () => ArrayBuffer;
+	image: ArrayBuffer | null;
+}
@@ -24,6 +24,22 @@ export class BufferUtils {
 		}
 	}
 
+	/** Creates a base64-encoded Data URI from an ArrayBuffer. */
+	static createDataURIFromBuffer(buffer: ArrayBuffer, mimeType: string): string {
+		if (typeof Buffer === 'undefined') {
+			// Browser.
+			const array = new Uint8Array(buffer);
+			let byteString = '';
+			for (let i = 0; i < array.length; i++) {
+				byteString += String.fromCharCode(array[i]);
+			}
+			return `data:${mimeType};base64,${btoa(byteString)}`;
+		} else {
+			// Node.js.
+			return `data:${mimeType};base64,${Buffer.from(buffer).toString('base64')}`;
+		}
+	}
+
 	/** Encodes text to an ArrayBuffer. */
 	static encodeText(text: string): ArrayBuffer {
 		if (typeof TextEncoder !== 'undefined') {
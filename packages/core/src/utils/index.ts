@@ -5,4 +5,6 @@ export * from './file-utils';
 export * from './image-utils';
 export * from './math-utils';
 export * from './logger';
+export * from './sha256';
 export * from './uuid';
+export * from './zip-utils';
@@ -0,0 +1,90 @@
+/**
+ * SHA-256 round constants: the first 32 bits of the fractional parts of the cube roots of the
+ * first 64 primes.
+ */
+const SHA256_K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+	0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+	0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+	0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+	0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Returns the SHA-256 digest ([FIPS 180-4](https://csrc.nist.gov/publications/detail/fips/180/4/final))
+ * of the given bytes, as eight 32-bit words.
+ *
+ * @category Utilities
+ * @hidden
+ */
+export function sha256(data: Uint8Array): Uint32Array {
+	const state = new Uint32Array([
+		0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+		0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+	]);
+	const words = new Uint32Array(64);
+
+	// Full blocks are read in place. The remainder is padded with a 1 bit, zeros, and the
+	// message length in bits, as a 64-bit big-endian integer.
+	const remainder = data.length % 64;
+	const fullLength = data.length - remainder;
+	const tail = new Uint8Array(remainder < 56 ? 64 : 128);
+	tail.set(data.subarray(fullLength));
+	tail[remainder] = 0x80;
+	const tailView = new DataView(tail.buffer);
+	tailView.setUint32(tail.length - 8, Math.floor(data.length / 0x20000000));
+	tailView.setUint32(tail.length - 4, (data.length * 8) >>> 0);
+
+	for (let i = 0; i < fullLength; i += 64) sha256Block(state, words, data, i);
+	for (let i = 0; i < tail.length; i += 64) sha256Block(state, words, tail, i);
+	return state;
+}
+
+function sha256Block(
+		state: Uint32Array, words: Uint32Array, data: Uint8Array, offset: number): void {
+	for (let t = 0; t < 16; t++) {
+		const i = offset + t * 4;
+		words[t] = (data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3];
+	}
+	for (let t = 16; t < 64; t++) {
+		const w15 = words[t - 15];
+		const w2 = words[t - 2];
+		const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+		const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+		words[t] = words[t - 16] + s0 + words[t - 7] + s1;
+	}
+
+	let [a, b, c, d, e, f, g, h] = Array.from(state);
+	for (let t = 0; t < 64; t++) {
+		const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+		const ch = (e & f) ^ (~e & g);
+		const t1 = (h + s1 + ch + SHA256_K[t] + words[t]) | 0;
+		const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+		const maj = (a & b) ^ (a & c) ^ (b & c);
+		const t2 = (s0 + maj) | 0;
+		h = g;
+		g = f;
+		f = e;
+		e = (d + t1) | 0;
+		d = c;
+		c = b;
+		b = a;
+		a = (t1 + t2) | 0;
+	}
+
+	state[0] += a;
+	state[1] += b;
+	state[2] += c;
+	state[3] += d;
+	state[4] += e;
+	state[5] += f;
+	state[6] += g;
+	state[7] += h;
+}
+
+function rotr(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
@@ -0,0 +1,236 @@
+import { IOErrorCode, ReadError } from '../io/io-error';
+import { BufferUtils } from './buffer-utils';
+
+const LOCAL_FILE_HEADER = 0x04034B50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+
+const ZIP_VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const DOS_DATE = (1 << 5) | 1; // 1980-01-01.
+
+let crcTable: Uint32Array | null = null;
+
+/** Decompresses raw DEFLATE data, as stored in a .zip archive. */
+export type ZipInflate = (data: Uint8Array) => Uint8Array;
+
+/** Decompresses raw DEFLATE data, as stored in a .zip archive, without blocking. */
+export type ZipInflateAsync = (data: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+interface ZipEntry {
+	path: string;
+	method: number;
+	data: Uint8Array;
+}
+
+/**
+ * # ZipUtils
+ *
+ * *Utilities for packaging files in .zip archives.*
+ *
+ * Written entries are stored without compression: glTF resources are typically binary buffers
+ * and already-compressed images, for which deflate offers little benefit. Reading supports both
+ * stored and deflated entries, with decompression provided by the caller — for example,
+ * `zlib.inflateRawSync` in Node.js.
+ *
+ * @category Utilities
+ */
+export class ZipUtils {
+	/**
+	 * Unpacks a .zip archive into a map of paths and file contents. Directory entries are
+	 * omitted. Throws a {@link ReadError} with code `INVALID_ARCHIVE` if the archive is
+	 * malformed, or uses unsupported features like ZIP64.
+	 * @param zip Contents of the .zip archive.
+	 * @param inflate Decompresses deflated entries. Required only if the archive has any.
+	 */
+	static unzip(zip: ArrayBuffer, inflate?: ZipInflate): Record<string, ArrayBuffer> {
+		const files: Record<string, ArrayBuffer> = {};
+		for (const {path, method, data} of readEntries(zip)) {
+			if (method === METHOD_STORE) {
+				files[path] = toArrayBuffer(data);
+			} else if (inflate) {
+				files[path] = toArrayBuffer(inflate(data));
+			} else {
+				throw new Error(`Missing inflate function for deflated entry, "${path}".`);
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Unpacks a .zip archive into a map of paths and file contents, without blocking. If no
+	 * inflate function is given, deflated entries are decompressed with the `DecompressionStream`
+	 * API, where available. Rejects with a {@link ReadError}, as {@link unzip} throws.
+	 * @param zip Contents of the .zip archive.
+	 * @param inflate Decompresses deflated entries.
+	 */
+	static async unzipAsync(
+			zip: ArrayBuffer,
+			inflate: ZipInflateAsync = inflateStream): Promise<Record<string, ArrayBuffer>> {
+		const files: Record<string, ArrayBuffer> = {};
+		await Promise.all(readEntries(zip).map(async ({path, method, data}) => {
+			files[path] = toArrayBuffer(method === METHOD_STORE ? data : await inflate(data));
+		}));
+		return files;
+	}
+
+	/** Packages a map of paths and file contents into a .zip archive. */
+	static zip(files: Record<string, ArrayBuffer>): ArrayBuffer {
+		const localChunks: ArrayBuffer[] = [];
+		const centralChunks: ArrayBuffer[] = [];
+		let byteOffset = 0;
+
+		for (const path in files) {
+			const name = new Uint8Array(BufferUtils.encodeText(path));
+			const data = files[path];
+			const crc = crc32(new Uint8Array(data));
+
+			const local = new DataView(new ArrayBuffer(30 + name.byteLength));
+			local.setUint32(0, LOCAL_FILE_HEADER, true);
+			local.setUint16(4, ZIP_VERSION, true);
+			local.setUint16(6, FLAG_UTF8, true);
+			local.setUint16(8, METHOD_STORE, true);
+			local.setUint16(10, 0, true);
+			local.setUint16(12, DOS_DATE, true);
+			local.setUint32(14, crc, true);
+			local.setUint32(18, data.byteLength, true);
+			local.setUint32(22, data.byteLength, true);
+			local.setUint16(26, name.byteLength, true);
+			local.setUint16(28, 0, true);
+			new Uint8Array(local.buffer).set(name, 30);
+
+			const central = new DataView(new ArrayBuffer(46 + name.byteLength));
+			central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+			central.setUint16(4, ZIP_VERSION, true);
+			central.setUint16(6, ZIP_VERSION, true);
+			central.setUint16(8, FLAG_UTF8, true);
+			central.setUint16(10, METHOD_STORE, true);
+			central.setUint16(12, 0, true);
+			central.setUint16(14, DOS_DATE, true);
+			central.setUint32(16, crc, true);
+			central.setUint32(20, data.byteLength, true);
+			central.setUint32(24, data.byteLength, true);
+			central.setUint16(28, name.byteLength, true);
+			central.setUint32(42, byteOffset, true);
+			new Uint8Array(central.buffer).set(name, 46);
+
+			localChunks.push(local.buffer, data);
+			centralChunks.push(central.buffer);
+			byteOffset += local.byteLength + data.byteLength;
+		}
+
+		const centralByteLength = centralChunks
+			.reduce((length, chunk) => length + chunk.byteLength, 0);
+
+		const end = new DataView(new ArrayBuffer(22));
+		end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+		end.setUint16(8, centralChunks.length, true);
+		end.setUint16(10, centralChunks.length, true);
+		end.setUint32(12, centralByteLength, true);
+		end.setUint32(16, byteOffset, true);
+
+		return BufferUtils.concat([...localChunks, ...centralChunks, end.buffer]);
+	}
+}
+
+function readEntries(zip: ArrayBuffer): ZipEntry[] {
+	const view = new DataView(zip);
+
+	// Find the end of central directory record, followed by a comment of up to 64 KB.
+	let end = zip.byteLength - 22;
+	const minEnd = Math.max(0, end - 0xFFFF);
+	while (end >= minEnd && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--;
+	if (end < minEnd) throw createArchiveError('Missing end of central directory.');
+
+	const entryCount = view.getUint16(end + 10, true);
+	let byteOffset = view.getUint32(end + 16, true);
+	if (entryCount === 0xFFFF || byteOffset === 0xFFFFFFFF) {
+		throw createArchiveError('ZIP64 is not supported.');
+	}
+
+	const entries: ZipEntry[] = [];
+	for (let i = 0; i < entryCount; i++) {
+		if (byteOffset + 46 > end
+				|| view.getUint32(byteOffset, true) !== CENTRAL_DIRECTORY_HEADER) {
+			throw createArchiveError(`Invalid central directory entry at byte ${byteOffset}.`);
+		}
+
+		const method = view.getUint16(byteOffset + 10, true);
+		const compressedSize = view.getUint32(byteOffset + 20, true);
+		const nameLength = view.getUint16(byteOffset + 28, true);
+		const extraLength = view.getUint16(byteOffset + 30, true);
+		const commentLength = view.getUint16(byteOffset + 32, true);
+		const localOffset = view.getUint32(byteOffset + 42, true);
+		if (byteOffset + 46 + nameLength > end) {
+			throw createArchiveError(`Invalid central directory entry at byte ${byteOffset}.`);
+		}
+		const path = BufferUtils.decodeText(
+			zip.slice(byteOffset + 46, byteOffset + 46 + nameLength)
+		);
+		byteOffset += 46 + nameLength + extraLength + commentLength;
+
+		if (path.endsWith('/')) continue;
+		if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+			throw createArchiveError(
+				`Unsupported compression method, "${method}", for entry "${path}".`
+			);
+		}
+
+		if (localOffset + 30 > zip.byteLength
+				|| view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+			throw createArchiveError(`Invalid local file header for entry "${path}".`);
+		}
+		const dataOffset = localOffset + 30
+			+ view.getUint16(localOffset + 26, true)
+			+ view.getUint16(localOffset + 28, true);
+		if (dataOffset + compressedSize > zip.byteLength) {
+			throw createArchiveError(`Unexpected end of archive, reading entry "${path}".`);
+		}
+		entries.push({path, method, data: new Uint8Array(zip, dataOffset, compressedSize)});
+	}
+	return entries;
+}
+
+function createArchiveError(message: string): ReadError {
+	return new ReadError(IOErrorCode.INVALID_ARCHIVE, `Invalid .zip archive: ${message}`);
+}
+
+// DecompressionStream is not yet included in TypeScript's DOM library.
+type DecompressionStreamConstructor =
+	new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+async function inflateStream(data: Uint8Array): Promise<Uint8Array> {
+	const {DecompressionStream} = globalThis as unknown as
+		{DecompressionStream?: DecompressionStreamConstructor};
+	if (!DecompressionStream) {
+		throw new Error('Missing inflate function, and DecompressionStream is unavailable.');
+	}
+	const stream = (new Blob([data]).stream() as ReadableStream<Uint8Array>)
+		.pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toArrayBuffer(array: Uint8Array): ArrayBuffer {
+	return array.buffer.slice(array.byteOffset, array.byteOffset + array.byteLength);
+}
+
+function crc32(array: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let i = 0; i < 256; i++) {
+			let c = i;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[i] = c;
+		}
+	}
+
+	let crc = 0xFFFFFFFF;
+	for (let i = 0; i < array.length; i++) {
+		crc = crcTable[(crc ^ array[i]) & 0xFF] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xFFFFFFFF) >>> 0;
+}
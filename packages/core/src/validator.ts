@@ -0,0 +1,430 @@
+import type { Document } from './document';
+import { Accessor, AnimationSampler, Node, Primitive, PrimitiveTarget } from './properties';
+import { GLTF } from './types/gltf';
+
+/**
+ * Severity of a {@link ValidationIssue}, matching the severities reported by the official
+ * [glTF-Validator](https://github.com/KhronosGroup/glTF-Validator).
+ *
+ * @category Validation
+ */
+export enum ValidationSeverity {
+	ERROR = 0,
+	WARNING = 1,
+	INFO = 2,
+	HINT = 3,
+}
+
+/** @category Validation */
+export interface ValidationIssue {
+	/** Issue code, e.g. 'ACCESSOR_INDEX_OOB'. */
+	code: string;
+	severity: ValidationSeverity;
+	message: string;
+	/**
+	 * JSON pointer to the property, as it would be written to a glTF file. For example,
+	 * '/meshes/0/primitives/1/attributes/NORMAL'.
+	 */
+	path: string;
+}
+
+/** @category Validation */
+export interface ValidationReport {
+	issues: ValidationIssue[];
+	/** Number of issues with severity {@link ValidationSeverity.ERROR}. */
+	errors: number;
+	/** Number of issues with severity {@link ValidationSeverity.WARNING}. */
+	warnings: number;
+}
+
+/** @category Validation */
+export interface ValidationOptions {
+	/** Issue codes to be ignored. */
+	ignore?: string[];
+}
+
+const DEFAULT_OPTIONS: Required<ValidationOptions> = {
+	ignore: [],
+};
+
+/** Tolerance for unit length, and for sums of normalized weights. */
+const EPSILON = 2e-3;
+
+/**
+ * Validates a {@link Document} in memory, without writing it to a file, and returns a report of
+ * the issues found. The validator checks invariants that glTF-Transform does not enforce while
+ * editing, and which would otherwise be detected only after writing the file, such as:
+ *
+ * - Attributes of a {@link Primitive} with different vertex counts
+ * - Vertex indices out of range
+ * - Non-normalized skinning weights
+ * - {@link Skin} inverse bind matrices not matching the skin's joints
+ * - Non-finite accessor values and node transforms
+ * - Animation samplers with mismatched or non-increasing keyframes
+ *
+ * The validator is not a replacement for the official
+ * [glTF-Validator](https://github.com/KhronosGroup/glTF-Validator), which checks the written
+ * file against the complete glTF specification. Because it does not require serializing the
+ * Document, it may be run after each step of a pipeline:
+ *
+ * ```ts
+ * import { validate } from '@gltf-transform/core';
+ *
+ * await doc.transform(weld(), myCustomTransform());
+ *
+ * const report = validate(doc);
+ * for (const issue of report.issues) {
+ * 	console.log(`${issue.code} at ${issue.path}: ${issue.message}`);
+ * }
+ * ```
+ *
+ * @category Validation
+ */
+export function validate(
+		doc: Document,
+		_options: ValidationOptions = DEFAULT_OPTIONS): ValidationReport {
+	const options = {...DEFAULT_OPTIONS, ..._options} as Required<ValidationOptions>;
+	const ignore = new Set(options.ignore);
+	const issues: ValidationIssue[] = [];
+
+	const report = (
+			code: string,
+			severity: ValidationSeverity,
+			path: string,
+			message: string): void => {
+		if (!ignore.has(code)) issues.push({code, severity, message, path});
+	};
+
+	const root = doc.getRoot();
+	const accessorIndices = new Map<Accessor, number>();
+	root.listAccessors().forEach((accessor, index) => accessorIndices.set(accessor, index));
+
+	// Accessors.
+	root.listAccessors().forEach((accessor, index) => {
+		validateAccessor(accessor, `/accessors/${index}`, report);
+	});
+
+	// Meshes.
+	root.listMeshes().forEach((mesh, meshIndex) => {
+		mesh.listPrimitives().forEach((prim, primIndex) => {
+			validatePrimitive(prim, `/meshes/${meshIndex}/primitives/${primIndex}`, report);
+		});
+	});
+
+	// Nodes.
+	root.listNodes().forEach((node, index) => {
+		validateNode(node, `/nodes/${index}`, report);
+	});
+
+	// Skins.
+	root.listSkins().forEach((skin, index) => {
+		const path = `/skins/${index}`;
+		const joints = skin.listJoints();
+		const ibm = skin.getInverseBindMatrices();
+
+		if (!joints.length) {
+			report('SKIN_NO_JOINTS', ValidationSeverity.ERROR, path, 'Skin has no joints.');
+		}
+
+		if (ibm) {
+			if (ibm.getType() !== Accessor.Type.MAT4) {
+				report('SKIN_IBM_INVALID_TYPE', ValidationSeverity.ERROR, path,
+					`Inverse bind matrices must have type MAT4, found ${ibm.getType()}.`);
+			} else if (ibm.getCount() !== joints.length) {
+				report('SKIN_IBM_COUNT_MISMATCH', ValidationSeverity.ERROR, path,
+					`Skin has ${joints.length} joints, but ${ibm.getCount()} inverse bind`
+					+ ' matrices.');
+			}
+		}
+
+		// Joint indices of skinned meshes must be less than the number of joints.
+		for (const parent of skin.listParents()) {
+			if (!(parent instanceof Node) || parent.getSkin() !== skin) continue;
+			const mesh = parent.getMesh();
+			if (!mesh) continue;
+			for (const prim of mesh.listPrimitives()) {
+				for (const semantic of prim.listSemantics()) {
+					if (!semantic.startsWith('JOINTS_')) continue;
+					const accessor = prim.getAttribute(semantic)!;
+					const max = getMax(accessor);
+					if (max >= joints.length) {
+						report('SKIN_JOINT_INDEX_OOB', ValidationSeverity.ERROR,
+							`/accessors/${accessorIndices.get(accessor)}`,
+							`Joint index ${max} exceeds number of joints (${joints.length}) in`
+							+ ` skin ${index}.`);
+					}
+				}
+			}
+		}
+	});
+
+	// Animations.
+	root.listAnimations().forEach((animation, animIndex) => {
+		const samplers = animation.listSamplers();
+		animation.listChannels().forEach((channel, index) => {
+			const path = `/animations/${animIndex}/channels/${index}`;
+			const sampler = channel.getSampler();
+			if (!channel.getTargetNode()) {
+				report('ANIMATION_CHANNEL_NO_TARGET', ValidationSeverity.WARNING, path,
+					'Animation channel has no target node.');
+			}
+			if (!sampler || !samplers.includes(sampler)) {
+				report('ANIMATION_CHANNEL_INVALID_SAMPLER', ValidationSeverity.ERROR, path,
+					'Animation channel sampler is missing, or not a sampler of its animation.');
+			} else if (channel.getTargetPath() !== 'weights') {
+				const output = sampler.getOutput();
+				const expected = TARGET_PATH_TYPES[channel.getTargetPath() || ''];
+				if (output && expected && output.getType() !== expected) {
+					report('ANIMATION_CHANNEL_INVALID_OUTPUT_TYPE', ValidationSeverity.ERROR, path,
+						`Output of '${channel.getTargetPath()}' channel must have type ${expected},`
+						+ ` found ${output.getType()}.`);
+				}
+			}
+		});
+		samplers.forEach((sampler, index) => {
+			validateSampler(sampler, `/animations/${animIndex}/samplers/${index}`, report);
+		});
+	});
+
+	// Textures.
+	root.listTextures().forEach((texture, index) => {
+		const path = `/images/${index}`;
+		const image = texture.getImage();
+		if (!image || !image.byteLength) {
+			report('IMAGE_EMPTY', ValidationSeverity.ERROR, path, 'Texture has no image data.');
+		}
+		if (!texture.getMimeType()) {
+			report('IMAGE_NO_MIME_TYPE', ValidationSeverity.ERROR, path,
+				'Texture has no MIME type, and cannot be written.');
+		}
+	});
+
+	return {
+		issues,
+		errors: issues.filter((issue) => issue.severity === ValidationSeverity.ERROR).length,
+		warnings: issues.filter((issue) => issue.severity === ValidationSeverity.WARNING).length,
+	};
+}
+
+type ReportFn = (code: string, severity: ValidationSeverity, path: string, message: string) => void;
+
+const TARGET_PATH_TYPES: Record<string, GLTF.AccessorType> = {
+	translation: 'VEC3',
+	rotation: 'VEC4',
+	scale: 'VEC3',
+};
+
+function validateAccessor(accessor: Accessor, path: string, report: ReportFn): void {
+	const array = accessor.getArray();
+	if (!array || !array.length) {
+		report('ACCESSOR_EMPTY', ValidationSeverity.ERROR, path, 'Accessor has no data.');
+		return;
+	}
+
+	if (array.length % accessor.getElementSize() !== 0) {
+		report('ACCESSOR_INVALID_LENGTH', ValidationSeverity.ERROR, path,
+			`Array length ${array.length} is not a multiple of ${accessor.getType()} element`
+			+ ' size.');
+	}
+
+	if (accessor.getComponentType() === Accessor.ComponentType.FLOAT) {
+		for (let i = 0; i < array.length; i++) {
+			if (!isFinite(array[i])) {
+				report('ACCESSOR_NON_FINITE', ValidationSeverity.ERROR, path,
+					`Accessor contains non-finite value at index ${i}.`);
+				break;
+			}
+		}
+	}
+
+	if (!accessor.getBuffer()) {
+		report('ACCESSOR_NO_BUFFER', ValidationSeverity.WARNING, path,
+			'Accessor is not assigned to a Buffer.');
+	}
+}
+
+function validatePrimitive(prim: Primitive, path: string, report: ReportFn): void {
+	const semantics = prim.listSemantics();
+	const position = prim.getAttribute('POSITION') || prim.listAttributes()[0];
+	const count = position ? position.getCount() : undefined;
+
+	if (!prim.getAttribute('POSITION')) {
+		report('MESH_PRIMITIVE_NO_POSITION', ValidationSeverity.WARNING, path,
+			'Primitive has no POSITION attribute.');
+	}
+
+	for (const semantic of semantics) {
+		const attribute = prim.getAttribute(semantic)!;
+		if (count !== undefined && attribute.getCount() !== count) {
+			report('MESH_PRIMITIVE_UNEQUAL_ACCESSOR_COUNT', ValidationSeverity.ERROR,
+				`${path}/attributes/${semantic}`,
+				`Attribute ${semantic} has ${attribute.getCount()} elements, expected ${count}.`);
+		}
+	}
+
+	// Indices.
+	const indices = prim.getIndices();
+	if (indices && count !== undefined) {
+		const max = getMax(indices);
+		if (max >= count) {
+			report('ACCESSOR_INDEX_OOB', ValidationSeverity.ERROR, `${path}/indices`,
+				`Index ${max} exceeds vertex count (${count}).`);
+		}
+	}
+	const vertexCount = indices ? indices.getCount() : count;
+	if (vertexCount !== undefined && !isValidVertexCount(prim.getMode(), vertexCount)) {
+		report('MESH_PRIMITIVE_INCOMPATIBLE_MODE', ValidationSeverity.WARNING, path,
+			`Vertex count ${vertexCount} is invalid for primitive mode ${prim.getMode()}.`);
+	}
+
+	// Skinning.
+	const joints = semantics.filter((semantic) => semantic.startsWith('JOINTS_'));
+	const weights = semantics.filter((semantic) => semantic.startsWith('WEIGHTS_'));
+	if (joints.length !== weights.length) {
+		report('MESH_PRIMITIVE_JOINTS_WEIGHTS_MISMATCH', ValidationSeverity.ERROR, path,
+			`Primitive has ${joints.length} JOINTS_n and ${weights.length} WEIGHTS_n attributes.`);
+	} else if (weights.length && count !== undefined) {
+		validateWeights(weights.map((s) => prim.getAttribute(s)!), count, path, report);
+	}
+
+	// Morph targets.
+	prim.listTargets().forEach((target: PrimitiveTarget, targetIndex) => {
+		for (const semantic of target.listSemantics()) {
+			const attribute = target.getAttribute(semantic)!;
+			if (!prim.getAttribute(semantic)) {
+				report('MESH_PRIMITIVE_MORPH_TARGET_INVALID_ATTRIBUTE', ValidationSeverity.ERROR,
+					`${path}/targets/${targetIndex}/${semantic}`,
+					`Morph target attribute ${semantic} is not present on the primitive.`);
+			}
+			if (count !== undefined && attribute.getCount() !== count) {
+				report('MESH_PRIMITIVE_UNEQUAL_ACCESSOR_COUNT', ValidationSeverity.ERROR,
+					`${path}/targets/${targetIndex}/${semantic}`,
+					`Morph target attribute ${semantic} has ${attribute.getCount()} elements,`
+					+ ` expected ${count}.`);
+			}
+		}
+	});
+}
+
+function validateWeights(
+		weights: Accessor[],
+		count: number,
+		path: string,
+		report: ReportFn): void {
+	const el: number[] = [];
+	for (let i = 0; i < count; i++) {
+		let sum = 0;
+		for (const accessor of weights) {
+			if (i >= accessor.getCount()) continue;
+			accessor.getElement(i, el);
+			for (let j = 0; j < el.length; j++) sum += el[j];
+		}
+		if (Math.abs(sum - 1) > EPSILON) {
+			report('ACCESSOR_WEIGHTS_NON_NORMALIZED', ValidationSeverity.ERROR, path,
+				`Weights of vertex ${i} sum to ${Number(sum.toFixed(5))}, expected 1.`);
+			return;
+		}
+	}
+}
+
+function validateNode(node: Node, path: string, report: ReportFn): void {
+	const transform = [...node.getTranslation(), ...node.getRotation(), ...node.getScale()];
+	if (!transform.every((v) => isFinite(v))) {
+		report('NODE_NON_FINITE_TRANSFORM', ValidationSeverity.ERROR, path,
+			'Node has a non-finite translation, rotation, or scale.');
+	}
+
+	const [x, y, z, w] = node.getRotation();
+	if (Math.abs(Math.hypot(x, y, z, w) - 1) > EPSILON) {
+		report('ROTATION_NON_UNIT', ValidationSeverity.ERROR, path,
+			'Node rotation is not a unit quaternion.');
+	}
+
+	// Cycles: a node must not be its own ancestor.
+	const visited = new Set<Node>();
+	let parent = node.getParent();
+	while (parent instanceof Node) {
+		if (parent === node || visited.has(parent)) {
+			report('NODE_LOOP', ValidationSeverity.ERROR, path, 'Node is its own ancestor.');
+			break;
+		}
+		visited.add(parent);
+		parent = parent.getParent();
+	}
+
+	const mesh = node.getMesh();
+	if (node.getSkin() && mesh) {
+		const skinned = mesh.listPrimitives()
+			.some((prim) => !!prim.getAttribute('JOINTS_0') && !!prim.getAttribute('WEIGHTS_0'));
+		if (!skinned) {
+			report('NODE_SKIN_NO_JOINTS_WEIGHTS', ValidationSeverity.ERROR, path,
+				'Node has a skin, but its mesh has no JOINTS_0 and WEIGHTS_0 attributes.');
+		}
+	}
+}
+
+function validateSampler(sampler: AnimationSampler, path: string, report: ReportFn): void {
+	const input = sampler.getInput();
+	const output = sampler.getOutput();
+
+	if (!input || !output) {
+		report('ANIMATION_SAMPLER_NO_ACCESSOR', ValidationSeverity.ERROR, path,
+			'Animation sampler is missing input or output accessor.');
+		return;
+	}
+
+	if (input.getType() !== Accessor.Type.SCALAR) {
+		report('ANIMATION_SAMPLER_INPUT_INVALID_TYPE', ValidationSeverity.ERROR, path,
+			`Animation sampler input must have type SCALAR, found ${input.getType()}.`);
+		return;
+	}
+
+	let prev = -Infinity;
+	for (let i = 0; i < input.getCount(); i++) {
+		const t = input.getScalar(i);
+		if (t <= prev) {
+			report('ANIMATION_SAMPLER_INPUT_NON_INCREASING', ValidationSeverity.ERROR, path,
+				`Animation sampler input is not strictly increasing at keyframe ${i}.`);
+			break;
+		}
+		prev = t;
+	}
+
+	// For morph target weights, output contains one element per target, per keyframe.
+	const keyframes = input.getCount()
+		* (sampler.getInterpolation() === AnimationSampler.Interpolation.CUBICSPLINE ? 3 : 1);
+	const valid = output.getType() === Accessor.Type.SCALAR
+		? keyframes > 0 && output.getCount() % keyframes === 0
+		: output.getCount() === keyframes;
+	if (!valid) {
+		report('ANIMATION_SAMPLER_OUTPUT_COUNT_MISMATCH', ValidationSeverity.ERROR, path,
+			`Animation sampler output has ${output.getCount()} elements, expected ${keyframes}`
+			+ ` (${sampler.getInterpolation()}).`);
+	}
+}
+
+/** Returns the maximum scalar value in an accessor. */
+function getMax(accessor: Accessor): number {
+	const array = accessor.getArray();
+	if (!array) return -Infinity;
+	let max = -Infinity;
+	for (let i = 0; i < array.length; i++) max = Math.max(max, array[i]);
+	return max;
+}
+
+function isValidVertexCount(mode: GLTF.MeshPrimitiveMode, count: number): boolean {
+	switch (mode) {
+		case Primitive.Mode.LINES:
+			return count % 2 === 0;
+		case Primitive.Mode.LINE_LOOP:
+		case Primitive.Mode.LINE_STRIP:
+			return count >= 2;
+		case Primitive.Mode.TRIANGLES:
+			return count % 3 === 0;
+		case Primitive.Mode.TRIANGLE_STRIP:
+		case Primitive.Mode.TRIANGLE_FAN:
+			return count >= 3;
+		default:
+			return true;
+	}
+}
@@ -1,7 +1,7 @@
 require('source-map-support').install();
 
 import test from 'tape';
-import { Document } from '../';
+import { Document, Node } from '../';
 
 test('@gltf-transform/core::document | transform', async t => {
 	const doc = new Document();
@@ -65,6 +65,46 @@ test('@gltf-transform/core::document | clone', t => {
 	t.end();
 });
 
+test('@gltf-transform/core::document | extract', t => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const texture = doc.createTexture('Grain');
+	const material = doc.createMaterial('Wood').setBaseColorTexture(texture);
+	const position = doc.createAccessor('POSITION').setBuffer(buffer);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setMaterial(material);
+	const chairMesh = doc.createMesh('ChairMesh').addPrimitive(prim);
+	const tableMesh = doc.createMesh('TableMesh');
+	const chair = doc.createNode('Chair').setMesh(chairMesh)
+		.addChild(doc.createNode('Cushion'));
+	const table = doc.createNode('Table').setMesh(tableMesh);
+	doc.createScene('Room').addChild(chair).addChild(table);
+
+	const chairDoc = doc.extract([chair]);
+	const root = chairDoc.getRoot();
+
+	t.deepEqual(root.listNodes().map((n) => n.getName()), ['Chair', 'Cushion'], 'nodes');
+	t.deepEqual(root.listMeshes().map((m) => m.getName()), ['ChairMesh'], 'meshes');
+	t.deepEqual(root.listMaterials().map((m) => m.getName()), ['Wood'], 'materials');
+	t.deepEqual(root.listTextures().map((t) => t.getName()), ['Grain'], 'textures');
+	t.equal(root.listAccessors().length, 1, 'accessors');
+	t.equal(root.listBuffers().length, 1, 'buffers');
+	t.equal(root.listMaterials()[0].getBaseColorTexture(), root.listTextures()[0], 'links');
+	t.notEqual(root.listNodes()[0], chair, 'does not reference old node');
+	t.equal(root.listScenes().length, 1, 'creates scene');
+	t.deepEqual(root.getDefaultScene()!.listChildren(), [root.listNodes()[0]], 'scene roots');
+	t.equal(doc.getRoot().listNodes().length, 3, 'original unchanged');
+
+	const meshDoc = doc.extract([tableMesh]);
+	const meshNode = meshDoc.getRoot().listNodes()[0];
+	t.ok(meshNode instanceof Node, 'creates node for mesh');
+	t.equal(meshNode.getMesh(), meshDoc.getRoot().listMeshes()[0], 'node references mesh');
+
+	const sceneDoc = doc.extract([doc.getRoot().listScenes()[0]]);
+	t.equal(sceneDoc.getRoot().listScenes().length, 1, 'extracts scene');
+	t.equal(sceneDoc.getRoot().listNodes().length, 3, 'extracts scene nodes');
+	t.end();
+});
+
 test('@gltf-transform/core::document | defaults', t => {
 	// offering to the code coverage gods.
 	const doc = new Document();
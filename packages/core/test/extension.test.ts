@@ -14,7 +14,7 @@ class GizmoExtension extends Extension {
 	}
 
 	createGizmo() {
-		return new Gizmo(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Gizmo(this.doc.getGraph(), this));
 	}
 
 	write(context: WriterContext): this {
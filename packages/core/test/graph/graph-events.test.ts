@@ -0,0 +1,216 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, GraphEvent, Material, Node, Property, PropertyType } from '../../';
+
+test('@gltf-transform/core::graph-events | attributes', t => {
+	const doc = new Document();
+	const node = doc.createNode('A');
+	const events: GraphEvent[] = [];
+
+	node.on('change', (event) => events.push(event));
+	node.setTranslation([1, 2, 3]).setName('B');
+	node.setName('B');
+
+	t.deepEqual(events.map((e) => e.type), ['change', 'change'], 'event types');
+	t.deepEqual(events[0], {
+		type: 'change',
+		target: node,
+		attribute: 'translation',
+		value: [1, 2, 3],
+		previousValue: [0, 0, 0],
+	}, 'translation event');
+	t.deepEqual(events[1], {
+		type: 'change',
+		target: node,
+		attribute: 'name',
+		value: 'B',
+		previousValue: 'A',
+	}, 'name event');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | in-place attributes', t => {
+	const doc = new Document();
+	const material = doc.createMaterial();
+	const accessor = doc.createAccessor()
+		.setType(Accessor.Type.VEC2)
+		.setArray(new Float32Array([1, 2, 3, 4]));
+	const events: string[] = [];
+
+	doc.getGraph().on('change', (event) => events.push(event.attribute));
+	material.setAlpha(0.5).setBaseColorHex(0x252525).setEmissiveHex(0x111111);
+	accessor.setScalar(0, 5).setElement(1, [6, 7]);
+
+	t.deepEqual(events, [
+		'baseColorFactor',
+		'baseColorFactor',
+		'emissiveFactor',
+		'array',
+		'array',
+	], 'change events');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | in-place attributes, transaction', t => {
+	const doc = new Document();
+	const accessor = doc.createAccessor()
+		.setType(Accessor.Type.VEC2)
+		.setArray(new Float32Array(2000));
+	const events: string[] = [];
+
+	accessor.on('change', (event) => events.push(event.attribute));
+	doc.getHistory().begin();
+	for (let i = 0; i < accessor.getCount(); i++) accessor.setElement(i, [i, i]);
+	doc.getHistory().commit();
+
+	t.deepEqual(events, ['array'], 'one change event per transaction');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | emit', t => {
+	const doc = new Document();
+	const graph = doc.getGraph();
+	const node = doc.createNode();
+	const events: GraphEvent[] = [];
+
+	node.on('dispose', (event) => events.push(event));
+	graph.emit('dispose', node);
+
+	t.deepEqual(events, [{type: 'dispose', target: node}], 'emits node event by type and target');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | links', t => {
+	const doc = new Document();
+	const texture = doc.createTexture();
+	const material = doc.createMaterial();
+	const events: string[] = [];
+
+	material.on('link', (event) => events.push(`link:${event.link.getName()}`));
+	material.on('unlink', (event) => events.push(`unlink:${event.link.getName()}`));
+
+	material.setBaseColorTexture(texture);
+	material.setEmissiveTexture(texture);
+	texture.dispose();
+
+	t.deepEqual(events, [
+		'link:baseColorTexture',
+		'link:emissiveTexture',
+		'unlink:baseColorTexture',
+		'unlink:emissiveTexture',
+	], 'link events');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | lifecycle', t => {
+	const doc = new Document();
+	const graph = doc.getGraph();
+	const events: string[] = [];
+	const listener = (event: GraphEvent<Property>): void => {
+		if (event.target instanceof Material) events.push(`${event.type}:Material`);
+		if (event.target instanceof Node) events.push(`${event.type}:Node`);
+	};
+
+	graph.on('create', listener).on('dispose', listener).on('clone', listener);
+
+	const material = doc.createMaterial();
+	const materialClone = material.clone();
+	material.dispose();
+	doc.createNode();
+
+	t.deepEqual(events, [
+		'create:Material',
+		'create:Material',
+		'clone:Material',
+		'dispose:Material',
+		'create:Node',
+	], 'lifecycle events');
+
+	events.length = 0;
+	graph.off('create', listener);
+	doc.createNode();
+	t.deepEqual(events, [], 'removes listener');
+
+	t.deepEqual(doc.getRoot().listMaterials(), [materialClone], 'clone added to root');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | create', t => {
+	const doc = new Document();
+	const events: string[] = [];
+
+	doc.getGraph().on('create', (event) => {
+		if (event.target.propertyType === PropertyType.TEXTURE_INFO) return;
+		events.push(`${event.target.propertyType}:${event.target.getName()}`);
+	});
+
+	doc.createNode('A');
+	doc.createMaterial('B').clone();
+	doc.createPrimitive();
+
+	t.deepEqual(events, [
+		'Node:A',
+		'Material:B',
+		'Material:B',
+		'Primitive:',
+	], 'fields initialized');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-events | history', t => {
+	const doc = new Document();
+	const scene = doc.createScene();
+	const node = doc.createNode();
+	const history = doc.getHistory();
+	const events: string[] = [];
+
+	const graph = doc.getGraph();
+	graph.on('change', (event) => events.push(`change:${event.attribute}:${event.value}`));
+	graph.on('link', (event) => {
+		if (event.target === scene) events.push(`link:${event.link.getName()}`);
+	});
+	graph.on('unlink', (event) => {
+		if (event.target === scene) events.push(`unlink:${event.link.getName()}`);
+	});
+	graph.on('create', (event) => {
+		if (event.target instanceof Node) events.push('create:Node');
+	});
+	graph.on('dispose', (event) => {
+		if (event.target instanceof Node) events.push('dispose:Node');
+	});
+
+	history.begin();
+	node.setName('A');
+	scene.addChild(node);
+	node.dispose();
+	history.commit();
+
+	t.deepEqual(events, [
+		'change:name:A',
+		'link:child',
+		'unlink:child',
+		'dispose:Node',
+	], 'transaction events');
+
+	events.length = 0;
+	history.undo();
+
+	t.deepEqual(events, [
+		'create:Node',
+		'link:child',
+		'unlink:child',
+		'change:name:',
+	], 'undo events');
+
+	events.length = 0;
+	history.redo();
+
+	t.deepEqual(events, [
+		'change:name:A',
+		'link:child',
+		'unlink:child',
+		'dispose:Node',
+	], 'redo events');
+	t.end();
+});
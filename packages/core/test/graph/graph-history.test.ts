@@ -0,0 +1,255 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Material, vec4 } from '../../';
+
+test('@gltf-transform/core::graph-history | attributes', t => {
+	const doc = new Document();
+	const node = doc.createNode('A').setTranslation([1, 2, 3]);
+	const history = doc.getHistory();
+
+	history.begin();
+	node.setTranslation([4, 5, 6]).setName('B');
+	history.commit();
+
+	t.deepEqual(node.getTranslation(), [4, 5, 6], 'committed translation');
+	t.ok(history.canUndo(), 'can undo');
+
+	history.undo();
+	t.deepEqual(node.getTranslation(), [1, 2, 3], 'undo translation');
+	t.equal(node.getName(), 'A', 'undo name');
+	t.ok(history.canRedo(), 'can redo');
+
+	history.redo();
+	t.deepEqual(node.getTranslation(), [4, 5, 6], 'redo translation');
+	t.equal(node.getName(), 'B', 'redo name');
+
+	history.begin();
+	node.setMatrix([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 7, 8, 9, 1]);
+	history.rollback();
+	t.deepEqual(node.getTranslation(), [4, 5, 6], 'rollback matrix');
+
+	const translation = node.getTranslation();
+	translation[0] = 10;
+	t.deepEqual(node.getTranslation(), [4, 5, 6], 'getter returns copy');
+	node.setTranslation(translation);
+	translation[0] = 20;
+	t.deepEqual(node.getTranslation(), [10, 5, 6], 'setter stores copy');
+
+	const extras = {a: {b: 1}};
+	node.setExtras(extras);
+	extras.a.b = 2;
+	(node.getExtras().a as {b: number}).b = 3;
+	t.deepEqual(node.getExtras(), {a: {b: 1}}, 'extras are copied');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | links', t => {
+	const doc = new Document();
+	const texture = doc.createTexture('tex');
+	const material = doc.createMaterial('mat');
+	const mesh = doc.createMesh('mesh');
+	const node = doc.createNode('node').setMesh(mesh);
+	const history = doc.getHistory();
+
+	history.begin();
+	material.setBaseColorTexture(texture);
+	mesh.dispose();
+	history.commit();
+
+	t.equal(material.getBaseColorTexture(), texture, 'linked texture');
+	t.equal(node.getMesh(), null, 'disposed mesh (1/2)');
+	t.deepEqual(doc.getRoot().listMeshes(), [], 'disposed mesh (2/2)');
+
+	history.undo();
+
+	t.equal(material.getBaseColorTexture(), null, 'undo texture link');
+	t.equal(node.getMesh(), mesh, 'restored mesh (1/3)');
+	t.deepEqual(doc.getRoot().listMeshes(), [mesh], 'restored mesh (2/3)');
+	t.notOk(mesh.isDisposed(), 'restored mesh (3/3)');
+	t.deepEqual(texture.listParents(), [doc.getRoot()], 'texture parents');
+
+	history.redo();
+
+	t.equal(material.getBaseColorTexture(), texture, 'redo texture link');
+	t.equal(node.getMesh(), null, 'redo dispose (1/2)');
+	t.ok(mesh.isDisposed(), 'redo dispose (2/2)');
+
+	// Restored links should behave normally.
+	history.undo();
+	mesh.dispose();
+	t.equal(node.getMesh(), null, 'dispose restored mesh');
+	t.deepEqual(doc.getRoot().listMeshes(), [], 'dispose restored mesh from root');
+	t.notOk(history.canRedo(), 'changes outside transaction clear redo stack');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | hierarchy', t => {
+	const doc = new Document();
+	const scene = doc.createScene();
+	const a = doc.createNode('A');
+	const b = doc.createNode('B');
+	scene.addChild(a);
+	const history = doc.getHistory();
+
+	history.begin();
+	a.addChild(b);
+	scene.addChild(b);
+	history.commit();
+
+	t.equal(b.getParent(), scene, 'reparented');
+
+	history.undo();
+	t.equal(b.getParent(), null, 'undo parent');
+	t.deepEqual(a.listChildren(), [], 'undo children');
+	t.deepEqual(scene.listChildren(), [a], 'undo scene children');
+
+	history.redo();
+	t.equal(b.getParent(), scene, 'redo parent');
+	t.deepEqual(scene.listChildren(), [a, b], 'redo scene children');
+
+	history.undo();
+	a.addChild(b);
+	t.equal(b.getParent(), a, 'reparent restored node (1/2)');
+	t.deepEqual(scene.listChildren(), [a], 'reparent restored node (2/2)');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | material attributes', t => {
+	// [label, attribute, setter, getter, initial value, new value]
+	type Case = [
+		string,
+		string,
+		(m: Material, v: unknown) => Material,
+		(m: Material) => unknown,
+		unknown,
+		unknown,
+	];
+	const cases: Case[] = [
+		['name', 'name', (m, v) => m.setName(v as string), (m) => m.getName(), 'A', 'B'],
+		[
+			'baseColorFactor', 'baseColorFactor',
+			(m, v) => m.setBaseColorFactor(v as vec4), (m) => m.getBaseColorFactor(),
+			[1, 0, 0, 1], [0, 1, 0, 1],
+		],
+		[
+			'alpha', 'baseColorFactor',
+			(m, v) => m.setAlpha(v as number), (m) => m.getAlpha(),
+			1, 0.5,
+		],
+		[
+			'baseColorHex', 'baseColorFactor',
+			(m, v) => m.setBaseColorHex(v as number), (m) => m.getBaseColorHex(),
+			0x000000, 0x252525,
+		],
+		[
+			'emissiveHex', 'emissiveFactor',
+			(m, v) => m.setEmissiveHex(v as number), (m) => m.getEmissiveHex(),
+			0x000000, 0x111111,
+		],
+		[
+			'metallicFactor', 'metallicFactor',
+			(m, v) => m.setMetallicFactor(v as number), (m) => m.getMetallicFactor(),
+			1, 0.25,
+		],
+		[
+			'doubleSided', 'doubleSided',
+			(m, v) => m.setDoubleSided(v as boolean), (m) => m.getDoubleSided(),
+			false, true,
+		],
+	];
+
+	for (const [label, attribute, set, get, initial, value] of cases) {
+		const doc = new Document();
+		const material = set(doc.createMaterial(), initial);
+		const history = doc.getHistory();
+		const events: string[] = [];
+		material.on('change', (event) => events.push(event.attribute));
+
+		history.begin();
+		set(material, value);
+		history.commit();
+		t.deepEqual(events, [attribute], `${label}: change event`);
+
+		history.undo();
+		t.deepEqual(get(material), initial, `${label}: undo`);
+		history.redo();
+		t.deepEqual(get(material), value, `${label}: redo`);
+	}
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | accessors', t => {
+	const doc = new Document();
+	const accessor = doc.createAccessor()
+		.setType(Accessor.Type.VEC2)
+		.setArray(new Float32Array([1, 2, 3, 4]));
+	const history = doc.getHistory();
+
+	history.begin();
+	accessor.setElement(0, [10, 20]);
+	accessor.setElement(1, [30, 40]);
+	accessor.setNormalized(true);
+	history.commit();
+
+	history.undo();
+	t.deepEqual(Array.from(accessor.getArray()!), [1, 2, 3, 4], 'undo setElement');
+	t.equal(accessor.getNormalized(), false, 'undo normalized');
+
+	history.redo();
+	t.deepEqual(Array.from(accessor.getArray()!), [10, 20, 30, 40], 'redo setElement');
+	t.equal(accessor.getNormalized(), true, 'redo normalized');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | nested transactions', t => {
+	const doc = new Document();
+	const history = doc.getHistory();
+
+	history.begin();
+	doc.createMaterial('A');
+	history.begin();
+	doc.createMaterial('B');
+	history.rollback();
+	doc.createMaterial('C');
+	history.commit();
+
+	t.deepEqual(doc.getRoot().listMaterials().map((m) => m.getName()), ['A', 'C'], 'rollback');
+	t.throws(() => history.commit(), /no transaction/i, 'unbalanced commit');
+
+	history.undo();
+	t.deepEqual(doc.getRoot().listMaterials(), [], 'undo');
+	t.end();
+});
+
+test('@gltf-transform/core::graph-history | transform', async t => {
+	const doc = new Document();
+	const history = doc.getHistory();
+
+	await doc.transform((d) => { d.createTexture('A'); });
+	t.notOk(history.canUndo(), 'disabled by default');
+
+	history.setEnabled(true);
+
+	await doc.transform(
+		(d) => { d.createTexture('B'); },
+		(d) => { d.getRoot().listTextures()[0].dispose(); },
+	);
+
+	const names = (): string[] => doc.getRoot().listTextures().map((t) => t.getName());
+	t.deepEqual(names(), ['B'], 'transformed');
+
+	history.undo();
+	t.deepEqual(names(), ['A'], 'undo transform as a unit');
+
+	try {
+		await doc.transform(
+			(d) => { d.createTexture('C'); },
+			() => { throw new Error('Oops'); },
+		);
+	} catch (e) {
+		t.equal(e.message, 'Oops', 'rethrows error');
+	}
+	t.deepEqual(names(), ['A'], 'rollback failed transform');
+	t.end();
+});
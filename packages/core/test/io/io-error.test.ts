@@ -0,0 +1,191 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { validateBytes } from 'gltf-validator';
+import { Document, Format, IOError, IOErrorCode, JSONDocument, Logger, NodeIO, ReadError, WriteError } from '../../';
+
+function createJSONDocument(): JSONDocument {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const position = doc.createAccessor('POSITION')
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position);
+	doc.createScene().addChild(doc.createNode().setMesh(doc.createMesh().addPrimitive(prim)));
+	return new NodeIO().writeJSON(doc, {basename: 'test'});
+}
+
+test('@gltf-transform/core::io-error | strict', t => {
+	const io = new NodeIO();
+
+	const jsonDoc = createJSONDocument();
+	jsonDoc.json.meshes![0].primitives[0].material = 5;
+	try {
+		io.readJSON(jsonDoc);
+		t.fail('unresolved reference');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'instanceof ReadError');
+		t.ok(e instanceof IOError, 'instanceof IOError');
+		t.equals(e.code, IOErrorCode.UNRESOLVED_REFERENCE, 'code');
+		t.equals(e.pointer, '/meshes/0/primitives/0/material', 'pointer');
+		t.equals(e.recoverable, true, 'recoverable');
+	}
+
+	const invalidDoc = createJSONDocument();
+	invalidDoc.json.accessors![0].componentType = 1234 as 5126;
+	try {
+		io.readJSON(invalidDoc);
+		t.fail('invalid component type');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.INVALID_COMPONENT_TYPE, 'code');
+		t.equals(e.pointer, '/accessors/0/componentType', 'pointer');
+		t.equals(e.recoverable, false, 'not recoverable');
+	}
+
+	try {
+		io.readJSON({json: {asset: {version: '3.0'}}, resources: {}});
+		t.fail('unknown version');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.UNKNOWN_ASSET_MAJOR_VERSION, 'code');
+		t.equals(e.pointer, '/asset/version', 'pointer');
+	}
+	t.end();
+});
+
+test('@gltf-transform/core::io-error | lenient', t => {
+	const io = new NodeIO()
+		.setLogger(new Logger(Logger.Verbosity.SILENT))
+		.setLenient(true);
+
+	const jsonDoc = createJSONDocument();
+	jsonDoc.json.meshes![0].primitives[0].material = 5;
+	jsonDoc.json.images = [{uri: 'missing.png'}];
+	jsonDoc.json.textures = [{source: 0}];
+
+	const doc = io.readJSON(jsonDoc);
+	const root = doc.getRoot();
+	t.equals(root.listMeshes()[0].listPrimitives()[0].getMaterial(), null, 'drops reference');
+	t.equals(root.listTextures()[0].getImage(), null, 'skips missing image');
+	t.deepEquals(
+		io.lastReadWarnings.map((warning) => [warning.code, warning.pointer]),
+		[
+			[IOErrorCode.MISSING_RESOURCE, '/images/0/uri'],
+			[IOErrorCode.UNRESOLVED_REFERENCE, '/meshes/0/primitives/0/material'],
+		],
+		'lastReadWarnings'
+	);
+
+	const invalidDoc = createJSONDocument();
+	invalidDoc.json.accessors![0].bufferView = 3;
+	t.throws(() => io.readJSON(invalidDoc), /Missing definition/, 'throws unrecoverable');
+
+	io.readJSON(createJSONDocument());
+	t.equals(io.lastReadWarnings.length, 0, 'resets lastReadWarnings');
+	t.end();
+});
+
+test('@gltf-transform/core::io-error | lenient, missing buffer view', t => {
+	const io = new NodeIO()
+		.setLogger(new Logger(Logger.Verbosity.SILENT))
+		.setLenient(true);
+
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	doc.createAccessor()
+		.setArray(new Float32Array([0, 0, 0, 1]))
+		.setSparse(true)
+		.setBuffer(buffer);
+	const jsonDoc = io.writeJSON(doc, {basename: 'test'});
+	jsonDoc.json.accessors![0].sparse!.values.bufferView = 9;
+
+	try {
+		io.readJSON(jsonDoc);
+		t.fail('missing buffer view');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'instanceof ReadError');
+		t.equals(e.code, IOErrorCode.UNRESOLVED_REFERENCE, 'code');
+		t.equals(e.pointer, '/accessors/0/sparse/values/bufferView', 'pointer');
+	}
+	t.end();
+});
+
+test('@gltf-transform/core::io-error | lenient, required references', async t => {
+	const io = new NodeIO()
+		.setLogger(new Logger(Logger.Verbosity.SILENT))
+		.setLenient(true);
+
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const position = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const input = doc.createAccessor()
+		.setArray(new Float32Array([0, 1]))
+		.setBuffer(buffer);
+	const output = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 1, 1]))
+		.setBuffer(buffer);
+	const mesh = doc.createMesh()
+		.addPrimitive(doc.createPrimitive().setAttribute('POSITION', position))
+		.addPrimitive(doc.createPrimitive().setAttribute('POSITION', position));
+	const node = doc.createNode().setMesh(mesh);
+	doc.createScene().addChild(node);
+	const samplerA = doc.createAnimationSampler().setInput(input).setOutput(output);
+	const samplerB = doc.createAnimationSampler().setInput(input).setOutput(output);
+	doc.createAnimation()
+		.addSampler(samplerA)
+		.addSampler(samplerB)
+		.addChannel(doc.createAnimationChannel()
+			.setSampler(samplerA).setTargetNode(node).setTargetPath('translation'))
+		.addChannel(doc.createAnimationChannel()
+			.setSampler(samplerB).setTargetNode(node).setTargetPath('scale'))
+		.addChannel(doc.createAnimationChannel()
+			.setSampler(samplerA).setTargetNode(node).setTargetPath('scale'));
+
+	const jsonDoc = io.writeJSON(doc, {format: Format.GLB});
+	const json = jsonDoc.json;
+	json.meshes![0].primitives[1].attributes.POSITION = 9;
+	json.animations![0].samplers[1].input = 9;
+	json.animations![0].channels[2].sampler = 5;
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const rtAnimation = rtDoc.getRoot().listAnimations()[0];
+	t.equals(rtDoc.getRoot().listMeshes()[0].listPrimitives().length, 1, 'drops primitive');
+	t.equals(rtAnimation.listSamplers().length, 1, 'drops sampler');
+	t.deepEquals(
+		rtAnimation.listChannels().map((channel) => channel.getTargetPath()),
+		['translation'],
+		'drops channels'
+	);
+	t.deepEquals(
+		io.lastReadWarnings.map((warning) => warning.pointer),
+		[
+			'/meshes/0/primitives/1/attributes/POSITION',
+			'/animations/0/samplers/1/input',
+			'/animations/0/channels/2/sampler',
+		],
+		'lastReadWarnings'
+	);
+
+	const report = await validateBytes(new Uint8Array(io.writeBinary(rtDoc)));
+	t.equals(report.issues.numErrors, 0, 'writes valid glTF');
+	t.end();
+});
+
+test('@gltf-transform/core::io-error | write', t => {
+	const doc = new Document();
+	doc.createBuffer('A');
+	doc.createBuffer('B');
+	try {
+		new NodeIO().writeJSON(doc, {format: Format.GLB});
+		t.fail('multiple buffers');
+	} catch (e) {
+		t.ok(e instanceof WriteError, 'instanceof WriteError');
+		t.equals(e.code, IOErrorCode.GLB_MULTIPLE_BUFFERS, 'code');
+		t.equals(e.pointer, '/buffers', 'pointer');
+	}
+	t.end();
+});
@@ -3,7 +3,7 @@ require('source-map-support').install();
 const IS_NODEJS = typeof window === 'undefined';
 
 import test from 'tape';
-import { NodeIO } from '../../';
+import { IOErrorCode, NodeIO, ReadError, ResourceMode } from '../../';
 
 let fs, glob, path;
 if (IS_NODEJS) {
@@ -71,3 +71,252 @@ test('@gltf-transform/core::io | node.js write gltf', {skip: !IS_NODEJS}, t => {
 	t.end();
 });
 
+
+test('@gltf-transform/core::io | node.js read async', {skip: !IS_NODEJS}, async t => {
+	const io = new NodeIO();
+	const uris = [
+		path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'),
+		path.join(__dirname, '../in/BoxVertexColors.glb'),
+	];
+
+	const results = await Promise.all(uris.map((uri) => io.readAsync(uri)));
+	const docs = results.map((result) => result.document);
+
+	for (let i = 0; i < uris.length; i++) {
+		const expected = io.writeJSON(io.read(uris[i]));
+		const actual = io.writeJSON(docs[i]);
+		t.deepEqual(actual.json, expected.json, `Read "${path.basename(uris[i])}".`);
+	}
+
+	const gltfDir = path.dirname(uris[0]);
+	const gltfByteLength = fs.readdirSync(gltfDir)
+		.reduce((sum, name) => sum + fs.statSync(path.join(gltfDir, name)).size, 0);
+	t.equal(results[0].byteLength, gltfByteLength, 'byteLength (gltf)');
+	t.equal(results[1].byteLength, fs.statSync(uris[1]).size, 'byteLength (glb)');
+
+	const texture = docs[0].getRoot().listTextures()[0];
+	t.ok(texture.getImage().byteLength > 0, 'reads external image');
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js write async', {skip: !IS_NODEJS}, async t => {
+	const io = new NodeIO();
+	const doc = io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'));
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+
+	const [gltfResult, glbResult] = await Promise.all([
+		io.writeAsync(path.join(dir, 'box.gltf'), doc),
+		io.writeAsync(path.join(dir, 'box.glb'), doc),
+	]);
+
+	t.deepEqual(fs.readdirSync(dir).sort(), [
+		'BoxTextured0.bin',
+		'CesiumLogoFlat.png',
+		'box.glb',
+		'box.gltf',
+	], 'writes resources');
+	const gltfByteLength = ['BoxTextured0.bin', 'CesiumLogoFlat.png', 'box.gltf']
+		.reduce((sum, name) => sum + fs.statSync(path.join(dir, name)).size, 0);
+	t.equal(gltfResult.byteLength, gltfByteLength, 'byteLength (gltf)');
+	t.equal(glbResult.byteLength, fs.statSync(path.join(dir, 'box.glb')).size, 'byteLength (glb)');
+
+	const {document: roundtrip, byteLength} = await io.readAsync(path.join(dir, 'box.gltf'));
+	t.equal(byteLength, gltfByteLength, 'read byteLength');
+	t.deepEqual(
+		io.writeJSON(roundtrip).json,
+		io.writeJSON(doc).json,
+		'roundtrip'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js read embedded gltf', {skip: !IS_NODEJS}, t => {
+	const io = new NodeIO().setResourceMode(ResourceMode.EMBEDDED);
+	const doc = io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'));
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+
+	io.write(path.join(dir, 'box.gltf'), doc);
+	t.deepEqual(fs.readdirSync(dir), ['box.gltf'], 'writes single file');
+
+	const roundtrip = io.read(path.join(dir, 'box.gltf'));
+	t.deepEqual(
+		io.writeJSON(roundtrip).json,
+		io.writeJSON(doc).json,
+		'roundtrip'
+	);
+
+	fs.unlinkSync(path.join(dir, 'box.gltf'));
+	fs.rmdirSync(dir);
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js resource resolver', {skip: !IS_NODEJS}, async t => {
+	const store = new Map<string, ArrayBuffer>();
+	const resolver = {
+		read: (uri: string) => store.get(uri) || null,
+		write: (uri: string, data: ArrayBuffer) => {
+			if (!uri.endsWith('.png')) return null;
+			store.set(`store:${uri}`, data);
+			return `store:${uri}`;
+		},
+	};
+	const io = new NodeIO().setResourceResolver(resolver);
+	const doc = io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'));
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+
+	io.write(path.join(dir, 'box.gltf'), doc);
+	const json = JSON.parse(fs.readFileSync(path.join(dir, 'box.gltf'), 'utf8'));
+
+	t.deepEqual(fs.readdirSync(dir).sort(), ['BoxTextured0.bin', 'box.gltf'], 'writes by default');
+	t.deepEqual(Array.from(store.keys()), ['store:CesiumLogoFlat.png'], 'writes to resolver');
+	t.equal(json.images[0].uri, 'store:CesiumLogoFlat.png', 'references stored resource');
+
+	const image = doc.getRoot().listTextures()[0].getImage();
+	const readImage = (d) => d.getRoot().listTextures()[0].getImage();
+	t.deepEqual(readImage(io.read(path.join(dir, 'box.gltf'))), image, 'read');
+
+	const asyncIO = new NodeIO().setResourceResolver({
+		read: (uri) => Promise.resolve(resolver.read(uri)),
+		write: (uri, data) => Promise.resolve(resolver.write(uri, data)),
+	});
+	await asyncIO.writeAsync(path.join(dir, 'box2.gltf'), doc);
+	const {document: doc2} = await asyncIO.readAsync(path.join(dir, 'box2.gltf'));
+	t.deepEqual(readImage(doc2), image, 'read async');
+	t.throws(
+		() => asyncIO.read(path.join(dir, 'box2.gltf')),
+		/asynchronous I\/O method/,
+		'sync read with async resolver'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js zip', {skip: !IS_NODEJS}, async t => {
+	const io = new NodeIO();
+	const expected = io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'));
+	const zipPath = path.join(__dirname, '../in/BoxTextured.zip');
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+
+	t.deepEqual(
+		io.writeJSON(io.read(zipPath)).json,
+		io.writeJSON(expected).json,
+		'read zip'
+	);
+	t.deepEqual(
+		io.writeJSON((await io.readAsync(zipPath)).document).json,
+		io.writeJSON(expected).json,
+		'read zip async'
+	);
+
+	io.write(path.join(dir, 'box.zip'), expected);
+	t.deepEqual(fs.readdirSync(dir), ['box.zip'], 'write zip');
+	t.deepEqual(
+		io.writeJSON(io.read(path.join(dir, 'box.zip'))).json,
+		io.writeJSON(expected).json,
+		'roundtrip zip'
+	);
+
+	const {byteLength} = await io.writeAsync(path.join(dir, 'box2.zip'), expected);
+	t.equal(byteLength, fs.statSync(path.join(dir, 'box2.zip')).size, 'byteLength');
+	t.deepEqual(
+		io.writeJSON((await io.readAsync(path.join(dir, 'box2.zip'))).document).json,
+		io.writeJSON(expected).json,
+		'write zip async'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js lazy glb', {skip: !IS_NODEJS}, async t => {
+	const io = new NodeIO();
+	const lazyIO = new NodeIO().setLazy(true);
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'box.glb');
+	io.write(uri, io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf')));
+
+	const expected = io.read(uri);
+	const doc = lazyIO.read(uri);
+	const accessors = doc.getRoot().listAccessors();
+	const expectedAccessors = expected.getRoot().listAccessors();
+
+	t.deepEqual(
+		accessors.map((a) => [a.getCount(), a.getComponentType(), a.getByteLength()]),
+		expectedAccessors.map((a) => [a.getCount(), a.getComponentType(), a.getByteLength()]),
+		'accessor layout'
+	);
+	t.deepEqual(accessors[0].getArray(), expectedAccessors[0].getArray(), 'accessor array');
+	t.deepEqual(
+		doc.getRoot().listTextures()[0].getSize(),
+		expected.getRoot().listTextures()[0].getSize(),
+		'texture image'
+	);
+	t.deepEqual(
+		Buffer.from(io.writeBinary(doc)),
+		Buffer.from(io.writeBinary(expected)),
+		'write'
+	);
+
+	accessors[1].setArray(new Float32Array(accessors[1].getCount() * 3));
+	t.equal(accessors[1].getArray()!.every((v) => v === 0), true, 'assigned array');
+
+	const {document: asyncDoc, byteLength} = await lazyIO.readAsync(uri);
+	t.ok(byteLength < fs.statSync(uri).size, 'reads JSON chunk only');
+	t.deepEqual(
+		Buffer.from(io.writeBinary(asyncDoc)),
+		Buffer.from(io.writeBinary(expected)),
+		'read async'
+	);
+
+	// Data first read for writing is released, and read from the file again on next access.
+	fs.writeFileSync(uri, Buffer.alloc(fs.statSync(uri).size));
+	t.deepEqual(accessors[0].getArray(), expectedAccessors[0].getArray(), 'keeps data read');
+	t.ok(accessors[2].getArray()!.every((v) => v === 0), 'releases data read for writing');
+	t.end();
+});
+
+test('@gltf-transform/core::io | node.js streamed glb', {skip: !IS_NODEJS}, async t => {
+	const io = new NodeIO();
+	const streamingIO = new NodeIO().setStreaming(true);
+	const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'box.glb');
+	const expected = io.read(path.join(__dirname, '../in/BoxTextured_glTF/BoxTextured.gltf'));
+	const expectedGLB = Buffer.from(io.writeBinary(expected));
+
+	streamingIO.write(uri, expected);
+	t.deepEqual(fs.readFileSync(uri), expectedGLB, 'write');
+
+	const {byteLength} = await streamingIO.writeAsync(uri, expected);
+	t.deepEqual(fs.readFileSync(uri), expectedGLB, 'write async');
+	t.equal(byteLength, expectedGLB.byteLength, 'write async bytes');
+
+	const openSync = fs.openSync;
+	let openCount = 0;
+	fs.openSync = (...args) => (openCount++, openSync(...args));
+	const doc = streamingIO.read(uri);
+	fs.openSync = openSync;
+	fs.unlinkSync(uri);
+	t.deepEqual(Buffer.from(io.writeBinary(doc)), expectedGLB, 'read');
+	t.equal(openCount, 1, 'read opens file once');
+
+	io.write(uri, expected);
+	const {document: asyncDoc} = await streamingIO.readAsync(uri);
+	fs.unlinkSync(uri);
+	t.deepEqual(Buffer.from(io.writeBinary(asyncDoc)), expectedGLB, 'read async');
+
+	fs.writeFileSync(uri, expectedGLB.slice(0, expectedGLB.byteLength - 16));
+	try {
+		streamingIO.read(uri);
+		t.fail('read truncated');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'read truncated instanceof ReadError');
+		t.equal(e.code, IOErrorCode.MISSING_RESOURCE, 'read truncated code');
+	}
+	try {
+		await streamingIO.readAsync(uri);
+		t.fail('read truncated async');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'read truncated async instanceof ReadError');
+		t.equal(e.code, IOErrorCode.MISSING_RESOURCE, 'read truncated async code');
+	}
+	fs.unlinkSync(uri);
+	fs.rmdirSync(dir);
+	t.end();
+});
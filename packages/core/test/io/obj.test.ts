@@ -0,0 +1,192 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import { BufferUtils, Document, IOErrorCode, Logger, NodeIO, Primitive, writeOBJ } from '../../';
+
+class MockLogger extends Logger {
+	public warnings: string[] = [];
+	constructor() {
+		super(Logger.Verbosity.SILENT);
+	}
+	public warn(text: string): void {
+		this.warnings.push(text);
+	}
+}
+
+const OBJ = `
+# Two quads, the second using relative indices.
+mtllib materials/scene.mtl
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+vt 0 0
+vt 1 0
+vt 1 1
+vt 0 1
+vn 0 0 1
+o Quad
+usemtl Wood
+f 1/1/1 2/2/1 3/3/1 4/4/1
+o Other
+usemtl Glass
+f -4//1 -3//1 \\
+  -2//1
+usemtl Unknown
+f 1 2 3
+p 1
+`;
+
+const MTL = `
+newmtl Wood
+Kd 0.5 0.25 0
+Ks 0.1 0.1 0.1
+Ns 2
+map_Kd -s 1 1 1 ..\\textures\\wood.png
+bump -bm 0.5 textures/missing.png
+illum 2
+
+newmtl Glass
+Kd 1 1 1
+Ks 0 0 0
+d 0.25
+`;
+
+function createOBJFiles(): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	fs.mkdirSync(path.join(dir, 'materials'));
+	fs.mkdirSync(path.join(dir, 'textures'));
+	fs.writeFileSync(path.join(dir, 'scene.obj'), OBJ);
+	fs.writeFileSync(path.join(dir, 'materials', 'scene.mtl'), MTL);
+	fs.writeFileSync(path.join(dir, 'textures', 'wood.png'), Buffer.from('wood'));
+	return path.join(dir, 'scene.obj');
+}
+
+test('@gltf-transform/core::io | read obj', async t => {
+	const uri = createOBJFiles();
+	const logger = new MockLogger();
+	const io = new NodeIO().setLogger(logger).setLenient(true);
+
+	for (const doc of [io.read(uri), (await io.readAsync(uri)).document]) {
+		const root = doc.getRoot();
+		t.deepEquals(root.listMeshes().map((mesh) => mesh.getName()), ['Quad', 'Other'], 'meshes');
+		t.deepEquals(
+			root.getDefaultScene()!.listChildren().map((node) => node.getMesh()),
+			root.listMeshes(),
+			'nodes'
+		);
+
+		const [quad, other] = root.listMeshes();
+		const prim = quad.listPrimitives()[0];
+		t.deepEquals(prim.listSemantics(), ['POSITION', 'NORMAL', 'TEXCOORD_0'], 'attributes');
+		t.deepEquals(Array.from(prim.getIndices()!.getArray()!), [0, 1, 2, 0, 2, 3], 'indices');
+		t.deepEquals(
+			Array.from(prim.getAttribute('TEXCOORD_0')!.getArray()!),
+			[0, 1, 1, 1, 1, 0, 0, 0],
+			'texcoords'
+		);
+		t.deepEquals(
+			other.listPrimitives().map((prim) => prim.getMaterial()!.getName()),
+			['Glass', 'Unknown'],
+			'primitive per material'
+		);
+		t.deepEquals(
+			other.listPrimitives()[0].listSemantics(),
+			['POSITION', 'NORMAL'],
+			'attributes without texcoords'
+		);
+
+		const wood = prim.getMaterial()!;
+		t.deepEquals(wood.getBaseColorFactor(), [0.5, 0.25, 0, 1], 'Kd');
+		t.equals(wood.getRoughnessFactor(), Math.sqrt(0.5), 'Ns');
+		t.equals(wood.getMetallicFactor(), 0, 'metallic');
+		t.equals(wood.getBaseColorTexture()!.getURI(), 'textures/wood.png', 'map_Kd');
+		t.equals(wood.getBaseColorTexture()!.getMimeType(), 'image/png', 'map_Kd mimeType');
+		t.equals(wood.getBaseColorTexture()!.getImage()!.byteLength, 4, 'map_Kd image');
+		t.equals(wood.getNormalScale(), 0.5, 'bump scale');
+		t.equals(wood.getNormalTexture()!.getImage(), null, 'missing bump image');
+
+		const glass = other.listPrimitives()[0].getMaterial()!;
+		t.deepEquals(glass.getBaseColorFactor(), [1, 1, 1, 0.25], 'd');
+		t.equals(glass.getAlphaMode(), 'BLEND', 'alphaMode');
+		t.equals(glass.getRoughnessFactor(), 1, 'roughness without specular');
+	}
+
+	t.deepEquals(io.lastReadWarnings.map((warning) => warning.code), [
+		IOErrorCode.MISSING_RESOURCE
+	], 'missing texture');
+	t.deepEquals(logger.warnings.slice(0, 2), [
+		'OBJ: Unsupported statement "p" was ignored.',
+		'OBJ: Missing material "Unknown".',
+	], 'warnings');
+	t.end();
+});
+
+test('@gltf-transform/core::io | write obj', async t => {
+	const doc = new Document();
+	const position = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]));
+	const normal = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]));
+	const texcoord = doc.createAccessor()
+		.setType('VEC2')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]));
+	const texture = doc.createTexture()
+		.setImage(BufferUtils.encodeText('image'))
+		.setMimeType('image/png');
+	const material = doc.createMaterial('Red')
+		.setBaseColorFactor([1, 0, 0, 0.5])
+		.setAlphaMode('BLEND')
+		.setRoughnessFactor(0.5)
+		.setEmissiveFactor([0, 1, 0])
+		.setBaseColorTexture(texture)
+		.setNormalTexture(texture)
+		.setNormalScale(2);
+	const strip = doc.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('NORMAL', normal)
+		.setAttribute('TEXCOORD_0', texcoord)
+		.setMode(Primitive.Mode.TRIANGLE_STRIP)
+		.setMaterial(material);
+	const node = doc.createNode('Quad')
+		.setMesh(doc.createMesh().addPrimitive(strip))
+		.setTranslation([0, 0, 2]);
+	doc.createScene().addChild(node);
+
+	const files = writeOBJ(doc, {basename: 'quad'});
+	t.deepEquals(Object.keys(files).sort(), ['quad.mtl', 'quad.obj', 'quad.png'], 'files');
+
+	const obj = BufferUtils.decodeText(files['quad.obj']);
+	t.ok(obj.includes('o Quad\n'), 'object');
+	t.ok(obj.includes('v 1 1 2\n'), 'world space positions');
+	t.ok(obj.includes('vt 1 1\n'), 'flipped texcoords');
+	t.ok(obj.includes('f 1/1/1 2/2/2 3/3/3\nf 3/3/3 2/2/2 4/4/4\n'), 'triangulated strip');
+
+	const mtl = BufferUtils.decodeText(files['quad.mtl']);
+	t.deepEquals(mtl.split('\n').slice(2), [
+		'newmtl Red',
+		'Kd 1 0 0',
+		'Ns 6',
+		'd 0.5',
+		'Ke 0 1 0',
+		'map_Kd quad.png',
+		'map_Bump -bm 2 quad.png',
+		'',
+	], 'material');
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const io = new NodeIO();
+	await io.writeAsync(path.join(dir, 'quad.obj'), doc);
+	const result = io.read(path.join(dir, 'quad.obj')).getRoot();
+	const resultMaterial = result.listMaterials()[0];
+	t.equals(result.listMeshes()[0].listPrimitives()[0].getIndices()!.getCount(), 6, 'roundtrip');
+	t.deepEquals(resultMaterial.getBaseColorFactor(), [1, 0, 0, 0.5], 'roundtrip base color');
+	t.equals(resultMaterial.getRoughnessFactor(), 0.5, 'roundtrip roughness');
+	t.equals(resultMaterial.getNormalScale(), 2, 'roundtrip normal scale');
+	t.end();
+});
@@ -1,13 +1,13 @@
 require('source-map-support').install();
 
 import test from 'tape';
-import { Document, Format, NodeIO } from '../../';
+import { Accessor, BufferUtils, Document, Format, NodeIO, ResourceMode, ResourceNaming } from '../../';
 
 test('@gltf-transform/core::io | common', t => {
 	t.throws(() => new NodeIO().readJSON({
-		json: {asset: {version: '1.0'}},
+		json: {asset: {version: '3.0'}},
 		resources: {},
-	}), '1.0');
+	}), '3.0');
 	t.end();
 });
 
@@ -31,3 +31,122 @@ test('@gltf-transform/core::io | glb without buffer', t => {
 	);
 	t.end();
 });
+
+test('@gltf-transform/core::io | embedded resources', t => {
+	const doc = new Document();
+	doc.createAccessor()
+		.setType(Accessor.Type.SCALAR)
+		.setArray(new Float32Array([1, 2, 3]))
+		.setBuffer(doc.createBuffer());
+	doc.createTexture('Image')
+		.setImage(BufferUtils.encodeText('fake image'))
+		.setMimeType('image/png');
+
+	const io = new NodeIO().setResourceMode(ResourceMode.EMBEDDED);
+	const jsonDoc = io.writeJSON(doc, {basename: 'model'});
+	const bufferURI = BufferUtils.createDataURIFromBuffer(
+		new Float32Array([1, 2, 3]).buffer, 'application/octet-stream'
+	);
+	const imageURI = BufferUtils.createDataURIFromBuffer(
+		BufferUtils.encodeText('fake image'), 'image/png'
+	);
+
+	t.deepEquals(jsonDoc.resources, {}, 'no external resources');
+	t.equals(jsonDoc.json.buffers[0].uri, bufferURI, 'embedded buffer');
+	t.equals(jsonDoc.json.images[0].uri, imageURI, 'embedded image');
+	t.deepEquals(io.writeBinary(doc), new NodeIO().writeBinary(doc), 'no effect on GLB');
+
+	// Embedded -> External.
+	const doc2 = io.readJSON(jsonDoc);
+	const jsonDoc2 = new NodeIO()
+		.setResourceMode(ResourceMode.EXTERNAL)
+		.writeJSON(doc2, {basename: 'model'});
+	t.deepEquals(Object.keys(jsonDoc2.resources), ['model.png', 'model.bin'], 'external resources');
+	t.equals(jsonDoc2.json.buffers[0].uri, 'model.bin', 'external buffer');
+	t.equals(jsonDoc2.json.images[0].uri, 'model.png', 'external image');
+
+	doc2.getRoot().listTextures()[0].setURI(imageURI);
+	t.equals(
+		new NodeIO().writeJSON(doc2, {basename: 'model'}).json.images[0].uri,
+		'model.png',
+		'external image, from data URI'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | stable output', t => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const a = doc.createAccessor('A').setArray(new Float32Array([1, 2])).setBuffer(buffer);
+	doc.createAccessor('B').setArray(new Float32Array([3, 4])).setBuffer(buffer);
+
+	const io = new NodeIO();
+	const jsonDoc = io.writeJSON(doc, {basename: 'model'});
+
+	// Reattaching an accessor to its buffer should not affect output.
+	a.setBuffer(null).setBuffer(buffer);
+	const jsonDoc2 = io.writeJSON(doc, {basename: 'model'});
+
+	t.deepEquals(jsonDoc2.json.accessors.map((def) => def.name), ['A', 'B'], 'accessor order');
+	t.equals(JSON.stringify(jsonDoc2.json), JSON.stringify(jsonDoc.json), 'same json');
+	t.ok(
+		BufferUtils.equals(jsonDoc2.resources['model.bin'], jsonDoc.resources['model.bin']),
+		'same buffer'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | hashed resource names', t => {
+	const doc = new Document();
+	doc.createAccessor()
+		.setType(Accessor.Type.SCALAR)
+		.setArray(new Float32Array([1, 2, 3]))
+		.setBuffer(doc.createBuffer());
+	doc.createTexture('A')
+		.setImage(BufferUtils.encodeText('fake image'))
+		.setMimeType('image/png')
+		.setURI('a.png');
+	doc.createTexture('B')
+		.setImage(BufferUtils.encodeText('other image'))
+		.setMimeType('image/png');
+
+	const io = new NodeIO().setResourceNaming(ResourceNaming.HASH);
+	const jsonDoc = io.writeJSON(doc, {basename: 'model'});
+	t.deepEquals(
+		Object.keys(jsonDoc.resources),
+		['model-5d2fe555eea829ac.png', 'model-6e39086d3f9591de.png', 'model-8e628779e6a74ee0.bin'],
+		'resources'
+	);
+	t.equals(jsonDoc.json.buffers[0].uri, 'model-8e628779e6a74ee0.bin', 'buffer uri');
+	t.deepEquals(
+		jsonDoc.json.images.map((def) => def.uri),
+		['model-5d2fe555eea829ac.png', 'model-6e39086d3f9591de.png'],
+		'image uris'
+	);
+
+	doc.getRoot().listTextures()[1].setImage(BufferUtils.encodeText('fake image'));
+	t.deepEquals(
+		Object.keys(io.writeJSON(doc, {basename: 'model'}).resources),
+		['model-5d2fe555eea829ac.png', 'model-8e628779e6a74ee0.bin'],
+		'shares identical resources'
+	);
+	t.deepEquals(
+		Object.keys(io.writeJSON(doc, {
+			basename: 'model',
+			resourceNaming: ResourceNaming.INDEX,
+		}).resources),
+		['a.png', 'model_1.png', 'model.bin'],
+		'index naming'
+	);
+
+	// Names do not depend on the order in which resources are written.
+	const textures = doc.getRoot().listTextures();
+	textures[0].setImage(BufferUtils.encodeText('other image'));
+	textures[1].setImage(BufferUtils.encodeText('fake image'));
+	t.deepEquals(
+		Object.keys(io.writeJSON(doc, {basename: 'model'}).resources).sort(),
+		['model-5d2fe555eea829ac.png', 'model-6e39086d3f9591de.png', 'model-8e628779e6a74ee0.bin'],
+		'independent of write order'
+	);
+	t.end();
+});
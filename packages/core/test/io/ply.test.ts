@@ -0,0 +1,149 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import { Document, IOErrorCode, NodeIO, Primitive, ReadError } from '../../';
+
+const ASCII_PLY = `ply
+format ascii 1.0
+comment Quad with vertex colors.
+element vertex 4
+property float x
+property float y
+property float z
+property uchar red
+property uchar green
+property uchar blue
+element face 1
+property list uchar int vertex_indices
+end_header
+0 0 0 255 0 0
+1 0 0 0 255 0
+1 1 0 0 0 255
+0 1 0 255 255 255
+4 0 1 2 3
+`;
+
+test('@gltf-transform/core::io | read ascii ply', t => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	fs.writeFileSync(path.join(dir, 'model.ply'), ASCII_PLY);
+
+	const doc = new NodeIO().read(path.join(dir, 'model.ply'));
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+	t.equals(prim.getMode(), Primitive.Mode.TRIANGLES, 'mode');
+	t.deepEquals(Array.from(prim.getIndices()!.getArray()!), [0, 1, 2, 0, 2, 3], 'triangulated');
+	t.deepEquals(
+		Array.from(prim.getAttribute('COLOR_0')!.getArray()!).slice(0, 8),
+		[1, 0, 0, 1, 0, 1, 0, 1],
+		'colors'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | read invalid ply', t => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'model.ply');
+	const io = new NodeIO();
+
+	fs.writeFileSync(uri, 'ply\nformat ascii 1.0\nelement vertex 1\n');
+	try {
+		io.read(uri);
+		t.fail('invalid header');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'invalid header instanceof ReadError');
+		t.equals(e.code, IOErrorCode.PLY_INVALID_HEADER, 'invalid header code');
+	}
+
+	fs.writeFileSync(uri, Buffer.concat([
+		Buffer.from('ply\nformat binary_little_endian 1.0\nelement vertex 1\n'),
+		Buffer.from('property half x\nend_header\n'),
+		Buffer.alloc(4),
+	]));
+	try {
+		io.read(uri);
+		t.fail('unknown property type');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'unknown property type instanceof ReadError');
+		t.equals(e.code, IOErrorCode.PLY_UNKNOWN_PROPERTY_TYPE, 'unknown property type code');
+	}
+
+	fs.writeFileSync(uri, ASCII_PLY.replace('property float z', 'property half z'));
+	try {
+		io.read(uri);
+		t.fail('unknown property type (ascii)');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.PLY_UNKNOWN_PROPERTY_TYPE, 'unknown property type (ascii)');
+		t.ok(e.message.includes('"half"'), 'unknown property type message');
+	}
+
+	fs.writeFileSync(uri, ASCII_PLY.replace('format ascii 1.0', 'format binary_middle_endian 1.0'));
+	try {
+		io.read(uri);
+		t.fail('unknown format');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.PLY_INVALID_HEADER, 'unknown format code');
+		t.ok(e.message.includes('"binary_middle_endian"'), 'unknown format message');
+	}
+
+	fs.unlinkSync(uri);
+	fs.rmdirSync(dir);
+	t.end();
+});
+
+test('@gltf-transform/core::io | read ply with long header', t => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'model.ply');
+	const comments = new Array(5000).fill('comment Header longer than 64 KB.').join('\n');
+	fs.writeFileSync(uri, ASCII_PLY.replace('comment Quad with vertex colors.', comments));
+
+	const prim = new NodeIO().read(uri).getRoot().listMeshes()[0].listPrimitives()[0];
+	t.deepEquals(Array.from(prim.getIndices()!.getArray()!), [0, 1, 2, 0, 2, 3], 'indices');
+	t.deepEquals(
+		Array.from(prim.getAttribute('POSITION')!.getArray()!),
+		[0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0],
+		'positions'
+	);
+
+	fs.unlinkSync(uri);
+	fs.rmdirSync(dir);
+	t.end();
+});
+
+test('@gltf-transform/core::io | write binary ply', t => {
+	const doc = new Document();
+	const position = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const color = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]));
+	const points = doc.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('COLOR_0', color)
+		.setMode(Primitive.Mode.POINTS);
+	const node = doc.createNode().setMesh(doc.createMesh().addPrimitive(points))
+		.setTranslation([0, 2, 0]);
+	doc.createScene().addChild(node);
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'cloud.ply');
+	const io = new NodeIO();
+	io.write(uri, doc);
+
+	const result = io.read(uri).getRoot().listMeshes()[0].listPrimitives()[0];
+	t.equals(result.getMode(), Primitive.Mode.POINTS, 'point cloud');
+	t.equals(result.getIndices(), null, 'no indices');
+	t.deepEquals(
+		Array.from(result.getAttribute('POSITION')!.getArray()!),
+		[0, 2, 0, 1, 2, 0, 0, 3, 0],
+		'world space'
+	);
+	t.deepEquals(
+		Array.from(result.getAttribute('COLOR_0')!.getArray()!),
+		[1, 0, 0, 1, 0, 1, 0, 1, 0, 0, 1, 1],
+		'colors'
+	);
+	t.end();
+});
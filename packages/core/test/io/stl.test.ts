@@ -0,0 +1,87 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'tape';
+import { Document, NodeIO } from '../../';
+
+const ASCII_STL = `solid Triangle
+  facet normal 0 0 0
+    outer loop
+      vertex 0 0 0
+      vertex 1 0 0
+      vertex 0 1 0
+    endloop
+  endfacet
+endsolid Triangle
+solid Other
+  facet normal 0 0 -1
+    outer loop
+      vertex 0 0 1
+      vertex 0 1 1
+      vertex 1 0 1
+    endloop
+  endfacet
+endsolid Other
+`;
+
+test('@gltf-transform/core::io | read ascii stl', t => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	fs.writeFileSync(path.join(dir, 'model.stl'), ASCII_STL);
+
+	const doc = new NodeIO().read(path.join(dir, 'model.stl'));
+	const meshes = doc.getRoot().listMeshes();
+	t.deepEquals(meshes.map((mesh) => mesh.getName()), ['Triangle', 'Other'], 'solids');
+
+	const prim = meshes[0].listPrimitives()[0];
+	t.equals(prim.getIndices(), null, 'unindexed');
+	t.deepEquals(
+		Array.from(prim.getAttribute('POSITION')!.getArray()!),
+		[0, 0, 0, 1, 0, 0, 0, 1, 0],
+		'positions'
+	);
+	t.deepEquals(
+		Array.from(prim.getAttribute('NORMAL')!.getArray()!),
+		[0, 0, 1, 0, 0, 1, 0, 0, 1],
+		'computes missing normals'
+	);
+	t.deepEquals(
+		Array.from(meshes[1].listPrimitives()[0].getAttribute('NORMAL')!.getArray()!).slice(0, 3),
+		[0, 0, -1],
+		'reads normals'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | write binary stl', async t => {
+	const doc = new Document();
+	const position = doc.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const indices = doc.createAccessor().setArray(new Uint16Array([0, 1, 2]));
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setIndices(indices);
+	const points = doc.createPrimitive().setAttribute('POSITION', position).setMode(0);
+	const mesh = doc.createMesh().addPrimitive(prim).addPrimitive(points);
+	const node = doc.createNode().setMesh(mesh).setTranslation([0, 0, 5]).setScale([-1, 1, 1]);
+	doc.createScene().addChild(doc.createNode().addChild(node));
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'model.stl');
+	const io = new NodeIO();
+	const {byteLength} = await io.writeAsync(uri, doc);
+	t.equals(byteLength, 84 + 50, 'writes one triangle');
+
+	const result = (await io.readAsync(uri)).document.getRoot().listMeshes()[0].listPrimitives()[0];
+	t.deepEquals(
+		Array.from(result.getAttribute('POSITION')!.getArray()!),
+		[0, 0, 5, 0, 1, 5, -1, 0, 5],
+		'world space, with winding reversed for mirrored node'
+	);
+	t.deepEquals(
+		Array.from(result.getAttribute('NORMAL')!.getArray()!).slice(0, 3).map((v) => v + 0),
+		[0, 0, 1],
+		'face normal'
+	);
+	t.end();
+});
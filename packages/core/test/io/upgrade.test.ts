@@ -0,0 +1,252 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { BufferUtils, IOErrorCode, JSONDocument, Logger, NodeIO, ReadError } from '../../';
+
+class MockLogger extends Logger {
+	public warnings: string[] = [];
+	constructor() {
+		super(Logger.Verbosity.SILENT);
+	}
+	public warn(text: string): void {
+		this.warnings.push(text);
+	}
+}
+
+function createLegacyBuffer(): ArrayBuffer {
+	return BufferUtils.concat([
+		new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]).buffer, // POSITION, 0–36
+		new Uint16Array([0, 1, 2, 0]).buffer, // indices, 36–44
+		new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]).buffer, // IBM, 44–108
+		new Float32Array([0, 1]).buffer, // TIME, 108–116
+		new Float32Array([0, 0, 0, 0, 1, 0]).buffer, // translation, 116–140
+	]);
+}
+
+function createLegacyJSON(bufferID: string): Record<string, unknown> {
+	return {
+		asset: {version: '1.0', generator: 'Legacy Exporter'},
+		scene: 'defaultScene',
+		extensionsUsed: ['KHR_materials_common'],
+		buffers: {
+			[bufferID]: {uri: 'legacy.bin', byteLength: 140},
+		},
+		bufferViews: {
+			vertexView: {buffer: bufferID, byteOffset: 0, byteLength: 36, target: 34962},
+			indexView: {buffer: bufferID, byteOffset: 36, byteLength: 8, target: 34963},
+			otherView: {buffer: bufferID, byteOffset: 44, byteLength: 96},
+		},
+		accessors: {
+			position: {
+				bufferView: 'vertexView', byteStride: 12, componentType: 5126, count: 3,
+				type: 'VEC3', max: [1, 1, 0], min: [0, 0, 0],
+			},
+			indices: {bufferView: 'indexView', componentType: 5123, count: 3, type: 'SCALAR'},
+			ibm: {bufferView: 'otherView', componentType: 5126, count: 1, type: 'MAT4'},
+			time: {
+				bufferView: 'otherView', byteOffset: 64, componentType: 5126, count: 2,
+				type: 'SCALAR',
+			},
+			translation: {
+				bufferView: 'otherView', byteOffset: 72, componentType: 5126, count: 2,
+				type: 'VEC3',
+			},
+		},
+		images: {
+			image: {uri: 'legacy.png'},
+		},
+		samplers: {
+			sampler: {magFilter: 9729, wrapS: 33071},
+		},
+		textures: {
+			texture: {sampler: 'sampler', source: 'image', format: 6408, target: 3553},
+		},
+		techniques: {
+			technique: {
+				parameters: {
+					ambient: {type: 35666, value: [0.1, 0.1, 0.1, 1]},
+					diffuse: {type: 35678},
+				},
+				states: {enable: [2884, 2929]},
+			},
+		},
+		materials: {
+			textured: {
+				name: 'Textured',
+				technique: 'technique',
+				values: {diffuse: 'texture'},
+			},
+			common: {
+				name: 'Common',
+				extensions: {
+					KHR_materials_common: {
+						technique: 'BLINN',
+						doubleSided: true,
+						values: {diffuse: [1, 0, 0, 1], shininess: 2, transparency: 0.5},
+					},
+				},
+			},
+			plain: {
+				name: 'Plain',
+				values: {diffuse: [0, 1, 0, 1]},
+			},
+		},
+		meshes: {
+			meshA: {
+				name: 'MeshA',
+				primitives: [{
+					attributes: {POSITION: 'position', COLOR: 'position', JOINT: 'position'},
+					indices: 'indices',
+					material: 'textured',
+				}],
+			},
+			meshB: {
+				name: 'MeshB',
+				primitives: [{attributes: {POSITION: 'position'}, material: 'common'}],
+			},
+		},
+		skins: {
+			skin: {
+				bindShapeMatrix: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+				inverseBindMatrices: 'ibm',
+				jointNames: ['joint0'],
+			},
+		},
+		nodes: {
+			root: {
+				name: 'Root',
+				children: ['joint'],
+				meshes: ['meshA', 'meshB'],
+				skin: 'skin',
+				skeletons: ['joint'],
+			},
+			joint: {name: 'Joint', jointName: 'joint0', translation: [0, 1, 0]},
+		},
+		animations: {
+			animation: {
+				parameters: {TIME: 'time', translation: 'translation'},
+				samplers: {
+					sampler: {input: 'TIME', output: 'translation', interpolation: 'LINEAR'},
+				},
+				channels: [{sampler: 'sampler', target: {id: 'joint', path: 'translation'}}],
+			},
+		},
+		scenes: {
+			defaultScene: {nodes: ['root']},
+		},
+	};
+}
+
+test('@gltf-transform/core::io | upgrade glTF 1.0', t => {
+	const logger = new MockLogger();
+	const io = new NodeIO().setLogger(logger);
+	const doc = io.readJSON({
+		json: createLegacyJSON('buffer'),
+		resources: {
+			'legacy.bin': createLegacyBuffer(),
+			'legacy.png': BufferUtils.encodeText('legacy image'),
+		},
+	} as unknown as JSONDocument);
+	const root = doc.getRoot();
+
+	t.equals(root.getAsset().version, '2.0', 'asset.version');
+	t.equals(root.getDefaultScene()!.listChildren()[0].getName(), 'Root', 'default scene');
+
+	const [rootNode, jointNode] = root.listNodes();
+	t.deepEquals(rootNode.listChildren(), [jointNode], 'node hierarchy');
+	t.deepEquals(jointNode.getTranslation(), [0, 1, 0], 'node transform');
+
+	const mesh = rootNode.getMesh()!;
+	t.equals(mesh.getName(), 'MeshA, MeshB', 'merged meshes');
+	t.equals(mesh.listPrimitives().length, 2, 'merged primitives');
+
+	const [primA, primB] = mesh.listPrimitives();
+	t.deepEquals(primA.listSemantics(), ['POSITION', 'COLOR_0', 'JOINTS_0'], 'attributes');
+	t.deepEquals(
+		Array.from(primA.getAttribute('POSITION')!.getArray()!),
+		[0, 0, 0, 1, 0, 0, 0, 1, 0],
+		'position data'
+	);
+	t.deepEquals(Array.from(primA.getIndices()!.getArray()!), [0, 1, 2], 'index data');
+
+	const textured = primA.getMaterial()!;
+	t.equals(textured.getName(), 'Textured', 'technique material');
+	t.equals(textured.getBaseColorTexture(), root.listTextures()[0], 'baseColorTexture');
+	t.equals(textured.getBaseColorTextureInfo()!.getWrapS(), 33071, 'sampler');
+	t.equals(textured.getMetallicFactor(), 0, 'metallicFactor');
+	t.equals(textured.getDoubleSided(), false, 'doubleSided from technique states');
+	t.equals(textured.getAlphaMode(), 'OPAQUE', 'alphaMode');
+
+	const common = primB.getMaterial()!;
+	t.equals(common.getName(), 'Common', 'KHR_materials_common material');
+	t.deepEquals(common.getBaseColorFactor(), [1, 0, 0, 0.5], 'baseColorFactor');
+	t.equals(common.getAlphaMode(), 'BLEND', 'alphaMode');
+	t.equals(common.getDoubleSided(), true, 'doubleSided');
+	t.equals(common.getRoughnessFactor(), Math.sqrt(0.5), 'roughnessFactor');
+
+	const plain = root.listMaterials().find((material) => material.getName() === 'Plain')!;
+	t.deepEquals(plain.getBaseColorFactor(), [0, 1, 0, 1], 'default technique baseColorFactor');
+	t.equals(plain.getDoubleSided(), false, 'default technique doubleSided');
+	t.equals(plain.getAlphaMode(), 'OPAQUE', 'default technique alphaMode');
+
+	const skin = rootNode.getSkin()!;
+	t.deepEquals(skin.listJoints(), [jointNode], 'skin joints');
+	t.equals(skin.getSkeleton(), jointNode, 'skin skeleton');
+	t.equals(skin.getInverseBindMatrices()!.getType(), 'MAT4', 'skin inverse bind matrices');
+
+	const channel = root.listAnimations()[0].listChannels()[0];
+	t.equals(channel.getTargetNode(), jointNode, 'channel target');
+	t.equals(channel.getTargetPath(), 'translation', 'channel path');
+	t.deepEquals(
+		Array.from(channel.getSampler()!.getOutput()!.getArray()!),
+		[0, 0, 0, 0, 1, 0],
+		'sampler output'
+	);
+
+	t.deepEquals(logger.warnings, [
+		'glTF 1.0: Techniques and shaders are not supported. Materials are approximated with'
+			+ ' the metal/rough PBR model.',
+		'glTF 1.0: Material parameter "ambient" is not supported, and was ignored.',
+	], 'warnings');
+	t.end();
+});
+
+test('@gltf-transform/core::io | upgrade binary glTF 1.0', t => {
+	const json = createLegacyJSON('binary_glTF');
+	json.extensionsUsed = ['KHR_binary_glTF', 'KHR_materials_common'];
+	(json.buffers as Record<string, unknown>).binary_glTF = {uri: 'data:,', byteLength: 140};
+	(json.images as Record<string, unknown>).image = {
+		extensions: {KHR_binary_glTF: {bufferView: 'otherView', mimeType: 'image/png'}},
+	};
+
+	const content = BufferUtils.pad(BufferUtils.encodeText(JSON.stringify(json)), 0x20);
+	const body = createLegacyBuffer();
+	const header = new Uint32Array([
+		0x46546C67, 1, 20 + content.byteLength + body.byteLength, content.byteLength, 0
+	]);
+	const glb = BufferUtils.concat([header.buffer, content, body]);
+
+	const io = new NodeIO().setLogger(new MockLogger());
+	const doc = io.readBinary(glb);
+	const root = doc.getRoot();
+
+	t.equals(root.listBuffers().length, 1, 'buffer count');
+	t.equals(root.listTextures()[0].getMimeType(), 'image/png', 'embedded image');
+	t.equals(root.listTextures()[0].getImage()!.byteLength, 96, 'embedded image data');
+	t.deepEquals(
+		Array.from(root.listNodes()[0].getMesh()!.listPrimitives()[0].getIndices()!.getArray()!),
+		[0, 1, 2],
+		'index data'
+	);
+	t.ok(io.writeBinary(doc), 'writes binary');
+
+	new Uint32Array(glb, 0, 5)[4] = 1;
+	try {
+		io.readBinary(glb);
+		t.fail('unsupported content format');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'instanceof ReadError');
+		t.equals(e.code, IOErrorCode.GLB_UNSUPPORTED_CONTENT_FORMAT, 'code');
+	}
+	t.end();
+});
@@ -1,11 +1,18 @@
 require('source-map-support').install();
 
 import test from 'tape';
-import { BufferUtils, WebIO } from '../../';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { BufferUtils, Document, WebIO } from '../../';
 
 // eslint-disable-next-line max-len
 const SAMPLE_GLB = 'data:application/octet-stream;base64,Z2xURgIAAACABgAA3AMAAEpTT057ImFzc2V0Ijp7ImdlbmVyYXRvciI6IkNPTExBREEyR0xURiIsInZlcnNpb24iOiIyLjAifSwic2NlbmUiOjAsInNjZW5lcyI6W3sibm9kZXMiOlswXX1dLCJub2RlcyI6W3siY2hpbGRyZW4iOlsxXSwibWF0cml4IjpbMS4wLDAuMCwwLjAsMC4wLDAuMCwwLjAsLTEuMCwwLjAsMC4wLDEuMCwwLjAsMC4wLDAuMCwwLjAsMC4wLDEuMF19LHsibWVzaCI6MH1dLCJtZXNoZXMiOlt7InByaW1pdGl2ZXMiOlt7ImF0dHJpYnV0ZXMiOnsiTk9STUFMIjoxLCJQT1NJVElPTiI6Mn0sImluZGljZXMiOjAsIm1vZGUiOjQsIm1hdGVyaWFsIjowfV0sIm5hbWUiOiJNZXNoIn1dLCJhY2Nlc3NvcnMiOlt7ImJ1ZmZlclZpZXciOjAsImJ5dGVPZmZzZXQiOjAsImNvbXBvbmVudFR5cGUiOjUxMjMsImNvdW50IjozNiwibWF4IjpbMjNdLCJtaW4iOlswXSwidHlwZSI6IlNDQUxBUiJ9LHsiYnVmZmVyVmlldyI6MSwiYnl0ZU9mZnNldCI6MCwiY29tcG9uZW50VHlwZSI6NTEyNiwiY291bnQiOjI0LCJtYXgiOlsxLjAsMS4wLDEuMF0sIm1pbiI6Wy0xLjAsLTEuMCwtMS4wXSwidHlwZSI6IlZFQzMifSx7ImJ1ZmZlclZpZXciOjEsImJ5dGVPZmZzZXQiOjI4OCwiY29tcG9uZW50VHlwZSI6NTEyNiwiY291bnQiOjI0LCJtYXgiOlswLjUsMC41LDAuNV0sIm1pbiI6Wy0wLjUsLTAuNSwtMC41XSwidHlwZSI6IlZFQzMifV0sIm1hdGVyaWFscyI6W3sicGJyTWV0YWxsaWNSb3VnaG5lc3MiOnsiYmFzZUNvbG9yRmFjdG9yIjpbMC44MDAwMDAwMTE5MjA5MjksMC4wLDAuMCwxLjBdLCJtZXRhbGxpY0ZhY3RvciI6MC4wfSwibmFtZSI6IlJlZCJ9XSwiYnVmZmVyVmlld3MiOlt7ImJ1ZmZlciI6MCwiYnl0ZU9mZnNldCI6NTc2LCJieXRlTGVuZ3RoIjo3MiwidGFyZ2V0IjozNDk2M30seyJidWZmZXIiOjAsImJ5dGVPZmZzZXQiOjAsImJ5dGVMZW5ndGgiOjU3NiwiYnl0ZVN0cmlkZSI6MTIsInRhcmdldCI6MzQ5NjJ9XSwiYnVmZmVycyI6W3siYnl0ZUxlbmd0aCI6NjQ4fV19iAIAAEJJTgAAAAAAAAAAAAAAgD8AAAAAAAAAAAAAgD8AAAAAAAAAAAAAgD8AAAAAAAAAAAAAgD8AAAAAAACAvwAAAAAAAAAAAACAvwAAAAAAAAAAAACAvwAAAAAAAAAAAACAvwAAAAAAAIA/AAAAAAAAAAAAAIA/AAAAAAAAAAAAAIA/AAAAAAAAAAAAAIA/AAAAAAAAAAAAAAAAAACAPwAAAAAAAAAAAACAPwAAAAAAAAAAAACAPwAAAAAAAAAAAACAPwAAAAAAAIC/AAAAAAAAAAAAAIC/AAAAAAAAAAAAAIC/AAAAAAAAAAAAAIC/AAAAAAAAAAAAAAAAAAAAAAAAgL8AAAAAAAAAAAAAgL8AAAAAAAAAAAAAgL8AAAAAAAAAAAAAgL8AAAC/AAAAvwAAAD8AAAA/AAAAvwAAAD8AAAC/AAAAPwAAAD8AAAA/AAAAPwAAAD8AAAA/AAAAvwAAAD8AAAC/AAAAvwAAAD8AAAA/AAAAvwAAAL8AAAC/AAAAvwAAAL8AAAA/AAAAPwAAAD8AAAA/AAAAvwAAAD8AAAA/AAAAPwAAAL8AAAA/AAAAvwAAAL8AAAC/AAAAPwAAAD8AAAA/AAAAPwAAAD8AAAC/AAAAPwAAAL8AAAA/AAAAPwAAAL8AAAC/AAAAvwAAAD8AAAC/AAAAPwAAAD8AAAC/AAAAvwAAAL8AAAC/AAAAPwAAAL8AAAC/AAAAvwAAAL8AAAC/AAAAPwAAAL8AAAA/AAAAvwAAAL8AAAA/AAAAPwAAAL8AAAEAAgADAAIAAQAEAAUABgAHAAYABQAIAAkACgALAAoACQAMAA0ADgAPAA4ADQAQABEAEgATABIAEQAUABUAFgAXABYAFQA=';
 
+// Blob and File are globals in browsers, and in Node.js since v15.7 and v20, respectively.
+const HAS_BLOB = typeof Blob !== 'undefined';
+const HAS_FILE = typeof File !== 'undefined';
+
 function mockWindow(href: string): void {
 	(global['window'] as unknown) = {location: {href}};
 }
@@ -164,3 +171,149 @@ test('@gltf-transform/core::io | web read gltf + data URIs in memory', t => {
 	t.deepEquals(doc.getRoot().listTextures()[2].getImage(), images[2], 'reads texture 2');
 	t.end();
 });
+
+function createDocument(): Document {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const image = fs.readFileSync(path.join(__dirname, '../in/test.png'));
+	const texture = doc.createTexture('Logo')
+		.setImage(BufferUtils.trim(image))
+		.setMimeType('image/png');
+	doc.createAccessor()
+		.setArray(new Float32Array([1, 2, 3]))
+		.setBuffer(buffer);
+	doc.createMaterial('Material').setBaseColorTexture(texture);
+	return doc;
+}
+
+test('@gltf-transform/core::io | web write blob', {skip: !HAS_BLOB || !HAS_FILE}, async t => {
+	const io = new WebIO();
+	const blob = io.writeBlob(createDocument());
+
+	t.equals(blob.type, 'model/gltf-binary', 'blob type');
+	t.deepEquals(
+		await blob.arrayBuffer(),
+		io.writeBinary(createDocument()),
+		'blob content'
+	);
+
+	const doc = await io.readFiles([new File([blob], 'model.glb')]);
+	t.equals(doc.getRoot().listTextures().length, 1, 'reads GLB file');
+	t.deepEquals(
+		doc.getRoot().listAccessors()[0].getArray(),
+		new Float32Array([1, 2, 3]),
+		'reads GLB buffer'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | web write files', {skip: !HAS_BLOB || !HAS_FILE}, async t => {
+	const io = new WebIO();
+	const files = io.writeFiles(createDocument(), 'scene');
+
+	t.deepEquals(Object.keys(files).sort(), ['scene.bin', 'scene.gltf', 'scene.png'], 'filenames');
+	t.equals(files['scene.gltf'].type, 'model/gltf+json', 'gltf type');
+	t.equals(files['scene.png'].type, 'image/png', 'image type');
+
+	const json = JSON.parse(await files['scene.gltf'].text());
+	t.deepEquals(json.images, [{name: 'Logo', mimeType: 'image/png', uri: 'scene.png'}], 'json');
+
+	const doc = await io.readFiles(Object.keys(files).map((name) => new File([files[name]], name)));
+	t.deepEquals(
+		doc.getRoot().listTextures()[0].getImage(),
+		await files['scene.png'].arrayBuffer(),
+		'reads texture from file list'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | web read files', {skip: !HAS_BLOB}, async t => {
+	const io = new WebIO();
+	const json = {
+		asset: {version: '2.0'},
+		images: [{uri: 'textures/a.png'}, {uri: '../b%20c.png'}],
+	};
+	const jsonBlob = new Blob([JSON.stringify(json)]);
+	const a = new Blob([new Uint8Array([1])]);
+	const bc = new Blob([new Uint8Array([2, 3])]);
+
+	const doc = await io.readFiles({
+		'model/scene.gltf': jsonBlob,
+		'model/textures/a.png': a,
+		'b c.png': bc,
+	});
+	const images = doc.getRoot().listTextures().map((texture) => texture.getImage());
+	t.deepEquals(images, [new Uint8Array([1]).buffer, new Uint8Array([2, 3]).buffer], 'resolves');
+
+	try {
+		await io.readFiles({'model/scene.gltf': jsonBlob, 'b c.png': bc});
+		t.fail('missing resource');
+	} catch (e) {
+		t.equals(e.message, 'Missing resource "textures/a.png".', 'missing resource');
+	}
+
+	try {
+		await io.readFiles({'a.png': a});
+		t.fail('missing model');
+	} catch (e) {
+		t.equals(e.message, 'Expected one .gltf or .glb file, found 0.', 'missing model');
+	}
+	t.end();
+});
+
+test('@gltf-transform/core::io | web write zip', {skip: !HAS_BLOB}, async t => {
+	const io = new WebIO();
+	const zip = await io.writeZip(createDocument()).arrayBuffer();
+	const view = new DataView(zip);
+	const end = zip.byteLength - 22;
+
+	t.equals(view.getUint32(0, true), 0x04034B50, 'zip signature');
+	t.equals(view.getUint16(end + 10, true), 3, 'zip entry count');
+	t.end();
+});
+
+test('@gltf-transform/core::io | web resource resolver', async t => {
+	mockWindow('https://www.example.com/test');
+	const fetchedPaths = mockFetch({
+		arrayBuffer: () => new ArrayBuffer(2),
+		json: () => ({
+			asset: {version: '2.0'},
+			images: [{uri: 'resolved.png'}, {uri: 'fetched.png'}],
+		}),
+	});
+
+	const resolved = new Uint8Array([1, 2, 3]).buffer;
+	const io = new WebIO().setResourceResolver({
+		read: (uri, base) => uri === 'resolved.png' && base === 'model/mock.gltf' ? resolved : null,
+	});
+
+	const doc = await io.read('model/mock.gltf');
+	const images = doc.getRoot().listTextures().map((texture) => texture.getImage().byteLength);
+	t.deepEquals(fetchedPaths, ['model/mock.gltf', 'model/fetched.png'], 'fetches unresolved');
+	t.deepEquals(images, [3, 2], 'reads resolved and fetched resources');
+	t.end();
+});
+
+test('@gltf-transform/core::io | web read zip', async t => {
+	const zip = BufferUtils.trim(fs.readFileSync(path.join(__dirname, '../in/BoxTextured.zip')));
+	mockWindow('https://www.example.com/test');
+	const fetchedPaths = mockFetch({
+		arrayBuffer: () => zip,
+		json: () => { throw new Error('Do not call.'); },
+	});
+
+	const io = new WebIO().setZipInflate((data) => zlib.inflateRawSync(data));
+	const doc = await io.read('model/box.zip');
+	t.deepEquals(fetchedPaths, ['model/box.zip'], 'fetches zip');
+	t.equals(doc.getRoot().listTextures()[0].getURI(), 'CesiumLogoFlat.png', 'reads zip');
+
+	if (HAS_FILE) {
+		const doc2 = await io.readFiles([new File([zip], 'box.zip')]);
+		t.deepEquals(
+			io.writeJSON(doc2).json,
+			io.writeJSON(doc).json,
+			'reads zip from file list'
+		);
+	}
+	t.end();
+});
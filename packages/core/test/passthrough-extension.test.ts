@@ -0,0 +1,145 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import {
+	Accessor,
+	BufferUtils,
+	Document,
+	JSONDocument,
+	Logger,
+	NodeIO,
+	PassthroughExtension,
+	PassthroughProperty,
+} from '../';
+
+const EXTENSION_NAME = 'VENDOR_test';
+
+function createJSONDocument(): JSONDocument {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	doc.createAccessor('Unused')
+		.setArray(new Float32Array([0]))
+		.setBuffer(buffer);
+	const position = doc.createAccessor('POSITION')
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	doc.createAccessor('Weights')
+		.setArray(new Float32Array([0.25, 0.5, 0.75]))
+		.setBuffer(buffer);
+	const baseColorTexture = doc.createTexture('BaseColor')
+		.setImage(BufferUtils.encodeText('base color'))
+		.setMimeType('image/png');
+	doc.createTexture('Detail')
+		.setImage(BufferUtils.encodeText('detail'))
+		.setMimeType('image/png');
+	const material = doc.createMaterial().setBaseColorTexture(baseColorTexture);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setMaterial(material);
+	doc.createScene().addChild(doc.createNode().setMesh(doc.createMesh().addPrimitive(prim)));
+
+	const jsonDoc = new NodeIO().writeJSON(doc, {basename: 'test'});
+	const json = jsonDoc.json;
+	json.textures!.push({source: 1});
+	json.extensionsUsed = [EXTENSION_NAME];
+	json.extensions = {[EXTENSION_NAME]: {version: 2}};
+	json.materials![0].extensions = {
+		[EXTENSION_NAME]: {factor: 0.5, detailTexture: {index: 1, texCoord: 1}}
+	};
+	const weightsIndex = json.accessors!.findIndex((def) => def.name === 'Weights');
+	const weightsDef = json.accessors![weightsIndex];
+	json.nodes![0].extensions = {
+		[EXTENSION_NAME]: {
+			layers: [{weightsAccessor: weightsIndex, dataBufferView: weightsDef.bufferView}]
+		}
+	};
+	return jsonDoc;
+}
+
+test('@gltf-transform/core::passthrough-extension | read', t => {
+	const io = new NodeIO().setExtensionPassthrough(true);
+	const doc = io.readJSON(createJSONDocument());
+	const root = doc.getRoot();
+	const weights = root.listAccessors().find((accessor) => accessor.getName() === 'Weights')!;
+	const [, detailTexture] = root.listTextures();
+
+	t.deepEquals(
+		root.listExtensionsUsed().map((ext) => ext.extensionName),
+		[EXTENSION_NAME],
+		'registers extension'
+	);
+
+	const rootExt = root.listExtensionsUsed()[0] as PassthroughExtension;
+	t.deepEquals(rootExt.getRootProperty().getJSON(), {version: 2}, 'root json');
+
+	const materialExt = root.listMaterials()[0].getExtension<PassthroughProperty>(EXTENSION_NAME)!;
+	t.ok(materialExt instanceof PassthroughProperty, 'material extension');
+	t.equals(materialExt.getJSON().factor, 0.5, 'material json');
+	t.ok(materialExt.getTexture('/detailTexture') === detailTexture, 'material texture');
+	t.equals(materialExt.getTextureInfo('/detailTexture')!.getTexCoord(), 1, 'material texCoord');
+
+	const nodeExt = root.listNodes()[0].getExtension<PassthroughProperty>(EXTENSION_NAME)!;
+	t.deepEquals(
+		nodeExt.listReferences(),
+		['/layers/0/weightsAccessor', '/layers/0/dataBufferView'],
+		'node references'
+	);
+	t.ok(nodeExt.getAccessor('/layers/0/weightsAccessor') === weights, 'node accessor');
+	t.deepEquals(
+		new Float32Array(nodeExt.getBufferView('/layers/0/dataBufferView')!),
+		new Float32Array([0, 0.25, 0.5, 0.75]),
+		'node buffer view'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::passthrough-extension | write', t => {
+	const io = new NodeIO().setExtensionPassthrough(true);
+	const doc = io.readJSON(createJSONDocument());
+	const root = doc.getRoot();
+
+	// Removing properties shifts the indices of those referenced by the extension.
+	root.listAccessors().find((accessor) => accessor.getName() === 'Unused')!.dispose();
+	root.listTextures()[0].dispose();
+
+	const {json} = io.writeJSON(doc, {basename: 'test'});
+	const extensions = (def: {extensions?: Record<string, unknown>}) => {
+		return def.extensions![EXTENSION_NAME];
+	};
+	const nodeExtDef = extensions(json.nodes![0]) as {layers: Record<string, number>[]};
+	const bufferViewDef = json.bufferViews![nodeExtDef.layers[0].dataBufferView];
+
+	t.deepEquals(json.extensionsUsed, [EXTENSION_NAME], 'extensionsUsed');
+	t.deepEquals(extensions(json), {version: 2}, 'root json');
+	t.deepEquals(
+		extensions(json.materials![0]),
+		{factor: 0.5, detailTexture: {index: 0, texCoord: 1}},
+		'material json'
+	);
+	t.equals(json.textures!.length, 1, 'texture count');
+	t.equals(json.accessors!.length, 2, 'accessor count');
+	const weightsDef = json.accessors![nodeExtDef.layers[0].weightsAccessor];
+	t.equals(weightsDef.name, 'Weights', 'node accessor');
+	t.equals(bufferViewDef.byteLength, 16, 'node buffer view');
+
+	const rtDoc = io.readJSON(io.writeJSON(doc, {basename: 'test'}));
+	const rtNodeExt = rtDoc.getRoot().listNodes()[0]
+		.getExtension<PassthroughProperty>(EXTENSION_NAME)!;
+	t.deepEquals(
+		new Float32Array(rtNodeExt.getBufferView('/layers/0/dataBufferView')!),
+		new Float32Array([0, 0.25, 0.5, 0.75]),
+		'round trip buffer view'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::passthrough-extension | disabled', t => {
+	const io = new NodeIO().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const doc = io.readJSON(createJSONDocument());
+	const {json} = io.writeJSON(doc, {basename: 'test'});
+
+	t.equals(doc.getRoot().listExtensionsUsed().length, 0, 'no extensions');
+	t.notOk(doc.getRoot().listMaterials()[0].getExtension(EXTENSION_NAME), 'no material extension');
+	t.notOk(json.extensionsUsed, 'no extensionsUsed');
+	t.notOk(json.nodes![0].extensions, 'no node extension');
+	t.end();
+});
@@ -1,7 +1,7 @@
 require('source-map-support').install();
 
 import test from 'tape';
-import { Accessor, Document, GLTF, NodeIO, TypedArray } from '../../';
+import { Accessor, Document, GLTF, NodeIO, SparseMode, TypedArray } from '../../';
 
 test('@gltf-transform/core::accessor | getScalar/setScalar', t => {
 	const accessor = new Document().createAccessor()
@@ -258,10 +258,135 @@ test('@gltf-transform/core::accessor | sparse', t => {
 	t.deepEquals(accessors[0].getElement(50, actual) && actual, [10, 12, 14], 'sparse index 2');
 	t.deepEquals(accessors[0].getElement(51, actual) && actual, [25, 50, 75], 'sparse index 3');
 	t.deepEquals(accessors[0].getElement(52, actual) && actual, [0, 0, 0], 'empty index 2');
+	t.equals(accessors[0].getSparse(), true, 'marked sparse');
 
 	t.end();
 });
 
+test('@gltf-transform/core::accessor | sparse with offset base', t => {
+	const resources = {
+		'base.bin': new Float32Array([9, 9, 9, 1, 1, 1, 2, 2, 2, 3, 3, 3]).buffer,
+		'indices.bin': new Uint16Array([1, 0]).buffer,
+		'values.bin': new Float32Array([7, 8, 9]).buffer,
+	};
+
+	const json = {
+		asset: {version: '2.0'},
+		accessors: [
+			{
+				bufferView: 0,
+				byteOffset: 12,
+				count: 3,
+				type: Accessor.Type.VEC3,
+				componentType: Accessor.ComponentType.FLOAT,
+				sparse: {
+					count: 1,
+					indices: {
+						bufferView: 1,
+						componentType: Accessor.ComponentType.UNSIGNED_SHORT
+					},
+					values: {
+						bufferView: 2
+					}
+				}
+			}
+		],
+		bufferViews: [
+			{buffer: 0, byteLength: resources['base.bin'].byteLength},
+			{buffer: 1, byteLength: resources['indices.bin'].byteLength},
+			{buffer: 2, byteLength: resources['values.bin'].byteLength},
+		],
+		buffers: [
+			{uri: 'base.bin', byteLength: resources['base.bin'].byteLength},
+			{uri: 'indices.bin', byteLength: resources['indices.bin'].byteLength},
+			{uri: 'values.bin', byteLength: resources['values.bin'].byteLength},
+		]
+	};
+
+	const io = new NodeIO();
+	const accessor = io.readJSON({json, resources}).getRoot().listAccessors()[0];
+
+	t.deepEquals(
+		Array.from(accessor.getArray()),
+		[1, 1, 1, 7, 8, 9, 3, 3, 3],
+		'sparse indices and values default to byteOffset 0'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::accessor | sparse write', t => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const array = new Float32Array(300);
+	array.set([1, 2, 3], 30);
+	array.set([10, 12, 14], 150);
+	const sparse = doc.createAccessor('sparse')
+		.setType(Accessor.Type.VEC3)
+		.setArray(array)
+		.setBuffer(buffer);
+	const dense = doc.createAccessor('dense')
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array(300).fill(1))
+		.setBuffer(buffer);
+	const position = doc.createAccessor('position')
+		.setType(Accessor.Type.VEC3)
+		.setArray(array.slice())
+		.setBuffer(buffer);
+	const target = doc.createPrimitiveTarget()
+		.setAttribute('POSITION', sparse)
+		.setAttribute('NORMAL', dense);
+	doc.createMesh().addPrimitive(doc.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('NORMAL', position)
+		.addTarget(target));
+
+	const io = new NodeIO();
+	let jsonDoc = io.writeJSON(doc, {basename: 'test'});
+	const [sparseDef, denseDef, positionDef] = jsonDoc.json.accessors;
+
+	t.equals(sparseDef.bufferView, undefined, 'auto: sparse, no base buffer view');
+	t.deepEquals(sparseDef.sparse, {
+		count: 2,
+		indices: {bufferView: 0, byteOffset: 0, componentType: 5121},
+		values: {bufferView: 0, byteOffset: 4},
+	}, 'auto: sparse storage');
+	t.equals(denseDef.sparse, undefined, 'auto: dense storage');
+	t.equals(positionDef.sparse, undefined, 'auto: dense vertex attribute');
+	t.equals(jsonDoc.resources['test.bin'].byteLength, 2400 + 4 + 24, 'auto: byte length');
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const [rtSparse, rtDense] = rtDoc.getRoot().listAccessors();
+	t.deepEquals(rtSparse.getArray(), array, 'auto: sparse round trip');
+	t.equals(rtSparse.getBuffer(), rtDoc.getRoot().listBuffers()[0], 'auto: sparse buffer');
+	t.equals(rtSparse.getSparse(), true, 'auto: sparse marked');
+	t.equals(rtDense.getSparse(), false, 'auto: dense not marked');
+
+	jsonDoc = io.setSparseMode(SparseMode.DENSE).writeJSON(doc, {basename: 'test'});
+	t.ok(jsonDoc.json.accessors.every((def) => !def.sparse), 'dense: no sparse storage');
+
+	jsonDoc = io.setSparseMode(SparseMode.SPARSE).writeJSON(doc, {basename: 'test'});
+	t.ok(jsonDoc.json.accessors.every((def) => !!def.sparse), 'sparse: sparse storage');
+	t.deepEquals(
+		io.readJSON(jsonDoc).getRoot().listAccessors().map((a) => a.getArray()),
+		[sparse.getArray(), dense.getArray(), position.getArray()],
+		'sparse: round trip'
+	);
+
+	sparse.setArray(new Float32Array(300));
+	jsonDoc = io.setSparseMode(SparseMode.AUTO).writeJSON(doc, {basename: 'test'});
+	t.equals(jsonDoc.json.accessors[0].sparse.count, 1, 'zeros: one sparse element');
+	t.deepEquals(
+		io.readJSON(jsonDoc).getRoot().listAccessors()[0].getArray(),
+		new Float32Array(300),
+		'zeros: round trip'
+	);
+
+	dense.setSparse(true);
+	jsonDoc = io.writeJSON(doc, {basename: 'test'});
+	t.ok(jsonDoc.json.accessors[1].sparse, 'marked: sparse storage');
+	t.end();
+});
+
 test('@gltf-transform/core::accessor | minmax', t => {
 	const doc = new Document();
 	const accessor = doc.createAccessor()
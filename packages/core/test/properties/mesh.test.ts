@@ -1,7 +1,7 @@
 require('source-map-support').install();
 
 import test from 'tape';
-import { Accessor, Document, GLTF, NodeIO, Primitive, Property, VertexLayout } from '../../';
+import { Accessor, Document, Format, GLTF, IOErrorCode, NodeIO, Primitive, Property, VertexLayout } from '../../';
 
 test('@gltf-transform/core::mesh', t => {
 	const doc = new Document();
@@ -315,3 +315,88 @@ test('@gltf-transform/core::mesh | primitive vertex layout', t => {
 	);
 	t.end();
 });
+
+test('@gltf-transform/core::mesh | primitive layout policy', t => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const createAttribute = (array: Float32Array | Uint8Array | Uint16Array) => {
+		return doc.createAccessor().setArray(array).setType(Accessor.Type.VEC3).setBuffer(buffer);
+	};
+	const prim = doc.createPrimitive()
+		.setMode(Primitive.Mode.POINTS)
+		.setAttribute('POSITION', createAttribute(new Float32Array([0, 0, 0])))
+		.setAttribute('COLOR_0', createAttribute(new Uint8Array([128, 128, 128])))
+		.setAttribute('COLOR_1', createAttribute(new Uint16Array([64, 64, 64])))
+		.setAttribute('COLOR_2', createAttribute(new Float32Array([32, 32, 32])));
+	doc.createMesh().addPrimitive(prim);
+
+	const io = new NodeIO().setLayoutPolicy((_, attributes) => {
+		t.deepEquals(
+			Object.keys(attributes),
+			['POSITION', 'COLOR_0', 'COLOR_1', 'COLOR_2'],
+			'policy attributes'
+		);
+		return [
+			{semantics: ['POSITION'], byteStride: 16},
+			{semantics: ['COLOR_0', 'COLOR_1'], alignment: 16},
+		];
+	});
+	t.deepEquals(
+		io.binaryToJSON(io.writeBinary(doc)).json.bufferViews,
+		[
+			{buffer: 0, target: 34962, byteOffset: 0, byteLength: 16, byteStride: 16},
+			{buffer: 0, target: 34962, byteOffset: 16, byteLength: 12, byteStride: 12},
+			{buffer: 0, target: 34962, byteOffset: 28, byteLength: 12, byteStride: 12},
+		],
+		'policy buffer views'
+	);
+
+	const positionBuffer = doc.createBuffer();
+	io.setLayoutPolicy(() => [
+		{semantics: ['POSITION'], buffer: positionBuffer},
+		{semantics: ['COLOR_0', 'COLOR_1', 'COLOR_2'], interleaved: false},
+	]);
+	const {json} = io.writeJSON(doc, {basename: 'test'});
+	const positionDef = json.accessors[json.meshes[0].primitives[0].attributes.POSITION];
+	t.deepEquals(json.buffers.map((def) => def.byteLength), [24, 12], 'policy buffers');
+	t.equals(json.bufferViews[positionDef.bufferView].buffer, 1, 'policy buffer');
+	t.equals(json.bufferViews.length, 4, 'policy separate buffer views');
+
+	io.setLayoutPolicy(() => [{semantics: ['POSITION', 'COLOR_0'], byteStride: 12}]);
+	try {
+		io.writeJSON(doc, {format: Format.GLTF});
+		t.fail('invalid byte stride');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.INVALID_LAYOUT, 'invalid byte stride');
+		t.equals(e.pointer, '/meshes/0/primitives/0', 'invalid byte stride pointer');
+	}
+
+	io.setLayoutPolicy(() => [{semantics: ['POSITION', 'COLOR_0'], byteStride: 256}]);
+	try {
+		io.writeJSON(doc, {format: Format.GLTF});
+		t.fail('byte stride too large');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.INVALID_LAYOUT, 'byte stride too large');
+	}
+
+	const otherBuffer = new Document().createBuffer('other');
+	io.setLayoutPolicy(() => [{semantics: ['POSITION'], buffer: otherBuffer}]);
+	try {
+		io.writeJSON(doc, {format: Format.GLTF});
+		t.fail('buffer from another document');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.INVALID_LAYOUT, 'buffer from another document');
+		t.ok(e.message.includes('"other"'), 'buffer from another document message');
+	}
+
+	positionBuffer.dispose();
+	io.setLayoutPolicy(() => [{semantics: ['POSITION'], buffer: positionBuffer}]);
+	try {
+		io.writeJSON(doc, {format: Format.GLTF});
+		t.fail('disposed buffer');
+	} catch (e) {
+		t.equals(e.code, IOErrorCode.INVALID_LAYOUT, 'disposed buffer');
+		t.equals(e.pointer, '/meshes/0/primitives/0', 'disposed buffer pointer');
+	}
+	t.end();
+});
@@ -0,0 +1,69 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Material, Node, PropertyType } from '../../';
+
+function createDocument (): Document {
+	const doc = new Document();
+	const glass = doc.createMaterial('Glass').setExtras({transparent: true});
+	const paint = doc.createMaterial('Paint');
+	const windowMesh = doc.createMesh('Window')
+		.addPrimitive(doc.createPrimitive().setMaterial(glass));
+	const bodyMesh = doc.createMesh('Body')
+		.addPrimitive(doc.createPrimitive().setMaterial(paint));
+	const car = doc.createNode('VehicleCar')
+		.addChild(doc.createNode('Windshield').setMesh(windowMesh))
+		.addChild(doc.createNode('Chassis').setMesh(bodyMesh));
+	const house = doc.createNode('House')
+		.addChild(doc.createNode('HouseWindow').setMesh(windowMesh));
+	doc.createScene().addChild(car).addChild(house);
+	return doc;
+}
+
+test('@gltf-transform/core::selector | type and name', t => {
+	const root = createDocument().getRoot();
+	const names = (props: {getName(): string}[]): string[] => props.map((p) => p.getName());
+
+	t.deepEqual(names(root.select({type: PropertyType.MATERIAL})), ['Glass', 'Paint'], 'type');
+	t.deepEqual(
+		names(root.select({type: 'Node', name: 'house*'})),
+		['House', 'HouseWindow'],
+		'glob'
+	);
+	t.deepEqual(names(root.select({name: /^Win/})), ['Window', 'Windshield'], 'regex');
+	t.deepEqual(
+		names(root.select({type: ['Mesh', 'Material'], name: 'W?ndow'})),
+		['Window'],
+		'types'
+	);
+	t.equal(root.select({type: PropertyType.PRIMITIVE}).length, 2, 'non-root types');
+	t.end();
+});
+
+test('@gltf-transform/core::selector | extras and extensions', t => {
+	const root = createDocument().getRoot();
+
+	const transparent = root.select<Material>({extras: {transparent: true}});
+	t.deepEqual(transparent.map((m) => m.getName()), ['Glass'], 'extras value');
+	t.deepEqual(root.select({extras: {transparent: false}}), [], 'extras mismatch');
+	t.deepEqual(root.select({extensions: ['KHR_materials_unlit']}), [], 'extensions');
+	t.end();
+});
+
+test('@gltf-transform/core::selector | relationships', t => {
+	const root = createDocument().getRoot();
+
+	const nodes = root.select<Node>({
+		type: PropertyType.NODE,
+		ancestor: {type: PropertyType.NODE, name: 'Vehicle*'},
+		child: {type: PropertyType.MESH, descendant: {type: PropertyType.MATERIAL, name: 'Glass'}},
+	});
+	t.deepEqual(nodes.map((n) => n.getName()), ['Windshield'], 'ancestor, child, descendant');
+
+	const parents = root.select({type: PropertyType.NODE, parent: {name: 'House'}});
+	t.deepEqual(parents.map((n) => n.getName()), ['HouseWindow'], 'parent');
+
+	const custom = root.select({type: PropertyType.NODE, filter: (n) => !!(n as Node).getMesh()});
+	t.equal(custom.length, 3, 'filter');
+	t.end();
+});
@@ -6,6 +6,7 @@ import { BufferUtils } from '../../';
 const IS_NODEJS = typeof window === 'undefined';
 
 const HELLO_WORLD = 'data:application/octet-stream;base64,aGVsbG8gd29ybGQ=';
+const HELLO_WORLD_BUFFER = BufferUtils.encodeText('hello world');
 
 test('@gltf-transform/core::buffer-utils | web', {skip: IS_NODEJS}, t => {
 	t.equals(
@@ -13,6 +14,11 @@ test('@gltf-transform/core::buffer-utils | web', {skip: IS_NODEJS}, t => {
 		'hello world',
 		'createBufferFromDataURI'
 	);
+	t.equals(
+		BufferUtils.createDataURIFromBuffer(HELLO_WORLD_BUFFER, 'application/octet-stream'),
+		HELLO_WORLD,
+		'createDataURIFromBuffer'
+	);
 	t.equals(BufferUtils.decodeText(BufferUtils.encodeText('hey')), 'hey', 'encode/decode');
 	t.end();
 });
@@ -23,6 +29,11 @@ test('@gltf-transform/core::buffer-utils | node.js', {skip: !IS_NODEJS}, t => {
 		'hello world',
 		'createBufferFromDataURI'
 	);
+	t.equals(
+		BufferUtils.createDataURIFromBuffer(HELLO_WORLD_BUFFER, 'application/octet-stream'),
+		HELLO_WORLD,
+		'createDataURIFromBuffer'
+	);
 	t.equals(BufferUtils.decodeText(BufferUtils.encodeText('hey')), 'hey', 'encode/decode');
 
 	const buffer = Buffer.from([1, 2]);
@@ -0,0 +1,42 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { BufferUtils, sha256 } from '../../';
+
+const hex = (digest: Uint32Array): string => Array.from(digest)
+	.map((word) => ('00000000' + word.toString(16)).slice(-8))
+	.join('');
+
+test('@gltf-transform/core::sha256', t => {
+	// Test vectors from FIPS 180-4 examples, and at the padding boundaries.
+	const vectors: [string, string, string][] = [
+		['empty', '', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+		['abc', 'abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+		[
+			'55 bytes',
+			'a'.repeat(55),
+			'9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318'
+		],
+		[
+			'56 bytes',
+			'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+			'248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+		],
+		[
+			'64 bytes',
+			'a'.repeat(64),
+			'ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb'
+		],
+		[
+			'112 bytes',
+			'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnop'
+				+ 'jklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+			'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1'
+		],
+	];
+
+	for (const [label, text, expected] of vectors) {
+		t.equals(hex(sha256(new Uint8Array(BufferUtils.encodeText(text)))), expected, label);
+	}
+	t.end();
+});
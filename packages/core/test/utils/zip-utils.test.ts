@@ -0,0 +1,99 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import path from 'path';
+import test from 'tape';
+import zlib from 'zlib';
+import { BufferUtils, IOErrorCode, ReadError, ZipUtils } from '../../';
+
+test('@gltf-transform/core::zip-utils | zip', t => {
+	const zip = ZipUtils.zip({
+		'hello.txt': BufferUtils.encodeText('hello'),
+		'dir/empty.bin': new ArrayBuffer(0),
+	});
+	const view = new DataView(zip);
+
+	t.equals(view.getUint32(0, true), 0x04034B50, 'local file header');
+	t.equals(view.getUint32(14, true), 0x3610A686, 'crc32');
+	t.equals(view.getUint32(22, true), 5, 'uncompressed size');
+	t.equals(BufferUtils.decodeText(zip.slice(30, 39)), 'hello.txt', 'filename');
+	t.equals(BufferUtils.decodeText(zip.slice(39, 44)), 'hello', 'contents');
+
+	const end = zip.byteLength - 22;
+	t.equals(view.getUint32(end, true), 0x06054B50, 'end of central directory');
+	t.equals(view.getUint16(end + 10, true), 2, 'entry count');
+	t.equals(view.getUint32(view.getUint32(end + 16, true), true), 0x02014B50, 'central directory');
+	t.end();
+});
+
+test('@gltf-transform/core::zip-utils | unzip', async t => {
+	const files = {
+		'hello.txt': BufferUtils.encodeText('hello'),
+		'dir/data.bin': new Uint8Array([1, 2, 3]).buffer,
+	};
+	t.deepEquals(ZipUtils.unzip(ZipUtils.zip(files)), files, 'unzip stored');
+	t.deepEquals(await ZipUtils.unzipAsync(ZipUtils.zip(files)), files, 'unzip stored async');
+
+	const readFile = (uri: string) => BufferUtils.trim(fs.readFileSync(path.join(__dirname, uri)));
+	const deflated = readFile('../in/BoxTextured.zip');
+	t.throws(() => ZipUtils.unzip(deflated), /Missing inflate function/, 'requires inflate');
+
+	const inflated = ZipUtils.unzip(deflated, (data) => zlib.inflateRawSync(data));
+	t.deepEquals(Object.keys(inflated), [
+		'BoxTextured/BoxTextured.gltf',
+		'BoxTextured/BoxTextured0.bin',
+		'BoxTextured/CesiumLogoFlat.png',
+	], 'unzip deflated');
+	t.deepEquals(
+		inflated['BoxTextured/BoxTextured0.bin'],
+		readFile('../in/BoxTextured_glTF/BoxTextured0.bin'),
+		'unzip deflated content'
+	);
+	t.deepEquals(
+		await ZipUtils.unzipAsync(deflated, (data) => zlib.inflateRawSync(data)),
+		inflated,
+		'unzip deflated async'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::zip-utils | invalid', async t => {
+	const createZip = () => ZipUtils.zip({'hello.txt': BufferUtils.encodeText('hello')});
+	const end = createZip().byteLength - 22;
+
+	const cases: [string, ArrayBuffer][] = [];
+	cases.push(['not an archive', BufferUtils.encodeText('hello, world')]);
+
+	const badDirectory = createZip();
+	new DataView(badDirectory).setUint32(end + 16, 1000, true);
+	cases.push(['central directory offset', badDirectory]);
+
+	const badLocalHeader = createZip();
+	new DataView(badLocalHeader).setUint32(0, 0, true);
+	cases.push(['local file header', badLocalHeader]);
+
+	const badSize = createZip();
+	new DataView(badSize).setUint32(39 + 5 + 20, 1000, true);
+	cases.push(['compressed size', badSize]);
+
+	const zip64 = createZip();
+	new DataView(zip64).setUint16(end + 10, 0xFFFF, true);
+	cases.push(['zip64', zip64]);
+
+	for (const [name, zip] of cases) {
+		try {
+			ZipUtils.unzip(zip);
+			t.fail(name);
+		} catch (e) {
+			t.ok(e instanceof ReadError, `${name} instanceof ReadError`);
+			t.equals(e.code, IOErrorCode.INVALID_ARCHIVE, `${name} code`);
+		}
+		try {
+			await ZipUtils.unzipAsync(zip);
+			t.fail(`${name} async`);
+		} catch (e) {
+			t.equals(e.code, IOErrorCode.INVALID_ARCHIVE, `${name} code async`);
+		}
+	}
+	t.end();
+});
@@ -0,0 +1,133 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Primitive, ValidationSeverity, validate } from '../';
+
+function createDocument (): Document {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const position = doc.createAccessor('POSITION')
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array(9))
+		.setBuffer(buffer);
+	const indices = doc.createAccessor('indices')
+		.setArray(new Uint16Array([0, 1, 2]))
+		.setBuffer(buffer);
+	const prim = doc.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setIndices(indices);
+	doc.createNode().setMesh(doc.createMesh().addPrimitive(prim));
+	return doc;
+}
+
+const codes = (doc: Document, ignore: string[] = []): string[] => {
+	return validate(doc, {ignore}).issues.map((issue) => issue.code);
+};
+
+test('@gltf-transform/core::validator | valid', t => {
+	const report = validate(createDocument());
+	t.deepEqual(report, {issues: [], errors: 0, warnings: 0}, 'no issues');
+	t.end();
+});
+
+test('@gltf-transform/core::validator | primitives', t => {
+	const doc = createDocument();
+	const buffer = doc.getRoot().listBuffers()[0];
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+
+	prim.setAttribute('NORMAL', doc.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array(6))
+		.setBuffer(buffer));
+	prim.getIndices()!.setArray(new Uint16Array([0, 1, 3]));
+
+	const report = validate(doc);
+	t.deepEqual(report.issues, [
+		{
+			code: 'MESH_PRIMITIVE_UNEQUAL_ACCESSOR_COUNT',
+			severity: ValidationSeverity.ERROR,
+			message: 'Attribute NORMAL has 2 elements, expected 3.',
+			path: '/meshes/0/primitives/0/attributes/NORMAL',
+		},
+		{
+			code: 'ACCESSOR_INDEX_OOB',
+			severity: ValidationSeverity.ERROR,
+			message: 'Index 3 exceeds vertex count (3).',
+			path: '/meshes/0/primitives/0/indices',
+		}
+	], 'issues');
+	t.equal(report.errors, 2, 'error count');
+
+	prim.getIndices()!.setArray(new Uint16Array([0, 1]));
+	prim.setAttribute('NORMAL', null);
+	t.deepEqual(codes(doc), ['MESH_PRIMITIVE_INCOMPATIBLE_MODE'], 'invalid mode');
+	prim.setMode(Primitive.Mode.LINES);
+	t.deepEqual(codes(doc), [], 'valid mode');
+	t.end();
+});
+
+test('@gltf-transform/core::validator | skins', t => {
+	const doc = createDocument();
+	const buffer = doc.getRoot().listBuffers()[0];
+	const node = doc.getRoot().listNodes()[0];
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+
+	prim
+		.setAttribute('JOINTS_0', doc.createAccessor()
+			.setType(Accessor.Type.VEC4)
+			.setArray(new Uint8Array([0, 0, 0, 0, 1, 0, 0, 0, 2, 0, 0, 0]))
+			.setBuffer(buffer))
+		.setAttribute('WEIGHTS_0', doc.createAccessor()
+			.setType(Accessor.Type.VEC4)
+			.setArray(new Float32Array([1, 0, 0, 0, 0.5, 0.5, 0, 0, 0.5, 0, 0, 0]))
+			.setBuffer(buffer));
+
+	const skin = doc.createSkin()
+		.addJoint(doc.createNode())
+		.addJoint(doc.createNode())
+		.setInverseBindMatrices(doc.createAccessor()
+			.setType(Accessor.Type.MAT4)
+			.setArray(new Float32Array(16))
+			.setBuffer(buffer));
+	node.setSkin(skin);
+
+	t.deepEqual(codes(doc), [
+		'ACCESSOR_WEIGHTS_NON_NORMALIZED',
+		'SKIN_IBM_COUNT_MISMATCH',
+		'SKIN_JOINT_INDEX_OOB',
+	], 'skin issues');
+	t.deepEqual(
+		codes(doc, ['ACCESSOR_WEIGHTS_NON_NORMALIZED', 'SKIN_JOINT_INDEX_OOB']),
+		['SKIN_IBM_COUNT_MISMATCH'],
+		'ignore'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::validator | animations', t => {
+	const doc = createDocument();
+	const buffer = doc.getRoot().listBuffers()[0];
+	const node = doc.getRoot().listNodes()[0];
+	const sampler = doc.createAnimationSampler()
+		.setInput(doc.createAccessor()
+			.setArray(new Float32Array([0, 1, 1]))
+			.setBuffer(buffer))
+		.setOutput(doc.createAccessor()
+			.setType(Accessor.Type.VEC3)
+			.setArray(new Float32Array(6))
+			.setBuffer(buffer));
+	const channel = doc.createAnimationChannel()
+		.setTargetNode(node)
+		.setTargetPath('translation')
+		.setSampler(sampler);
+	doc.createAnimation().addSampler(sampler).addChannel(channel);
+
+	node.setRotation([0, 0, 0, 2]);
+
+	t.deepEqual(codes(doc), [
+		'ROTATION_NON_UNIT',
+		'ANIMATION_SAMPLER_INPUT_NON_INCREASING',
+		'ANIMATION_SAMPLER_OUTPUT_COUNT_MISMATCH',
+	], 'animation issues');
+	t.end();
+});
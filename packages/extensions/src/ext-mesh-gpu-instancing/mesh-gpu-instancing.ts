@@ -87,7 +87,7 @@ export class MeshGPUInstancing extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createInstancedMesh(): InstancedMesh {
-		return new InstancedMesh(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new InstancedMesh(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -0,0 +1,225 @@
+import { Accessor, AnimationSampler, Document, GLTF, MathUtils, Primitive, PropertyType, TypedArray } from '@gltf-transform/core';
+import { MESHOPT } from '../types/meshoptimizer';
+
+export enum EncoderMethod {
+	QUANTIZE = 'quantize',
+	FILTER = 'filter',
+}
+
+export interface EncoderOptions {
+	method?: EncoderMethod;
+}
+
+export const ARRAY_BUFFER = 34962;
+export const ELEMENT_ARRAY_BUFFER = 34963;
+
+/** Bits of precision used by each filter. */
+const FILTER_BITS: {[filter: string]: number} = {
+	OCTAHEDRAL: 8,
+	QUATERNION: 16,
+	EXPONENTIAL: 12,
+};
+
+/** How an accessor is compressed, determined by its use in the {@link Document}. */
+export interface MeshoptUsage {
+	/** Buffer view target, if the accessor is used as vertex attributes or indices. */
+	target?: number;
+	mode: MESHOPT.Mode;
+	filter: MESHOPT.Filter;
+}
+
+/** Accessor data prepared for compression, and properties of the resulting accessor. */
+export interface PreparedAccessor {
+	data: Uint8Array;
+	byteStride: number;
+	componentType: GLTF.AccessorComponentType;
+	normalized: boolean;
+}
+
+/**
+ * Returns compression settings for each accessor that can be compressed. Accessors used in other
+ * ways — by skins, by extensions, or in conflicting ways by several parents — are omitted, and
+ * are written without compression.
+ */
+export function listMeshoptUsage(doc: Document, method: EncoderMethod): Map<Accessor, MeshoptUsage> {
+	const usages = new Map<Accessor, MeshoptUsage | null>();
+	const useFilters = method === EncoderMethod.FILTER;
+
+	const addUsage = (accessor: Accessor | null, usage: MeshoptUsage): void => {
+		if (!accessor) return;
+		const prevUsage = usages.get(accessor);
+		if (prevUsage === undefined) {
+			usages.set(accessor, usage);
+		} else if (prevUsage && (prevUsage.target !== usage.target
+				|| prevUsage.mode !== usage.mode
+				|| prevUsage.filter !== usage.filter)) {
+			usages.set(accessor, null);
+		}
+	};
+
+	for (const mesh of doc.getRoot().listMeshes()) {
+		for (const prim of mesh.listPrimitives()) {
+			const indices = prim.getIndices();
+			const isTriangles = prim.getMode() === Primitive.Mode.TRIANGLES
+				&& !!indices && indices.getCount() % 3 === 0;
+			addUsage(indices, {
+				target: ELEMENT_ARRAY_BUFFER,
+				mode: isTriangles ? 'TRIANGLES' : 'INDICES',
+				filter: 'NONE',
+			});
+
+			for (const semantic of prim.listSemantics()) {
+				const attribute = prim.getAttribute(semantic)!;
+				// Float directions would require KHR_mesh_quantization after filtering, and are
+				// filtered only if already quantized.
+				const isDirection = semantic === 'NORMAL' || semantic === 'TANGENT';
+				const isQuantized = attribute.getComponentType() !== Accessor.ComponentType.FLOAT;
+				addUsage(attribute, {
+					target: ARRAY_BUFFER,
+					mode: 'ATTRIBUTES',
+					filter: useFilters && isDirection && isQuantized ? 'OCTAHEDRAL' : 'NONE',
+				});
+			}
+
+			// Morph target deltas are not unit vectors, and are not filtered.
+			for (const target of prim.listTargets()) {
+				for (const attribute of target.listAttributes()) {
+					addUsage(attribute, {target: ARRAY_BUFFER, mode: 'ATTRIBUTES', filter: 'NONE'});
+				}
+			}
+		}
+	}
+
+	for (const animation of doc.getRoot().listAnimations()) {
+		for (const channel of animation.listChannels()) {
+			const sampler = channel.getSampler();
+			if (!sampler) continue;
+
+			addUsage(sampler.getInput(), {mode: 'ATTRIBUTES', filter: 'NONE'});
+			addUsage(sampler.getOutput(), {
+				mode: 'ATTRIBUTES',
+				filter: useFilters ? getOutputFilter(sampler, channel.getTargetPath()) : 'NONE',
+			});
+		}
+	}
+
+	const result = new Map<Accessor, MeshoptUsage>();
+	for (const [accessor, usage] of Array.from(usages.entries())) {
+		const isSupported = accessor.listParents().every((parent) => {
+			return parent.propertyType === PropertyType.ROOT
+				|| parent.propertyType === PropertyType.PRIMITIVE
+				|| parent.propertyType === PropertyType.PRIMITIVE_TARGET
+				|| parent.propertyType === PropertyType.ANIMATION_SAMPLER;
+		});
+		if (usage && isSupported) result.set(accessor, usage);
+	}
+	return result;
+}
+
+function getOutputFilter(
+		sampler: AnimationSampler,
+		path: GLTF.AnimationChannelTargetPath | null): MESHOPT.Filter {
+	// Tangents of cubic splines are not unit quaternions, and are not filtered.
+	if (sampler.getInterpolation() === AnimationSampler.Interpolation.CUBICSPLINE) return 'NONE';
+	if (path === 'rotation') return 'QUATERNION';
+	if (path === 'translation' || path === 'scale') return 'EXPONENTIAL';
+	return 'NONE';
+}
+
+/**
+ * Prepares accessor data for compression, applying filters and padding elements to the 4-byte
+ * alignment required by the `ATTRIBUTES` mode. Returns null if the accessor cannot be compressed.
+ */
+export function prepareAccessor(
+		accessor: Accessor,
+		encoder: MESHOPT.Encoder,
+		usage: MeshoptUsage): PreparedAccessor | null {
+	const array = accessor.getArray()!;
+	const count = accessor.getCount();
+	const elementSize = accessor.getElementSize();
+	const componentType = accessor.getComponentType();
+	const normalized = accessor.getNormalized();
+
+	if (usage.mode !== 'ATTRIBUTES') {
+		// Indices are compressed as 16- or 32-bit integers.
+		const indices = array instanceof Uint8Array ? new Uint16Array(array) : array;
+		return {
+			data: toBytes(indices),
+			byteStride: indices.BYTES_PER_ELEMENT,
+			componentType: indices instanceof Uint32Array
+				? Accessor.ComponentType.UNSIGNED_INT
+				: Accessor.ComponentType.UNSIGNED_SHORT,
+			normalized: false,
+		};
+	}
+
+	if (usage.filter !== 'NONE') {
+		const bits = FILTER_BITS[usage.filter];
+		const source = new Float32Array(array.length);
+		for (let i = 0; i < array.length; i++) {
+			source[i] = normalized ? MathUtils.denormalize(array[i], componentType) : array[i];
+		}
+
+		switch (usage.filter) {
+			case 'OCTAHEDRAL': // → four 8-bit normalized components.
+				return {
+					data: encoder.encodeFilterOct(
+						elementSize === 3 ? padElements(source, 3, 4) as Float32Array : source,
+						count, 4, bits
+					),
+					byteStride: 4,
+					componentType: Accessor.ComponentType.BYTE,
+					normalized: true,
+				};
+			case 'QUATERNION': // → four 16-bit normalized components.
+				return {
+					data: encoder.encodeFilterQuat(source, count, 8, bits),
+					byteStride: 8,
+					componentType: Accessor.ComponentType.SHORT,
+					normalized: true,
+				};
+			case 'EXPONENTIAL': // → 32-bit floating point components.
+				return {
+					data: encoder.encodeFilterExp(source, count, elementSize * 4, bits),
+					byteStride: elementSize * 4,
+					componentType: Accessor.ComponentType.FLOAT,
+					normalized: false,
+				};
+			default:
+				throw new Error(`Unexpected filter, "${usage.filter}".`);
+		}
+	}
+
+	const byteStride = elementSize * accessor.getComponentSize();
+	if (byteStride % 4 === 0) {
+		return {data: toBytes(array), byteStride, componentType, normalized};
+	}
+
+	// Only vertex attributes may use a byte stride larger than the element size.
+	if (usage.target !== ARRAY_BUFFER) return null;
+
+	const paddedSize = Math.ceil(byteStride / 4) * 4 / accessor.getComponentSize();
+	return {
+		data: toBytes(padElements(array, elementSize, paddedSize)),
+		byteStride: paddedSize * accessor.getComponentSize(),
+		componentType,
+		normalized,
+	};
+}
+
+/** Copies elements of an array to a new array, with additional zeroed components. */
+function padElements(array: TypedArray, elementSize: number, paddedSize: number): TypedArray {
+	const count = array.length / elementSize;
+	const ArrayCtor = array.constructor as new (length: number) => TypedArray;
+	const result = new ArrayCtor(count * paddedSize);
+	for (let i = 0; i < count; i++) {
+		for (let j = 0; j < elementSize; j++) {
+			result[i * paddedSize + j] = array[i * elementSize + j];
+		}
+	}
+	return result;
+}
+
+function toBytes(array: TypedArray): Uint8Array {
+	return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
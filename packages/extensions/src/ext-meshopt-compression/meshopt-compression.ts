@@ -0,0 +1,353 @@
+import { Accessor, BufferUtils, Extension, GLTF, PropertyType, ReaderContext, WriterContext } from '@gltf-transform/core';
+import { EXT_MESHOPT_COMPRESSION } from '../constants';
+import { MESHOPT } from '../types/meshoptimizer';
+import { ARRAY_BUFFER, EncoderMethod, EncoderOptions, PreparedAccessor, listMeshoptUsage, prepareAccessor } from './encoder';
+
+const NAME = EXT_MESHOPT_COMPRESSION;
+
+interface MeshoptBufferViewExtension {
+	buffer: number;
+	byteOffset?: number;
+	byteLength: number;
+	byteStride: number;
+	count: number;
+	mode: MESHOPT.Mode;
+	filter?: MESHOPT.Filter;
+}
+
+interface MeshoptBufferExtension {
+	fallback?: boolean;
+}
+
+/** Buffer view compressed while writing, and the accessors it contains. */
+interface EncodedBufferView {
+	data: ArrayBuffer;
+	byteLength: number;
+	byteStride: number;
+	count: number;
+	mode: MESHOPT.Mode;
+	filter: MESHOPT.Filter;
+	target?: number;
+	accessorIndices: number[];
+}
+
+interface MeshoptWriterContext {
+	encodedBufferViews: EncodedBufferView[];
+}
+
+const DEFAULT_ENCODER_OPTIONS: Required<EncoderOptions> = {
+	method: EncoderMethod.QUANTIZE,
+};
+
+/**
+ * # MeshoptCompression
+ *
+ * [`EXT_meshopt_compression`](https://github.com/KhronosGroup/glTF/tree/master/extensions/2.0/Vendor/EXT_meshopt_compression/)
+ * provides compression and fast decoding for geometry, morph targets, and animations.
+ *
+ * Meshopt compression (based on the [meshoptimizer](https://github.com/zeux/meshoptimizer)
+ * library) offers a lightweight decoder with very fast runtime decompression, and is
+ * appropriate for models of any size. Meshopt can reduce the transmission sizes of geometry,
+ * morph targets, animation, and other numeric data stored in buffer views. When textures are
+ * large, other complementary compression methods should be used as well.
+ *
+ * For the full benefits of meshopt compression, **apply gzip, brotli, or another lossless
+ * compression method** to the resulting .glb, .gltf, or .bin files. Meshopt specifically
+ * pre-optimizes assets for this purpose — without this secondary compression, the size
+ * reduction is considerably less. Compression is most effective on quantized data, so the
+ * `quantize()` function of `@gltf-transform/functions` should be applied first.
+ *
+ * Compressed buffer views are written to the same {@link Buffer} as their accessors, and an
+ * empty fallback buffer is added to the glTF asset, so the extension is always written as
+ * required. The `FILTER` encoder method additionally stores quantized normals and tangents, and
+ * animated rotation, translation, and scale with lossy filters, for smaller files. Float normals
+ * and tangents are not filtered, as the result would require `KHR_mesh_quantization`.
+ *
+ * A decoder or encoder from the `meshoptimizer` npm module is required for reading and writing,
+ * and must be provided by the application. Each must finish loading before being registered.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * import { NodeIO } from '@gltf-transform/core';
+ * import { MeshoptCompression } from '@gltf-transform/extensions';
+ * import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+ *
+ * await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready]);
+ *
+ * const io = new NodeIO()
+ *	.registerExtensions([MeshoptCompression])
+ *	.registerDependencies({
+ *		'meshopt.decoder': MeshoptDecoder, // Optional.
+ *		'meshopt.encoder': MeshoptEncoder, // Optional.
+ *	});
+ *
+ * // Read and decode.
+ * const doc = io.read('compressed.glb');
+ *
+ * // Write and encode.
+ * doc.createExtension(MeshoptCompression)
+ * 	.setRequired(true)
+ * 	.setEncoderOptions({method: MeshoptCompression.EncoderMethod.QUANTIZE});
+ * io.write('compressed.glb', doc);
+ * ```
+ */
+export class MeshoptCompression extends Extension {
+	public readonly extensionName = NAME;
+	public readonly prereadTypes = [PropertyType.BUFFER];
+	public readonly prewriteTypes = [PropertyType.ACCESSOR];
+	public readonly readDependencies = ['meshopt.decoder'];
+	public readonly writeDependencies = ['meshopt.encoder'];
+
+	public static readonly EXTENSION_NAME = NAME;
+	public static readonly EncoderMethod = EncoderMethod;
+
+	private _decoder: MESHOPT.Decoder | null = null;
+	private _encoder: MESHOPT.Encoder | null = null;
+	private _encoderOptions: Required<EncoderOptions> = DEFAULT_ENCODER_OPTIONS;
+
+	/** Fallback buffers contain no data when written, and have no URI. */
+	public static isBufferDataOptional(bufferDef: GLTF.IBuffer): boolean {
+		const fallbackDef = bufferDef.extensions && bufferDef.extensions[NAME];
+		return !!fallbackDef && !!(fallbackDef as MeshoptBufferExtension).fallback;
+	}
+
+	/** Compressed buffer views store data in the range given by their extension. */
+	public static getBufferViewStorage(bufferViewDef: GLTF.IBufferView): GLTF.IBufferView | null {
+		const meshoptDef = bufferViewDef.extensions && bufferViewDef.extensions[NAME];
+		return meshoptDef ? meshoptDef as MeshoptBufferViewExtension : null;
+	}
+
+	public install(key: string, dependency: unknown): this {
+		if (key === 'meshopt.decoder') {
+			this._decoder = dependency as MESHOPT.Decoder;
+		}
+		if (key === 'meshopt.encoder') {
+			this._encoder = dependency as MESHOPT.Encoder;
+		}
+		return this;
+	}
+
+	public setEncoderOptions(options: EncoderOptions): this {
+		this._encoderOptions = {...DEFAULT_ENCODER_OPTIONS, ...options};
+		return this;
+	}
+
+	/**
+	 * Decodes compressed buffer views, which are then read by their accessors in place of the
+	 * fallback data.
+	 */
+	public preread(context: ReaderContext): this {
+		if (!this._decoder) {
+			throw new Error(`[${NAME}] Please install extension dependency, "meshopt.decoder".`);
+		}
+
+		const logger = this.doc.getLogger();
+		const bufferViewDefs = context.jsonDoc.json.bufferViews || [];
+
+		let byteLength = 0;
+		bufferViewDefs.forEach((bufferViewDef, index) => {
+			if (!bufferViewDef.extensions || !bufferViewDef.extensions[NAME]) return;
+
+			const meshoptDef = bufferViewDef.extensions[NAME] as MeshoptBufferViewExtension;
+			const source = new Uint8Array(context.readBuffer(
+				meshoptDef.buffer,
+				meshoptDef.byteOffset || 0,
+				meshoptDef.byteLength
+			));
+			const target = new Uint8Array(meshoptDef.count * meshoptDef.byteStride);
+
+			this._decoder!.decodeGltfBuffer(
+				target,
+				meshoptDef.count,
+				meshoptDef.byteStride,
+				source,
+				meshoptDef.mode,
+				meshoptDef.filter || 'NONE'
+			);
+
+			context.bufferViews[index] = target.buffer;
+			context.bufferViewBuffers[index] = context.buffers[meshoptDef.buffer];
+			byteLength += meshoptDef.byteLength;
+		});
+
+		logger.debug(`[${NAME}] Decompressed ${byteLength} bytes.`);
+
+		return this;
+	}
+
+	/** Removes fallback buffers, which contain no data after decoding. */
+	public read(context: ReaderContext): this {
+		const bufferDefs = context.jsonDoc.json.buffers || [];
+		bufferDefs.forEach((bufferDef, index) => {
+			if (!bufferDef.extensions || !bufferDef.extensions[NAME]) return;
+
+			const fallbackDef = bufferDef.extensions[NAME] as MeshoptBufferExtension;
+			const buffer = context.buffers[index];
+			if (fallbackDef.fallback && buffer.listParents().length === 1) buffer.dispose();
+		});
+
+		return this;
+	}
+
+	/**
+	 * Compresses accessors used as vertex attributes, indices, morph targets, and animation
+	 * samplers. Accessors with similar layout and usage are grouped into buffer views.
+	 */
+	public prewrite(context: WriterContext, _propertyType: PropertyType): this {
+		if (!this._encoder) {
+			throw new Error(`[${NAME}] Please install extension dependency, "meshopt.encoder".`);
+		}
+
+		const logger = this.doc.getLogger();
+		logger.debug(`[${NAME}] Compression options: ${JSON.stringify(this._encoderOptions)}`);
+
+		const root = this.doc.getRoot();
+		const accessorDefs = context.jsonDoc.json.accessors!;
+		const usages = listMeshoptUsage(this.doc, this._encoderOptions.method);
+		const groups = new Map<string, {accessors: Accessor[], prepared: PreparedAccessor[]}>();
+
+		for (const accessor of root.listAccessors()) {
+			const usage = usages.get(accessor);
+			const buffer = accessor.getBuffer();
+			if (!usage || !buffer || !accessor.getCount() || accessor.getSparse()) continue;
+			if (context.accessorIndexMap.has(accessor)) continue;
+
+			const prepared = prepareAccessor(accessor, this._encoder, usage);
+			if (!prepared) continue;
+
+			const key = [
+				root.listBuffers().indexOf(buffer),
+				usage.target,
+				usage.mode,
+				usage.filter,
+				prepared.byteStride,
+			].join(':');
+			if (!groups.has(key)) groups.set(key, {accessors: [], prepared: []});
+			groups.get(key)!.accessors.push(accessor);
+			groups.get(key)!.prepared.push(prepared);
+		}
+
+		const encodedBufferViews: EncodedBufferView[] = [];
+		let byteLength = 0;
+
+		for (const {accessors, prepared} of Array.from(groups.values())) {
+			const usage = usages.get(accessors[0])!;
+			const byteStride = prepared[0].byteStride;
+			const count = accessors.reduce((sum, accessor) => sum + accessor.getCount(), 0);
+			const source = new Uint8Array(count * byteStride);
+			const accessorIndices: number[] = [];
+
+			let byteOffset = 0;
+			accessors.forEach((accessor, index) => {
+				const accessorDef = context.createAccessorDef(accessor);
+				accessorDef.componentType = prepared[index].componentType;
+				accessorDef.normalized = prepared[index].normalized;
+				accessorDef.byteOffset = byteOffset;
+
+				// Bounds of filtered data are approximate, and omitted where optional.
+				if (usage.filter !== 'NONE') {
+					delete accessorDef.min;
+					delete accessorDef.max;
+				}
+
+				source.set(prepared[index].data, byteOffset);
+				byteOffset += accessor.getCount() * byteStride;
+
+				context.accessorIndexMap.set(accessor, accessorDefs.length);
+				accessorIndices.push(accessorDefs.length);
+				accessorDefs.push(accessorDef);
+			});
+
+			const encoded = this._encoder.encodeGltfBuffer(source, count, byteStride, usage.mode);
+			const data = BufferUtils.pad(encoded.slice().buffer);
+			encodedBufferViews.push({
+				data,
+				byteLength: encoded.byteLength,
+				byteStride,
+				count,
+				mode: usage.mode,
+				filter: usage.filter,
+				target: usage.target,
+				accessorIndices,
+			});
+
+			const buffer = accessors[0].getBuffer()!;
+			if (!context.otherBufferViews.has(buffer)) context.otherBufferViews.set(buffer, []);
+			context.otherBufferViews.get(buffer)!.push(data);
+			byteLength += source.byteLength;
+		}
+
+		logger.debug(`[${NAME}] Compressed ${byteLength} bytes.`);
+
+		context.extensionData[NAME] = {encodedBufferViews} as MeshoptWriterContext;
+
+		return this;
+	}
+
+	/**
+	 * Moves compressed data into the extensions of each buffer view, and adds a fallback buffer
+	 * with the uncompressed byte lengths.
+	 */
+	public write(context: WriterContext): this {
+		const meshoptContext = context.extensionData[NAME] as MeshoptWriterContext;
+		const json = context.jsonDoc.json;
+
+		// Omit the extension if nothing was compressed.
+		if (!meshoptContext.encodedBufferViews.length) {
+			json.extensionsUsed = (json.extensionsUsed || [])
+				.filter((name) => name !== NAME);
+			json.extensionsRequired = (json.extensionsRequired || [])
+				.filter((name) => name !== NAME);
+			return this;
+		}
+
+		const fallbackIndex = json.buffers!.length;
+		let fallbackByteLength = 0;
+
+		for (const encodedBufferView of meshoptContext.encodedBufferViews) {
+			const bufferViewIndex = context.otherBufferViewsIndexMap.get(encodedBufferView.data)!;
+			const bufferViewDef = json.bufferViews![bufferViewIndex];
+			const byteLength = encodedBufferView.count * encodedBufferView.byteStride;
+
+			const meshoptDef: MeshoptBufferViewExtension = {
+				buffer: bufferViewDef.buffer,
+				byteOffset: bufferViewDef.byteOffset,
+				byteLength: encodedBufferView.byteLength,
+				byteStride: encodedBufferView.byteStride,
+				count: encodedBufferView.count,
+				mode: encodedBufferView.mode,
+			};
+			if (encodedBufferView.filter !== 'NONE') meshoptDef.filter = encodedBufferView.filter;
+
+			const fallbackDef: GLTF.IBufferView = {
+				buffer: fallbackIndex,
+				byteOffset: fallbackByteLength,
+				byteLength,
+				extensions: {[NAME]: meshoptDef},
+			};
+			if (encodedBufferView.target === ARRAY_BUFFER) {
+				fallbackDef.byteStride = encodedBufferView.byteStride;
+			}
+			if (encodedBufferView.target) fallbackDef.target = encodedBufferView.target;
+			json.bufferViews![bufferViewIndex] = fallbackDef;
+
+			for (const accessorIndex of encodedBufferView.accessorIndices) {
+				json.accessors![accessorIndex].bufferView = bufferViewIndex;
+			}
+
+			fallbackByteLength += BufferUtils.padNumber(byteLength);
+		}
+
+		json.buffers!.push({
+			byteLength: fallbackByteLength,
+			extensions: {[NAME]: {fallback: true} as MeshoptBufferExtension},
+		});
+
+		// Loaders without support for the extension cannot read an empty fallback buffer.
+		json.extensionsRequired = json.extensionsRequired || [];
+		if (!json.extensionsRequired.includes(NAME)) json.extensionsRequired.push(NAME);
+
+		return this;
+	}
+}
@@ -1,6 +1,7 @@
 /** @module extensions */
 
 import { MeshGPUInstancing } from './ext-mesh-gpu-instancing';
+import { MeshoptCompression } from './ext-meshopt-compression';
 import { TextureWebP } from './ext-texture-webp';
 import { DracoMeshCompression } from './khr-draco-mesh-compression';
 import { LightsPunctual } from './khr-lights-punctual';
@@ -16,6 +17,7 @@ import { MaterialsVolume } from './khr-materials-volume';
 import { MeshQuantization } from './khr-mesh-quantization';
 import { TextureBasisu } from './khr-texture-basisu';
 import { TextureTransform } from './khr-texture-transform';
+import { LevelOfDetail } from './msft-lod';
 
 export const KHRONOS_EXTENSIONS = [
 	DracoMeshCompression,
@@ -36,11 +38,14 @@ export const KHRONOS_EXTENSIONS = [
 
 export const ALL_EXTENSIONS = [
 	MeshGPUInstancing,
+	MeshoptCompression,
 	TextureWebP,
+	LevelOfDetail,
 	...KHRONOS_EXTENSIONS,
 ];
 
 export * from './ext-mesh-gpu-instancing';
+export * from './ext-meshopt-compression';
 export * from './ext-texture-webp';
 export * from './khr-draco-mesh-compression';
 export * from './khr-lights-punctual';
@@ -56,3 +61,4 @@ export * from './khr-materials-volume';
 export * from './khr-mesh-quantization';
 export * from './khr-texture-basisu';
 export * from './khr-texture-transform';
+export * from './msft-lod';
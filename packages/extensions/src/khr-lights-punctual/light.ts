@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ExtensionProperty, PropertyType, vec3 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, PropertyType, vec3 } from '@gltf-transform/core';
 import { ColorUtils } from '@gltf-transform/core';
 import { KHR_LIGHTS_PUNCTUAL } from '../constants';
 
@@ -29,24 +29,24 @@ export class Light extends ExtensionProperty {
 	 * INSTANCE.
 	 */
 
-	private _color: vec3 = [1, 1, 1];
-	private _intensity = 1;
-	private _type: PunctualLightType = Light.Type.POINT;
-	private _range: number | null = null;
+	@GraphAttribute private color: vec3 = [1, 1, 1];
+	@GraphAttribute private intensity = 1;
+	@GraphAttribute private type: PunctualLightType = Light.Type.POINT;
+	@GraphAttribute private range: number | null = null;
 
-	private _innerConeAngle = 0;
-	private _outerConeAngle = Math.PI / 4;
+	@GraphAttribute private innerConeAngle = 0;
+	@GraphAttribute private outerConeAngle = Math.PI / 4;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._color = [...other._color] as vec3;
-		this._intensity = other._intensity;
-		this._type = other._type;
-		this._range = other._range;
+		this.color = [...other.color] as vec3;
+		this.intensity = other.intensity;
+		this.type = other.type;
+		this.range = other.range;
 
-		this._innerConeAngle = other._innerConeAngle;
-		this._outerConeAngle = other._outerConeAngle;
+		this.innerConeAngle = other.innerConeAngle;
+		this.outerConeAngle = other.outerConeAngle;
 
 		return this;
 	}
@@ -56,20 +56,20 @@ export class Light extends ExtensionProperty {
 	 */
 
 	/** Components (R, G, B) of light's color in linear space. */
-	public getColor(): vec3 { return this._color; }
+	public getColor(): vec3 { return this.color.slice() as vec3; }
 
 	/** Components (R, G, B) of light's color in linear space. */
 	public setColor(color: vec3): this {
-		this._color = color;
+		this.color = color;
 		return this;
 	}
 
 	/** Hex light color in sRGB colorspace. */
-	public getColorHex(): number { return ColorUtils.factorToHex(this._color); }
+	public getColorHex(): number { return ColorUtils.factorToHex(this.color); }
 
 	/** Hex light color in sRGB colorspace. */
 	public setColorHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._color);
+		this.color = ColorUtils.hexToFactor(hex, [0, 0, 0] as vec3);
 		return this;
 	}
 
@@ -81,14 +81,14 @@ export class Light extends ExtensionProperty {
 	 * Brightness of light. Units depend on the type of light: point and spot lights use luminous
 	 * intensity in candela (lm/sr) while directional lights use illuminance in lux (lm/m2).
 	 */
-	public getIntensity(): number { return this._intensity; }
+	public getIntensity(): number { return this.intensity; }
 
 	/**
 	 * Brightness of light. Units depend on the type of light: point and spot lights use luminous
 	 * intensity in candela (lm/sr) while directional lights use illuminance in lux (lm/m2).
 	 */
 	public setIntensity(intensity: number): this {
-		this._intensity = intensity;
+		this.intensity = intensity;
 		return this;
 	}
 
@@ -97,11 +97,11 @@ export class Light extends ExtensionProperty {
 	 */
 
 	/** Type. */
-	public getType(): PunctualLightType { return this._type; }
+	public getType(): PunctualLightType { return this.type; }
 
 	/** Type. */
 	public setType(type: PunctualLightType): this {
-		this._type = type;
+		this.type = type;
 		return this;
 	}
 
@@ -114,7 +114,7 @@ export class Light extends ExtensionProperty {
 	 * reached zero. Supported only for point and spot lights. Must be > 0. When undefined, range
 	 * is assumed to be infinite.
 	 */
-	public getRange(): number | null { return this._range; }
+	public getRange(): number | null { return this.range; }
 
 	/**
 	 * Hint defining a distance cutoff at which the light's intensity may be considered to have
@@ -122,7 +122,7 @@ export class Light extends ExtensionProperty {
 	 * is assumed to be infinite.
 	 */
 	public setRange(range: number | null): this {
-		this._range = range;
+		this.range = range;
 		return this;
 	}
 
@@ -134,14 +134,14 @@ export class Light extends ExtensionProperty {
 	 * Angle, in radians, from centre of spotlight where falloff begins. Must be ≥ 0 and
 	 * < outerConeAngle.
 	 */
-	public getInnerConeAngle(): number { return this._innerConeAngle; }
+	public getInnerConeAngle(): number { return this.innerConeAngle; }
 
 	/**
 	 * Angle, in radians, from centre of spotlight where falloff begins. Must be ≥ 0 and
 	 * < outerConeAngle.
 	 */
 	public setInnerConeAngle(innerConeAngle: number): this {
-		this._innerConeAngle = innerConeAngle;
+		this.innerConeAngle = innerConeAngle;
 		return this;
 	}
 
@@ -149,14 +149,14 @@ export class Light extends ExtensionProperty {
 	 * Angle, in radians, from centre of spotlight where falloff ends. Must be > innerConeAngle and
 	 * ≤ PI / 2.0.
 	 */
-	public getOuterConeAngle(): number { return this._outerConeAngle; }
+	public getOuterConeAngle(): number { return this.outerConeAngle; }
 
 	/**
 	 * Angle, in radians, from centre of spotlight where falloff ends. Must be > innerConeAngle and
 	 * ≤ PI / 2.0.
 	 */
 	public setOuterConeAngle(outerConeAngle: number): this {
-		this._outerConeAngle = outerConeAngle;
+		this.outerConeAngle = outerConeAngle;
 		return this;
 	}
 }
@@ -58,7 +58,7 @@ export class LightsPunctual extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createLight(): Light {
-		return new Light(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Light(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink } from '@gltf-transform/core';
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink } from '@gltf-transform/core';
 import { KHR_MATERIALS_CLEARCOAT } from '../constants';
 
 const { R, G, B } = TextureChannel;
@@ -14,28 +14,36 @@ export class Clearcoat extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_CLEARCOAT;
 	public static EXTENSION_NAME = KHR_MATERIALS_CLEARCOAT;
 
-	private _clearcoatFactor = 0.0;
-	private _clearcoatRoughnessFactor = 0.0;
-	private _clearcoatNormalScale = 1.0;
+	@GraphAttribute private clearcoatFactor = 0.0;
+	@GraphAttribute private clearcoatRoughnessFactor = 0.0;
+	@GraphAttribute private clearcoatNormalScale = 1.0;
 
 	@GraphChild private clearcoatTexture: TextureLink | null = null;
 	@GraphChild private clearcoatTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('clearcoatTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'clearcoatTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	@GraphChild private clearcoatRoughnessTexture: TextureLink | null = null;
 	@GraphChild private clearcoatRoughnessTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('clearcoatRoughnessTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'clearcoatRoughnessTextureInfo',
+			this,
+			this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	@GraphChild private clearcoatNormalTexture: TextureLink | null = null;
 	@GraphChild private clearcoatNormalTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('clearcoatNormalTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'clearcoatNormalTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._clearcoatFactor = other._clearcoatFactor;
-		this._clearcoatRoughnessFactor = other._clearcoatRoughnessFactor;
-		this._clearcoatNormalScale = other._clearcoatNormalScale;
+		this.clearcoatFactor = other.clearcoatFactor;
+		this.clearcoatRoughnessFactor = other.clearcoatRoughnessFactor;
+		this.clearcoatNormalScale = other.clearcoatNormalScale;
 
 		this.setClearcoatTexture(
 			other.clearcoatTexture
@@ -76,11 +84,11 @@ export class Clearcoat extends ExtensionProperty {
 	 */
 
 	/** Clearcoat; linear multiplier. See {@link getClearcoatTexture}. */
-	public getClearcoatFactor(): number { return this._clearcoatFactor; }
+	public getClearcoatFactor(): number { return this.clearcoatFactor; }
 
 	/** Clearcoat; linear multiplier. See {@link getClearcoatTexture}. */
 	public setClearcoatFactor(clearcoatFactor: number): this {
-		this._clearcoatFactor = clearcoatFactor;
+		this.clearcoatFactor = clearcoatFactor;
 		return this;
 	}
 
@@ -112,11 +120,11 @@ export class Clearcoat extends ExtensionProperty {
 	 */
 
 	/** Clearcoat roughness; linear multiplier. See {@link getClearcoatRoughnessTexture}. */
-	public getClearcoatRoughnessFactor(): number { return this._clearcoatRoughnessFactor; }
+	public getClearcoatRoughnessFactor(): number { return this.clearcoatRoughnessFactor; }
 
 	/** Clearcoat roughness; linear multiplier. See {@link getClearcoatRoughnessTexture}. */
 	public setClearcoatRoughnessFactor(clearcoatRoughnessFactor: number): this {
-		this._clearcoatRoughnessFactor = clearcoatRoughnessFactor;
+		this.clearcoatRoughnessFactor = clearcoatRoughnessFactor;
 		return this;
 	}
 
@@ -150,11 +158,11 @@ export class Clearcoat extends ExtensionProperty {
 	 */
 
 	/** Clearcoat normal scale. See {@link getClearcoatNormalTexture}. */
-	public getClearcoatNormalScale(): number { return this._clearcoatNormalScale; }
+	public getClearcoatNormalScale(): number { return this.clearcoatNormalScale; }
 
 	/** Clearcoat normal scale. See {@link getClearcoatNormalTexture}. */
 	public setClearcoatNormalScale(clearcoatNormalScale: number): this {
-		this._clearcoatNormalScale = clearcoatNormalScale;
+		this.clearcoatNormalScale = clearcoatNormalScale;
 		return this;
 	}
 
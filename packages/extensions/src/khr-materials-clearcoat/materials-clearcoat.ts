@@ -51,7 +51,7 @@ export class MaterialsClearcoat extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createClearcoat(): Clearcoat {
-		return new Clearcoat(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Clearcoat(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
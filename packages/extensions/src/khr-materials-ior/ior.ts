@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ExtensionProperty, PropertyType } from '@gltf-transform/core';
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, PropertyType } from '@gltf-transform/core';
 import { KHR_MATERIALS_IOR } from '../constants';
 
 /**
@@ -12,12 +12,12 @@ export class IOR extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_IOR;
 	public static EXTENSION_NAME = KHR_MATERIALS_IOR;
 
-	private _ior = 0.0;
+	@GraphAttribute private ior = 0.0;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._ior = other._ior;
+		this.ior = other.ior;
 
 		return this;
 	}
@@ -27,11 +27,11 @@ export class IOR extends ExtensionProperty {
 	 */
 
 	/** IOR. */
-	public getIOR(): number { return this._ior; }
+	public getIOR(): number { return this.ior; }
 
 	/** IOR. */
 	public setIOR(ior: number): this {
-		this._ior = ior;
+		this.ior = ior;
 		return this;
 	}
 }
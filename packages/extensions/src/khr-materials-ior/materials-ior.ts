@@ -42,7 +42,7 @@ export class MaterialsIOR extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createIOR(): IOR {
-		return new IOR(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new IOR(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -51,7 +51,7 @@ export class MaterialsPBRSpecularGlossiness extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createPBRSpecularGlossiness(): PBRSpecularGlossiness {
-		return new PBRSpecularGlossiness(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new PBRSpecularGlossiness(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
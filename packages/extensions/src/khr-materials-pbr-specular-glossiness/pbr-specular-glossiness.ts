@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3, vec4 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3, vec4 } from '@gltf-transform/core';
 import { KHR_MATERIALS_PBR_SPECULAR_GLOSSINESS } from '../constants';
 
 const { R, G, B, A } = TextureChannel;
@@ -14,24 +14,30 @@ export class PBRSpecularGlossiness extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_PBR_SPECULAR_GLOSSINESS;
 	public static EXTENSION_NAME = KHR_MATERIALS_PBR_SPECULAR_GLOSSINESS;
 
-	private _diffuseFactor: vec4 = [1.0, 1.0, 1.0, 1.0];
-	private _specularFactor: vec3 = [1.0, 1.0, 1.0];
-	private _glossinessFactor = 1.0;
+	@GraphAttribute private diffuseFactor: vec4 = [1.0, 1.0, 1.0, 1.0];
+	@GraphAttribute private specularFactor: vec3 = [1.0, 1.0, 1.0];
+	@GraphAttribute private glossinessFactor = 1.0;
 
 	@GraphChild private diffuseTexture: TextureLink | null = null;
 	@GraphChild private diffuseTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('diffuseTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'diffuseTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	@GraphChild private specularGlossinessTexture: TextureLink | null = null;
 	@GraphChild private specularGlossinessTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('specularGlossinessTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'specularGlossinessTextureInfo',
+			this,
+			this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._diffuseFactor = other._diffuseFactor;
-		this._specularFactor = other._specularFactor;
-		this._glossinessFactor = other._glossinessFactor;
+		this.diffuseFactor = other.diffuseFactor;
+		this.specularFactor = other.specularFactor;
+		this.glossinessFactor = other.glossinessFactor;
 
 		this.setDiffuseTexture(
 			other.diffuseTexture
@@ -63,20 +69,21 @@ export class PBRSpecularGlossiness extends ExtensionProperty {
 	 */
 
 	/** Diffuse; linear multiplier. See {@link getDiffuseTexture}. */
-	public getDiffuseFactor(): vec4 { return this._diffuseFactor; }
+	public getDiffuseFactor(): vec4 { return this.diffuseFactor.slice() as vec4; }
 
 	/** Diffuse; linear multiplier. See {@link getDiffuseTexture}. */
 	public setDiffuseFactor(diffuseFactor: vec4): this {
-		this._diffuseFactor = diffuseFactor;
+		this.diffuseFactor = diffuseFactor;
 		return this;
 	}
 
 	/** Diffuse; hex color in sRGB colorspace. */
-	public getDiffuseHex(): number { return ColorUtils.factorToHex(this._diffuseFactor); }
+	public getDiffuseHex(): number { return ColorUtils.factorToHex(this.diffuseFactor); }
 
 	/** Diffuse; hex color in sRGB colorspace. */
 	public setDiffuseHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._diffuseFactor);
+		const alpha = this.diffuseFactor[3];
+		this.diffuseFactor = ColorUtils.hexToFactor(hex, [0, 0, 0, alpha] as vec4);
 		return this;
 	}
 
@@ -108,11 +115,11 @@ export class PBRSpecularGlossiness extends ExtensionProperty {
 	 */
 
 	/** Specular; linear multiplier. */
-	public getSpecularFactor(): vec3 { return this._specularFactor; }
+	public getSpecularFactor(): vec3 { return this.specularFactor.slice() as vec3; }
 
 	/** Specular; linear multiplier. */
 	public setSpecularFactor(specularFactor: vec3): this {
-		this._specularFactor = specularFactor;
+		this.specularFactor = specularFactor;
 		return this;
 	}
 
@@ -121,11 +128,11 @@ export class PBRSpecularGlossiness extends ExtensionProperty {
 	 */
 
 	/** Glossiness; linear multiplier. */
-	public getGlossinessFactor(): number { return this._glossinessFactor; }
+	public getGlossinessFactor(): number { return this.glossinessFactor; }
 
 	/** Glossiness; linear multiplier. */
 	public setGlossinessFactor(glossinessFactor: number): this {
-		this._glossinessFactor = glossinessFactor;
+		this.glossinessFactor = glossinessFactor;
 		return this;
 	}
 
@@ -53,7 +53,7 @@ export class MaterialsSheen extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createSheen(): Sheen {
-		return new Sheen(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Sheen(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
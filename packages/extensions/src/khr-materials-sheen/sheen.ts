@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
 import { KHR_MATERIALS_SHEEN } from '../constants';
 
 const { R, G, B, A } = TextureChannel;
@@ -14,22 +14,26 @@ export class Sheen extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_SHEEN;
 	public static EXTENSION_NAME = KHR_MATERIALS_SHEEN;
 
-	private _sheenColorFactor: vec3 = [0.0, 0.0, 0.0];
-	private _sheenRoughnessFactor = 0.0;
+	@GraphAttribute private sheenColorFactor: vec3 = [0.0, 0.0, 0.0];
+	@GraphAttribute private sheenRoughnessFactor = 0.0;
 
 	@GraphChild private sheenColorTexture: TextureLink | null = null;
 	@GraphChild private sheenColorTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('sheenColorTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'sheenColorTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	@GraphChild private sheenRoughnessTexture: TextureLink | null = null;
 	@GraphChild private sheenRoughnessTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('sheenRoughnessTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'sheenRoughnessTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._sheenColorFactor = other._sheenColorFactor;
-		this._sheenRoughnessFactor = other._sheenRoughnessFactor;
+		this.sheenColorFactor = other.sheenColorFactor;
+		this.sheenRoughnessFactor = other.sheenRoughnessFactor;
 
 		this.setSheenColorTexture(
 			other.sheenColorTexture
@@ -61,20 +65,20 @@ export class Sheen extends ExtensionProperty {
 	 */
 
 	/** Sheen; linear multiplier. */
-	public getSheenColorFactor(): vec3 { return this._sheenColorFactor; }
+	public getSheenColorFactor(): vec3 { return this.sheenColorFactor.slice() as vec3; }
 
 	/** Sheen; hex color in sRGB colorspace. */
-	public getSheenColorHex(): number { return ColorUtils.factorToHex(this._sheenColorFactor); }
+	public getSheenColorHex(): number { return ColorUtils.factorToHex(this.sheenColorFactor); }
 
 	/** Sheen; linear multiplier. */
 	public setSheenColorFactor(sheenColorFactor: vec3): this {
-		this._sheenColorFactor = sheenColorFactor;
+		this.sheenColorFactor = sheenColorFactor;
 		return this;
 	}
 
 	/** Sheen; hex color in sRGB colorspace. */
 	public setSheenColorHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._sheenColorFactor);
+		this.sheenColorFactor = ColorUtils.hexToFactor(hex, [0, 0, 0] as vec3);
 		return this;
 	}
 
@@ -105,11 +109,11 @@ export class Sheen extends ExtensionProperty {
 	 */
 
 	/** Sheen roughness; linear multiplier. See {@link getSheenRoughnessTexture}. */
-	public getSheenRoughnessFactor(): number { return this._sheenRoughnessFactor; }
+	public getSheenRoughnessFactor(): number { return this.sheenRoughnessFactor; }
 
 	/** Sheen roughness; linear multiplier. See {@link getSheenRoughnessTexture}. */
 	public setSheenRoughnessFactor(sheenRoughnessFactor: number): this {
-		this._sheenRoughnessFactor = sheenRoughnessFactor;
+		this.sheenRoughnessFactor = sheenRoughnessFactor;
 		return this;
 	}
 
@@ -49,7 +49,7 @@ export class MaterialsSpecular extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createSpecular(): Specular {
-		return new Specular(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Specular(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
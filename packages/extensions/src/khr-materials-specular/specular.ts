@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
 import { KHR_MATERIALS_SPECULAR } from '../constants';
 
 const { R, G, B, A } = TextureChannel;
@@ -14,21 +14,25 @@ export class Specular extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_SPECULAR;
 	public static EXTENSION_NAME = KHR_MATERIALS_SPECULAR;
 
-	private _specularFactor = 1.0;
-	private _specularColorFactor: vec3 = [1.0, 1.0, 1.0];
+	@GraphAttribute private specularFactor = 1.0;
+	@GraphAttribute private specularColorFactor: vec3 = [1.0, 1.0, 1.0];
 
 	@GraphChild private specularTexture: TextureLink | null = null;
 	@GraphChild private specularTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('specularTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'specularTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 	@GraphChild private specularColorTexture: TextureLink | null = null;
 	@GraphChild private specularColorTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('specularColorTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'specularColorTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._specularFactor = other._specularFactor;
-		this._specularColorFactor = other._specularColorFactor;
+		this.specularFactor = other.specularFactor;
+		this.specularColorFactor = other.specularColorFactor;
 
 		this.setSpecularTexture(
 			other.specularTexture
@@ -59,31 +63,31 @@ export class Specular extends ExtensionProperty {
 	 */
 
 	/** Specular; linear multiplier. See {@link getSpecularTexture}. */
-	public getSpecularFactor(): number { return this._specularFactor; }
+	public getSpecularFactor(): number { return this.specularFactor; }
 
 	/** Specular; linear multiplier. See {@link getSpecularTexture}. */
 	public setSpecularFactor(specularFactor: number): this {
-		this._specularFactor = specularFactor;
+		this.specularFactor = specularFactor;
 		return this;
 	}
 
 	/** Specular color; components in linear space. See {@link getSpecularTexture}. */
-	public getSpecularColorFactor(): vec3 { return this._specularColorFactor; }
+	public getSpecularColorFactor(): vec3 { return this.specularColorFactor.slice() as vec3; }
 
 	/** Specular color; components in linear space. See {@link getSpecularTexture}. */
 	public setSpecularColorFactor(specularColorFactor: vec3): this {
-		this._specularColorFactor = specularColorFactor;
+		this.specularColorFactor = specularColorFactor;
 		return this;
 	}
 
 	/** Specular color; hexadecimal in sRGB colorspace. See {@link getSpecularTexture} */
 	public getSpecularColorHex(): number {
-		return ColorUtils.factorToHex(this._specularColorFactor);
+		return ColorUtils.factorToHex(this.specularColorFactor);
 	}
 
 	/** Specular color; hexadecimal in sRGB colorspace. See {@link getSpecularTexture} */
 	public setSpecularColorHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._specularColorFactor);
+		this.specularColorFactor = ColorUtils.hexToFactor(hex, [0, 0, 0] as vec3);
 		return this;
 	}
 
@@ -48,7 +48,7 @@ export class MaterialsTransmission extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createTransmission(): Transmission {
-		return new Transmission(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Transmission(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink } from '@gltf-transform/core';
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink } from '@gltf-transform/core';
 import { KHR_MATERIALS_TRANSMISSION } from '../constants';
 
 const { R } = TextureChannel;
@@ -14,16 +14,18 @@ export class Transmission extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_TRANSMISSION;
 	public static EXTENSION_NAME = KHR_MATERIALS_TRANSMISSION;
 
-	private _transmissionFactor = 0.0;
+	@GraphAttribute private transmissionFactor = 0.0;
 
 	@GraphChild private transmissionTexture: TextureLink | null = null;
 	@GraphChild private transmissionTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('transmissionTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'transmissionTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._transmissionFactor = other._transmissionFactor;
+		this.transmissionFactor = other.transmissionFactor;
 
 		this.setTransmissionTexture(
 			other.transmissionTexture
@@ -46,11 +48,11 @@ export class Transmission extends ExtensionProperty {
 	 */
 
 	/** Transmission; linear multiplier. See {@link getTransmissionTexture}. */
-	public getTransmissionFactor(): number { return this._transmissionFactor; }
+	public getTransmissionFactor(): number { return this.transmissionFactor; }
 
 	/** Transmission; linear multiplier. See {@link getTransmissionTexture}. */
 	public setTransmissionFactor(transmissionFactor: number): this {
-		this._transmissionFactor = transmissionFactor;
+		this.transmissionFactor = transmissionFactor;
 		return this;
 	}
 
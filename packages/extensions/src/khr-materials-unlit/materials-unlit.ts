@@ -47,7 +47,7 @@ export class MaterialsUnlit extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createUnlit(): Unlit {
-		return new Unlit(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Unlit(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -94,15 +94,15 @@ export class MaterialsVariants extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createMappingList(): MappingList {
-		return new MappingList(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new MappingList(this.doc.getGraph(), this));
 	}
 
 	public createVariant(name = ''): Variant {
-		return new Variant(this.doc.getGraph(), this).setName(name);
+		return this.doc.getGraph().emitCreate(new Variant(this.doc.getGraph(), this).setName(name));
 	}
 
 	public createMapping(): Mapping {
-		return new Mapping(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Mapping(this.doc.getGraph(), this));
 	}
 
 	public listVariants(): Variant[] {
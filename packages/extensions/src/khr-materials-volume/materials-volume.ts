@@ -70,7 +70,7 @@ export class MaterialsVolume extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createVolume(): Volume {
-		return new Volume(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Volume(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ColorUtils, ExtensionProperty, GraphAttribute, GraphChild, Link, PropertyType, Texture, TextureChannel, TextureInfo, TextureLink, vec3 } from '@gltf-transform/core';
 import { KHR_MATERIALS_VOLUME } from '../constants';
 
 const { G } = TextureChannel;
@@ -14,20 +14,22 @@ export class Volume extends ExtensionProperty {
 	public readonly extensionName = KHR_MATERIALS_VOLUME;
 	public static EXTENSION_NAME = KHR_MATERIALS_VOLUME;
 
-	private _thicknessFactor = 0.0;
-	private _attenuationDistance = Infinity;
-	private _attenuationColor = [1, 1, 1] as vec3;
+	@GraphAttribute private thicknessFactor = 0.0;
+	@GraphAttribute private attenuationDistance = Infinity;
+	@GraphAttribute private attenuationColor = [1, 1, 1] as vec3;
 
 	@GraphChild private thicknessTexture: TextureLink | null = null;
 	@GraphChild private thicknessTextureInfo: Link<this, TextureInfo> =
-		this.graph.link('thicknessTextureInfo', this, new TextureInfo(this.graph));
+		this.graph.link(
+			'thicknessTextureInfo', this, this.graph.emitCreate(new TextureInfo(this.graph))
+		);
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._thicknessFactor = other._thicknessFactor;
-		this._attenuationDistance = other._attenuationDistance;
-		this._attenuationColor = [...other._attenuationColor] as vec3;
+		this.thicknessFactor = other.thicknessFactor;
+		this.attenuationDistance = other.attenuationDistance;
+		this.attenuationColor = [...other.attenuationColor] as vec3;
 
 		this.setThicknessTexture(
 			other.thicknessTexture
@@ -54,7 +56,7 @@ export class Volume extends ExtensionProperty {
 	 * node. If the value is 0 the material is thin-walled. Otherwise the material is a volume
 	 * boundary. The doubleSided property has no effect on volume boundaries.
 	 */
-	public getThicknessFactor(): number { return this._thicknessFactor; }
+	public getThicknessFactor(): number { return this.thicknessFactor; }
 
 	/**
 	 * Thickness of the volume beneath the surface in meters in the local coordinate system of the
@@ -62,7 +64,7 @@ export class Volume extends ExtensionProperty {
 	 * boundary. The doubleSided property has no effect on volume boundaries.
 	 */
 	public setThicknessFactor(thicknessFactor: number): this {
-		this._thicknessFactor = thicknessFactor;
+		this.thicknessFactor = thicknessFactor;
 		return this;
 	}
 
@@ -100,7 +102,7 @@ export class Volume extends ExtensionProperty {
 	 * medium before interacting with a particle.
 	 */
 	public getAttenuationDistance(): number {
-		return this._attenuationDistance;
+		return this.attenuationDistance;
 	}
 
 	/**
@@ -108,7 +110,7 @@ export class Volume extends ExtensionProperty {
 	 * medium before interacting with a particle.
 	 */
 	public setAttenuationDistance(attenuationDistance: number): this {
-		this._attenuationDistance = attenuationDistance;
+		this.attenuationDistance = attenuationDistance;
 		return this;
 	}
 
@@ -117,7 +119,7 @@ export class Volume extends ExtensionProperty {
 	 * distance.
 	 */
 	public getAttenuationColor(): vec3 {
-		return this._attenuationColor;
+		return this.attenuationColor.slice() as vec3;
 	}
 
 	/**
@@ -125,7 +127,7 @@ export class Volume extends ExtensionProperty {
 	 * distance.
 	 */
 	public setAttenuationColor(attenuationColor: vec3): this {
-		this._attenuationColor = attenuationColor;
+		this.attenuationColor = attenuationColor;
 		return this;
 	}
 
@@ -134,7 +136,7 @@ export class Volume extends ExtensionProperty {
 	 * distance.
 	 */
 	public getAttenuationColorHex(): number {
-		return ColorUtils.factorToHex(this._attenuationColor);
+		return ColorUtils.factorToHex(this.attenuationColor);
 	}
 
 	/**
@@ -142,7 +144,7 @@ export class Volume extends ExtensionProperty {
 	 * distance.
 	 */
 	public setAttenuationColorHex(hex: number): this {
-		ColorUtils.hexToFactor(hex, this._attenuationColor);
+		this.attenuationColor = ColorUtils.hexToFactor(hex, [0, 0, 0] as vec3);
 		return this;
 	}
 }
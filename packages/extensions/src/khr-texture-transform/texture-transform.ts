@@ -52,7 +52,7 @@ export class TextureTransform extends Extension {
 	public static readonly EXTENSION_NAME = NAME;
 
 	public createTransform(): Transform {
-		return new Transform(this.doc.getGraph(), this);
+		return this.doc.getGraph().emitCreate(new Transform(this.doc.getGraph(), this));
 	}
 
 	public read(context: ReaderContext): this {
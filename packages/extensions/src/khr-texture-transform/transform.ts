@@ -1,4 +1,4 @@
-import { COPY_IDENTITY, ExtensionProperty, vec2 } from '@gltf-transform/core';
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, vec2 } from '@gltf-transform/core';
 import { PropertyType } from '@gltf-transform/core';
 import { KHR_TEXTURE_TRANSFORM } from '../constants';
 
@@ -13,43 +13,43 @@ export class Transform extends ExtensionProperty {
 	public readonly extensionName = KHR_TEXTURE_TRANSFORM;
 	public static EXTENSION_NAME = KHR_TEXTURE_TRANSFORM;
 
-	private _offset: vec2 = [0, 0];
-	private _rotation = 0;
-	private _scale: vec2 = [1, 1];
-	private _texCoord: number | null = null;
+	@GraphAttribute private offset: vec2 = [0, 0];
+	@GraphAttribute private rotation = 0;
+	@GraphAttribute private scale: vec2 = [1, 1];
+	@GraphAttribute private texCoord: number | null = null;
 
 	public copy(other: this, resolve = COPY_IDENTITY): this {
 		super.copy(other, resolve);
 
-		this._offset = other._offset;
-		this._rotation = other._rotation;
-		this._scale = other._scale;
-		this._texCoord = other._texCoord;
+		this.offset = other.offset;
+		this.rotation = other.rotation;
+		this.scale = other.scale;
+		this.texCoord = other.texCoord;
 
 		return this;
 	}
 
-	public getOffset(): vec2 { return this._offset; }
+	public getOffset(): vec2 { return this.offset.slice() as vec2; }
 	public setOffset(offset: vec2): this {
-		this._offset = offset;
+		this.offset = offset;
 		return this;
 	}
 
-	public getRotation(): number { return this._rotation; }
+	public getRotation(): number { return this.rotation; }
 	public setRotation(rotation: number): this {
-		this._rotation = rotation;
+		this.rotation = rotation;
 		return this;
 	}
 
-	public getScale(): vec2 { return this._scale; }
+	public getScale(): vec2 { return this.scale.slice() as vec2; }
 	public setScale(scale: vec2): this {
-		this._scale = scale;
+		this.scale = scale;
 		return this;
 	}
 
-	public getTexCoord(): number | null { return this._texCoord; }
+	public getTexCoord(): number | null { return this.texCoord; }
 	public setTexCoord(texCoord: number): this {
-		this._texCoord = texCoord;
+		this.texCoord = texCoord;
 		return this;
 	}
 }
@@ -0,0 +1,124 @@
+import { Extension, IOErrorCode, ReadError, ReaderContext, WriterContext } from '@gltf-transform/core';
+import { MSFT_LOD } from '../constants';
+import { LOD } from './lod';
+
+const NAME = MSFT_LOD;
+
+/** Key of the screen coverage hints, stored in the extras of the original node. */
+const SCREEN_COVERAGE = 'MSFT_screencoverage';
+
+interface LODDef {
+	ids: number[];
+}
+
+/**
+ * # LevelOfDetail
+ *
+ * [`MSFT_lod`](https://github.com/KhronosGroup/glTF/tree/master/extensions/2.0/Vendor/MSFT_lod/)
+ * defines lower levels of detail (LODs) for a {@link Node}, which applications may show in its
+ * place when the node covers a small part of the screen.
+ *
+ * > _**NOTICE:** Vendor extensions (`MSFT_*`) are supported in fewer applications than Khronos
+ * > extensions. Loaders without support for `MSFT_lod` display only the original node, at full
+ * > detail, so the extension should not be marked as required._
+ *
+ * Properties:
+ * - {@link LOD}
+ *
+ * ### Example
+ *
+ * The `LevelOfDetail` class provides a single {@link ExtensionProperty} type, `LOD`, which may be
+ * attached to any {@link Node} instance. Nodes used as levels of detail are not added to a
+ * {@link Scene}, and replace the original node entirely. For example:
+ *
+ * ```typescript
+ * import { LevelOfDetail } from '@gltf-transform/extensions';
+ *
+ * // Create an Extension attached to the Document.
+ * const lodExtension = document.createExtension(LevelOfDetail);
+ *
+ * // Create nodes for lower levels of detail, outside the scene.
+ * const mediumNode = document.createNode('Chair_LOD1').setMesh(mediumMesh);
+ * const lowNode = document.createNode('Chair_LOD2').setMesh(lowMesh);
+ *
+ * // Attach levels of detail, and optional screen coverage hints, to the original node.
+ * node.setExtension('MSFT_lod', lodExtension.createLOD()
+ * 	.addLOD(mediumNode)
+ * 	.addLOD(lowNode)
+ * 	.setScreenCoverage([0.5, 0.2, 0.01]));
+ * ```
+ *
+ * Screen coverage hints are written to the original node's extras, as `MSFT_screencoverage`. To
+ * generate levels of detail from existing meshes, see the `lod()` function in
+ * `@gltf-transform/functions`.
+ */
+export class LevelOfDetail extends Extension {
+	public readonly extensionName = NAME;
+	public static readonly EXTENSION_NAME = NAME;
+
+	public createLOD(): LOD {
+		return this.doc.getGraph().emitCreate(new LOD(this.doc.getGraph(), this));
+	}
+
+	public read(context: ReaderContext): this {
+		const jsonDoc = context.jsonDoc;
+
+		const nodeDefs = jsonDoc.json.nodes || [];
+		nodeDefs.forEach((nodeDef, nodeIndex) => {
+			if (!nodeDef.extensions || !nodeDef.extensions[NAME]) return;
+
+			const lodDef = nodeDef.extensions[NAME] as LODDef;
+			const lod = this.createLOD();
+
+			(lodDef.ids || []).forEach((id, index) => {
+				if (context.nodes[id]) {
+					lod.addLOD(context.nodes[id]);
+					return;
+				}
+				context.report(new ReadError(
+					IOErrorCode.UNRESOLVED_REFERENCE,
+					`Missing level of detail node, "${id}".`,
+					`/nodes/${nodeIndex}/extensions/${NAME}/ids/${index}`,
+					true
+				));
+			});
+
+			// Screen coverage is stored on the LOD, and removed from extras to avoid duplication.
+			const node = context.nodes[nodeIndex];
+			const extras = {...node.getExtras()};
+			if (Array.isArray(extras[SCREEN_COVERAGE])) {
+				lod.setScreenCoverage(extras[SCREEN_COVERAGE] as number[]);
+				delete extras[SCREEN_COVERAGE];
+				node.setExtras(extras);
+			}
+
+			node.setExtension(NAME, lod);
+		});
+
+		return this;
+	}
+
+	public write(context: WriterContext): this {
+		const jsonDoc = context.jsonDoc;
+
+		for (const node of this.doc.getRoot().listNodes()) {
+			const lod = node.getExtension<LOD>(NAME);
+			if (!lod) continue;
+
+			const nodeIndex = context.nodeIndexMap.get(node)!;
+			const nodeDef = jsonDoc.json.nodes![nodeIndex];
+
+			nodeDef.extensions = nodeDef.extensions || {};
+			nodeDef.extensions[NAME] = {
+				ids: lod.listLODs().map((lodNode) => context.nodeIndexMap.get(lodNode)!),
+			} as LODDef;
+
+			const screenCoverage = lod.getScreenCoverage();
+			if (screenCoverage.length) {
+				nodeDef.extras = {...nodeDef.extras, [SCREEN_COVERAGE]: [...screenCoverage]};
+			}
+		}
+
+		return this;
+	}
+}
@@ -0,0 +1,62 @@
+import { COPY_IDENTITY, ExtensionProperty, GraphAttribute, GraphChildList, Link, Node, PropertyType } from '@gltf-transform/core';
+import { MSFT_LOD } from '../constants';
+
+/**
+ * # LOD
+ *
+ * Defines lower levels of detail for a {@link Node}. See {@link LevelOfDetail}.
+ */
+export class LOD extends ExtensionProperty {
+	public readonly propertyType = 'LOD';
+	public readonly parentTypes = [PropertyType.NODE];
+	public readonly extensionName = MSFT_LOD;
+	public static EXTENSION_NAME = MSFT_LOD;
+
+	@GraphChildList private lods: Link<this, Node>[] = [];
+	@GraphAttribute private screenCoverage: number[] = [];
+
+	public copy(other: this, resolve = COPY_IDENTITY): this {
+		super.copy(other, resolve);
+
+		this.screenCoverage = [...other.screenCoverage];
+
+		this.clearGraphChildList(this.lods);
+		other.lods.forEach((link) => this.addLOD(resolve(link.getChild())));
+
+		return this;
+	}
+
+	/** Adds a {@link Node} as the next lower level of detail. */
+	public addLOD(node: Node): this {
+		const link = this.graph.link('lod', this, node);
+		return this.addGraphChild(this.lods, link);
+	}
+
+	/** Removes a {@link Node} from the levels of detail. */
+	public removeLOD(node: Node): this {
+		return this.removeGraphChild(this.lods, node);
+	}
+
+	/** Lists {@link Node}s used as levels of detail, from highest to lowest detail. */
+	public listLODs(): Node[] {
+		return this.lods.map((link) => link.getChild());
+	}
+
+	/**
+	 * Screen coverage (0–1) hints for each level of detail, including the original {@link Node}
+	 * first, in descending order. Each level is shown while the object's screen coverage is above
+	 * its value. Optional; an empty list leaves selection of levels to the application.
+	 */
+	public getScreenCoverage(): number[] {
+		return this.screenCoverage.slice();
+	}
+
+	/**
+	 * Sets screen coverage hints, one for the original {@link Node} and one for each level of
+	 * detail, in descending order. See {@link getScreenCoverage}.
+	 */
+	public setScreenCoverage(screenCoverage: number[]): this {
+		this.screenCoverage = screenCoverage;
+		return this;
+	}
+}
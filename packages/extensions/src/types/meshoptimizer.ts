@@ -0,0 +1,41 @@
+/* eslint-disable @typescript-eslint/no-namespace */
+
+/* eslint-disable @typescript-eslint/prefer-namespace-keyword */
+export declare module MESHOPT {
+	type Mode = 'ATTRIBUTES' | 'TRIANGLES' | 'INDICES';
+	type Filter = 'NONE' | 'OCTAHEDRAL' | 'QUATERNION' | 'EXPONENTIAL';
+
+	interface Decoder {
+		ready: Promise<void>;
+		supported: boolean;
+		decodeGltfBuffer: (
+			target: Uint8Array,
+			count: number,
+			size: number,
+			source: Uint8Array,
+			mode: Mode,
+			filter?: Filter
+		) => void;
+	}
+
+	type FilterEncoder = (
+		source: Float32Array,
+		count: number,
+		stride: number,
+		bits: number
+	) => Uint8Array;
+
+	interface Encoder {
+		ready: Promise<void>;
+		supported: boolean;
+		encodeGltfBuffer: (
+			source: Uint8Array,
+			count: number,
+			size: number,
+			mode: Mode
+		) => Uint8Array;
+		encodeFilterOct: FilterEncoder;
+		encodeFilterQuat: FilterEncoder;
+		encodeFilterExp: FilterEncoder;
+	}
+}
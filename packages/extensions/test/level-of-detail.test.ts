@@ -0,0 +1,96 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, IOErrorCode, NodeIO, ReadError } from '@gltf-transform/core';
+import { LOD, LevelOfDetail } from '../';
+
+const WRITER_OPTIONS = {basename: 'extensionTest'};
+
+const io = new NodeIO().registerExtensions([LevelOfDetail]);
+
+test('@gltf-transform/extensions::level-of-detail', t => {
+	const doc = new Document();
+	const mesh = doc.createMesh('High');
+	const lodExtension = doc.createExtension(LevelOfDetail);
+	const mediumNode = doc.createNode('Medium').setMesh(doc.createMesh('Medium'));
+	const lowNode = doc.createNode('Low').setMesh(doc.createMesh('Low'));
+	const lod = lodExtension.createLOD()
+		.addLOD(mediumNode)
+		.addLOD(lowNode)
+		.setScreenCoverage([0.5, 0.2, 0.01]);
+	const node = doc.createNode('High')
+		.setMesh(mesh)
+		.setExtras({custom: true})
+		.setExtension('MSFT_lod', lod);
+	doc.createScene().addChild(node);
+
+	t.equal(node.getExtension('MSFT_lod'), lod, 'lod is attached');
+	t.deepEqual(lod.listLODs(), [mediumNode, lowNode], 'lists levels');
+
+	const jsonDoc = io.writeJSON(doc, WRITER_OPTIONS);
+	const nodeDef = jsonDoc.json.nodes[2];
+
+	t.deepEqual(jsonDoc.json.extensionsUsed, ['MSFT_lod'], 'writes extensionsUsed');
+	t.notOk(jsonDoc.json.extensionsRequired, 'optional');
+	t.deepEqual(nodeDef.extensions, {'MSFT_lod': {ids: [0, 1]}}, 'writes ids');
+	t.deepEqual(
+		nodeDef.extras,
+		{custom: true, MSFT_screencoverage: [0.5, 0.2, 0.01]},
+		'writes screen coverage'
+	);
+	t.deepEqual(node.getExtras(), {custom: true}, 'does not modify extras');
+	t.deepEqual(jsonDoc.json.scenes[0].nodes, [2], 'levels are not in scene');
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const rtNode = rtDoc.getRoot().listNodes()[2];
+	const rtLOD = rtNode.getExtension<LOD>('MSFT_lod');
+
+	t.deepEqual(
+		rtLOD.listLODs().map((lodNode) => lodNode.getName()),
+		['Medium', 'Low'],
+		'reads levels'
+	);
+	t.deepEqual(rtLOD.getScreenCoverage(), [0.5, 0.2, 0.01], 'reads screen coverage');
+	t.deepEqual(rtNode.getExtras(), {custom: true}, 'removes screen coverage from extras');
+
+	lodExtension.dispose();
+	t.equal(node.getExtension('MSFT_lod'), null, 'lod is detached');
+	t.end();
+});
+
+test('@gltf-transform/extensions::level-of-detail | missing node', t => {
+	const doc = new Document();
+	const lodExtension = doc.createExtension(LevelOfDetail);
+	const lowNode = doc.createNode('Low');
+	doc.createNode('High').setExtension('MSFT_lod', lodExtension.createLOD().addLOD(lowNode));
+
+	const jsonDoc = io.writeJSON(doc, WRITER_OPTIONS);
+	jsonDoc.json.nodes[1].extensions['MSFT_lod'] = {ids: [0, 5]};
+
+	try {
+		io.readJSON(jsonDoc);
+		t.fail('missing node');
+	} catch (e) {
+		t.ok(e instanceof ReadError, 'instanceof ReadError');
+		t.equals(e.code, IOErrorCode.UNRESOLVED_REFERENCE, 'code');
+		t.equals(e.pointer, '/nodes/1/extensions/MSFT_lod/ids/1', 'pointer');
+	}
+	t.end();
+});
+
+test('@gltf-transform/extensions::level-of-detail | copy', t => {
+	const doc = new Document();
+	const lodExtension = doc.createExtension(LevelOfDetail);
+	const lod = lodExtension.createLOD()
+		.addLOD(doc.createNode('Low'))
+		.setScreenCoverage([0.5, 0.1]);
+	doc.createNode('High').setExtension('MSFT_lod', lod);
+
+	const doc2 = doc.clone();
+	const lod2 = doc2.getRoot().listNodes()[1].getExtension<LOD>('MSFT_lod');
+	t.equals(doc2.getRoot().listExtensionsUsed().length, 1, 'copy LevelOfDetail');
+	t.ok(lod2, 'copy lod');
+	t.deepEqual(lod2.listLODs(), [doc2.getRoot().listNodes()[0]], 'matching levels');
+	t.deepEqual(lod2.getScreenCoverage(), [0.5, 0.1], 'matching screen coverage');
+	t.end();
+});
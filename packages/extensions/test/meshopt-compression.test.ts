@@ -0,0 +1,288 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+import test from 'tape';
+import { Accessor, AnimationSampler, Document, Format, GLTF, NodeIO, Primitive } from '@gltf-transform/core';
+import { MeshoptCompression } from '../';
+
+const NAME = 'EXT_meshopt_compression';
+
+interface MeshoptDef {
+	buffer: number;
+	byteStride: number;
+	mode: string;
+	filter?: string;
+}
+
+const getMeshoptDef = (def: GLTF.IBufferView) => def.extensions[NAME] as MeshoptDef;
+
+test('@gltf-transform/extensions::meshopt-compression | encoding', async t => {
+	const doc = createDocument();
+	doc.createExtension(MeshoptCompression).setRequired(true);
+
+	const io = await createIO();
+	const jsonDoc = io.writeJSON(doc, {format: Format.GLB});
+	const json = jsonDoc.json;
+
+	t.deepEquals(json.extensionsUsed, [NAME], 'writes extensionsUsed');
+	t.deepEquals(json.extensionsRequired, [NAME], 'writes extensionsRequired');
+	t.equals(json.buffers.length, 2, 'adds fallback buffer');
+	t.deepEquals(json.buffers[1].extensions, {[NAME]: {fallback: true}}, 'marks fallback buffer');
+	t.notOk(json.buffers[1].uri, 'fallback buffer has no data');
+
+	// Positions; normals and texcoords; indices; animation input; rotation; translation.
+	t.equals(json.bufferViews.length, 6, 'groups accessors into buffer views');
+	t.ok(json.bufferViews.every((def) => def.buffer === 1), 'buffer views use fallback buffer');
+	t.ok(json.bufferViews.every((def) => getMeshoptDef(def).buffer === 0), 'compressed data');
+	t.deepEquals(
+		json.bufferViews.map((def) => getMeshoptDef(def).mode).sort(),
+		['ATTRIBUTES', 'ATTRIBUTES', 'ATTRIBUTES', 'ATTRIBUTES', 'ATTRIBUTES', 'TRIANGLES'],
+		'modes'
+	);
+
+	const normalDef = json.accessors[json.meshes[0].primitives[0].attributes.NORMAL];
+	const normalViewDef = json.bufferViews[normalDef.bufferView];
+	t.equals(normalViewDef.byteStride, 4, 'pads vertex attributes to 4-byte stride');
+	t.equals(getMeshoptDef(normalViewDef).byteStride, 4, 'compressed byte stride');
+	t.equals(normalViewDef.target, 34962, 'vertex attribute target');
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const rtPrim = rtDoc.getRoot().listMeshes()[0].listPrimitives()[0];
+	const rtSampler = rtDoc.getRoot().listAnimations()[0].listSamplers()[0];
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+	const sampler = doc.getRoot().listAnimations()[0].listSamplers()[0];
+
+	t.equals(rtDoc.getRoot().listBuffers().length, 1, 'removes fallback buffer');
+	t.deepEquals(rtPrim.getIndices().getArray(), prim.getIndices().getArray(), 'indices');
+	for (const semantic of ['POSITION', 'NORMAL', 'TEXCOORD_0']) {
+		t.deepEquals(
+			rtPrim.getAttribute(semantic).getArray(),
+			prim.getAttribute(semantic).getArray(),
+			semantic
+		);
+	}
+	t.deepEquals(rtSampler.getInput().getArray(), sampler.getInput().getArray(), 'input');
+	t.deepEquals(rtSampler.getOutput().getArray(), sampler.getOutput().getArray(), 'output');
+	t.end();
+});
+
+test('@gltf-transform/extensions::meshopt-compression | filters', async t => {
+	const doc = createDocument();
+	doc.createExtension(MeshoptCompression)
+		.setRequired(true)
+		.setEncoderOptions({method: MeshoptCompression.EncoderMethod.FILTER});
+
+	const io = await createIO();
+	const jsonDoc = io.writeJSON(doc, {format: Format.GLB});
+	const json = jsonDoc.json;
+
+	t.deepEquals(
+		json.bufferViews
+			.map((def) => getMeshoptDef(def).filter)
+			.filter((filter) => !!filter)
+			.sort(),
+		['EXPONENTIAL', 'OCTAHEDRAL', 'QUATERNION'],
+		'filters'
+	);
+
+	const normalDef = json.accessors[json.meshes[0].primitives[0].attributes.NORMAL];
+	t.equals(normalDef.componentType, Accessor.ComponentType.BYTE, 'normal component type');
+	t.equals(normalDef.normalized, true, 'normal normalized');
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const rtPrim = rtDoc.getRoot().listMeshes()[0].listPrimitives()[0];
+	const rtSampler = rtDoc.getRoot().listAnimations()[0].listSamplers()[0];
+	const rtNormal = rtPrim.getAttribute('NORMAL').getElement(1, []);
+	const rtRotation = rtSampler.getOutput().getElement(1, []);
+
+	t.deepEquals(rtNormal.map((v) => +v.toFixed(2)), [0, 0, 1], 'decodes normals');
+	t.deepEquals(rtRotation.map((v) => +v.toFixed(2)), [0, 0.71, 0, 0.71], 'decodes rotation');
+	t.end();
+});
+
+test('@gltf-transform/extensions::meshopt-compression | float filters', async t => {
+	const doc = createDocument();
+	doc.createExtension(MeshoptCompression)
+		.setRequired(true)
+		.setEncoderOptions({method: MeshoptCompression.EncoderMethod.FILTER});
+
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+	const buffer = doc.getRoot().listBuffers()[0];
+	prim.getAttribute('NORMAL')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]))
+		.setNormalized(false);
+	prim.setAttribute('TANGENT', doc.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1]))
+		.setBuffer(buffer));
+
+	const io = await createIO();
+	const jsonDoc = io.writeJSON(doc, {format: Format.GLB});
+	const json = jsonDoc.json;
+
+	t.deepEquals(json.extensionsUsed, [NAME], 'writes extensionsUsed');
+	t.deepEquals(json.extensionsRequired, [NAME], 'writes extensionsRequired');
+	t.deepEquals(
+		json.bufferViews
+			.map((def) => getMeshoptDef(def).filter)
+			.filter((filter) => !!filter)
+			.sort(),
+		['EXPONENTIAL', 'QUATERNION'],
+		'skips octahedral filter'
+	);
+
+	const attributes = json.meshes[0].primitives[0].attributes;
+	for (const semantic of ['NORMAL', 'TANGENT']) {
+		const accessorDef = json.accessors[attributes[semantic]];
+		t.equals(accessorDef.componentType, Accessor.ComponentType.FLOAT, `${semantic} float`);
+		t.notOk(accessorDef.normalized, `${semantic} not normalized`);
+	}
+
+	const rtDoc = io.readJSON(jsonDoc);
+	const rtPrim = rtDoc.getRoot().listMeshes()[0].listPrimitives()[0];
+	for (const semantic of ['NORMAL', 'TANGENT']) {
+		t.deepEquals(
+			rtPrim.getAttribute(semantic).getArray(),
+			prim.getAttribute(semantic).getArray(),
+			semantic
+		);
+	}
+	t.end();
+});
+
+test('@gltf-transform/extensions::meshopt-compression | streaming', async t => {
+	const doc = createDocument();
+	doc.createExtension(MeshoptCompression).setRequired(true);
+
+	const io = await createIO();
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-transform-'));
+	const uri = path.join(dir, 'compressed.glb');
+	io.write(uri, doc);
+
+	const {document: rtDoc} = await io.setStreaming(true).readAsync(uri);
+	io.setStreaming(false);
+	fs.unlinkSync(uri);
+	fs.rmdirSync(dir);
+
+	const rtPrim = rtDoc.getRoot().listMeshes()[0].listPrimitives()[0];
+	const prim = doc.getRoot().listMeshes()[0].listPrimitives()[0];
+	t.deepEquals(rtPrim.getIndices().getArray(), prim.getIndices().getArray(), 'indices');
+	t.deepEquals(
+		rtPrim.getAttribute('POSITION').getArray(),
+		prim.getAttribute('POSITION').getArray(),
+		'positions'
+	);
+	t.end();
+});
+
+test('@gltf-transform/extensions::meshopt-compression | empty', async t => {
+	const doc = new Document();
+	doc.createExtension(MeshoptCompression).setRequired(true);
+	doc.createBuffer();
+	doc.createNode('Empty');
+
+	const io = await createIO();
+	const jsonDoc = io.writeJSON(doc, {format: Format.GLB});
+	t.notOk(jsonDoc.json.extensionsUsed, 'omits extensionsUsed');
+	t.notOk(jsonDoc.json.extensionsRequired, 'omits extensionsRequired');
+	t.end();
+});
+
+test('@gltf-transform/extensions::meshopt-compression | dependencies', async t => {
+	const doc = createDocument();
+	doc.createExtension(MeshoptCompression).setRequired(true);
+	const io = new NodeIO().registerExtensions([MeshoptCompression]);
+	t.throws(
+		() => io.writeJSON(doc, {format: Format.GLB}),
+		/Please install extension dependency, "meshopt.encoder"/,
+		'requires encoder'
+	);
+	t.end();
+});
+
+function createDocument(): Document {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+
+	const position = doc.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const normal = doc.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Int8Array([0, 0, 127, 0, 0, 127, 0, 0, 127, 0, 0, 127]))
+		.setNormalized(true)
+		.setBuffer(buffer);
+	const texcoord = doc.createAccessor()
+		.setType(Accessor.Type.VEC2)
+		.setArray(new Uint16Array([0, 0, 65535, 0, 65535, 65535, 0, 65535]))
+		.setNormalized(true)
+		.setBuffer(buffer);
+	const indices = doc.createAccessor()
+		.setArray(new Uint16Array([0, 1, 2, 0, 2, 3]))
+		.setBuffer(buffer);
+
+	const prim = doc.createPrimitive()
+		.setMode(Primitive.Mode.TRIANGLES)
+		.setAttribute('POSITION', position)
+		.setAttribute('NORMAL', normal)
+		.setAttribute('TEXCOORD_0', texcoord)
+		.setIndices(indices);
+	const node = doc.createNode().setMesh(doc.createMesh().addPrimitive(prim));
+	doc.createScene().addChild(node);
+
+	const input = doc.createAccessor()
+		.setArray(new Float32Array([0, 1]))
+		.setBuffer(buffer);
+	const rotation = doc.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, Math.SQRT1_2, 0, Math.SQRT1_2]))
+		.setBuffer(buffer);
+	const translation = doc.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 2, 3]))
+		.setBuffer(buffer);
+
+	const rotationSampler = doc.createAnimationSampler()
+		.setInput(input)
+		.setOutput(rotation)
+		.setInterpolation(AnimationSampler.Interpolation.LINEAR);
+	const translationSampler = doc.createAnimationSampler()
+		.setInput(input)
+		.setOutput(translation)
+		.setInterpolation(AnimationSampler.Interpolation.LINEAR);
+	doc.createAnimation()
+		.addSampler(rotationSampler)
+		.addSampler(translationSampler)
+		.addChannel(doc.createAnimationChannel()
+			.setTargetNode(node)
+			.setTargetPath('rotation')
+			.setSampler(rotationSampler))
+		.addChannel(doc.createAnimationChannel()
+			.setTargetNode(node)
+			.setTargetPath('translation')
+			.setSampler(translationSampler));
+
+	return doc;
+}
+
+let io: Promise<NodeIO>;
+
+async function createIO(): Promise<NodeIO> {
+	if (io) return io;
+
+	io = Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready])
+		.then(() => {
+			return new NodeIO()
+				.registerExtensions([MeshoptCompression])
+				.registerDependencies({
+					'meshopt.decoder': MeshoptDecoder,
+					'meshopt.encoder': MeshoptEncoder,
+				});
+		});
+
+	return io;
+}
@@ -0,0 +1,408 @@
+import { Accessor, Animation, Document, ExtensionProperty, ImageUtils, Material, Mesh, Node, Property, Scene, Texture, sha256 } from '@gltf-transform/core';
+
+/**
+ * Compares two Documents, returning a JSON report of the scenes, nodes, meshes, materials,
+ * textures, accessors, and animations added, removed, or modified between them.
+ *
+ * Properties of each type are matched across the two Documents in three passes: by name, then by
+ * content (allowing properties to be renamed), and finally by structure (e.g. an accessor's type
+ * and count). Matched properties with any differing fields are reported as modified, along with
+ * their per-field changes. References to other properties are compared by name.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { diff } from '@gltf-transform/functions';
+ *
+ * const report = diff(docBefore, docAfter);
+ *
+ * for (const entry of report.materials.modified) {
+ * 	console.log(entry.name, entry.changes); // → 'Wood', [{field: 'roughnessFactor', ...}]
+ * }
+ * ```
+ */
+export function diff (a: Document, b: Document): DiffReport {
+	return {
+		scenes: diffProperties(listScenes(a), listScenes(b)),
+		nodes: diffProperties(listNodes(a), listNodes(b)),
+		meshes: diffProperties(listMeshes(a), listMeshes(b)),
+		materials: diffProperties(listMaterials(a), listMaterials(b)),
+		textures: diffProperties(listTextures(a), listTextures(b)),
+		accessors: diffProperties(listAccessors(a), listAccessors(b)),
+		animations: diffProperties(listAnimations(a), listAnimations(b)),
+	};
+}
+
+/** Returns true if the report contains no added, removed, or modified properties. */
+export function isDiffEmpty (report: DiffReport): boolean {
+	return (Object.keys(report) as (keyof DiffReport)[]).every((type) => {
+		const section = report[type];
+		return !section.added.length && !section.removed.length && !section.modified.length;
+	});
+}
+
+export interface DiffReport {
+	scenes: DiffPropertyReport;
+	nodes: DiffPropertyReport;
+	meshes: DiffPropertyReport;
+	materials: DiffPropertyReport;
+	textures: DiffPropertyReport;
+	accessors: DiffPropertyReport;
+	animations: DiffPropertyReport;
+}
+
+export interface DiffPropertyReport {
+	/** Properties present only in the second Document. */
+	added: DiffEntry[];
+	/** Properties present only in the first Document. */
+	removed: DiffEntry[];
+	/** Properties present in both Documents, with one or more changed fields. */
+	modified: DiffModifiedEntry[];
+}
+
+export interface DiffEntry {
+	name: string;
+	/** Index of the property in the Document's list of properties of its type. */
+	index: number;
+}
+
+export interface DiffModifiedEntry {
+	name: string;
+	/** Index of the property in the first Document. */
+	indexA: number;
+	/** Index of the property in the second Document. */
+	indexB: number;
+	changes: DiffFieldChange[];
+}
+
+export interface DiffFieldChange {
+	field: string;
+	before: DiffValue;
+	after: DiffValue;
+}
+
+export type DiffValue = string | number | boolean | null | string[] | number[];
+
+/**************************************************************************************************
+ * Matching.
+ */
+
+interface PropertySummary {
+	name: string;
+	index: number;
+	/** Key describing the structure of the property, without names or content. */
+	structure: string;
+	fields: Record<string, DiffValue>;
+}
+
+function diffProperties (a: PropertySummary[], b: PropertySummary[]): DiffPropertyReport {
+	const pairs: [PropertySummary, PropertySummary][] = [];
+	const unmatchedA = new Set(a);
+	const unmatchedB = new Set(b);
+
+	const match = (key: (summary: PropertySummary) => string | null): void => {
+		const candidates = new Map<string, PropertySummary[]>();
+		for (const summary of unmatchedB) {
+			const k = key(summary);
+			if (k === null) continue;
+			if (!candidates.has(k)) candidates.set(k, []);
+			candidates.get(k)!.push(summary);
+		}
+		for (const summary of unmatchedA) {
+			const k = key(summary);
+			const list = k !== null ? candidates.get(k) : undefined;
+			if (!list || !list.length) continue;
+			const other = list.shift()!;
+			pairs.push([summary, other]);
+			unmatchedA.delete(summary);
+			unmatchedB.delete(other);
+		}
+	};
+
+	// Pass 1: Name, with identical content preferred when names are not unique.
+	match((s) => s.name ? s.name + ':' + contentKey(s) : null);
+	match((s) => s.name || null);
+	// Pass 2: Content, for renamed properties.
+	match((s) => contentKey(s));
+	// Pass 3: Structure, for properties both renamed and modified.
+	match((s) => s.structure);
+
+	const modified: DiffModifiedEntry[] = [];
+	for (const [summaryA, summaryB] of pairs) {
+		const changes = diffFields(summaryA.fields, summaryB.fields);
+		if (!changes.length) continue;
+		modified.push({
+			name: summaryB.name || summaryA.name,
+			indexA: summaryA.index,
+			indexB: summaryB.index,
+			changes
+		});
+	}
+	modified.sort((x, y) => x.indexB - y.indexB);
+
+	return {
+		added: Array.from(unmatchedB).map(({name, index}) => ({name, index})),
+		removed: Array.from(unmatchedA).map(({name, index}) => ({name, index})),
+		modified,
+	};
+}
+
+function contentKey (summary: PropertySummary): string {
+	const fields = {...summary.fields};
+	delete fields.name;
+	return JSON.stringify(fields);
+}
+
+function diffFields (
+		a: Record<string, DiffValue>,
+		b: Record<string, DiffValue>): DiffFieldChange[] {
+	const changes: DiffFieldChange[] = [];
+	const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+	for (const field of keys) {
+		const before = field in a ? a[field] : null;
+		const after = field in b ? b[field] : null;
+		if (JSON.stringify(before) !== JSON.stringify(after)) {
+			changes.push({field, before, after});
+		}
+	}
+	return changes;
+}
+
+/**************************************************************************************************
+ * Summaries.
+ */
+
+function listScenes (doc: Document): PropertySummary[] {
+	return doc.getRoot().listScenes().map((scene: Scene, index) => {
+		const children = scene.listChildren().map(label);
+		return {
+			name: scene.getName(),
+			index,
+			structure: `${children.length}`,
+			fields: {
+				name: scene.getName(),
+				children,
+				extras: formatExtras(scene),
+				extensions: formatExtensions(scene.listExtensions()),
+			}
+		};
+	});
+}
+
+function listNodes (doc: Document): PropertySummary[] {
+	return doc.getRoot().listNodes().map((node: Node, index) => {
+		const children = node.listChildren().map(label);
+		const mesh = node.getMesh();
+		const camera = node.getCamera();
+		const skin = node.getSkin();
+		return {
+			name: node.getName(),
+			index,
+			structure: [children.length, !!mesh, !!camera, !!skin].join(':'),
+			fields: {
+				name: node.getName(),
+				translation: toPrecision(node.getTranslation()),
+				rotation: toPrecision(node.getRotation()),
+				scale: toPrecision(node.getScale()),
+				weights: toPrecision(node.getWeights()),
+				mesh: mesh ? label(mesh) : null,
+				camera: camera ? label(camera) : null,
+				skin: skin ? label(skin) : null,
+				children,
+				extras: formatExtras(node),
+				extensions: formatExtensions(node.listExtensions()),
+			}
+		};
+	});
+}
+
+function listMeshes (doc: Document): PropertySummary[] {
+	return doc.getRoot().listMeshes().map((mesh: Mesh, index) => {
+		const prims = mesh.listPrimitives();
+		const attributes = prims.map((prim) => {
+			return prim.listSemantics().map((semantic) => {
+				const accessor = prim.getAttribute(semantic)!;
+				return `${semantic}:${accessor.getType()}:${accessor.getCount()}`;
+			}).sort().join(', ');
+		});
+		return {
+			name: mesh.getName(),
+			index,
+			structure: prims.map((prim) => prim.listSemantics().sort().join()).join('|'),
+			fields: {
+				name: mesh.getName(),
+				primitives: prims.length,
+				mode: prims.map((prim) => prim.getMode()),
+				attributes,
+				indices: prims.map((prim) => {
+					const indices = prim.getIndices();
+					return indices ? `${indices.getCount()}` : 'none';
+				}),
+				targets: prims.map((prim) => prim.listTargets().length),
+				materials: prims.map((prim) => {
+					const material = prim.getMaterial();
+					return material ? label(material) : 'none';
+				}),
+				hash: prims.map((prim) => {
+					const accessors = prim.listAttributes();
+					const indices = prim.getIndices();
+					if (indices) accessors.push(indices);
+					return accessors.map((accessor) => hashAccessor(accessor)).join('');
+				}),
+				weights: toPrecision(mesh.getWeights()),
+				extras: formatExtras(mesh),
+				extensions: formatExtensions(mesh.listExtensions()),
+			}
+		};
+	});
+}
+
+function listMaterials (doc: Document): PropertySummary[] {
+	const graph = doc.getGraph();
+	return doc.getRoot().listMaterials().map((material: Material, index) => {
+		// Find all texture slots attached to this material or its extensions.
+		const extensions = new Set<Property>(material.listExtensions());
+		const textures = graph.getLinks()
+			.filter((link) => {
+				const parent = link.getParent();
+				return link.getChild() instanceof Texture
+					&& (parent === material || extensions.has(parent));
+			})
+			.map((link) => `${link.getName()}:${label(link.getChild())}`)
+			.sort();
+		return {
+			name: material.getName(),
+			index,
+			structure: [material.getAlphaMode(), textures.length].join(':'),
+			fields: {
+				name: material.getName(),
+				alphaMode: material.getAlphaMode(),
+				alphaCutoff: material.getAlphaCutoff(),
+				doubleSided: material.getDoubleSided(),
+				baseColorFactor: toPrecision(material.getBaseColorFactor()),
+				emissiveFactor: toPrecision(material.getEmissiveFactor()),
+				metallicFactor: material.getMetallicFactor(),
+				roughnessFactor: material.getRoughnessFactor(),
+				normalScale: material.getNormalScale(),
+				occlusionStrength: material.getOcclusionStrength(),
+				textures,
+				extras: formatExtras(material),
+				extensions: formatExtensions(material.listExtensions()),
+			}
+		};
+	});
+}
+
+function listTextures (doc: Document): PropertySummary[] {
+	return doc.getRoot().listTextures().map((texture: Texture, index) => {
+		const image = texture.getImage();
+		const resolution = image ? ImageUtils.getSize(image, texture.getMimeType()) : null;
+		return {
+			name: texture.getName(),
+			index,
+			structure: [texture.getMimeType(), resolution ? resolution.join('x') : ''].join(':'),
+			fields: {
+				name: texture.getName(),
+				uri: texture.getURI(),
+				mimeType: texture.getMimeType(),
+				resolution: resolution ? resolution.join('x') : '',
+				size: image ? image.byteLength : 0,
+				hash: image ? hash(new Uint8Array(image)) : '',
+				extras: formatExtras(texture),
+				extensions: formatExtensions(texture.listExtensions()),
+			}
+		};
+	});
+}
+
+function listAccessors (doc: Document): PropertySummary[] {
+	return doc.getRoot().listAccessors().map((accessor: Accessor, index) => {
+		return {
+			name: accessor.getName(),
+			index,
+			structure: [
+				accessor.getType(),
+				accessor.getComponentType(),
+				accessor.getCount(),
+			].join(':'),
+			fields: {
+				name: accessor.getName(),
+				type: accessor.getType(),
+				componentType: accessor.getComponentType(),
+				normalized: accessor.getNormalized(),
+				count: accessor.getCount(),
+				min: toPrecision(accessor.getMin([])),
+				max: toPrecision(accessor.getMax([])),
+				hash: hashAccessor(accessor),
+				extras: formatExtras(accessor),
+				extensions: formatExtensions(accessor.listExtensions()),
+			}
+		};
+	});
+}
+
+function listAnimations (doc: Document): PropertySummary[] {
+	return doc.getRoot().listAnimations().map((animation: Animation, index) => {
+		const channels = animation.listChannels().map((channel) => {
+			const node = channel.getTargetNode();
+			return `${node ? label(node) : 'none'}.${channel.getTargetPath()}`;
+		});
+		const samplers = animation.listSamplers().map((sampler) => {
+			const input = sampler.getInput();
+			const output = sampler.getOutput();
+			return [
+				sampler.getInterpolation(),
+				input ? hashAccessor(input) : 'none',
+				output ? hashAccessor(output) : 'none',
+			].join(':');
+		});
+		return {
+			name: animation.getName(),
+			index,
+			structure: [channels.length, samplers.length].join(':'),
+			fields: {
+				name: animation.getName(),
+				channels,
+				samplers,
+				extras: formatExtras(animation),
+				extensions: formatExtensions(animation.listExtensions()),
+			}
+		};
+	});
+}
+
+/**************************************************************************************************
+ * Utilities.
+ */
+
+/** Identifies a referenced property by name, or by type when unnamed. */
+function label (property: Property): string {
+	if (property.getName()) return property.getName();
+	return property.propertyType;
+}
+
+function formatExtras (property: Property): string {
+	return JSON.stringify(property.getExtras());
+}
+
+function formatExtensions (extensions: ExtensionProperty[]): string[] {
+	return extensions.map((extension) => extension.extensionName).sort();
+}
+
+/** Maps values in a vector to a finite precision. */
+function toPrecision (v: number[]): number[] {
+	return v.map((value) => Number(value.toFixed(5)));
+}
+
+function hashAccessor (accessor: Accessor): string {
+	const array = accessor.getArray();
+	if (!array) return '';
+	return hash(new Uint8Array(array.buffer, array.byteOffset, array.byteLength));
+}
+
+/** Truncated SHA-256 hash of a byte array, as a 16-character hexadecimal string. */
+function hash (data: Uint8Array): string {
+	return Array.from(sha256(data).subarray(0, 2))
+		.map((word) => ('00000000' + word.toString(16)).slice(-8))
+		.join('');
+}
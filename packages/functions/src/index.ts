@@ -41,14 +41,17 @@ export { bounds } from '@gltf-transform/core'; // backwards compatibility, remov
 export * from './center';
 export * from './colorspace';
 export * from './dedup';
+export * from './diff';
 export * from './inspect';
 export * from './instance';
+export * from './lod';
 export * from './metal-rough';
 export * from './partition';
 export * from './prune';
 export * from './quantize';
 export * from './resample';
 export * from './sequence';
+export * from './simplify';
 export * from './tangents';
 export * from './texture-resize';
 export * from './unweld';
@@ -1,4 +1,4 @@
-import { Accessor, Document, ExtensionProperty, GLTF, ImageUtils, Texture, TypedArray, bounds } from '@gltf-transform/core';
+import { Accessor, Document, ExtensionProperty, GLTF, ImageUtils, Texture, bounds } from '@gltf-transform/core';
 import { getGLPrimitiveCount } from './utils';
 
 /** Inspects the contents of a glTF file and returns a JSON report. */
@@ -42,7 +42,7 @@ function listMeshes (doc: Document): InspectPropertyReport<InspectMeshReport> {
 		mesh.listPrimitives().forEach((prim) => {
 			for (const semantic of prim.listSemantics()) {
 				const attr = prim.getAttribute(semantic)!;
-				semantics.add(semantic + ':' + arrayToType(attr.getArray()!));
+				semantics.add(semantic + ':' + accessorToType(attr));
 				meshAccessors.add(attr);
 			}
 			for (const targ of prim.listTargets()) {
@@ -50,7 +50,7 @@ function listMeshes (doc: Document): InspectPropertyReport<InspectMeshReport> {
 			}
 			const indices = prim.getIndices();
 			if (indices) {
-				meshIndices.add(arrayToType(indices.getArray()!));
+				meshIndices.add(accessorToType(indices));
 				meshAccessors.add(indices);
 			}
 			verts += prim.listAttributes()[0].getCount();
@@ -58,7 +58,7 @@ function listMeshes (doc: Document): InspectPropertyReport<InspectMeshReport> {
 		});
 
 		let size = 0;
-		Array.from(meshAccessors).forEach((a) => (size += a.getArray()!.byteLength));
+		Array.from(meshAccessors).forEach((a) => (size += a.getByteLength()));
 
 		const modes = mesh.listPrimitives()
 			.map((prim) => MeshPrimitiveModeLabels[prim.getMode()]);
@@ -169,7 +169,7 @@ function listAnimations (doc: Document): InspectPropertyReport<InspectAnimationR
 			accessors.add(output);
 		});
 		Array.from(accessors).forEach((accessor) => {
-			size += accessor.getArray()!.byteLength;
+			size += accessor.getByteLength();
 		});
 
 		return {
@@ -264,6 +264,14 @@ function toPrecision(v: number[]): number[] {
 	return v;
 }
 
-function arrayToType(array: TypedArray): string {
-	return array.constructor.name.replace('Array', '').toLowerCase();
+/** Returns the component type label of an accessor, without reading its array. */
+function accessorToType(accessor: Accessor): string {
+	switch (accessor.getComponentType()) {
+		case Accessor.ComponentType.BYTE: return 'int8';
+		case Accessor.ComponentType.UNSIGNED_BYTE: return 'uint8';
+		case Accessor.ComponentType.SHORT: return 'int16';
+		case Accessor.ComponentType.UNSIGNED_SHORT: return 'uint16';
+		case Accessor.ComponentType.UNSIGNED_INT: return 'uint32';
+		default: return 'float32';
+	}
 }
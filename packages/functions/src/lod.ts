@@ -0,0 +1,267 @@
+import { Animation, AnimationChannel, Document, ExtensionProperty, Material, Mesh, Primitive, Property, Texture, Transform } from '@gltf-transform/core';
+import { LevelOfDetail } from '@gltf-transform/extensions';
+import { simplifyPrimitive } from './simplify';
+import { TEXTURE_RESIZE_DEFAULTS, textureResize } from './texture-resize';
+
+const NAME = 'lod';
+
+/** Options for the {@link lod} function. */
+export interface LODOptions {
+	/** Number of levels of detail to generate, in addition to the original. Default: 2. */
+	levels?: number;
+	/** Ratio (0–1) of triangles kept at each level, relative to the level before. Default: 0.5. */
+	ratio?: number;
+	/**
+	 * Limit on simplification error at each level, as a fraction of the size of each primitive.
+	 * See {@link SimplifyOptions}. Default: 0.01.
+	 */
+	error?: number;
+	/**
+	 * Scale (0–1) of texture dimensions at each level, relative to the level before. PNG and JPEG
+	 * textures are supported. With a scale of 1, textures are shared by all levels. Default: 0.5.
+	 */
+	textureScale?: number;
+	/**
+	 * Screen coverage hints, one for the original and each generated level, in descending order.
+	 * By default, hints decrease by the triangle ratio at each level, and the lowest level is shown
+	 * at any smaller coverage.
+	 */
+	screenCoverage?: number[] | null;
+}
+
+export const LOD_DEFAULTS: Required<LODOptions> = {
+	levels: 2,
+	ratio: 0.5,
+	error: 0.01,
+	textureScale: 0.5,
+	screenCoverage: null,
+};
+
+/**
+ * Generates levels of detail (LODs) for each {@link Node} with a {@link Mesh}, using the
+ * `MSFT_lod` extension. Each level is simplified from the level before it with
+ * {@link simplifyPrimitive}, and textures are downscaled with {@link textureResize}. Meshes
+ * shared by multiple nodes share their levels of detail.
+ *
+ * Levels of detail are added as nodes outside of the scene. Loaders without support for
+ * `MSFT_lod` display the original nodes, so the extension is not required. Animation channels
+ * targeting a node are copied to its levels of detail, sharing the same samplers. Nodes with
+ * children are skipped, as levels of detail would not include the children. Primitives must be
+ * indexed to be simplified, and should be welded first:
+ *
+ * ```ts
+ * await doc.transform(
+ * 	weld(),
+ * 	lod({levels: 3, ratio: 0.5})
+ * );
+ * ```
+ */
+export function lod (_options: LODOptions = LOD_DEFAULTS): Transform {
+	const options = {...LOD_DEFAULTS, ..._options} as Required<LODOptions>;
+
+	return async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+		const lodExtension = doc.createExtension(LevelOfDetail);
+		const screenCoverage = options.screenCoverage || createScreenCoverage(options);
+
+		if (screenCoverage.length !== options.levels + 1) {
+			throw new Error(`${NAME}: Expected ${options.levels + 1} screen coverage values.`);
+		}
+
+		// Levels of detail for each mesh, material, and texture, starting at the first LOD.
+		const meshLevels = new Map<Mesh, Mesh[]>();
+		const materialLevels = new Map<Material, Material[]>();
+		const textureLevels = new Map<Texture, Texture[]>();
+
+		let unindexed = 0;
+		let withChildren = 0;
+		let nodeCount = 0;
+		let channelCount = 0;
+
+		for (const node of doc.getRoot().listNodes()) {
+			const mesh = node.getMesh();
+			if (!mesh || node.getExtension(LevelOfDetail.EXTENSION_NAME)) continue;
+
+			// Levels of detail replace the node, and would not include its children.
+			if (node.listChildren().length) {
+				withChildren++;
+				continue;
+			}
+
+			if (!meshLevels.has(mesh)) {
+				unindexed += mesh.listPrimitives()
+					.filter((prim) => prim.getMode() === Primitive.Mode.TRIANGLES)
+					.filter((prim) => !prim.getIndices() || !prim.getAttribute('POSITION'))
+					.length;
+				const levels = await createMeshLevels(doc, mesh, materialLevels, textureLevels);
+				meshLevels.set(mesh, levels);
+			}
+
+			// Levels of detail replace the node when displayed, so must follow its animation.
+			const channels = node.listParents()
+				.filter((parent) => parent instanceof AnimationChannel) as AnimationChannel[];
+
+			const lod = lodExtension.createLOD().setScreenCoverage(screenCoverage.slice());
+			meshLevels.get(mesh)!.forEach((lodMesh, index) => {
+				const lodNode = doc.createNode(`${node.getName()}_LOD${index + 1}`)
+					.setMesh(lodMesh)
+					.setSkin(node.getSkin())
+					.setWeights(node.getWeights())
+					.setTranslation(node.getTranslation())
+					.setRotation(node.getRotation())
+					.setScale(node.getScale());
+				for (const channel of channels) {
+					const animation = channel.listParents()
+						.find((parent) => parent instanceof Animation) as Animation | undefined;
+					if (!animation) continue;
+					animation.addChannel(doc.createAnimationChannel(channel.getName())
+						.setTargetNode(lodNode)
+						.setTargetPath(channel.getTargetPath()!)
+						.setSampler(channel.getSampler()));
+					channelCount++;
+				}
+				lod.addLOD(lodNode);
+			});
+			node.setExtension(LevelOfDetail.EXTENSION_NAME, lod);
+			nodeCount++;
+		}
+
+		if (withChildren) {
+			logger.warn(`${NAME}: Skipped ${withChildren} node(s) with children.`);
+		}
+
+		if (unindexed) {
+			logger.warn(`${NAME}: Skipped ${unindexed} unindexed primitive(s). Use weld() first.`);
+		}
+
+		logger.debug(`${NAME}: Created levels of detail for ${nodeCount} node(s).`);
+		if (channelCount) {
+			logger.debug(`${NAME}: Copied ${channelCount} animation channel(s) to LOD nodes.`);
+		}
+		logger.debug(`${NAME}: Complete.`);
+	};
+
+	/** Creates each level of detail for a mesh, simplifying the level before it. */
+	async function createMeshLevels(
+			doc: Document,
+			mesh: Mesh,
+			materialLevels: Map<Material, Material[]>,
+			textureLevels: Map<Texture, Texture[]>): Promise<Mesh[]> {
+		const levels: Mesh[] = [];
+		for (let level = 1; level <= options.levels; level++) {
+			const prevMesh = levels.length ? levels[levels.length - 1] : mesh;
+			const lodMesh = prevMesh.clone().setName(`${mesh.getName()}_LOD${level}`);
+			const srcPrims = mesh.listPrimitives();
+			const lodPrims: {lodPrim: Primitive, material: Material | null}[] = [];
+			lodMesh.listPrimitives().forEach((prim, index) => {
+				// Copy the primitive and its morph targets, which are modified in place.
+				const lodPrim = prim.clone();
+				for (const target of lodPrim.listTargets()) lodPrim.swap(target, target.clone());
+				lodMesh.swap(prim, lodPrim);
+				simplifyPrimitive(doc, lodPrim, {ratio: options.ratio, error: options.error});
+				lodPrims.push({lodPrim, material: srcPrims[index].getMaterial()});
+			});
+
+			// Materials are created from the original, so textures are only resampled once.
+			for (const {lodPrim, material} of lodPrims) {
+				if (!material || options.textureScale >= 1) continue;
+				if (!materialLevels.has(material)) materialLevels.set(material, []);
+				const materials = materialLevels.get(material)!;
+				if (!materials[level - 1]) {
+					materials[level - 1] =
+						await createMaterialLevel(doc, material, level, textureLevels);
+				}
+				lodPrim.setMaterial(materials[level - 1]);
+			}
+			levels.push(lodMesh);
+		}
+		return levels;
+	}
+
+	/**
+	 * Creates a level of detail for a material, with downscaled textures. Extensions of the
+	 * material are copied, so that their textures may be replaced as well. Materials without
+	 * supported textures are shared with the original.
+	 */
+	async function createMaterialLevel(
+			doc: Document,
+			material: Material,
+			level: number,
+			textureLevels: Map<Texture, Texture[]>): Promise<Material> {
+		const graph = doc.getGraph();
+		const listTextures = (parent: Property) => graph.listChildren(parent)
+			.filter((child) => child instanceof Texture) as Texture[];
+		const listExtensions = (parent: Property) => graph.listChildren(parent)
+			.filter((child) => child instanceof ExtensionProperty) as ExtensionProperty[];
+
+		const lodTextures = new Map<Texture, Texture>();
+		for (const parent of [material, ...listExtensions(material)]) {
+			for (const texture of listTextures(parent)) {
+				const lodTexture = await createTextureLevel(doc, texture, level, textureLevels);
+				if (lodTexture !== texture) lodTextures.set(texture, lodTexture);
+			}
+		}
+		if (!lodTextures.size) return material;
+
+		const lodMaterial = material.clone().setName(`${material.getName()}_LOD${level}`);
+		const parents: Property[] = [lodMaterial];
+		for (const extension of listExtensions(lodMaterial)) {
+			const lodExtension = extension.clone();
+			lodMaterial.setExtension(lodExtension.extensionName, lodExtension);
+			parents.push(lodExtension);
+		}
+		for (const parent of parents) {
+			for (const texture of listTextures(parent)) {
+				if (lodTextures.has(texture)) parent.swap(texture, lodTextures.get(texture)!);
+			}
+		}
+
+		return lodMaterial;
+	}
+
+	/**
+	 * Creates a level of detail for a texture, downscaled from the original. Unsupported textures
+	 * are shared with the original.
+	 */
+	async function createTextureLevel(
+			doc: Document,
+			texture: Texture,
+			level: number,
+			textureLevels: Map<Texture, Texture[]>): Promise<Texture> {
+		const mimeType = texture.getMimeType();
+		if (mimeType !== 'image/png' && mimeType !== 'image/jpeg') return texture;
+		const size = texture.getSize();
+		if (!size) return texture;
+
+		if (!textureLevels.has(texture)) textureLevels.set(texture, []);
+		const textures = textureLevels.get(texture)!;
+		if (textures[level - 1]) return textures[level - 1];
+
+		const scale = Math.pow(options.textureScale, level);
+		const uri = texture.getURI();
+		const lodTexture = texture.clone()
+			.setName(texture.getName() ? `${texture.getName()}_LOD${level}` : '')
+			.setURI(uri ? uri.replace(/(\.[^./]*)?$/, `_LOD${level}$1`) : '');
+
+		const width = Math.max(1, Math.round(size[0] * scale));
+		const height = Math.max(1, Math.round(size[1] * scale));
+		await textureResize({
+			...TEXTURE_RESIZE_DEFAULTS,
+			size: [width, height],
+			pattern: {filter: (property) => property === lodTexture},
+		})(doc);
+
+		textures[level - 1] = lodTexture;
+		return lodTexture;
+	}
+}
+
+/** Screen coverage hints decreasing by the triangle ratio at each level, ending at zero. */
+function createScreenCoverage(options: Required<LODOptions>): number[] {
+	const screenCoverage = [];
+	for (let level = 0; level < options.levels; level++) {
+		screenCoverage.push(Math.pow(options.ratio, level + 1));
+	}
+	screenCoverage.push(0);
+	return screenCoverage;
+}
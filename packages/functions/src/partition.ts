@@ -1,10 +1,18 @@
-import { Document, Logger, Transform } from '@gltf-transform/core';
+import { Document, Logger, Property, Selector, Transform } from '@gltf-transform/core';
 
 const NAME = 'partition';
 
 export interface PartitionOptions {
-	animations?: boolean | Array<string>;
-	meshes?: boolean | Array<string>;
+	/**
+	 * Whether to partition animations. May be a list of animation names, or a {@link Selector},
+	 * to partition only matching animations.
+	 */
+	animations?: boolean | Array<string> | Selector;
+	/**
+	 * Whether to partition meshes. May be a list of mesh names, or a {@link Selector}, to
+	 * partition only matching meshes.
+	 */
+	meshes?: boolean | Array<string> | Selector;
 }
 
 const PARTITION_DEFAULTS: Required<PartitionOptions> =  {
@@ -49,9 +57,11 @@ const partition = (_options: PartitionOptions = PARTITION_DEFAULTS): Transform =
 function partitionMeshes (doc: Document, logger: Logger, options: PartitionOptions): void {
 	const existingURIs = new Set<string>(doc.getRoot().listBuffers().map((b) => b.getURI()));
 
+	const include = createFilter(doc, options.meshes!);
+
 	doc.getRoot().listMeshes()
 		.forEach((mesh, meshIndex) => {
-			if (Array.isArray(options.meshes) && !options.meshes.includes(mesh.getName())) {
+			if (!include(mesh)) {
 				logger.debug(
 					`${NAME}: Skipping mesh #${meshIndex} with name "${mesh.getName()}".`
 				);
@@ -81,9 +91,11 @@ function partitionMeshes (doc: Document, logger: Logger, options: PartitionOptio
 function partitionAnimations (doc: Document, logger: Logger, options: PartitionOptions): void {
 	const existingURIs = new Set<string>(doc.getRoot().listBuffers().map((b) => b.getURI()));
 
+	const include = createFilter(doc, options.animations!);
+
 	doc.getRoot().listAnimations()
 		.forEach((anim, animIndex) => {
-			if (Array.isArray(options.animations) && !options.animations.includes(anim.getName())) {
+			if (!include(anim)) {
 				logger.debug(
 					`${NAME}: Skipping animation #${animIndex} with name "${anim.getName()}".`
 				);
@@ -105,6 +117,18 @@ function partitionAnimations (doc: Document, logger: Logger, options: PartitionO
 		});
 }
 
+/** Returns a filter for properties selected by a partition option. */
+function createFilter (
+		doc: Document,
+		option: boolean | Array<string> | Selector): (property: Property) => boolean {
+	if (Array.isArray(option)) return (property) => option.includes(property.getName());
+	if (typeof option === 'object') {
+		const selected = new Set(doc.getRoot().select(option));
+		return (property) => selected.has(property);
+	}
+	return () => true;
+}
+
 function createBufferURI (basename: string, existing: Set<string>): string {
 	let uri = `${basename}.bin`;
 	let i = 1;
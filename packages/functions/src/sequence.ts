@@ -1,12 +1,15 @@
-import { Accessor, AnimationChannel, AnimationSampler, Document, Transform } from '@gltf-transform/core';
+import { Accessor, AnimationChannel, AnimationSampler, Document, Node, Selector, Transform } from '@gltf-transform/core';
 
 const NAME = 'sequence';
 
 export interface SequenceOptions {
 	/** Frames per second, where one node is shown each frame. Default 10. */
 	fps?: number;
-	/** Pattern (regex) used to filter nodes for the sequence. Required. */
-	pattern: RegExp;
+	/**
+	 * Pattern (regex) matching names of nodes for the sequence, or a {@link Selector} identifying
+	 * the nodes. Required.
+	 */
+	pattern: RegExp | Selector;
 	/** Name of the new animation. */
 	name?: string;
 	/** Whether to sort the nodes by name, or use original order. Default true. */
@@ -33,8 +36,12 @@ export function sequence (_options: SequenceOptions = SEQUENCE_DEFAULTS): Transf
 		const fps = options.fps;
 
 		// Collect sequence nodes.
+		const pattern = options.pattern;
+		const selected = pattern instanceof RegExp ? null : new Set(root.select<Node>(pattern));
 		const sequenceNodes = root.listNodes()
-			.filter((node) => node.getName().match(options.pattern));
+			.filter((node) => selected
+				? selected.has(node)
+				: node.getName().match(pattern as RegExp));
 
 		// Sort by node name.
 		if (options.sort) {
@@ -0,0 +1,501 @@
+import { Document, Primitive, PrimitiveTarget, Transform, TypedArray } from '@gltf-transform/core';
+
+const NAME = 'simplify';
+
+/** Options for the {@link simplify} function. */
+export interface SimplifyOptions {
+	/** Target ratio (0–1) of triangles to keep. Default: 0.5. */
+	ratio?: number;
+	/**
+	 * Limit on error, as a fraction of the largest dimension of each primitive's bounding box.
+	 * Simplification stops before exceeding this error, even if the target ratio has not been
+	 * reached. Default: 0.01.
+	 */
+	error?: number;
+	/** Whether to prevent simplification of open borders of the mesh. Default: false. */
+	lockBorder?: boolean;
+}
+
+export const SIMPLIFY_DEFAULTS: Required<SimplifyOptions> = {
+	ratio: 0.5,
+	error: 0.01,
+	lockBorder: false,
+};
+
+/** Vertex classification, recomputed on each pass. */
+enum VertexKind {
+	/** Interior vertex, free to collapse in any direction. */
+	MANIFOLD = 0,
+	/** Vertex on an open border, which may only collapse along the border. */
+	BORDER = 1,
+	/** Vertex with non-manifold topology, or a locked border, which may not collapse. */
+	LOCKED = 2,
+}
+
+/** Weight of quadrics preserving open borders, relative to those of triangles. */
+const BORDER_WEIGHT = 10;
+
+/** Number of values stored for each quadric: 10 for a symmetric 4x4 matrix, and a weight. */
+const QUADRIC_SIZE = 11;
+
+/**
+ * Simplifies (decimates) indexed triangle {@link Primitive}s, reducing the number of triangles
+ * and vertices. Uses edge collapses ordered by quadric error metrics (QEM), following Garland and
+ * Heckbert. Vertices are collapsed onto neighboring vertices, rather than moved, so all vertex
+ * attributes remain valid without interpolation.
+ *
+ * UV, normal, and color seams — vertices sharing a position, but with different attributes — are
+ * preserved: vertices on a seam collapse only along the seam. Open borders collapse only along the
+ * border, or not at all with `lockBorder: true`.
+ *
+ * Primitives must be indexed. Most meshes should be welded first, with {@link weld}, so that
+ * triangles share vertices:
+ *
+ * ```ts
+ * await doc.transform(
+ * 	weld(),
+ * 	simplify({ratio: 0.25, error: 0.001})
+ * );
+ * ```
+ */
+export function simplify (_options: SimplifyOptions = SIMPLIFY_DEFAULTS): Transform {
+	const options = {...SIMPLIFY_DEFAULTS, ..._options} as Required<SimplifyOptions>;
+
+	return (doc: Document): void => {
+		const logger = doc.getLogger();
+
+		let unindexed = 0;
+		for (const mesh of doc.getRoot().listMeshes()) {
+			for (const prim of mesh.listPrimitives()) {
+				if (prim.getMode() !== Primitive.Mode.TRIANGLES) continue;
+				if (!prim.getIndices() || !prim.getAttribute('POSITION')) {
+					unindexed++;
+					continue;
+				}
+				simplifyPrimitive(doc, prim, options);
+			}
+		}
+
+		if (unindexed) {
+			logger.warn(`${NAME}: Skipped ${unindexed} unindexed primitive(s). Use weld() first.`);
+		}
+
+		logger.debug(`${NAME}: Complete.`);
+	};
+}
+
+/**
+ * Simplifies a single indexed triangle {@link Primitive} in place. See {@link simplify}.
+ * Primitives in other modes, or without indices, are not modified.
+ */
+export function simplifyPrimitive (
+		doc: Document,
+		prim: Primitive,
+		_options: SimplifyOptions = SIMPLIFY_DEFAULTS): Primitive {
+	const options = {...SIMPLIFY_DEFAULTS, ..._options} as Required<SimplifyOptions>;
+	if (prim.getMode() !== Primitive.Mode.TRIANGLES) return prim;
+	if (!prim.getIndices() || !prim.getAttribute('POSITION')) return prim;
+
+	const srcIndices = prim.getIndices()!;
+	const position = prim.getAttribute('POSITION')!;
+	const indices = new Uint32Array(srcIndices.getArray()!);
+	const srcTriangleCount = Math.floor(indices.length / 3);
+	const targetCount = Math.floor(srcTriangleCount * options.ratio);
+	if (targetCount >= srcTriangleCount) return prim;
+
+	// Vertices with equal positions are merged into a single representative vertex. Merged
+	// vertices with different indices lie on UV, normal, or color seams.
+	const vertexCount = position.getCount();
+	const positions = new Float64Array(vertexCount * 3);
+	const remap = new Uint32Array(vertexCount);
+	const positionToVertex = new Map<string, number>();
+	const el: number[] = [];
+	for (let i = 0; i < vertexCount; i++) {
+		position.getElement(i, el);
+		positions.set(el, i * 3);
+		const key = el.join(',');
+		const vertex = positionToVertex.get(key);
+		remap[i] = vertex === undefined ? i : vertex;
+		if (vertex === undefined) positionToVertex.set(key, i);
+	}
+
+	// Triangles adjacent to each representative vertex. Degenerate triangles are removed.
+	const alive = new Uint8Array(srcTriangleCount);
+	const vertexTriangles: number[][] = [];
+	for (let i = 0; i < vertexCount; i++) vertexTriangles.push([]);
+	let triangleCount = 0;
+	for (let t = 0; t < srcTriangleCount; t++) {
+		const [a, b, c] = [0, 1, 2].map((k) => remap[indices[t * 3 + k]]);
+		if (a === b || b === c || c === a) continue;
+		alive[t] = 1;
+		triangleCount++;
+		vertexTriangles[a].push(t);
+		vertexTriangles[b].push(t);
+		vertexTriangles[c].push(t);
+	}
+
+	const quadrics = new Float64Array(vertexCount * QUADRIC_SIZE);
+	const edgeCounts = countEdges(indices, alive, remap, vertexCount);
+	initQuadrics(quadrics, positions, indices, alive, remap, edgeCounts, vertexCount, options);
+
+	const extent = getExtent(positions, remap);
+	const errorLimit = Math.pow(options.error * extent, 2);
+
+	// Each pass collapses the cheapest edges, collapsing each region of the mesh at most once
+	// so that costs computed at the start of the pass remain accurate.
+	while (triangleCount > targetCount) {
+		const edges = countEdges(indices, alive, remap, vertexCount);
+		const kinds = classifyVertices(edges, vertexCount, options.lockBorder);
+
+		const candidates: {u: number, v: number, cost: number}[] = [];
+		edges.forEach((count, key) => {
+			const a = Math.floor(key / vertexCount);
+			const b = key % vertexCount;
+			const costAB = canCollapse(a, b, count, kinds)
+				? getCollapseCost(quadrics, positions, a, b)
+				: Infinity;
+			const costBA = canCollapse(b, a, count, kinds)
+				? getCollapseCost(quadrics, positions, b, a)
+				: Infinity;
+			if (costAB === Infinity && costBA === Infinity) return;
+			candidates.push(costAB <= costBA
+				? {u: a, v: b, cost: costAB}
+				: {u: b, v: a, cost: costBA});
+		});
+		candidates.sort((a, b) => a.cost - b.cost);
+
+		const touched = new Uint8Array(vertexCount);
+		let collapses = 0;
+		for (const {u, v, cost} of candidates) {
+			if (cost > errorLimit || triangleCount <= targetCount) break;
+			if (touched[u] || touched[v]) continue;
+
+			const removed = collapse(u, v, indices, alive, remap, positions, vertexTriangles);
+			if (removed === 0) continue;
+
+			triangleCount -= removed;
+			collapses++;
+			for (let j = 0; j < QUADRIC_SIZE; j++) {
+				quadrics[v * QUADRIC_SIZE + j] += quadrics[u * QUADRIC_SIZE + j];
+			}
+			touched[u] = 1;
+			for (const t of vertexTriangles[v]) {
+				if (!alive[t]) continue;
+				for (let k = 0; k < 3; k++) touched[remap[indices[t * 3 + k]]] = 1;
+			}
+		}
+
+		if (collapses === 0) break;
+	}
+
+	doc.getLogger().debug(`${NAME}: ${srcTriangleCount} → ${triangleCount} triangles.`);
+	writePrimitive(prim, indices, alive);
+	return prim;
+}
+
+/**********************************************************************************************
+ * Topology.
+ */
+
+/** Counts triangles adjacent to each edge, keyed by the indices of its representative vertices. */
+function countEdges(
+		indices: Uint32Array,
+		alive: Uint8Array,
+		remap: Uint32Array,
+		vertexCount: number): Map<number, number> {
+	const edges = new Map<number, number>();
+	for (let t = 0; t < alive.length; t++) {
+		if (!alive[t]) continue;
+		for (let k = 0; k < 3; k++) {
+			const a = remap[indices[t * 3 + k]];
+			const b = remap[indices[t * 3 + (k + 1) % 3]];
+			const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+			edges.set(key, (edges.get(key) || 0) + 1);
+		}
+	}
+	return edges;
+}
+
+function classifyVertices(edges: Map<number, number>, vertexCount: number, lockBorder: boolean)
+		: Uint8Array {
+	const kinds = new Uint8Array(vertexCount);
+	const borderKind = lockBorder ? VertexKind.LOCKED : VertexKind.BORDER;
+	edges.forEach((count, key) => {
+		if (count === 2) return;
+		const kind = count === 1 ? borderKind : VertexKind.LOCKED;
+		const a = Math.floor(key / vertexCount);
+		const b = key % vertexCount;
+		kinds[a] = Math.max(kinds[a], kind);
+		kinds[b] = Math.max(kinds[b], kind);
+	});
+	return kinds;
+}
+
+/** Whether vertex U may collapse onto vertex V, given the number of triangles on edge UV. */
+function canCollapse(u: number, v: number, edgeCount: number, kinds: Uint8Array): boolean {
+	if (kinds[u] === VertexKind.LOCKED) return false;
+	if (kinds[u] === VertexKind.BORDER) return edgeCount === 1 && kinds[v] !== VertexKind.MANIFOLD;
+	return true;
+}
+
+/**
+ * Collapses representative vertex U onto V, returning the number of triangles removed, or zero if
+ * the collapse would break a seam, change topology, or flip a triangle.
+ */
+function collapse(
+		u: number,
+		v: number,
+		indices: Uint32Array,
+		alive: Uint8Array,
+		remap: Uint32Array,
+		positions: Float64Array,
+		vertexTriangles: number[][]): number {
+	const triangles = vertexTriangles[u].filter((t) => alive[t]);
+	const corners = (t: number) => [t * 3, t * 3 + 1, t * 3 + 2];
+	const hasVertex = (t: number, vertex: number) => {
+		return corners(t).some((corner) => remap[indices[corner]] === vertex);
+	};
+
+	// Map each vertex at U to a vertex at V, through the triangles they share. A seam at U must
+	// continue through V, or a vertex at U will have no match, and the collapse is rejected.
+	const vertexMap = new Map<number, number>();
+	let sharedCount = 0;
+	for (const t of triangles) {
+		if (!hasVertex(t, v)) continue;
+		sharedCount++;
+		const src = indices[corners(t).find((corner) => remap[indices[corner]] === u)!];
+		const dst = indices[corners(t).find((corner) => remap[indices[corner]] === v)!];
+		if (vertexMap.has(src) && vertexMap.get(src) !== dst) return 0;
+		vertexMap.set(src, dst);
+	}
+	if (sharedCount === 0) return 0;
+	for (const t of triangles) {
+		for (const corner of corners(t)) {
+			if (remap[indices[corner]] === u && !vertexMap.has(indices[corner])) return 0;
+		}
+	}
+
+	// Link condition: U and V may share no neighbors other than those of the removed triangles.
+	const neighborsU = getNeighbors(u, triangles, indices, remap);
+	const neighborsV = getNeighbors(v, vertexTriangles[v].filter((t) => alive[t]), indices, remap);
+	let commonCount = 0;
+	neighborsU.forEach((neighbor) => {
+		if (neighborsV.has(neighbor)) commonCount++;
+	});
+	if (commonCount > sharedCount) return 0;
+
+	// Reject collapses that would flip, or degenerate, any remaining triangle.
+	for (const t of triangles) {
+		if (hasVertex(t, v)) continue;
+		const [a, b, c] = corners(t).map((corner) => remap[indices[corner]]);
+		const before = getNormal(positions, a, b, c);
+		const after = getNormal(positions, a === u ? v : a, b === u ? v : b, c === u ? v : c);
+		if (before[0] * after[0] + before[1] * after[1] + before[2] * after[2] <= 0) return 0;
+	}
+
+	let removed = 0;
+	for (const t of triangles) {
+		if (hasVertex(t, v)) {
+			alive[t] = 0;
+			removed++;
+			continue;
+		}
+		for (const corner of corners(t)) {
+			if (remap[indices[corner]] === u) {
+				indices[corner] = vertexMap.get(indices[corner])!;
+			}
+		}
+		vertexTriangles[v].push(t);
+	}
+	vertexTriangles[u] = [];
+	return removed;
+}
+
+function getNeighbors(vertex: number, triangles: number[], indices: Uint32Array, remap: Uint32Array)
+		: Set<number> {
+	const neighbors = new Set<number>();
+	for (const t of triangles) {
+		for (let k = 0; k < 3; k++) neighbors.add(remap[indices[t * 3 + k]]);
+	}
+	neighbors.delete(vertex);
+	return neighbors;
+}
+
+/**********************************************************************************************
+ * Quadrics.
+ */
+
+/**
+ * Accumulates, for each representative vertex, the planes of adjacent triangles weighted by area,
+ * and planes perpendicular to adjacent open borders.
+ */
+function initQuadrics(
+		quadrics: Float64Array,
+		positions: Float64Array,
+		indices: Uint32Array,
+		alive: Uint8Array,
+		remap: Uint32Array,
+		edgeCounts: Map<number, number>,
+		vertexCount: number,
+		options: Required<SimplifyOptions>): void {
+	for (let t = 0; t < alive.length; t++) {
+		if (!alive[t]) continue;
+		const vertices = [0, 1, 2].map((k) => remap[indices[t * 3 + k]]);
+		const normal = getNormal(positions, vertices[0], vertices[1], vertices[2]);
+		const length = Math.hypot(normal[0], normal[1], normal[2]);
+		if (length === 0) continue;
+
+		const [nx, ny, nz] = normal.map((value) => value / length);
+		const d = -dot(nx, ny, nz, positions, vertices[0]);
+		for (const vertex of vertices) addPlane(quadrics, vertex, nx, ny, nz, d, length / 2);
+
+		if (options.lockBorder) continue;
+
+		for (let k = 0; k < 3; k++) {
+			const a = vertices[k];
+			const b = vertices[(k + 1) % 3];
+			if (edgeCounts.get(Math.min(a, b) * vertexCount + Math.max(a, b)) !== 1) continue;
+
+			// Plane containing the border edge, perpendicular to the triangle.
+			const ex = positions[b * 3] - positions[a * 3];
+			const ey = positions[b * 3 + 1] - positions[a * 3 + 1];
+			const ez = positions[b * 3 + 2] - positions[a * 3 + 2];
+			const px = ey * nz - ez * ny;
+			const py = ez * nx - ex * nz;
+			const pz = ex * ny - ey * nx;
+			const pLength = Math.hypot(px, py, pz);
+			if (pLength === 0) continue;
+
+			const weight = BORDER_WEIGHT * (ex * ex + ey * ey + ez * ez);
+			const pd = -dot(px / pLength, py / pLength, pz / pLength, positions, a);
+			addPlane(quadrics, a, px / pLength, py / pLength, pz / pLength, pd, weight);
+			addPlane(quadrics, b, px / pLength, py / pLength, pz / pLength, pd, weight);
+		}
+	}
+}
+
+function addPlane(
+		quadrics: Float64Array,
+		vertex: number,
+		a: number, b: number, c: number, d: number,
+		weight: number): void {
+	const o = vertex * QUADRIC_SIZE;
+	quadrics[o] += weight * a * a;
+	quadrics[o + 1] += weight * a * b;
+	quadrics[o + 2] += weight * a * c;
+	quadrics[o + 3] += weight * a * d;
+	quadrics[o + 4] += weight * b * b;
+	quadrics[o + 5] += weight * b * c;
+	quadrics[o + 6] += weight * b * d;
+	quadrics[o + 7] += weight * c * c;
+	quadrics[o + 8] += weight * c * d;
+	quadrics[o + 9] += weight * d * d;
+	quadrics[o + 10] += weight;
+}
+
+/**
+ * Error of moving vertex U to the position of vertex V: the weighted mean squared distance from
+ * the planes accumulated at U.
+ */
+function getCollapseCost(quadrics: Float64Array, positions: Float64Array, u: number, v: number)
+		: number {
+	const o = u * QUADRIC_SIZE;
+	const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
+	const error = x * x * quadrics[o] + 2 * x * y * quadrics[o + 1] + 2 * x * z * quadrics[o + 2]
+		+ 2 * x * quadrics[o + 3] + y * y * quadrics[o + 4] + 2 * y * z * quadrics[o + 5]
+		+ 2 * y * quadrics[o + 6] + z * z * quadrics[o + 7] + 2 * z * quadrics[o + 8]
+		+ quadrics[o + 9];
+	const weight = quadrics[o + 10];
+	return weight > 0 ? Math.abs(error) / weight : 0;
+}
+
+/**********************************************************************************************
+ * Utilities.
+ */
+
+/** Unnormalized normal of triangle ABC, with length equal to twice its area. */
+function getNormal(positions: Float64Array, a: number, b: number, c: number): number[] {
+	const ux = positions[b * 3] - positions[a * 3];
+	const uy = positions[b * 3 + 1] - positions[a * 3 + 1];
+	const uz = positions[b * 3 + 2] - positions[a * 3 + 2];
+	const vx = positions[c * 3] - positions[a * 3];
+	const vy = positions[c * 3 + 1] - positions[a * 3 + 1];
+	const vz = positions[c * 3 + 2] - positions[a * 3 + 2];
+	return [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+}
+
+function dot(x: number, y: number, z: number, positions: Float64Array, vertex: number): number {
+	const o = vertex * 3;
+	return x * positions[o] + y * positions[o + 1] + z * positions[o + 2];
+}
+
+/** Largest dimension of the bounding box of the given positions. */
+function getExtent(positions: Float64Array, remap: Uint32Array): number {
+	const min = [Infinity, Infinity, Infinity];
+	const max = [-Infinity, -Infinity, -Infinity];
+	for (let i = 0; i < remap.length; i++) {
+		if (remap[i] !== i) continue;
+		for (let j = 0; j < 3; j++) {
+			min[j] = Math.min(min[j], positions[i * 3 + j]);
+			max[j] = Math.max(max[j], positions[i * 3 + j]);
+		}
+	}
+	return Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 0);
+}
+
+/**
+ * Writes remaining triangles to the primitive, removing unused vertices from its attributes and
+ * morph targets. Accessors shared with other primitives are copied, not modified.
+ */
+function writePrimitive(prim: Primitive, indices: Uint32Array, alive: Uint8Array): void {
+	const srcIndices = prim.getIndices()!;
+	const vertexCount = prim.getAttribute('POSITION')!.getCount();
+
+	// Assign new vertex indices, preserving the original order of vertices.
+	const used = new Uint8Array(vertexCount);
+	const dstIndicesList: number[] = [];
+	for (let t = 0; t < alive.length; t++) {
+		if (!alive[t]) continue;
+		for (let k = 0; k < 3; k++) {
+			used[indices[t * 3 + k]] = 1;
+			dstIndicesList.push(indices[t * 3 + k]);
+		}
+	}
+	const vertexRemap = new Uint32Array(vertexCount);
+	let dstVertexCount = 0;
+	for (let i = 0; i < vertexCount; i++) {
+		if (used[i]) vertexRemap[i] = dstVertexCount++;
+	}
+
+	const dstIndicesArray = createArrayOfType(srcIndices.getArray()!, dstIndicesList.length);
+	for (let i = 0; i < dstIndicesList.length; i++) {
+		dstIndicesArray[i] = vertexRemap[dstIndicesList[i]];
+	}
+	prim.setIndices(srcIndices.clone().setArray(dstIndicesArray));
+	if (srcIndices.listParents().length === 1) srcIndices.dispose();
+
+	if (dstVertexCount === vertexCount) return;
+
+	const parents: (Primitive | PrimitiveTarget)[] = [prim, ...prim.listTargets()];
+	for (const parent of parents) {
+		for (const srcAttr of parent.listAttributes()) {
+			const srcArray = srcAttr.getArray()!;
+			const elementSize = srcAttr.getElementSize();
+			const dstArray = createArrayOfType(srcArray, dstVertexCount * elementSize);
+			for (let i = 0; i < vertexCount; i++) {
+				if (!used[i]) continue;
+				for (let j = 0; j < elementSize; j++) {
+					dstArray[vertexRemap[i] * elementSize + j] = srcArray[i * elementSize + j];
+				}
+			}
+			parent.swap(srcAttr, srcAttr.clone().setArray(dstArray));
+			if (srcAttr.listParents().length === 1) srcAttr.dispose();
+		}
+	}
+}
+
+/** Creates a new TypedArray of the same type as an original, with a new length. */
+function createArrayOfType<T extends TypedArray>(array: T, length: number): T {
+	const ArrayCtor = array.constructor as new (length: number) => T;
+	return new ArrayCtor(length);
+}
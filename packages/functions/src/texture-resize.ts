@@ -1,7 +1,7 @@
 import ndarray from 'ndarray';
 import { lanczos2, lanczos3 } from 'ndarray-lanczos';
 import { getPixels, savePixels } from 'ndarray-pixels';
-import { Document, Transform, vec2 } from '@gltf-transform/core';
+import { Document, Selector, Texture, Transform, vec2 } from '@gltf-transform/core';
 
 const NAME = 'textureResize';
 
@@ -15,8 +15,11 @@ export interface TextureResizeOptions {
 	size: vec2;
 	/** Resampling filter method. LANCZOS3 is sharper, LANCZOS2 is smoother. */
 	filter?: TextureResizeFilter;
-	/** Pattern identifying textures to resize, matched to name or URI. */
-	pattern?: RegExp | null;
+	/**
+	 * Pattern identifying textures to resize, matched to name or URI, or a {@link Selector}
+	 * identifying textures by name, extras, materials using them, etc.
+	 */
+	pattern?: RegExp | Selector | null;
 }
 
 /** Resampling filter methods. LANCZOS3 is sharper, LANCZOS2 is smoother. */
@@ -43,13 +46,17 @@ export function textureResize(_options: TextureResizeOptions = TEXTURE_RESIZE_DE
 	return async (doc: Document): Promise<void> => {
 
 		const logger = doc.getLogger();
+		const pattern = options.pattern;
+		const selected = pattern && !(pattern instanceof RegExp)
+			? new Set(doc.getRoot().select<Texture>(pattern))
+			: null;
 
 		for (const texture of doc.getRoot().listTextures()) {
 			const name = texture.getName();
 			const uri = texture.getURI();
-			const match = !options.pattern
-				|| options.pattern.test(name)
-				|| options.pattern.test(uri);
+			const match = !pattern
+				|| (selected ? selected.has(texture) : false)
+				|| (pattern instanceof RegExp && (pattern.test(name) || pattern.test(uri)));
 			if (!match) continue;
 
 			if (texture.getMimeType() !== 'image/png' && texture.getMimeType() !== 'image/jpeg') {
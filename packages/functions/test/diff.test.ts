@@ -0,0 +1,77 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document } from '@gltf-transform/core';
+import { diff, isDiffEmpty } from '../';
+
+function createDocument (): Document {
+	const doc = new Document();
+	const position = doc.createAccessor('POSITION')
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const material = doc.createMaterial('Wood').setRoughnessFactor(0.5);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setMaterial(material);
+	const mesh = doc.createMesh('Plank').addPrimitive(prim);
+	const node = doc.createNode('Board').setMesh(mesh);
+	doc.createScene('Scene').addChild(node);
+	return doc;
+}
+
+test('@gltf-transform/functions::diff | unchanged', t => {
+	const report = diff(createDocument(), createDocument());
+	t.ok(isDiffEmpty(report), 'empty diff');
+	t.deepEqual(report.materials, {added: [], removed: [], modified: []}, 'materials');
+	t.end();
+});
+
+test('@gltf-transform/functions::diff | added and removed', t => {
+	const a = createDocument();
+	const b = createDocument();
+	a.createTexture('Old').setImage(new ArrayBuffer(4)).setMimeType('image/fake');
+	b.createAnimation('Wave');
+
+	const report = diff(a, b);
+	t.notOk(isDiffEmpty(report), 'non-empty diff');
+	t.deepEqual(report.textures.removed, [{name: 'Old', index: 0}], 'removed texture');
+	t.deepEqual(report.animations.added, [{name: 'Wave', index: 0}], 'added animation');
+	t.deepEqual(report.meshes.modified, [], 'meshes unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::diff | modified', t => {
+	const a = createDocument();
+	const b = createDocument();
+	b.getRoot().listMaterials()[0].setRoughnessFactor(1);
+	b.getRoot().listNodes()[0].setTranslation([0, 2, 0]);
+	b.getRoot().listAccessors()[0].setName('vertices');
+
+	const report = diff(a, b);
+	t.deepEqual(report.materials.modified, [{
+		name: 'Wood',
+		indexA: 0,
+		indexB: 0,
+		changes: [{field: 'roughnessFactor', before: 0.5, after: 1}],
+	}], 'modified material');
+	t.deepEqual(report.nodes.modified[0].changes, [
+		{field: 'translation', before: [0, 0, 0], after: [0, 2, 0]},
+	], 'modified node');
+	t.deepEqual(report.accessors.modified[0].changes, [
+		{field: 'name', before: 'POSITION', after: 'vertices'},
+	], 'renamed accessor matched by content');
+	t.deepEqual(report.accessors.added, [], 'no added accessors');
+	t.end();
+});
+
+test('@gltf-transform/functions::diff | structure', t => {
+	const a = createDocument();
+	const b = createDocument();
+	b.getRoot().listAccessors()[0]
+		.setName('')
+		.setArray(new Float32Array([0, 0, 0, 2, 0, 0, 0, 2, 0]));
+
+	const report = diff(a, b);
+	const fields = report.accessors.modified[0].changes.map((change) => change.field);
+	t.deepEqual(fields, ['name', 'max', 'hash'], 'renamed and modified accessor');
+	t.deepEqual(report.meshes.modified[0].changes.map((c) => c.field), ['hash'], 'mesh data');
+	t.end();
+});
@@ -0,0 +1,201 @@
+require('source-map-support').install();
+
+import fs from 'fs';
+import path from 'path';
+import test from 'tape';
+import { Accessor, BufferUtils, Document, Logger, NodeIO, Primitive } from '@gltf-transform/core';
+import { LOD, LevelOfDetail } from '@gltf-transform/extensions';
+import { lod } from '../';
+
+const SIZE = 8;
+
+/** Creates a flat, indexed grid of SIZE x SIZE quads. */
+function createGrid(doc: Document): Primitive {
+	const buffer = doc.getRoot().listBuffers()[0] || doc.createBuffer();
+	const positions: number[] = [];
+	const indices: number[] = [];
+	for (let y = 0; y <= SIZE; y++) {
+		for (let x = 0; x <= SIZE; x++) positions.push(x, y, 0);
+	}
+	for (let y = 0; y < SIZE; y++) {
+		for (let x = 0; x < SIZE; x++) {
+			const a = y * (SIZE + 1) + x;
+			const d = a + SIZE + 1;
+			indices.push(a, a + 1, d + 1, a, d + 1, d);
+		}
+	}
+	return doc.createPrimitive()
+		.setAttribute('POSITION', doc.createAccessor()
+			.setType(Accessor.Type.VEC3)
+			.setArray(new Float32Array(positions))
+			.setBuffer(buffer))
+		.setIndices(doc.createAccessor()
+			.setArray(new Uint16Array(indices))
+			.setBuffer(buffer));
+}
+
+test('@gltf-transform/functions::lod', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const texture = doc.createTexture('Ground')
+		.setImage(new ArrayBuffer(8))
+		.setMimeType('image/ktx2');
+	const material = doc.createMaterial('Ground').setBaseColorTexture(texture);
+	const prim = createGrid(doc).setMaterial(material);
+	const mesh = doc.createMesh('Ground').addPrimitive(prim);
+	const nodeA = doc.createNode('A').setMesh(mesh).setTranslation([1, 2, 3]);
+	const nodeB = doc.createNode('B').setMesh(mesh);
+	doc.createScene().addChild(nodeA).addChild(nodeB);
+
+	await doc.transform(lod({levels: 2, ratio: 0.5}));
+
+	const lodA = nodeA.getExtension<LOD>('MSFT_lod')!;
+	const lodB = nodeB.getExtension<LOD>('MSFT_lod')!;
+	const [lod1, lod2] = lodA.listLODs();
+	t.ok(lodA && lodB, 'attaches LODs');
+	t.deepEquals(lodA.listLODs().map((node) => node.getName()), ['A_LOD1', 'A_LOD2'], 'levels');
+	t.deepEquals(lod1.getTranslation(), [1, 2, 3], 'copies transform');
+	t.deepEquals(lodA.getScreenCoverage(), [0.5, 0.25, 0], 'default screen coverage');
+	t.deepEquals(
+		lodB.listLODs().map((node) => node.getMesh()),
+		[lod1.getMesh(), lod2.getMesh()],
+		'shares levels of shared meshes'
+	);
+
+	const triangleCount = (node = nodeA) => {
+		return node.getMesh()!.listPrimitives()[0].getIndices()!.getCount() / 3;
+	};
+	t.equals(triangleCount(nodeA), SIZE * SIZE * 2, 'keeps original mesh');
+	t.ok(triangleCount(lod1) <= SIZE * SIZE, 'simplifies level 1');
+	t.ok(triangleCount(lod2) <= SIZE * SIZE / 2, 'simplifies level 2');
+	t.ok(triangleCount(lod2) > 0, 'keeps triangles');
+	t.equals(
+		lod2.getMesh()!.listPrimitives()[0].getMaterial(),
+		material,
+		'shares material without supported textures'
+	);
+
+	const jsonDoc = new NodeIO().writeJSON(doc, {basename: 'lod'});
+	t.deepEquals(jsonDoc.json.scenes![0].nodes, [0, 1], 'levels are not in scene');
+	t.deepEquals(jsonDoc.json.extensionsUsed, ['MSFT_lod'], 'writes extension');
+	t.notOk(jsonDoc.json.extensionsRequired, 'extension is optional');
+	t.deepEquals(jsonDoc.json.nodes![0].extensions, {MSFT_lod: {ids: [2, 3]}}, 'writes ids');
+	t.end();
+});
+
+test('@gltf-transform/functions::lod | textures', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const texture = doc.createTexture('Pattern')
+		.setImage(BufferUtils.trim(fs.readFileSync(path.resolve(__dirname, './in/pattern.png'))))
+		.setMimeType('image/png')
+		.setURI('textures/pattern.png');
+	const material = doc.createMaterial('Pattern')
+		.setBaseColorTexture(texture)
+		.setEmissiveTexture(texture);
+	const node = doc.createNode('A')
+		.setMesh(doc.createMesh().addPrimitive(createGrid(doc).setMaterial(material)));
+	doc.createScene().addChild(node);
+
+	await doc.transform(lod({levels: 2, textureScale: 0.5}));
+
+	const [mat1, mat2] = node.getExtension<LOD>('MSFT_lod')!.listLODs()
+		.map((lodNode) => lodNode.getMesh()!.listPrimitives()[0].getMaterial()!);
+	t.deepEquals([mat1.getName(), mat2.getName()], ['Pattern_LOD1', 'Pattern_LOD2'], 'materials');
+	t.equals(mat1.getBaseColorTexture(), mat1.getEmissiveTexture(), 'shares textures in level');
+	t.deepEquals(
+		[mat1.getBaseColorTexture()!.getURI(), mat2.getBaseColorTexture()!.getURI()],
+		['textures/pattern_LOD1.png', 'textures/pattern_LOD2.png'],
+		'texture URIs'
+	);
+	t.deepEquals(texture.getSize(), [8, 8], 'keeps original texture');
+	t.deepEquals(mat1.getBaseColorTexture()!.getSize(), [4, 4], 'downscales level 1');
+	t.deepEquals(mat2.getBaseColorTexture()!.getSize(), [2, 2], 'downscales level 2');
+	t.end();
+});
+
+test('@gltf-transform/functions::lod | options', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const node = doc.createNode('A').setMesh(doc.createMesh().addPrimitive(createGrid(doc)));
+	doc.createScene().addChild(node);
+
+	await doc.transform(lod({levels: 1, screenCoverage: [0.4, 0.1]}));
+	t.deepEquals(
+		node.getExtension<LOD>('MSFT_lod')!.getScreenCoverage(),
+		[0.4, 0.1],
+		'custom screen coverage'
+	);
+
+	await doc.transform(lod({levels: 3}));
+	t.equals(
+		node.getExtension<LOD>('MSFT_lod')!.listLODs().length,
+		1,
+		'skips nodes with existing LODs'
+	);
+
+	try {
+		await lod({levels: 2, screenCoverage: [0.5]})(doc);
+		t.fail('throws on invalid screen coverage');
+	} catch (e) {
+		const valid = /Expected 3 screen coverage values/.test(e.message);
+		t.ok(valid, 'throws on invalid screen coverage');
+	}
+	t.deepEquals(
+		doc.getRoot().listExtensionsUsed().map((ext) => ext.extensionName),
+		[LevelOfDetail.EXTENSION_NAME],
+		'registers extension'
+	);
+	t.end();
+});
+
+test('@gltf-transform/functions::lod | children', async t => {
+	const doc = new Document();
+	const warnings: string[] = [];
+	const logger = new Logger(Logger.Verbosity.SILENT);
+	logger.warn = (text: string) => warnings.push(text);
+	doc.setLogger(logger);
+
+	const mesh = doc.createMesh().addPrimitive(createGrid(doc));
+	const child = doc.createNode('Child').setMesh(mesh);
+	const parent = doc.createNode('Parent').setMesh(mesh).addChild(child);
+	doc.createScene().addChild(parent);
+
+	await doc.transform(lod({levels: 1}));
+	t.notOk(parent.getExtension('MSFT_lod'), 'skips nodes with children');
+	t.ok(child.getExtension('MSFT_lod'), 'creates levels of detail for leaf nodes');
+	t.deepEquals(warnings, ['lod: Skipped 1 node(s) with children.'], 'warns');
+	t.end();
+});
+
+test('@gltf-transform/functions::lod | animation', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const buffer = doc.createBuffer();
+	const mesh = doc.createMesh().addPrimitive(createGrid(doc));
+	const node = doc.createNode('Animated').setMesh(mesh);
+	doc.createScene().addChild(node);
+
+	const sampler = doc.createAnimationSampler()
+		.setInput(doc.createAccessor().setArray(new Float32Array([0, 1])).setBuffer(buffer))
+		.setOutput(doc.createAccessor()
+			.setType(Accessor.Type.VEC3)
+			.setArray(new Float32Array([0, 0, 0, 0, 1, 0]))
+			.setBuffer(buffer));
+	const animation = doc.createAnimation()
+		.addSampler(sampler)
+		.addChannel(doc.createAnimationChannel()
+			.setTargetNode(node)
+			.setTargetPath('translation')
+			.setSampler(sampler));
+
+	await doc.transform(lod({levels: 2}));
+
+	const levels = node.getExtension<LOD>('MSFT_lod')!.listLODs();
+	const channels = animation.listChannels();
+	t.deepEquals(
+		channels.map((channel) => channel.getTargetNode()),
+		[node, ...levels],
+		'copies channels to each level'
+	);
+	t.ok(channels.every((channel) => channel.getTargetPath() === 'translation'), 'target path');
+	t.ok(channels.every((channel) => channel.getSampler() === sampler), 'shares sampler');
+	t.deepEquals(animation.listSamplers(), [sampler], 'no new samplers');
+	t.end();
+});
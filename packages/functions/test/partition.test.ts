@@ -30,3 +30,16 @@ test('@gltf-transform/functions::partition', t => {
 
 	t.end();
 });
+
+test('@gltf-transform/functions::partition | selector', t => {
+
+	const io = new NodeIO();
+	const doc = io.read(path.join(__dirname, 'in/TwoCubes.glb'))
+		.setLogger(new Logger(Logger.Verbosity.SILENT));
+
+	partition({meshes: {name: 'cubea'}, animations: false})(doc);
+
+	const buffers = doc.getRoot().listBuffers().map((buffer) => buffer.getName());
+	t.deepEqual(buffers.slice(1), ['CubeA'], 'partitions selected meshes');
+	t.end();
+});
@@ -69,3 +69,25 @@ test('@gltf-transform/functions::sequence', async t => {
 
 	t.end();
 });
+
+test('@gltf-transform/functions::sequence | selector', async t => {
+
+	const doc = new Document();
+	const root = doc.getRoot();
+	const scene = doc.createScene();
+
+	for (let i = 0; i < 4; i++) {
+		scene.addChild(doc.createNode(`Step.00${i + 1}`).setExtras({frame: i % 2 === 0}));
+	}
+
+	await doc.transform(sequence({fps: 1, pattern: {name: 'step.*', extras: {frame: true}}}));
+
+	const anim = root.listAnimations().pop();
+
+	t.deepEquals(
+		anim.listChannels().map((channel) => channel.getTargetNode().getName()),
+		['Step.001', 'Step.003'],
+		'creates one channel per selected node'
+	);
+	t.end();
+});
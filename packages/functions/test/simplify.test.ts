@@ -0,0 +1,169 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger, Primitive } from '@gltf-transform/core';
+import { simplify, weld } from '../';
+
+const SIZE = 10;
+
+/**
+ * Creates a flat grid of SIZE x SIZE quads. With a seam, vertices along x=SIZE/2 are split, with
+ * texture coordinates offset by +1 on the right side of the seam.
+ */
+function createGrid(doc: Document, seam: boolean): Primitive {
+	const positions: number[] = [];
+	const texcoords: number[] = [];
+	const vertices: {[key: string]: number} = {};
+	const vertexIndex = (x: number, y: number, right: boolean): number => {
+		const key = `${x},${y},${right && seam && x >= SIZE / 2}`;
+		if (!(key in vertices)) {
+			vertices[key] = positions.length / 3;
+			positions.push(x, y, 0);
+			texcoords.push(x / SIZE + (right && seam && x >= SIZE / 2 ? 1 : 0), y / SIZE);
+		}
+		return vertices[key];
+	};
+
+	const indices: number[] = [];
+	for (let x = 0; x < SIZE; x++) {
+		for (let y = 0; y < SIZE; y++) {
+			const right = x >= SIZE / 2;
+			const a = vertexIndex(x, y, right);
+			const b = vertexIndex(x + 1, y, right);
+			const c = vertexIndex(x + 1, y + 1, right);
+			const d = vertexIndex(x, y + 1, right);
+			indices.push(a, b, c, a, c, d);
+		}
+	}
+
+	return doc.createPrimitive()
+		.setAttribute('POSITION', doc.createAccessor()
+			.setType(Accessor.Type.VEC3)
+			.setArray(new Float32Array(positions)))
+		.setAttribute('TEXCOORD_0', doc.createAccessor()
+			.setType(Accessor.Type.VEC2)
+			.setArray(new Float32Array(texcoords)))
+		.setIndices(doc.createAccessor().setArray(new Uint16Array(indices)));
+}
+
+function getBounds(prim: Primitive): number[] {
+	const position = prim.getAttribute('POSITION')!;
+	const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+	for (let i = 0, el: number[] = []; i < position.getCount(); i++) {
+		position.getElement(i, el);
+		bounds[0] = Math.min(bounds[0], el[0]);
+		bounds[1] = Math.min(bounds[1], el[1]);
+		bounds[2] = Math.max(bounds[2], el[0]);
+		bounds[3] = Math.max(bounds[3], el[1]);
+	}
+	return bounds;
+}
+
+test('@gltf-transform/functions::simplify', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const prim = createGrid(doc, false);
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(simplify({ratio: 0.5}));
+
+	const indices = prim.getIndices()!;
+	t.ok(indices.getCount() / 3 <= 100, 'reaches target ratio');
+	t.ok(indices.getCount() / 3 > 0, 'keeps triangles');
+	t.ok(prim.getAttribute('POSITION')!.getCount() < 121, 'removes vertices');
+	t.equals(
+		prim.getAttribute('TEXCOORD_0')!.getCount(),
+		prim.getAttribute('POSITION')!.getCount(),
+		'compacts all attributes'
+	);
+	t.deepEquals(getBounds(prim), [0, 0, SIZE, SIZE], 'preserves borders');
+	t.equals(doc.getRoot().listAccessors().length, 3, 'disposes unused accessors');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | seams', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const prim = createGrid(doc, true);
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(simplify({ratio: 0.25}));
+
+	const texcoord = prim.getAttribute('TEXCOORD_0')!;
+	const indices = prim.getIndices()!;
+	let crossesSeam = false;
+	for (let i = 0; i < indices.getCount(); i += 3) {
+		const u = [0, 1, 2].map((k) => texcoord.getElement(indices.getScalar(i + k), [])[0]);
+		if (!(u.every((value) => value <= 0.5) || u.every((value) => value >= 1.5))) {
+			crossesSeam = true;
+		}
+	}
+	t.ok(indices.getCount() / 3 < 200, 'simplifies');
+	t.notOk(crossesSeam, 'no triangle crosses the seam');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | lockBorder', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const prim = createGrid(doc, false);
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(simplify({ratio: 0, lockBorder: true}));
+
+	const position = prim.getAttribute('POSITION')!;
+	let borderCount = 0;
+	for (let i = 0, el: number[] = []; i < position.getCount(); i++) {
+		position.getElement(i, el);
+		if (el[0] === 0 || el[1] === 0 || el[0] === SIZE || el[1] === SIZE) borderCount++;
+	}
+	t.equals(borderCount, SIZE * 4, 'keeps border vertices');
+	t.equals(position.getCount(), SIZE * 4, 'removes interior vertices');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | error', async t => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const prim = createGrid(doc, false);
+	doc.createMesh().addPrimitive(prim);
+
+	// Raise alternating rows of vertices, so that collapses across rows are costly.
+	const position = prim.getAttribute('POSITION')!;
+	for (let i = 0, el: number[] = []; i < position.getCount(); i++) {
+		position.getElement(i, el);
+		position.setElement(i, [el[0], el[1], el[1] % 2]);
+	}
+
+	await doc.transform(simplify({ratio: 0, error: 0.001}));
+
+	const dstPosition = prim.getAttribute('POSITION')!;
+	const rows = new Set<number>();
+	for (let i = 0, el: number[] = []; i < dstPosition.getCount(); i++) {
+		rows.add(dstPosition.getElement(i, el)[1]);
+	}
+	t.equals(rows.size, SIZE + 1, 'preserves features above error limit');
+	t.ok(prim.getIndices()!.getCount() / 3 < 200, 'simplifies within error limit');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | unindexed', async t => {
+	const doc = new Document();
+	const warnings: string[] = [];
+	const logger = new Logger(Logger.Verbosity.SILENT);
+	logger.warn = (text: string) => warnings.push(text);
+	doc.setLogger(logger);
+
+	const position = doc.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const prim = doc.createPrimitive().setAttribute('POSITION', position);
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(simplify());
+	t.deepEquals(
+		warnings,
+		['simplify: Skipped 1 unindexed primitive(s). Use weld() first.'],
+		'warns'
+	);
+
+	await doc.transform(weld(), simplify());
+	t.equals(prim.getIndices()!.getCount(), 3, 'simplifies after weld, keeping last triangle');
+	t.end();
+});